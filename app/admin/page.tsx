@@ -0,0 +1,25 @@
+import type { Metadata } from "next"
+import AdminConsole, { AdminLogin } from "@/components/admin-console"
+import { adminEnabled, isAdmin } from "@/lib/admin/auth"
+
+export const dynamic = "force-dynamic"
+
+export const metadata: Metadata = {
+  title: "Scheme admin",
+  robots: { index: false, follow: false },
+}
+
+// Operator-only and desktop-sized; the public app's languages and KaiOS layout do not apply here.
+export default async function AdminPage() {
+  return (
+    <main className="mx-auto w-full max-w-3xl p-3">
+      {!adminEnabled() ? (
+        <p className="win-surface p-3 text-sm">The admin console is disabled. Set ADMIN_PASSWORD on the server to enable it.</p>
+      ) : (await isAdmin()) ? (
+        <AdminConsole />
+      ) : (
+        <AdminLogin />
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,56 @@
+// Server route: What the console needs for one scope — the region's listing as the providers return
+// it (before overrides), the scope's own overrides, the listing users see, and provider health.
+
+import type { NextRequest } from "next/server"
+import { isAdmin } from "@/lib/admin/auth"
+import { applyOverrides, EMPTY_SCOPE, loadOverrides, overridesFor, scopeKey } from "@/lib/admin/overrides"
+import { resolveRegion } from "@/lib/gazetteer"
+import { DEFAULT_LOCALE, isLocale } from "@/lib/i18n"
+import { errorFields, log, withRequest } from "@/lib/log"
+import { getSchemes } from "@/lib/schemes/pipeline"
+import { listProviders } from "@/lib/schemes/providers"
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } })
+
+export const GET = withRequest("/api/admin/items", async (req: NextRequest) => {
+  if (!(await isAdmin())) return json({ error: "Not signed in" }, 401)
+  const params = req.nextUrl.searchParams
+  const langParam = params.get("lang")
+  const lang = isLocale(langParam) ? langParam : DEFAULT_LOCALE
+  const state = params.get("state") || ""
+  const match = state ? resolveRegion(state, params.get("district") || "") : null
+  if (state && !match) return json({ error: "Unknown state" }, 400)
+  const canonState = match?.state ?? ""
+  const canonDistrict = match?.district ?? ""
+  const scope = scopeKey(canonState, canonDistrict)
+
+  const store = await loadOverrides()
+  const own = store.scopes[scope] ?? EMPTY_SCOPE
+  // "All regions" has no listing of its own; its entries are shown on their own
+  let items: unknown[] = []
+  let effective: unknown[] = []
+  let error: string | undefined
+  if (canonState) {
+    try {
+      const { value } = await getSchemes(canonState, canonDistrict, lang)
+      items = value.items
+      effective = applyOverrides(value.items, await overridesFor(canonState, canonDistrict), { lang })
+    } catch (err: any) {
+      log.error("admin.listing_failed", errorFields(err))
+      error = err?.message || "Unknown error"
+    }
+  }
+
+  return json({
+    scope,
+    state: canonState || null,
+    district: canonDistrict || null,
+    lang,
+    overrides: own,
+    items,
+    effective,
+    error,
+    providers: listProviders(),
+  })
+})
@@ -0,0 +1,35 @@
+// Server route: Exchange the operator password for a session cookie (see lib/admin/auth).
+
+import type { NextRequest } from "next/server"
+import { ADMIN_COOKIE, adminEnabled, checkPassword, createSession, SESSION_MS } from "@/lib/admin/auth"
+import { log, withRequest } from "@/lib/log"
+
+// Each wrong password costs the caller this long, which makes guessing impractically slow
+const FAILURE_DELAY_MS = 1000
+
+export const POST = withRequest("/api/admin/login", async (req: NextRequest) => {
+  if (!adminEnabled()) {
+    return new Response(JSON.stringify({ error: "Admin console is disabled (ADMIN_PASSWORD is not set)" }), {
+      status: 404,
+    })
+  }
+  const body = await req.json().catch(() => null)
+  const password = typeof body?.password === "string" ? body.password : ""
+  if (!checkPassword(password)) {
+    await new Promise((resolve) => setTimeout(resolve, FAILURE_DELAY_MS))
+    log.warn("admin.login_rejected")
+    return new Response(JSON.stringify({ error: "Wrong password" }), { status: 401 })
+  }
+
+  const res = new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json" } })
+  const cookie = [
+    `${ADMIN_COOKIE}=${createSession()}`,
+    "Path=/",
+    `Max-Age=${SESSION_MS / 1000}`,
+    "HttpOnly",
+    "SameSite=Strict",
+    process.env.NODE_ENV === "production" ? "Secure" : "",
+  ]
+  res.headers.append("Set-Cookie", cookie.filter(Boolean).join("; "))
+  return res
+})
@@ -0,0 +1,9 @@
+// Server route: End the operator session.
+
+import { ADMIN_COOKIE } from "@/lib/admin/auth"
+
+export async function POST() {
+  const res = new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json" } })
+  res.headers.append("Set-Cookie", `${ADMIN_COOKIE}=; Path=/; Max-Age=0; HttpOnly; SameSite=Strict`)
+  return res
+}
@@ -0,0 +1,54 @@
+// Server route: Read all operator overrides, or replace the overrides for one scope.
+// PUT body: { state?, district?, overrides: ScopeOverrides | null }; no state means all regions and
+// null overrides removes the scope.
+
+import type { NextRequest } from "next/server"
+import { isAdmin } from "@/lib/admin/auth"
+import {
+  loadOverrides,
+  OverridesStoreError,
+  saveScope,
+  ScopeOverridesSchema,
+  scopeKey,
+  type ScopeOverrides,
+} from "@/lib/admin/overrides"
+import { resolveRegion } from "@/lib/gazetteer"
+import { errorFields, log, withRequest } from "@/lib/log"
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } })
+
+export const GET = withRequest("/api/admin/overrides", async () => {
+  if (!(await isAdmin())) return json({ error: "Not signed in" }, 401)
+  return json(await loadOverrides())
+})
+
+export const PUT = withRequest("/api/admin/overrides", async (req: NextRequest) => {
+  if (!(await isAdmin())) return json({ error: "Not signed in" }, 401)
+  const body = await req.json().catch(() => null)
+  if (!body || typeof body !== "object") return json({ error: "Expected a JSON body" }, 400)
+
+  // Scopes are keyed by canonical region names, so "MH" and "Maharashtra" edit the same scope
+  const state = typeof body.state === "string" ? body.state : ""
+  const district = typeof body.district === "string" ? body.district : ""
+  const match = state ? resolveRegion(state, district) : null
+  if (state && (!match || (district && !match.district))) return json({ error: "Unknown state or district" }, 400)
+  const scope = scopeKey(match?.state ?? "", match?.district ?? "")
+
+  let overrides: ScopeOverrides | null = null
+  if (body.overrides !== null) {
+    const parsed = ScopeOverridesSchema.safeParse(body.overrides)
+    if (!parsed.success) return json({ error: "Invalid overrides", issues: parsed.error.issues }, 400)
+    overrides = parsed.data
+  }
+  try {
+    const store = await saveScope(scope, overrides)
+    log.info("admin.overrides_saved", { scope })
+    return json({ scope, store })
+  } catch (err) {
+    if (!(err instanceof OverridesStoreError)) throw err
+    // Someone edited the file by hand and broke it; saving now would drop every other scope
+    log.error("admin.overrides_store_invalid", { scope, ...errorFields(err) })
+    return json({ error: "The overrides file on the server is invalid; fix or remove it, then save again" }, 409)
+  }
+})
@@ -0,0 +1,63 @@
+// Server route: Nearest help centres (CSCs, banks, post offices, district offices) to apply for schemes
+// at. With lat/lon they are sorted by distance; without (a region picked by hand) the district's
+// centres are listed. Always includes the CSC helpline, which can point to a centre the data lacks,
+// so a whole-state region with no coordinates still gets an answer.
+
+import type { NextRequest } from "next/server"
+import { centreIndex, CSC_HELPLINE, parseKinds } from "@/lib/centres"
+import { resolveRegion } from "@/lib/gazetteer"
+import { withRequest } from "@/lib/log"
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 50
+const DEFAULT_RADIUS_KM = 50
+const MAX_RADIUS_KM = 200
+
+function clampedInt(value: string | null, fallback: number, max: number) {
+  const n = Number.parseInt(value ?? "", 10)
+  return Number.isFinite(n) && n > 0 ? Math.min(n, max) : fallback
+}
+
+export const GET = withRequest("/api/centres", async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams
+  const lat = params.get("lat")
+  const lon = params.get("lon")
+  const state = params.get("state") || ""
+  const district = params.get("district") || ""
+  const limit = clampedInt(params.get("limit"), DEFAULT_LIMIT, MAX_LIMIT)
+  const maxKm = clampedInt(params.get("radius"), DEFAULT_RADIUS_KM, MAX_RADIUS_KM)
+  const kinds = parseKinds(params.get("kind"))
+  if (!kinds) {
+    return new Response(JSON.stringify({ centres: [], error: "Unknown kind" }), { status: 400 })
+  }
+  const point = lat && lon ? { lat: Number(lat), lon: Number(lon) } : null
+  if (point && (!Number.isFinite(point.lat) || !Number.isFinite(point.lon))) {
+    return new Response(JSON.stringify({ centres: [], error: "Invalid lat/lon" }), { status: 400 })
+  }
+  const match = state ? resolveRegion(state, district) : null
+  if (!point && !match) {
+    return new Response(JSON.stringify({ centres: [], error: "Provide lat/lon or a known region" }), { status: 400 })
+  }
+
+  const index = await centreIndex()
+  let mode: "nearest" | "district" = point ? "nearest" : "district"
+  let centres = point ? index.nearest(point, { kinds, limit, maxKm }) : []
+  // Nothing close by in the data: the district's own centres are the next best answer
+  if (!centres.length && match?.districtCode) {
+    mode = "district"
+    centres = index.inDistrict(match.districtCode, { kinds, limit })
+  }
+
+  return new Response(
+    JSON.stringify({
+      mode,
+      centres: centres.map((c) => ({
+        ...c,
+        distanceKm: c.distanceKm === null ? null : Math.round(c.distanceKm * 10) / 10,
+      })),
+      coverage: index.coverage,
+      helplines: [{ kind: "csc", phone: CSC_HELPLINE }],
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } },
+  )
+})
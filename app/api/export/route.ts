@@ -0,0 +1,77 @@
+// Server route: Bulk export of several regions' scheme lists for NGOs and CSC operators.
+// ?region=Maharashtra/Nagpur&region=Karnataka (repeated or comma-separated) &format=csv|json|html
+// &lang=hi &cat=health. Each region runs through the same pipeline as /api/schemes, a few at a time
+// (EXPORT_CONCURRENCY); a region that fails is marked in the export rather than failing all of it.
+// The middleware charges each distinct region it resolves against the client's rate limit.
+
+import type { NextRequest } from "next/server"
+import {
+  collectRegions,
+  EXPORT_FORMATS,
+  exportCsv,
+  exportHtml,
+  exportJson,
+  MAX_EXPORT_REGIONS,
+  type ExportFormat,
+} from "@/lib/export"
+import { parseRegions } from "@/lib/gazetteer"
+import { isLocale, matchAcceptLanguage, translate, type MessageKey } from "@/lib/i18n"
+import { DEGRADED_HEADER, log, withRequest } from "@/lib/log"
+import { categoryParam } from "@/lib/share"
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json",
+  html: "text/html; charset=utf-8",
+}
+
+function badRequest(error: string) {
+  return new Response(JSON.stringify({ error }), { status: 400, headers: { "Content-Type": "application/json" } })
+}
+
+export const GET = withRequest("/api/export", async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams
+  const langParam = params.get("lang")
+  const lang = isLocale(langParam) ? langParam : matchAcceptLanguage(req.headers.get("accept-language"))
+  const format = (params.get("format") || "csv") as ExportFormat
+  if (!EXPORT_FORMATS.includes(format)) return badRequest(`Unknown format; use ${EXPORT_FORMATS.join(", ")}`)
+  const cat = params.get("cat")
+  const category = categoryParam(cat)
+  if (cat && !category) return badRequest("Unknown category")
+
+  const { regions, unknown } = parseRegions(params.getAll("region"))
+  if (unknown.length) return badRequest(`Unknown region: ${unknown.join(", ")}`)
+  if (!regions.length) return badRequest("Provide at least one region, e.g. ?region=Maharashtra/Nagpur")
+  if (regions.length > MAX_EXPORT_REGIONS) return badRequest(`At most ${MAX_EXPORT_REGIONS} regions per export`)
+
+  const started = Date.now()
+  const results = await collectRegions(regions, lang, { category })
+  const failed = results.filter((r) => r.status === "failed").length
+  const degraded = results.filter((r) => r.status !== "ok").length
+  log.info("export.done", {
+    format,
+    regions: results.length,
+    failed,
+    degraded,
+    schemes: results.reduce((n, r) => n + r.items.length, 0),
+    ms: Date.now() - started,
+  })
+
+  const t = (key: MessageKey, vars?: Record<string, string | number>) => translate(lang, key, vars)
+  const generatedAt = new Date().toISOString()
+  const body =
+    format === "csv"
+      ? exportCsv(results, t)
+      : format === "json"
+        ? JSON.stringify(exportJson(results, { lang, generatedAt }))
+        : exportHtml(results, t, { lang, generatedAt })
+  const headers: Record<string, string> = { "Content-Type": CONTENT_TYPES[format], "Cache-Control": "no-store" }
+  // Spreadsheet and data files download; the handout opens in the browser to print
+  if (format !== "html") {
+    headers["Content-Disposition"] = `attachment; filename="schemes-${generatedAt.slice(0, 10)}.${format}"`
+  }
+  // Regions listed from curated data alone (or not at all) mark the export degraded; only when no
+  // region could be listed is there nothing worth serving
+  if (degraded) headers[DEGRADED_HEADER] = "1"
+  return new Response(body, { status: failed === results.length ? 502 : 200, headers })
+})
@@ -1,70 +1,142 @@
 // Server route: Reverse-geocode lat/lon to Indian State/District
-// Uses Nominatim (OpenStreetMap). This avoids CORS issues on KaiOS browsers.
+// Two sources, reported in `source`: bundled boundaries (lib/boundaries, no network) and Nominatim
+// (OpenStreetMap) through the shared upstream client, which holds it to one request per second. A
+// bundled district answers on its own; where the bundle only knows the state, Nominatim is asked for
+// the district and the state alone is returned if it fails. Names are normalized through the gazetteer
+// so responses carry stable state/district codes.
 
 import type { NextRequest } from "next/server"
+import { boundaryIndex, locateRegion } from "@/lib/boundaries"
+import { cached, envSeconds } from "@/lib/cache"
+import { resolveRegion, type RegionMatch } from "@/lib/gazetteer"
+import { UpstreamError, upstreamFetch } from "@/lib/http/client"
+import { errorFields, log, withRequest } from "@/lib/log"
 
-// Minimal normalization for common UT/State naming mismatches
-const STATE_NORMALIZE: Record<string, string> = {
-  "NCT of Delhi": "Delhi",
-  "National Capital Territory of Delhi": "Delhi",
-  "Jammu and Kashmir": "Jammu & Kashmir",
-  "Andaman and Nicobar Islands": "Andaman & Nicobar Islands",
-  "Dadra and Nagar Haveli and Daman and Diu": "Dadra & Nagar Haveli and Daman & Diu",
-  Odisha: "Odisha", // keep
-  Orissa: "Odisha",
-  Puducherry: "Puducherry",
-  Pondicherry: "Puducherry",
+class ReverseGeocodeError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+  }
+}
+
+type GeoPayload = {
+  state: string | null
+  district: string | null
+  stateCode: string | null
+  districtCode: string | null
+  districtLgd: string | null
+  raw: { address: any }
 }
 
-function normalizeStateName(input?: string | null): string | null {
-  if (!input) return null
-  const trimmed = input.trim()
-  return STATE_NORMALIZE[trimmed] ?? trimmed
+function boundaryResponse(match: RegionMatch) {
+  return new Response(
+    JSON.stringify({
+      state: match.state,
+      district: match.district,
+      stateCode: match.stateCode,
+      districtCode: match.districtCode,
+      districtLgd: match.districtLgd,
+      source: "boundaries",
+      coverage: boundaryIndex().coverage,
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } },
+  )
+}
+
+// Administrative boundaries rarely change: fresh for 30 days, then served stale for up to a year.
+const GEO_CACHE = {
+  ttlMs: envSeconds("GEO_CACHE_TTL", 30 * 24 * 60 * 60),
+  staleMs: envSeconds("GEO_CACHE_STALE", 365 * 24 * 60 * 60),
+  shouldCache: (p: GeoPayload) => Boolean(p.state),
+}
+
+// Two decimals is roughly 1km, well inside a district, and lets nearby handsets share entries.
+function coordKey(lat: number, lon: number) {
+  return `${lat.toFixed(2)},${lon.toFixed(2)}`
+}
+
+async function reverseGeocode(lat: string, lon: string): Promise<GeoPayload> {
+  const url = new URL("https://nominatim.openstreetmap.org/reverse")
+  url.searchParams.set("format", "jsonv2")
+  url.searchParams.set("lat", lat)
+  url.searchParams.set("lon", lon)
+  url.searchParams.set("zoom", "10")
+  url.searchParams.set("addressdetails", "1")
+  // English names match the gazetteer's primary names best; local scripts are covered by its aliases
+  url.searchParams.set("accept-language", "en")
+
+  const res = await upstreamFetch(url.toString(), { headers: { Accept: "application/json" } })
+  if (!res.ok) throw new ReverseGeocodeError(`Reverse geocode failed: ${res.status}`, 502)
+  const data = await res.json()
+  const addr = data?.address || {}
+  // District keys vary in OSM data: state_district, county, district
+  const rawDistrict = addr.state_district || addr.district || addr.county || null
+  const rawState = addr.state || null
+  // Map OSM's free-form names ("Nagpur Rural", "NCT of Delhi") onto canonical gazetteer entries
+  const match = rawState ? resolveRegion(rawState, rawDistrict) : null
+  return {
+    state: match?.state ?? rawState,
+    district: match?.district ?? rawDistrict,
+    stateCode: match?.stateCode ?? null,
+    districtCode: match?.districtCode ?? null,
+    districtLgd: match?.districtLgd ?? null,
+    raw: { address: addr },
+  }
 }
 
-export async function GET(req: NextRequest) {
+export const GET = withRequest("/api/geo", async (req: NextRequest) => {
   const lat = req.nextUrl.searchParams.get("lat")
   const lon = req.nextUrl.searchParams.get("lon")
   if (!lat || !lon) {
     return new Response(JSON.stringify({ state: null, district: null, error: "Missing lat/lon" }), { status: 400 })
   }
+  if (!Number.isFinite(Number(lat)) || !Number.isFinite(Number(lon))) {
+    return new Response(JSON.stringify({ state: null, district: null, error: "Invalid lat/lon" }), { status: 400 })
+  }
+
+  const local = locateRegion(Number(lat), Number(lon))
+  if (local?.district) return boundaryResponse(local)
 
   try {
-    const url = new URL("https://nominatim.openstreetmap.org/reverse")
-    url.searchParams.set("format", "jsonv2")
-    url.searchParams.set("lat", lat)
-    url.searchParams.set("lon", lon)
-    url.searchParams.set("zoom", "10")
-    url.searchParams.set("addressdetails", "1")
+    // Query Nominatim with the rounded point so the cached answer matches the key it is stored under
+    const key = coordKey(Number(lat), Number(lon))
+    const [rlat, rlon] = key.split(",")
+    const { value, storedAt, ageMs, stale } = await cached("geo", key, GEO_CACHE, () => reverseGeocode(rlat, rlon))
 
-    const res = await fetch(url.toString(), {
-      headers: {
-        "User-Agent": "v0-myscheme-locator/1.0 (https://v0.app)",
-        Accept: "application/json",
+    return new Response(
+      JSON.stringify({
+        ...value,
+        source: "nominatim",
+        cachedAt: new Date(storedAt).toISOString(),
+        cacheAge: Math.round(ageMs / 1000),
+        stale,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
       },
-      // Nominatim requires GET; rate-limit friendly
-      cache: "no-store",
-    })
-    if (!res.ok) {
-      return new Response(
-        JSON.stringify({ state: null, district: null, error: `Reverse geocode failed: ${res.status}` }),
-        { status: 502 },
-      )
-    }
-    const data = await res.json()
-    const addr = data?.address || {}
-    // District keys vary in OSM data: state_district, county, district
-    const district = addr.state_district || addr.district || addr.county || null
-    const state = normalizeStateName(addr.state || null)
-
-    return new Response(JSON.stringify({ state, district, raw: { address: addr } }), {
-      status: 200,
-      headers: { "Content-Type": "application/json" },
-    })
+    )
   } catch (err: any) {
+    if (local) {
+      log.warn("geo.fallback_boundaries", errorFields(err))
+      return boundaryResponse(local)
+    }
+    if (err instanceof ReverseGeocodeError) {
+      return new Response(JSON.stringify({ state: null, district: null, error: err.message }), { status: err.status })
+    }
+    if (err instanceof UpstreamError) {
+      // Busy or backing off: ask the client to come back rather than retry at once
+      const busy = err.kind === "circuit-open" || err.kind === "queue-full"
+      return new Response(JSON.stringify({ state: null, district: null, error: err.message }), {
+        status: busy ? 503 : err.kind === "timeout" ? 504 : 502,
+        headers: busy ? { "Retry-After": "30" } : undefined,
+      })
+    }
     return new Response(
       JSON.stringify({ state: null, district: null, error: err?.message || "Reverse geocode error" }),
       { status: 500 },
     )
   }
-}
+})
@@ -0,0 +1,60 @@
+// Server route: Service health for monitors and operators. Reports per-provider outcome counts, timings
+// and recent success rates, upstream circuit breakers, and an overall ok / degraded / down verdict
+// (503 when down). ?probe=1 also requests each upstream now to check it is reachable.
+
+import type { NextRequest } from "next/server"
+import { healthStatus, type ProbeResult } from "@/lib/health"
+import { upstreamFetch, upstreamStatus } from "@/lib/http/client"
+import { withRequest } from "@/lib/log"
+import { providerMetrics, upstreamMetrics } from "@/lib/metrics"
+import { listProviders } from "@/lib/schemes/providers"
+
+const PROBES: { host: string; url: string }[] = [
+  { host: "www.myscheme.gov.in", url: "https://www.myscheme.gov.in/" },
+  { host: "nominatim.openstreetmap.org", url: "https://nominatim.openstreetmap.org/status" },
+]
+
+async function probe({ host, url }: { host: string; url: string }): Promise<ProbeResult> {
+  const started = Date.now()
+  try {
+    const res = await upstreamFetch(url)
+    await res.body?.cancel()
+    return { host, ok: res.ok, status: res.status, ms: Date.now() - started }
+  } catch (err: any) {
+    return { host, ok: false, status: err?.status ?? null, ms: Date.now() - started, error: err?.message }
+  }
+}
+
+export const GET = withRequest("/api/health", async (req: NextRequest) => {
+  // Replayed fixtures never reach the network, so there is nothing to probe
+  const probes =
+    req.nextUrl.searchParams.get("probe") === "1" && !process.env.MYSCHEME_REPLAY
+      ? await Promise.all(PROBES.map(probe))
+      : undefined
+
+  const providers = listProviders()
+  const metrics = providerMetrics()
+  const upstreams = upstreamStatus()
+  const { status, providers: verdicts } = healthStatus({ providers, providerMetrics: metrics, upstreams, probes })
+
+  return new Response(
+    JSON.stringify({
+      status,
+      checkedAt: new Date().toISOString(),
+      providers: providers.map((p) => ({
+        ...p,
+        verdict: verdicts.find((v) => v.name === p.name)?.verdict ?? null,
+        metrics: metrics.find((m) => m.name === p.name) ?? null,
+      })),
+      upstreams: upstreamMetrics().map((m) => ({
+        ...m,
+        breaker: upstreams.find((u) => u.host === m.name)?.breaker ?? null,
+      })),
+      probes: probes ?? null,
+    }),
+    {
+      status: status === "down" ? 503 : 200,
+      headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+    },
+  )
+})
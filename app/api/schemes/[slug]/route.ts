@@ -0,0 +1,61 @@
+// Server route: Structured detail (benefits, eligibility, documents, process, FAQs) for one myScheme scheme.
+
+import type { NextRequest } from "next/server"
+import { cached, envSeconds } from "@/lib/cache"
+import { UpstreamError, upstreamErrorStatus } from "@/lib/http/client"
+import { errorFields, log, withRequest } from "@/lib/log"
+import { fetchSchemeDetail, hasSections, schemeUrl, type SchemeDetail } from "@/lib/schemes/detail"
+import { mySchemeLocale } from "@/lib/schemes/myscheme"
+import { isValidSlug } from "@/lib/schemes/slug"
+
+// Scheme pages change rarely: fresh for a day, then served stale for up to 30 days.
+const DETAIL_CACHE = {
+  ttlMs: envSeconds("DETAIL_CACHE_TTL", 24 * 60 * 60),
+  staleMs: envSeconds("DETAIL_CACHE_STALE", 30 * 24 * 60 * 60),
+  shouldCache: (d: SchemeDetail | null) => Boolean(d && hasSections(d)),
+}
+
+type Params = { params: Promise<{ slug: string }> }
+
+export const GET = withRequest("/api/schemes/[slug]", async (req: NextRequest, { params }: Params) => {
+  const { slug } = await params
+  if (!isValidSlug(slug)) {
+    return new Response(JSON.stringify({ detail: null, error: "Invalid scheme slug" }), { status: 400 })
+  }
+  // Only languages myScheme publishes change the page fetched; others share the English entry
+  const lang = mySchemeLocale(req.nextUrl.searchParams.get("lang")) ?? "en"
+
+  try {
+    const { value, storedAt, ageMs } = await cached("scheme-detail", `${slug}|${lang}`, DETAIL_CACHE, () =>
+      fetchSchemeDetail(slug, lang),
+    )
+    if (!value) {
+      return new Response(
+        JSON.stringify({ detail: null, url: schemeUrl(slug), error: "Could not load the scheme page right now." }),
+        { status: 502, headers: { "Content-Type": "application/json" } },
+      )
+    }
+    return new Response(
+      JSON.stringify({ detail: value, cachedAt: new Date(storedAt).toISOString(), cacheAge: Math.round(ageMs / 1000) }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    )
+  } catch (err: any) {
+    if (err instanceof UpstreamError) {
+      const status = upstreamErrorStatus(err)
+      log.warn("detail.upstream_failed", { slug, kind: err.kind, upstreamStatus: err.status, status })
+      return new Response(
+        JSON.stringify({
+          detail: null,
+          url: schemeUrl(slug),
+          error: status === 404 ? "Scheme page not found" : "Could not load the scheme page right now.",
+        }),
+        { status, headers: { "Content-Type": "application/json" } },
+      )
+    }
+    log.error("detail.failed", { slug, ...errorFields(err) })
+    return new Response(
+      JSON.stringify({ detail: null, url: schemeUrl(slug), error: err?.message || "Unknown error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    )
+  }
+})
@@ -0,0 +1,85 @@
+// Server route: Recent scheme changes (added, removed, modified) for a tracked region, as recorded by
+// the snapshot job (lib/schemes/changes.ts). JSON by default; ?format=atom or ?format=rss for feed
+// readers. Untracked regions answer with `tracked: false` and no changes.
+
+import type { NextRequest } from "next/server"
+import { atomFeed, rssFeed, type Feed } from "@/lib/feed"
+import { resolveRegion } from "@/lib/gazetteer"
+import { isLocale, matchAcceptLanguage, translate } from "@/lib/i18n"
+import { withRequest } from "@/lib/log"
+import { changesFor, MAX_CHANGES, type SchemeChange } from "@/lib/schemes/changes"
+import { absoluteUrl } from "@/lib/schemes/slug"
+import { permalinkPath, publicOrigin } from "@/lib/share"
+
+const DEFAULT_LIMIT = 50
+
+const KIND_LABELS = { added: "changes.added", removed: "changes.removed", modified: "changes.modified" } as const
+
+export const GET = withRequest("/api/schemes/changes", async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams
+  const state = params.get("state") || ""
+  const district = params.get("district") || ""
+  const format = params.get("format") || "json"
+  const parsedLimit = Number.parseInt(params.get("limit") ?? "", 10)
+  const limit = Number.isFinite(parsedLimit) ? Math.min(Math.max(parsedLimit, 1), MAX_CHANGES) : DEFAULT_LIMIT
+  const langParam = params.get("lang")
+  const lang = isLocale(langParam) ? langParam : matchAcceptLanguage(req.headers.get("accept-language"))
+  if (!state) {
+    return new Response(JSON.stringify({ error: "Missing state parameter" }), { status: 400 })
+  }
+  if (!["json", "atom", "rss"].includes(format)) {
+    return new Response(JSON.stringify({ error: "Unknown format; use json, atom or rss" }), { status: 400 })
+  }
+  const match = resolveRegion(state, district)
+  if (!match) {
+    return new Response(JSON.stringify({ error: "Unknown region" }), { status: 404 })
+  }
+
+  const canonDistrict = match.district ?? ""
+  const record = await changesFor(match.state, canonDistrict)
+  const changes = record?.changes.slice(0, limit) ?? []
+  const region = canonDistrict ? `${canonDistrict}, ${match.state}` : match.state
+
+  const origin = publicOrigin((name) => req.headers.get(name))
+  const query = new URLSearchParams({ state: match.state, lang })
+  if (canonDistrict) query.set("district", canonDistrict)
+  const feedUrl = (f: string) => `${origin}/api/schemes/changes?${query}&format=${f}`
+
+  if (format === "json") {
+    return new Response(
+      JSON.stringify({
+        state: match.state,
+        district: canonDistrict || null,
+        tracked: Boolean(record),
+        snapshotAt: record?.snapshotAt ?? null,
+        changes,
+        feeds: { atom: feedUrl("atom"), rss: feedUrl("rss") },
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    )
+  }
+
+  const link = `${origin}${permalinkPath(match.state, canonDistrict)}`
+  const entryLink = (c: SchemeChange) => (c.kind === "removed" ? link : absoluteUrl(c.href))
+  const feed: Feed = {
+    id: feedUrl("atom"),
+    title: translate(lang, "changes.feedTitle", { region }),
+    link,
+    self: feedUrl(format),
+    updated: changes[0]?.at ?? record?.snapshotAt ?? new Date(0).toISOString(),
+    lang,
+    entries: changes.map((c) => ({
+      id: `${feedUrl("atom")}#${c.id}`,
+      title: `${translate(lang, KIND_LABELS[c.kind])}: ${c.title}`,
+      link: entryLink(c),
+      updated: c.at,
+      summary: c.fields?.join(", "),
+    })),
+  }
+  return new Response(format === "atom" ? atomFeed(feed) : rssFeed(feed), {
+    status: 200,
+    headers: {
+      "Content-Type": format === "atom" ? "application/atom+xml; charset=utf-8" : "application/rss+xml; charset=utf-8",
+    },
+  })
+})
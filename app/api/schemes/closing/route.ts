@@ -0,0 +1,71 @@
+// Server route: Schemes for a region whose application window closes within the next N days.
+// Uses the same cached listing as /api/schemes; only items with a known closing date can appear.
+// Days are counted in IST, so "closes today" matches what users in India see on their phones.
+
+import type { NextRequest } from "next/server"
+import { closingWithin, CLOSING_SOON_DAYS, daysBetween, INDIA_TIME_ZONE, todayIso } from "@/lib/deadlines"
+import { resolveRegion } from "@/lib/gazetteer"
+import { isLocale, matchAcceptLanguage, translate } from "@/lib/i18n"
+import { DEGRADED_HEADER, errorFields, log, withRequest } from "@/lib/log"
+import { getListing, upstreamFailed } from "@/lib/schemes/pipeline"
+
+const MAX_DAYS = 365
+
+export const GET = withRequest("/api/schemes/closing", async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams
+  const state = params.get("state") || ""
+  const district = params.get("district") || ""
+  const parsedDays = Number.parseInt(params.get("days") ?? "", 10)
+  const days = Number.isFinite(parsedDays) ? Math.min(Math.max(parsedDays, 0), MAX_DAYS) : CLOSING_SOON_DAYS
+  const langParam = params.get("lang")
+  const lang = isLocale(langParam) ? langParam : matchAcceptLanguage(req.headers.get("accept-language"))
+  if (!state) {
+    return new Response(JSON.stringify({ items: [], note: "Missing state parameter" }), { status: 400 })
+  }
+
+  const match = resolveRegion(state, district)
+  const canonState = match?.state ?? state
+  const canonDistrict = match?.district ?? district
+  const today = todayIso(INDIA_TIME_ZONE)
+
+  try {
+    const { value, items: listed, storedAt, stale } = await getListing(canonState, canonDistrict, lang)
+    const degraded = upstreamFailed(value)
+    const items = closingWithin(listed, today, days).map((item) => ({
+      ...item,
+      daysLeft: daysBetween(today, item.closeDate!),
+    }))
+    return new Response(
+      JSON.stringify({
+        items,
+        today,
+        days,
+        state: canonState,
+        district: canonDistrict || null,
+        stateCode: match?.stateCode ?? null,
+        districtCode: match?.districtCode ?? null,
+        lang,
+        cachedAt: new Date(storedAt).toISOString(),
+        stale,
+        degraded,
+      }),
+      {
+        status: !listed.length && degraded ? 502 : 200,
+        headers: { "Content-Type": "application/json", ...(degraded ? { [DEGRADED_HEADER]: "1" } : {}) },
+      },
+    )
+  } catch (err: any) {
+    log.error("closing.failed", errorFields(err))
+    return new Response(
+      JSON.stringify({
+        items: [],
+        today,
+        days,
+        note: translate(lang, "notes.unexpected"),
+        lang,
+        error: err?.message || "Unknown error",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    )
+  }
+})
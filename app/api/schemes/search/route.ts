@@ -0,0 +1,81 @@
+// Server route: Keyword and facet search over schemes for a region.
+// Answers from the on-server index (curated catalog plus every listing scraped so far). A live myScheme
+// lookup for the keyword runs alongside; if it does not finish within the budget the index answers
+// alone and the live results are indexed for the next search when they arrive. Operator hides, edits
+// and pins apply to each page; operator-added entries only appear in the region listing.
+
+import type { NextRequest } from "next/server"
+import { applyOverrides, overridesFor } from "@/lib/admin/overrides"
+import { envSeconds } from "@/lib/cache"
+import { resolveRegion } from "@/lib/gazetteer"
+import { isLocale, matchAcceptLanguage, translate } from "@/lib/i18n"
+import { errorFields, log, withRequest } from "@/lib/log"
+import { searchUrl } from "@/lib/schemes/myscheme"
+import { getKeywordSchemes, getSchemes, validItems } from "@/lib/schemes/pipeline"
+import { searchIndex } from "@/lib/schemes/search"
+
+const LIVE_BUDGET_MS = envSeconds("SEARCH_LIVE_BUDGET", 2.5)
+const MAX_PAGE_SIZE = 50
+
+function intParam(value: string | null, fallback: number, min: number, max: number) {
+  const n = Number.parseInt(value ?? "", 10)
+  return Number.isFinite(n) ? Math.min(Math.max(n, min), max) : fallback
+}
+
+export const GET = withRequest("/api/schemes/search", async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams
+  const state = params.get("state") || ""
+  const district = params.get("district") || ""
+  const q = (params.get("q") || "").trim().slice(0, 100)
+  const category = params.get("category") || undefined
+  const ministry = params.get("ministry") || undefined
+  const page = intParam(params.get("page"), 1, 1, 1000)
+  const pageSize = intParam(params.get("pageSize"), 20, 1, MAX_PAGE_SIZE)
+  const langParam = params.get("lang")
+  const lang = isLocale(langParam) ? langParam : matchAcceptLanguage(req.headers.get("accept-language"))
+  if (!state) {
+    return new Response(JSON.stringify({ items: [], note: "Missing state parameter" }), { status: 400 })
+  }
+
+  const match = resolveRegion(state, district)
+  const canonState = match?.state ?? state
+  const canonDistrict = match?.district ?? district
+
+  // Both lookups fill the index; neither is allowed to hold the response past the budget
+  const lookups = [getSchemes(canonState, canonDistrict, lang)]
+  if (q) lookups.push(getKeywordSchemes(canonState, canonDistrict, q, lang))
+  const settled = Promise.allSettled(lookups).then((results) => {
+    for (const r of results) {
+      if (r.status === "rejected") log.warn("search.lookup_failed", errorFields(r.reason))
+    }
+    return "done" as const
+  })
+  const live = await Promise.race([
+    settled,
+    new Promise<"timeout">((resolve) => setTimeout(() => resolve("timeout"), LIVE_BUDGET_MS)),
+  ])
+
+  const result = searchIndex({ state: canonState, district: canonDistrict, lang, q, category, ministry, page, pageSize })
+  const overrides = await overridesFor(canonState, canonDistrict)
+  const region = canonDistrict ? `${canonState} ${canonDistrict}` : canonState
+  log.info("search.answered", { q, region, total: result.total, live })
+
+  return new Response(
+    JSON.stringify({
+      ...result,
+      items: validItems(applyOverrides(result.items, overrides, { lang, withEntries: false })),
+      q,
+      category: category ?? null,
+      ministry: ministry ?? null,
+      state: canonState,
+      district: canonDistrict || null,
+      stateCode: match?.stateCode ?? null,
+      districtCode: match?.districtCode ?? null,
+      lang,
+      live,
+      note: live === "timeout" ? translate(lang, "notes.searchPartial") : undefined,
+      sourceUrl: searchUrl(q ? `${q} ${region}` : region, lang),
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } },
+  )
+})
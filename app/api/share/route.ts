@@ -0,0 +1,57 @@
+// Server route: Everything needed to share a region's scheme list: the permalink (/r/...), the list as
+// SMS-sized messages with short links, and a QR code of the permalink as SVG.
+
+import type { NextRequest } from "next/server"
+import { resolveRegion } from "@/lib/gazetteer"
+import { isLocale, matchAcceptLanguage, translate, type MessageKey } from "@/lib/i18n"
+import { errorFields, log, withRequest } from "@/lib/log"
+import { qrSvg } from "@/lib/qr"
+import { getListing } from "@/lib/schemes/pipeline"
+import { categoryParam, filterByCategory, permalinkPath, publicOrigin, shareSms } from "@/lib/share"
+
+export const GET = withRequest("/api/share", async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams
+  const state = params.get("state") || ""
+  const district = params.get("district") || ""
+  const category = categoryParam(params.get("cat"))
+  const langParam = params.get("lang")
+  const lang = isLocale(langParam) ? langParam : matchAcceptLanguage(req.headers.get("accept-language"))
+  if (!state) {
+    return new Response(JSON.stringify({ error: "Missing state parameter" }), { status: 400 })
+  }
+  const match = resolveRegion(state, district)
+  if (!match) {
+    return new Response(JSON.stringify({ error: "Unknown region" }), { status: 404 })
+  }
+
+  const origin = publicOrigin((name) => req.headers.get(name))
+  const path = permalinkPath(match.state, match.district, category)
+  const url = `${origin}${path}`
+  const t = (key: MessageKey, vars?: Record<string, string | number>) => translate(lang, key, vars)
+  const region = match.district ? `${match.district}, ${match.state}` : match.state
+
+  try {
+    const { items } = await getListing(match.state, match.district ?? "", lang)
+    const listed = filterByCategory(items, category)
+    return new Response(
+      JSON.stringify({
+        url,
+        path,
+        state: match.state,
+        district: match.district,
+        category,
+        count: listed.length,
+        sms: shareSms({ region, items: listed, origin, permalink: path, t }),
+        qrSvg: await qrSvg(url),
+        lang,
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    )
+  } catch (err: any) {
+    log.error("share.failed", errorFields(err))
+    return new Response(JSON.stringify({ url, path, error: err?.message || "Unknown error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    })
+  }
+})
@@ -0,0 +1,38 @@
+import type { Metadata } from "next"
+import { cn } from "@/lib/utils"
+import { MAX_EXPORT_REGIONS } from "@/lib/export"
+import { translate, type MessageKey } from "@/lib/i18n"
+import { getLocale } from "@/lib/i18n/server"
+import ExportBuilder from "@/components/export-builder"
+import LanguageSwitcher from "@/components/language-switcher"
+
+export async function generateMetadata(): Promise<Metadata> {
+  return { title: translate(await getLocale(), "export.title") }
+}
+
+// Export builder for NGOs and CSC operators: several regions' lists at once via /api/export
+export default async function ExportPage() {
+  const locale = await getLocale()
+  const t = (key: MessageKey) => translate(locale, key)
+  return (
+    <main className={cn("min-h-dvh w-full", "flex items-stretch justify-center", "bg-background text-foreground")}>
+      <div className={cn("w-full max-w-[320px] min-h-dvh", "flex flex-col gap-2", "p-2", "pb-9")}>
+        <div className="win-surface overflow-hidden">
+          <div className={cn("win-toolbar", "h-10 flex items-center gap-2 px-3")}>
+            <span className="inline-block h-2.5 w-2.5 rounded-full bg-primary" aria-hidden />
+            <a className="text-sm font-medium text-pretty" href="/">
+              {t("app.title")}
+            </a>
+            <LanguageSwitcher />
+          </div>
+
+          <div className="p-2">
+            <h1 className="text-sm font-medium">{t("export.title")}</h1>
+            <p className="text-xs leading-5 opacity-80 text-pretty mb-2">{t("export.intro")}</p>
+            <ExportBuilder maxRegions={MAX_EXPORT_REGIONS} />
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -1,10 +1,14 @@
 import type React from "react"
-import type { Metadata } from "next"
+import type { Metadata, Viewport } from "next"
 import { GeistSans } from "geist/font/sans"
 import { GeistMono } from "geist/font/mono"
 import { Analytics } from "@vercel/analytics/next"
 import { Inter } from "next/font/google"
 import { Suspense } from "react"
+import ServiceWorkerRegister from "@/components/sw-register"
+import { I18nProvider } from "@/components/i18n-provider"
+import { SoftkeyProvider } from "@/components/softkeys"
+import { getLocale } from "@/lib/i18n/server"
 import "./globals.css"
 
 const inter = Inter({
@@ -19,15 +23,25 @@ export const metadata: Metadata = {
   generator: "v0.app",
 }
 
-export default function RootLayout({
+export const viewport: Viewport = {
+  themeColor: "#0a74da",
+}
+
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const locale = await getLocale()
   return (
-    <html lang="en" className={`${inter.variable} antialiased`}>
+    <html lang={locale} className={`${inter.variable} antialiased`}>
       <body className={`font-sans ${GeistSans.variable} ${GeistMono.variable} bg-background text-foreground`}>
-        <Suspense fallback={<div>Loading...</div>}>{children}</Suspense>
+        <I18nProvider locale={locale}>
+          <SoftkeyProvider>
+            <Suspense fallback={<div>Loading...</div>}>{children}</Suspense>
+          </SoftkeyProvider>
+        </I18nProvider>
+        <ServiceWorkerRegister />
         <Analytics />
       </body>
     </html>
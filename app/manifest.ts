@@ -0,0 +1,18 @@
+import type { MetadataRoute } from "next"
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Government Schemes Near You",
+    short_name: "Schemes",
+    description: "Find government schemes for your state and district, even on a slow connection.",
+    start_url: "/",
+    display: "standalone",
+    orientation: "portrait",
+    background_color: "#f5f6f8",
+    theme_color: "#0a74da",
+    icons: [
+      { src: "/placeholder-logo.png", sizes: "any", type: "image/png" },
+      { src: "/placeholder-logo.svg", sizes: "any", type: "image/svg+xml" },
+    ],
+  }
+}
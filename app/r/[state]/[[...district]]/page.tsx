@@ -0,0 +1,147 @@
+import type { Metadata } from "next"
+import { headers } from "next/headers"
+import { notFound } from "next/navigation"
+import { errorFields, log } from "@/lib/log"
+import { cn } from "@/lib/utils"
+import { translate, type Locale, type MessageKey } from "@/lib/i18n"
+import { getLocale } from "@/lib/i18n/server"
+import { qrSvg } from "@/lib/qr"
+import { getListing } from "@/lib/schemes/pipeline"
+import { categoryParam, filterByCategory, permalinkPath, publicOrigin, regionFromSlugs, shareSms } from "@/lib/share"
+import DeadlineBadge from "@/components/deadline-badge"
+import LanguageSwitcher from "@/components/language-switcher"
+
+type Props = {
+  params: Promise<{ state: string; district?: string[] }>
+  searchParams: Promise<{ cat?: string | string[] }>
+}
+
+async function region(props: Props) {
+  const { state, district = [] } = await props.params
+  const { cat } = await props.searchParams
+  const match = district.length <= 1 ? regionFromSlugs(state, district[0]) : null
+  // A district slug that does not resolve would silently fall back to the whole state
+  if (!match || (district[0] && !match.district)) notFound()
+  return { match, category: categoryParam(Array.isArray(cat) ? cat[0] : cat) }
+}
+
+function regionName(match: { state: string; district: string | null }) {
+  return match.district ? `${match.district}, ${match.state}` : match.state
+}
+
+export async function generateMetadata(props: Props): Promise<Metadata> {
+  const { match } = await region(props)
+  const locale = await getLocale()
+  return { title: translate(locale, "share.title", { region: regionName(match) }) }
+}
+
+// Shared permalink (/r/<state>/<district>?cat=<category>): the region's scheme list rendered on the
+// server, so it opens without location access or JavaScript, plus the QR code and SMS text to pass on.
+export default async function SharedListPage(props: Props) {
+  const { match, category } = await region(props)
+  const locale: Locale = await getLocale()
+  const t = (key: MessageKey, vars?: Record<string, string | number>) => translate(locale, key, vars)
+  const name = regionName(match)
+
+  const requestHeaders = await headers()
+  const origin = publicOrigin((h) => requestHeaders.get(h))
+  const path = permalinkPath(match.state, match.district, category)
+  let items: Awaited<ReturnType<typeof getListing>>["items"] = []
+  let failed = false
+  try {
+    items = filterByCategory((await getListing(match.state, match.district ?? "", locale)).items, category)
+  } catch (err: any) {
+    log.error("share_page.failed", errorFields(err))
+    failed = true
+  }
+  const sms = shareSms({ region: name, items, origin, permalink: path, t })
+  const qr = await qrSvg(`${origin}${path}`)
+
+  return (
+    <main className={cn("min-h-dvh w-full", "flex items-stretch justify-center", "bg-background text-foreground")}>
+      <div className={cn("w-full max-w-[320px] min-h-dvh", "flex flex-col gap-2", "p-2")}>
+        <div className="win-surface overflow-hidden">
+          <div className={cn("win-toolbar", "h-10 flex items-center gap-2 px-3")}>
+            <span className="inline-block h-2.5 w-2.5 rounded-full bg-primary" aria-hidden />
+            <a className="text-sm font-medium text-pretty" href="/">
+              {t("app.title")}
+            </a>
+            <LanguageSwitcher />
+          </div>
+
+          <div className="p-2">
+            <h1 className="text-sm font-medium">{t("share.title", { region: name })}</h1>
+            {category ? (
+              <p className="text-[11px] leading-5 opacity-80">
+                {t("share.category", { category: t(`category.${category}`) })}{" "}
+                <a data-nav className="underline" href={permalinkPath(match.state, match.district)}>
+                  {t("share.allCategories")}
+                </a>
+              </p>
+            ) : null}
+
+            {failed ? (
+              <p className="text-xs leading-5 text-[color:var(--destructive)]">{t("schemes.error")}</p>
+            ) : !items.length ? (
+              <p className="text-xs leading-5">{t("share.empty")}</p>
+            ) : (
+              <ul className="mt-1 grid grid-cols-1 gap-2">
+                {items.map((item) => (
+                  <li key={item.href} lang={item.lang} className="rounded-lg border p-2">
+                    <a
+                      data-nav
+                      className="block"
+                      href={item.canonicalUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      <div className="text-sm font-medium leading-5 text-pretty">{item.title}</div>
+                      {item.description ? (
+                        <div className="text-[11px] leading-5 mt-1 opacity-80 line-clamp-3">{item.description}</div>
+                      ) : null}
+                    </a>
+                    <DeadlineBadge openDate={item.openDate} closeDate={item.closeDate} />
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <section className="mt-2 pt-2 border-t" aria-labelledby="share-title">
+              <h2 id="share-title" className="text-xs font-medium">
+                {t("share.heading")}
+              </h2>
+              <figure className="mt-1">
+                {/* Generated by lib/qr from our own URL */}
+                <div
+                  className="mx-auto w-40 bg-white [&>svg]:h-auto [&>svg]:w-full"
+                  dangerouslySetInnerHTML={{ __html: qr }}
+                />
+                <figcaption className="text-center text-[11px] leading-5 opacity-80">{t("share.qr")}</figcaption>
+              </figure>
+              <p className="text-[11px] leading-5 break-all">{`${origin}${path}`}</p>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {sms.map((part, i) => (
+                  <a
+                    key={i}
+                    data-nav
+                    className="win-btn px-3 py-2 text-xs border"
+                    href={`sms:?body=${encodeURIComponent(part)}`}
+                  >
+                    {sms.length > 1 ? `${t("share.sms")} ${i + 1}/${sms.length}` : t("share.sms")}
+                  </a>
+                ))}
+                <a data-nav className="win-btn px-3 py-2 text-xs border" href="/">
+                  {t("share.openApp")}
+                </a>
+              </div>
+            </section>
+
+            <footer className="mt-2 pt-2 border-t">
+              <p className="text-[11px] leading-5 opacity-70">{t("app.footer")}</p>
+            </footer>
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,15 @@
+// Short scheme links used in shared SMS text (/s/<slug>): redirect to the scheme's myScheme page,
+// in the reader's language when myScheme publishes it.
+
+import type { NextRequest } from "next/server"
+import { isLocale, LOCALE_COOKIE, matchAcceptLanguage } from "@/lib/i18n"
+import { schemeUrl } from "@/lib/schemes/detail"
+import { isValidSlug } from "@/lib/schemes/slug"
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params
+  if (!isValidSlug(slug)) return new Response("Not found", { status: 404 })
+  const saved = req.cookies.get(LOCALE_COOKIE)?.value
+  const lang = isLocale(saved) ? saved : matchAcceptLanguage(req.headers.get("accept-language"))
+  return Response.redirect(schemeUrl(slug, lang), 302)
+}
@@ -0,0 +1,439 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import useSWR from "swr"
+import type { AdminEntry, ScopeOverrides } from "@/lib/admin/overrides"
+import { findState, STATES } from "@/lib/gazetteer"
+import { LOCALE_NAMES, LOCALES, type Locale } from "@/lib/i18n"
+import { SCHEME_CATEGORIES, type SchemeCategory } from "@/lib/schemes/categories"
+import type { SchemeItem } from "@/lib/schemes/schema"
+import { cn } from "@/lib/utils"
+
+type ProviderInfo = {
+  name: string
+  priority: number
+  mode: string
+  health: {
+    consecutiveFailures: number
+    lastSuccessAt: number | null
+    lastHitAt: number | null
+    lastFailureAt: number | null
+    lastError: string | null
+    disabledUntil: number
+  }
+}
+
+type ScopeData = {
+  scope: string
+  state: string | null
+  district: string | null
+  overrides: ScopeOverrides
+  items: SchemeItem[]
+  effective: SchemeItem[]
+  error?: string
+  providers: ProviderInfo[]
+}
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return res.json()
+}
+
+const fieldClass = "rounded-md border bg-background px-2 py-1 text-xs"
+const buttonClass = "win-btn px-2 py-1 text-xs border"
+
+function when(ms: number | null) {
+  return ms ? new Date(ms).toLocaleString() : "never"
+}
+
+function toggle(list: string[], href: string) {
+  return list.includes(href) ? list.filter((h) => h !== href) : [...list, href]
+}
+
+// The operator password is exchanged for an HttpOnly session cookie; the page reloads into the console.
+export function AdminLogin() {
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  return (
+    <form
+      className="win-surface grid max-w-xs gap-2 p-3"
+      onSubmit={async (e) => {
+        e.preventDefault()
+        setBusy(true)
+        setError(null)
+        const res = await fetch("/api/admin/login", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ password }),
+        }).catch(() => null)
+        setBusy(false)
+        if (res?.ok) window.location.reload()
+        else setError(res?.status === 401 ? "Wrong password." : "Sign-in failed. Try again.")
+      }}
+    >
+      <h1 className="text-sm font-medium">Admin sign-in</h1>
+      <label className="grid gap-1 text-xs">
+        Password
+        <input
+          type="password"
+          autoComplete="current-password"
+          className={fieldClass}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </label>
+      {error ? <p className="text-xs text-[color:var(--destructive)]">{error}</p> : null}
+      <button type="submit" disabled={busy || !password} className={cn(buttonClass, "bg-primary text-primary-foreground")}>
+        Sign in
+      </button>
+    </form>
+  )
+}
+
+function EntryForm({ onAdd }: { onAdd: (entry: AdminEntry) => void }) {
+  const [title, setTitle] = useState("")
+  const [description, setDescription] = useState("")
+  const [href, setHref] = useState("")
+  const [category, setCategory] = useState<SchemeCategory>(SCHEME_CATEGORIES[0])
+  const [ministry, setMinistry] = useState("")
+  const [closeDate, setCloseDate] = useState("")
+  return (
+    <form
+      className="grid gap-1 rounded-lg border p-2"
+      onSubmit={(e) => {
+        e.preventDefault()
+        const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40)
+        onAdd({
+          id: `admin.${slug || "entry"}-${Date.now().toString(36)}`,
+          title: title.trim(),
+          description: description.trim(),
+          href: href.trim() || undefined,
+          category,
+          ministry: ministry.trim() || undefined,
+          closeDate: closeDate || undefined,
+          lastVerified: new Date().toISOString().slice(0, 10),
+        })
+        setTitle("")
+        setDescription("")
+        setHref("")
+        setMinistry("")
+        setCloseDate("")
+      }}
+    >
+      <h3 className="text-xs font-medium">Add curated entry</h3>
+      <input className={fieldClass} placeholder="Title" required value={title} onChange={(e) => setTitle(e.target.value)} />
+      <textarea
+        className={fieldClass}
+        placeholder="Description"
+        required
+        rows={2}
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+      />
+      <input
+        className={fieldClass}
+        placeholder="Link (/schemes/<slug> or https://…), optional"
+        value={href}
+        onChange={(e) => setHref(e.target.value)}
+      />
+      <div className="flex flex-wrap gap-1">
+        <select className={fieldClass} value={category} onChange={(e) => setCategory(e.target.value as SchemeCategory)}>
+          {SCHEME_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <input
+          className={cn(fieldClass, "flex-1")}
+          placeholder="Ministry or department, optional"
+          value={ministry}
+          onChange={(e) => setMinistry(e.target.value)}
+        />
+        <label className="flex items-center gap-1 text-xs">
+          Closes
+          <input type="date" className={fieldClass} value={closeDate} onChange={(e) => setCloseDate(e.target.value)} />
+        </label>
+      </div>
+      <button type="submit" className={cn(buttonClass, "justify-self-start")}>
+        Add
+      </button>
+    </form>
+  )
+}
+
+function ItemRow({
+  item,
+  overrides,
+  lang,
+  onChange,
+}: {
+  item: SchemeItem
+  overrides: ScopeOverrides
+  lang: Locale
+  onChange: (next: ScopeOverrides) => void
+}) {
+  const edit = overrides.edits[item.href]?.[lang]
+  const [editing, setEditing] = useState(false)
+  const [title, setTitle] = useState(edit?.title ?? item.title)
+  const [description, setDescription] = useState(edit?.description ?? item.description ?? "")
+  const pinned = overrides.pinned.includes(item.href)
+  const hidden = overrides.hidden.includes(item.href)
+
+  const saveEdit = () => {
+    const { [lang]: _, ...otherLangs } = overrides.edits[item.href] ?? {}
+    const text = {
+      title: title.trim() && title.trim() !== item.title ? title.trim() : undefined,
+      description: description.trim() && description.trim() !== item.description ? description.trim() : undefined,
+    }
+    const byLang = text.title || text.description ? { ...otherLangs, [lang]: text } : otherLangs
+    const { [item.href]: __, ...edits } = overrides.edits
+    onChange({ ...overrides, edits: Object.keys(byLang).length ? { ...edits, [item.href]: byLang } : edits })
+    setEditing(false)
+  }
+
+  return (
+    <li className={cn("rounded-lg border p-2 text-xs", hidden && "opacity-50")}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="font-medium">
+            {edit?.title ?? item.title}
+            {edit ? <span className="ml-1 rounded border px-1 text-[10px]">edited</span> : null}
+          </div>
+          <div className="truncate opacity-70">
+            {item.source} · {item.href}
+          </div>
+        </div>
+        <div className="flex gap-1">
+          <button type="button" className={buttonClass} onClick={() => onChange({ ...overrides, pinned: toggle(overrides.pinned, item.href) })}>
+            {pinned ? "Unpin" : "Pin"}
+          </button>
+          <button type="button" className={buttonClass} onClick={() => onChange({ ...overrides, hidden: toggle(overrides.hidden, item.href) })}>
+            {hidden ? "Unhide" : "Hide"}
+          </button>
+          <button type="button" className={buttonClass} onClick={() => setEditing((v) => !v)}>
+            Edit
+          </button>
+        </div>
+      </div>
+      {editing ? (
+        <div className="mt-2 grid gap-1">
+          <input className={fieldClass} value={title} onChange={(e) => setTitle(e.target.value)} />
+          <textarea className={fieldClass} rows={3} value={description} onChange={(e) => setDescription(e.target.value)} />
+          <p className="opacity-70">Applies to {LOCALE_NAMES[lang]} only. Clear a field to restore the source text.</p>
+          <button type="button" className={cn(buttonClass, "justify-self-start")} onClick={saveEdit}>
+            Save edit
+          </button>
+        </div>
+      ) : null}
+    </li>
+  )
+}
+
+// Operator console: pick a scope (all regions, a state or a district), then pin, hide or edit the
+// listing's items and add curated entries. Every change is saved to the overrides store right away.
+export default function AdminConsole() {
+  const [state, setState] = useState("")
+  const [district, setDistrict] = useState("")
+  const [lang, setLang] = useState<Locale>("en")
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const districts = useMemo(() => (state ? (findState(state)?.districts ?? []) : []), [state])
+
+  const params = new URLSearchParams({ lang })
+  if (state) params.set("state", state)
+  if (district) params.set("district", district)
+  const { data, error, isLoading, mutate } = useSWR<ScopeData>(`/api/admin/items?${params}`, fetcher, {
+    revalidateOnFocus: false,
+  })
+
+  const save = async (overrides: ScopeOverrides) => {
+    setSaveError(null)
+    const res = await fetch("/api/admin/overrides", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ state, district, overrides }),
+    }).catch(() => null)
+    if (!res?.ok) {
+      const body = await res?.json().catch(() => null)
+      setSaveError(body?.error ?? "Could not save. Check the connection and sign in again if needed.")
+    }
+    mutate()
+  }
+
+  const logout = async () => {
+    await fetch("/api/admin/logout", { method: "POST" }).catch(() => null)
+    window.location.reload()
+  }
+
+  const overrides = data?.overrides
+  // Scraped and catalog items plus anything the scope pinned or hid that is no longer listed
+  const listed = data?.items ?? []
+  const missing = overrides
+    ? Array.from(new Set([...overrides.pinned, ...overrides.hidden])).filter((h) => !listed.some((i) => i.href === h))
+    : []
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex items-center justify-between">
+        <h1 className="text-base font-medium">Scheme admin</h1>
+        <button type="button" className={buttonClass} onClick={logout}>
+          Sign out
+        </button>
+      </div>
+
+      <section className="win-surface grid gap-2 p-2">
+        <h2 className="text-sm font-medium">Providers</h2>
+        <p className="text-[11px] opacity-70">Health is kept in server memory and resets when the server restarts.</p>
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr>
+              <th>Provider</th>
+              <th>Last returned data</th>
+              <th>Last run OK</th>
+              <th>Last error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(data?.providers ?? []).map((p) => (
+              <tr key={p.name} className="border-t align-top">
+                <td>
+                  {p.name} <span className="opacity-60">({p.mode})</span>
+                </td>
+                <td>{when(p.health.lastHitAt)}</td>
+                <td>{when(p.health.lastSuccessAt)}</td>
+                <td>
+                  {p.health.lastError ? `${when(p.health.lastFailureAt)}: ${p.health.lastError}` : "—"}
+                  {p.health.disabledUntil > Date.now() ? " (cooling down)" : ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="win-surface grid gap-2 p-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className={fieldClass}
+            value={state}
+            aria-label="State"
+            onChange={(e) => {
+              setState(e.target.value)
+              setDistrict("")
+            }}
+          >
+            <option value="">All regions</option>
+            {STATES.map((s) => (
+              <option key={s.code} value={s.name}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+          {state ? (
+            <select className={fieldClass} value={district} aria-label="District" onChange={(e) => setDistrict(e.target.value)}>
+              <option value="">Whole state</option>
+              {districts.map((d) => (
+                <option key={d.id} value={d.name}>
+                  {d.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <select className={fieldClass} value={lang} aria-label="Language" onChange={(e) => setLang(e.target.value as Locale)}>
+            {LOCALES.map((l) => (
+              <option key={l} value={l}>
+                {LOCALE_NAMES[l]}
+              </option>
+            ))}
+          </select>
+          {overrides?.updatedAt ? (
+            <span className="text-[11px] opacity-70">Scope saved {new Date(overrides.updatedAt).toLocaleString()}</span>
+          ) : null}
+        </div>
+        {isLoading ? <p className="text-xs">Loading…</p> : null}
+        {error ? <p className="text-xs text-[color:var(--destructive)]">{error.message}</p> : null}
+        {data?.error ? <p className="text-xs text-[color:var(--destructive)]">Listing failed: {data.error}</p> : null}
+        {saveError ? <p className="text-xs text-[color:var(--destructive)]">{saveError}</p> : null}
+
+        {overrides ? (
+          <>
+            <EntryForm onAdd={(entry) => save({ ...overrides, entries: [...overrides.entries, entry] })} />
+
+            {overrides.entries.length ? (
+              <div className="grid gap-1">
+                <h3 className="text-xs font-medium">Curated entries in {data.scope === "*" ? "all regions" : data.scope}</h3>
+                <ul className="grid gap-1">
+                  {overrides.entries.map((entry) => (
+                    <li key={entry.id} className="flex items-start justify-between gap-2 rounded-lg border p-2 text-xs">
+                      <div>
+                        <div className="font-medium">{entry.title}</div>
+                        <div className="opacity-70">{entry.description}</div>
+                      </div>
+                      <button
+                        type="button"
+                        className={buttonClass}
+                        onClick={() => save({ ...overrides, entries: overrides.entries.filter((e) => e.id !== entry.id) })}
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+
+            {listed.length ? (
+              <div className="grid gap-1">
+                <h3 className="text-xs font-medium">Listing ({listed.length} items, before overrides)</h3>
+                <ul className="grid gap-1">
+                  {listed.map((item) => (
+                    <ItemRow key={`${item.href}|${lang}`} item={item} overrides={overrides} lang={lang} onChange={save} />
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+
+            {missing.length ? (
+              <div className="grid gap-1">
+                <h3 className="text-xs font-medium">Pinned or hidden, not in the current listing</h3>
+                <ul className="grid gap-1 text-xs">
+                  {missing.map((href) => (
+                    <li key={href} className="flex items-center justify-between gap-2 rounded-lg border p-2">
+                      <span className="truncate">{href}</span>
+                      <button
+                        type="button"
+                        className={buttonClass}
+                        onClick={() =>
+                          save({
+                            ...overrides,
+                            pinned: overrides.pinned.filter((h) => h !== href),
+                            hidden: overrides.hidden.filter((h) => h !== href),
+                          })
+                        }
+                      >
+                        Clear
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+
+            {data.effective.length ? (
+              <details className="text-xs">
+                <summary>What users see ({data.effective.length})</summary>
+                <ol className="mt-1 list-decimal pl-5">
+                  {data.effective.map((item) => (
+                    <li key={item.href}>{item.title}</li>
+                  ))}
+                </ol>
+              </details>
+            ) : null}
+          </>
+        ) : null}
+      </section>
+    </div>
+  )
+}
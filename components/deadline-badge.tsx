@@ -0,0 +1,54 @@
+"use client"
+
+import { deadlineState, todayIso, type DeadlineState } from "@/lib/deadlines"
+import type { Locale, MessageKey } from "@/lib/i18n"
+import { cn } from "@/lib/utils"
+import { useI18n } from "@/components/i18n-provider"
+
+// "12 Nov" in the UI language; dates are calendar days, so they are formatted in UTC to avoid shifting
+export function formatDay(date: string, locale: Locale) {
+  return new Intl.DateTimeFormat(`${locale}-IN`, { day: "numeric", month: "short", timeZone: "UTC" }).format(
+    new Date(`${date}T00:00:00Z`),
+  )
+}
+
+export function deadlineLabel(
+  state: DeadlineState,
+  locale: Locale,
+  t: (key: MessageKey, vars?: Record<string, string | number>) => string,
+) {
+  const date = formatDay(state.date, locale)
+  switch (state.kind) {
+    case "opens":
+      return t("deadline.opens", { date })
+    case "closed":
+      return t("deadline.closed", { date })
+    case "open":
+      return t("deadline.openUntil", { date })
+    case "closing":
+      if (state.days === 0) return t("deadline.closesToday")
+      if (state.days === 1) return t("deadline.closesTomorrow")
+      return t("deadline.closesIn", { days: state.days })
+  }
+}
+
+// Application window badge; nothing is shown for schemes without known dates
+export default function DeadlineBadge({ openDate, closeDate }: { openDate?: string; closeDate?: string }) {
+  const { locale, t } = useI18n()
+  const state = deadlineState({ openDate, closeDate }, todayIso())
+  if (!state) return null
+  return (
+    <div className="mt-1 text-[11px] leading-4">
+      <span
+        className={cn(
+          "rounded px-1.5 py-0.5 font-medium",
+          state.kind === "closing" && "bg-[color:var(--destructive)] text-[color:var(--destructive-foreground)]",
+          state.kind === "closed" && "opacity-70 line-through",
+          (state.kind === "open" || state.kind === "opens") && "border",
+        )}
+      >
+        {deadlineLabel(state, locale, t)}
+      </span>
+    </div>
+  )
+}
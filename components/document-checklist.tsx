@@ -0,0 +1,169 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import useSWR from "swr"
+import { useArrowNav } from "@/hooks/use-arrow-nav"
+import { buildChecklist, checklistHtml, checklistSms, checklistText, documentLabel } from "@/lib/documents"
+import type { SavedScheme } from "@/lib/saved-schemes"
+import { slugFromHref } from "@/lib/schemes/slug"
+import { useI18n } from "@/components/i18n-provider"
+import { useSoftkeys, type SoftkeyOption } from "@/components/softkeys"
+
+// Enough for a CSC visit; also keeps the SMS form's letter codes (A, B, ...) short
+const MAX_SCHEMES = 10
+
+const slugOf = (s: SavedScheme) => s.slug ?? slugFromHref(s.href) ?? undefined
+
+// Document lists from the scheme pages, for saved schemes that did not carry one from the catalog.
+// A page that fails to load counts as "no list" rather than failing the whole checklist.
+async function loadDocuments(key: string): Promise<Record<string, string[]>> {
+  const [, lang, ...slugs] = key.split("|")
+  const pairs = await Promise.all(
+    slugs.map(async (slug) => {
+      try {
+        const res = await fetch(`/api/schemes/${encodeURIComponent(slug)}?lang=${lang}`)
+        const data = res.ok ? await res.json() : null
+        return [slug, (data?.detail?.documents as string[] | undefined) ?? []] as const
+      } catch {
+        return [slug, []] as const
+      }
+    }),
+  )
+  return Object.fromEntries(pairs)
+}
+
+function openPrintable(html: string) {
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html;charset=utf-8" }))
+  window.open(url, "_blank", "noopener")
+  setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
+
+// Combined "what papers to bring" list for the chosen saved schemes, with print and SMS exports.
+export default function DocumentChecklist({ saved, onBack }: { saved: SavedScheme[]; onBack: () => void }) {
+  const { locale, t } = useI18n()
+  const rootRef = useRef<HTMLDivElement>(null)
+  const onKeyDown = useArrowNav(rootRef)
+  const [chosen, setChosen] = useState<string[]>(() => saved.slice(0, MAX_SCHEMES).map((s) => s.href))
+  const [copied, setCopied] = useState(false)
+
+  const selected = useMemo(() => saved.filter((s) => chosen.includes(s.href)), [saved, chosen])
+  const toFetch = selected.filter((s) => !s.documents?.length && slugOf(s)).map((s) => slugOf(s)!)
+  const { data: fetched, isLoading } = useSWR(
+    toFetch.length ? ["docs", locale, ...toFetch].join("|") : null,
+    loadDocuments,
+    { revalidateOnFocus: false },
+  )
+
+  const checklist = useMemo(
+    () =>
+      buildChecklist(
+        selected.map((s) => ({
+          id: s.href,
+          title: s.title,
+          documents: s.documents?.length ? s.documents : (fetched?.[slugOf(s) ?? ""] ?? []),
+        })),
+      ),
+    [selected, fetched],
+  )
+  const smsParts = useMemo(() => checklistSms(checklist, t), [checklist, t])
+
+  const print = () => openPrintable(checklistHtml(checklist, t, locale))
+  const copy = () => {
+    navigator.clipboard
+      ?.writeText(checklistText(checklist, t))
+      .then(() => setCopied(true))
+      .catch((err) => console.log("[v0] checklist copy failed", err?.message))
+  }
+  const ready = selected.length > 0 && !isLoading
+
+  useSoftkeys({
+    back: { label: t("common.back"), onPress: onBack },
+    options: () => {
+      const options: SoftkeyOption[] = []
+      if (ready && checklist.entries.length) {
+        options.push({ label: t("checklist.print"), onSelect: print })
+        options.push({ label: t("checklist.copy"), onSelect: copy })
+      }
+      return options
+    },
+  })
+
+  const toggle = (href: string) =>
+    setChosen((c) => (c.includes(href) ? c.filter((h) => h !== href) : c.length < MAX_SCHEMES ? [...c, href] : c))
+
+  return (
+    <div ref={rootRef} className="win-surface p-2" onKeyDown={onKeyDown}>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-medium">{t("checklist.title")}</h3>
+        <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={onBack}>
+          {t("common.back")}
+        </button>
+      </div>
+      {!saved.length ? <p className="text-xs leading-5">{t("checklist.empty")}</p> : null}
+
+      {saved.length ? (
+        <fieldset className="grid gap-1 text-[11px]">
+          <legend className="mb-1 font-medium">{t("checklist.pick")}</legend>
+          {saved.map((s) => (
+            <label key={s.href} className="flex items-start gap-2 leading-4">
+              <input type="checkbox" data-nav checked={chosen.includes(s.href)} onChange={() => toggle(s.href)} />
+              {s.title}
+            </label>
+          ))}
+        </fieldset>
+      ) : null}
+
+      {selected.length && isLoading ? <p className="mt-2 text-xs leading-5">{t("checklist.loading")}</p> : null}
+
+      {ready ? (
+        <>
+          <ul className="mt-2 grid gap-1">
+            {checklist.entries.map((entry) => (
+              <li key={entry.key} className="rounded-lg border p-2 text-xs leading-5">
+                <div className="font-medium">{documentLabel(entry, t)}</div>
+                <div className="text-[11px] opacity-80">
+                  {t("checklist.neededBy", {
+                    schemes:
+                      selected.length > 1 && entry.schemes.length === selected.length
+                        ? t("checklist.all")
+                        : entry.schemes.map((id) => checklist.schemes.find((s) => s.id === id)?.title).join(", "),
+                  })}
+                </div>
+              </li>
+            ))}
+          </ul>
+          {checklist.missing.length ? (
+            <p className="mt-1 text-[11px] leading-5 opacity-80">
+              {t("checklist.missing", { schemes: checklist.missing.map((s) => s.title).join(", ") })}
+            </p>
+          ) : null}
+          {checklist.entries.length ? (
+            <div className="mt-2 flex flex-wrap gap-2">
+              <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={print}>
+                {t("checklist.print")}
+              </button>
+              <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={copy}>
+                {copied ? t("checklist.copied") : t("checklist.copy")}
+              </button>
+              {smsParts.map((part, i) => (
+                <a
+                  key={i}
+                  data-nav
+                  className="win-btn px-3 py-2 text-xs border"
+                  href={`sms:?body=${encodeURIComponent(part)}`}
+                >
+                  {smsParts.length > 1
+                    ? `${t("checklist.sms")} ${i + 1}/${smsParts.length}`
+                    : t("checklist.sms")}
+                </a>
+              ))}
+              <span className="self-center text-[11px] opacity-70">
+                {t("checklist.smsCount", { count: smsParts.length })}
+              </span>
+            </div>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  )
+}
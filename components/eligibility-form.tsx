@@ -0,0 +1,212 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  CASTE_CATEGORIES,
+  GENDERS,
+  INCOME_BANDS,
+  OCCUPATIONS,
+  reasonText,
+  type EligibilityProfile,
+  type EligibilityReason,
+  type EligibilityStatus,
+} from "@/lib/eligibility"
+import type { MessageKey } from "@/lib/i18n"
+import { cn } from "@/lib/utils"
+import { useI18n } from "@/components/i18n-provider"
+
+const STORAGE_KEY = "eligibility-profile"
+
+const GENDER_LABELS: Record<(typeof GENDERS)[number], MessageKey> = {
+  female: "gender.female",
+  male: "gender.male",
+  other: "gender.other",
+}
+const OCCUPATION_LABELS: Record<(typeof OCCUPATIONS)[number], MessageKey> = {
+  farmer: "occupation.farmer",
+  student: "occupation.student",
+  "unorganised-worker": "occupation.unorganised-worker",
+  "self-employed": "occupation.self-employed",
+  salaried: "occupation.salaried",
+  unemployed: "occupation.unemployed",
+  homemaker: "occupation.homemaker",
+  other: "occupation.other",
+}
+const INCOME_LABELS: Record<(typeof INCOME_BANDS)[number], MessageKey> = {
+  "below-1l": "income.below-1l",
+  "1l-2.5l": "income.1l-2.5l",
+  "2.5l-5l": "income.2.5l-5l",
+  "5l-8l": "income.5l-8l",
+  "above-8l": "income.above-8l",
+}
+const CASTE_LABELS: Record<(typeof CASTE_CATEGORIES)[number], MessageKey> = {
+  general: "caste.general",
+  obc: "caste.obc",
+  sc: "caste.sc",
+  st: "caste.st",
+}
+
+// Questionnaire answers persist on the device so field workers don't re-enter them per visit.
+export function useEligibilityProfile() {
+  const [profile, setProfile] = useState<EligibilityProfile>({})
+
+  useEffect(() => {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY)
+      if (raw) setProfile(JSON.parse(raw))
+    } catch {
+      // ignore unreadable storage
+    }
+  }, [])
+
+  const save = (next: EligibilityProfile) => {
+    setProfile(next)
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    } catch {
+      // storage full or disabled; keep the in-memory answers
+    }
+  }
+
+  return [profile, save] as const
+}
+
+const fieldClass = "w-full rounded-md border bg-background px-2 py-1.5 text-xs focus:outline-2 focus:outline-[color:var(--ring)]"
+
+function Select<T extends string>({
+  label,
+  value,
+  options,
+  labels,
+  onChange,
+}: {
+  label: string
+  value: T | undefined
+  options: readonly T[]
+  labels: Record<T, MessageKey>
+  onChange: (v: T | undefined) => void
+}) {
+  const { t } = useI18n()
+  return (
+    <label className="grid gap-0.5 text-[11px]">
+      {label}
+      <select
+        data-nav
+        className={fieldClass}
+        value={value ?? ""}
+        onChange={(e) => onChange((e.target.value || undefined) as T | undefined)}
+      >
+        <option value="">{t("eligibility.preferNot")}</option>
+        {options.map((o) => (
+          <option key={o} value={o}>
+            {t(labels[o])}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+export default function EligibilityForm({
+  profile,
+  onChange,
+  onDone,
+}: {
+  profile: EligibilityProfile
+  onChange: (p: EligibilityProfile) => void
+  onDone: () => void
+}) {
+  const { t } = useI18n()
+  const set = <K extends keyof EligibilityProfile>(key: K, value: EligibilityProfile[K]) =>
+    onChange({ ...profile, [key]: value })
+
+  return (
+    <form
+      className="grid gap-2 rounded-lg border p-2"
+      aria-label={t("eligibility.form")}
+      onSubmit={(e) => {
+        e.preventDefault()
+        onDone()
+      }}
+    >
+      <label className="grid gap-0.5 text-[11px]">
+        {t("eligibility.age")}
+        <input
+          data-nav
+          className={fieldClass}
+          type="number"
+          inputMode="numeric"
+          min={0}
+          max={120}
+          value={profile.age ?? ""}
+          onChange={(e) => set("age", e.target.value === "" ? undefined : Number(e.target.value))}
+        />
+      </label>
+      <Select
+        label={t("eligibility.gender")}
+        value={profile.gender}
+        options={GENDERS}
+        labels={GENDER_LABELS}
+        onChange={(v) => set("gender", v)}
+      />
+      <Select
+        label={t("eligibility.occupation")}
+        value={profile.occupation}
+        options={OCCUPATIONS}
+        labels={OCCUPATION_LABELS}
+        onChange={(v) => set("occupation", v)}
+      />
+      <Select
+        label={t("eligibility.income")}
+        value={profile.incomeBand}
+        options={INCOME_BANDS}
+        labels={INCOME_LABELS}
+        onChange={(v) => set("incomeBand", v)}
+      />
+      <Select
+        label={t("eligibility.caste")}
+        value={profile.caste}
+        options={CASTE_CATEGORIES}
+        labels={CASTE_LABELS}
+        onChange={(v) => set("caste", v)}
+      />
+      <label className="flex items-center gap-2 text-[11px]">
+        <input
+          type="checkbox"
+          data-nav
+          checked={profile.disability ?? false}
+          onChange={(e) => set("disability", e.target.checked)}
+        />
+        {t("eligibility.disability")}
+      </label>
+      <div className="flex gap-2">
+        <button type="submit" data-nav className="win-btn px-3 py-2 text-xs bg-primary text-primary-foreground">
+          {t("eligibility.show")}
+        </button>
+        <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={() => onChange({})}>
+          {t("eligibility.clear")}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+
+export function EligibilityBadge({ status, reason }: { status: EligibilityStatus; reason: EligibilityReason }) {
+  const { t } = useI18n()
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1 text-[11px] leading-4">
+      <span
+        className={cn(
+          "rounded px-1.5 py-0.5 font-medium",
+          status === "eligible" && "bg-primary text-primary-foreground",
+          status === "maybe" && "border",
+          status === "not-eligible" && "bg-[color:var(--destructive)] text-[color:var(--destructive-foreground)]",
+        )}
+      >
+        {t(`eligibility.status.${status}`)}
+      </span>
+      <span className="opacity-80">{reasonText(reason, t)}</span>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useArrowNav } from "@/hooks/use-arrow-nav"
+import type { ExportFormat } from "@/lib/export"
+import { SCHEME_CATEGORIES, type SchemeCategory } from "@/lib/schemes/categories"
+import { useI18n } from "@/components/i18n-provider"
+import RegionPicker, { useManualRegion, type ManualRegion } from "@/components/region-picker"
+import { useSoftkeys, type SoftkeyOption } from "@/components/softkeys"
+
+const FORMATS: ExportFormat[] = ["csv", "json", "html"]
+
+const fieldClass = "rounded-md border bg-background px-2 py-1.5 text-xs focus:outline-2 focus:outline-[color:var(--ring)]"
+
+const label = (r: ManualRegion) => (r.district ? `${r.district}, ${r.state}` : r.state)
+const sameRegion = (a: ManualRegion, b: ManualRegion) => a.state === b.state && a.district === b.district
+
+function exportHref(regions: ManualRegion[], format: ExportFormat, lang: string, category: SchemeCategory | null) {
+  const params = new URLSearchParams({ format, lang })
+  for (const r of regions) params.append("region", r.district ? `${r.state}/${r.district}` : r.state)
+  if (category) params.set("cat", category)
+  return `/api/export?${params}`
+}
+
+// Builds an /api/export link: regions are added with the usual picker (starting from the device's saved
+// region), then downloaded as CSV or JSON, or opened as a printable handout.
+export default function ExportBuilder({ maxRegions }: { maxRegions: number }) {
+  const { locale, t } = useI18n()
+  const rootRef = useRef<HTMLDivElement>(null)
+  const onKeyDown = useArrowNav(rootRef)
+  const [saved] = useManualRegion()
+  const [regions, setRegions] = useState<ManualRegion[]>([])
+  const [picking, setPicking] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  const [category, setCategory] = useState<SchemeCategory | null>(null)
+
+  useEffect(() => {
+    if (saved) setRegions((current) => (current.length ? current : [saved]))
+  }, [saved])
+
+  const href = regions.length ? exportHref(regions, format, locale, category) : null
+  const full = regions.length >= maxRegions
+  const add = (region: ManualRegion) => {
+    setRegions((current) => (current.some((r) => sameRegion(r, region)) ? current : [...current, region]))
+    setPicking(false)
+  }
+  const download = () => {
+    if (!href) return
+    if (format === "html") window.open(href, "_blank", "noopener")
+    else window.location.href = href
+  }
+
+  useSoftkeys({
+    back: { label: t("common.back"), onPress: () => (window.location.href = "/") },
+    options: () => {
+      const options: SoftkeyOption[] = []
+      if (!full) options.push({ label: t("export.add"), onSelect: () => setPicking(true) })
+      if (href) options.push({ label: t("export.download"), onSelect: download, shortcut: "save" })
+      return options
+    },
+    shortcuts: { save: download },
+  })
+
+  if (picking) return <RegionPicker onPick={add} onCancel={() => setPicking(false)} />
+
+  return (
+    <div ref={rootRef} className="grid gap-2" onKeyDown={onKeyDown}>
+      <div>
+        <ul className="grid gap-1">
+          {regions.map((r) => (
+            <li key={label(r)} className="flex items-center justify-between gap-2 rounded-lg border px-2 py-1">
+              <span className="text-xs leading-5 min-w-0 text-pretty">{label(r)}</span>
+              <button
+                type="button"
+                data-nav
+                className="win-btn px-2 py-1 text-[11px] border"
+                aria-label={t("export.remove", { region: label(r) })}
+                onClick={() => setRegions((current) => current.filter((c) => !sameRegion(c, r)))}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+        {!regions.length ? <p className="text-xs leading-5">{t("export.none")}</p> : null}
+        <div className="mt-1 flex items-center justify-between gap-2">
+          <button
+            type="button"
+            data-nav
+            className="win-btn px-3 py-2 text-xs border"
+            disabled={full}
+            onClick={() => setPicking(true)}
+          >
+            {t("export.add")}
+          </button>
+          <span className="text-[11px] leading-5 opacity-70">{t("export.max", { max: maxRegions })}</span>
+        </div>
+      </div>
+
+      <label className="grid gap-0.5 text-[11px]">
+        {t("export.format")}
+        <select
+          data-nav
+          className={fieldClass}
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        >
+          {FORMATS.map((f) => (
+            <option key={f} value={f}>
+              {t(`export.format.${f}`)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="grid gap-0.5 text-[11px]">
+        {t("export.category")}
+        <select
+          data-nav
+          className={fieldClass}
+          value={category ?? ""}
+          onChange={(e) => setCategory((e.target.value || null) as SchemeCategory | null)}
+        >
+          <option value="">{t("share.allCategories")}</option>
+          {SCHEME_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {t(`category.${c}`)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {href ? (
+        <a
+          data-nav
+          className="win-btn px-3 py-2 text-xs border text-center"
+          href={href}
+          {...(format === "html" ? { target: "_blank", rel: "noopener" } : { download: "" })}
+        >
+          {t("export.download")}
+        </a>
+      ) : null}
+    </div>
+  )
+}
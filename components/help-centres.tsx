@@ -0,0 +1,121 @@
+"use client"
+
+import { useRef } from "react"
+import useSWR from "swr"
+import { useArrowNav } from "@/hooks/use-arrow-nav"
+import type { CentreKind, NearbyCentre } from "@/lib/centres"
+import { useI18n } from "@/components/i18n-provider"
+import { useSoftkeys, type SoftkeyOption } from "@/components/softkeys"
+
+type CentresPayload = {
+  mode: "nearest" | "district"
+  centres: NearbyCentre[]
+  coverage: "sample" | "imported"
+  helplines: { kind: CentreKind; phone: string }[]
+}
+
+const fetcher = async (url: string): Promise<CentresPayload> => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return res.json()
+}
+
+// "1800-121-3468" -> "tel:18001213468"; KaiOS opens the dialer for tel: links
+function telHref(phone: string) {
+  return `tel:${phone.replace(/[^\d+]/g, "")}`
+}
+
+// Where to apply: nearest CSCs, banks, post offices and district offices, each with a call link when
+// the data has a number. The Call key (or the Options menu) dials the focused centre, else the helpline.
+export default function HelpCentres({
+  geo,
+  state,
+  district,
+  onBack,
+}: {
+  geo: { lat: number; lon: number } | null
+  state: string
+  district: string | null
+  onBack: () => void
+}) {
+  const { t } = useI18n()
+  const rootRef = useRef<HTMLDivElement>(null)
+  const onKeyDown = useArrowNav(rootRef)
+
+  const params = new URLSearchParams({ state })
+  if (district) params.set("district", district)
+  if (geo) {
+    params.set("lat", geo.lat.toFixed(4))
+    params.set("lon", geo.lon.toFixed(4))
+  }
+  const { data, error, isLoading } = useSWR(`/api/centres?${params}`, fetcher, { revalidateOnFocus: false })
+  const helpline = data?.helplines[0]?.phone ?? null
+
+  const focusedPhone = () => {
+    const id = (document.activeElement as HTMLElement | null)?.closest<HTMLElement>("[data-centre-id]")?.dataset
+      .centreId
+    return data?.centres.find((c) => c.id === id)?.phone ?? null
+  }
+  const call = (phone: string | null) => {
+    if (phone) window.location.href = telHref(phone)
+  }
+
+  useSoftkeys({
+    back: { label: t("common.back"), onPress: onBack },
+    options: () => {
+      const options: SoftkeyOption[] = []
+      const phone = focusedPhone()
+      if (phone) options.push({ label: `${t("centres.call")} ${phone}`, onSelect: () => call(phone), shortcut: "call" })
+      if (helpline) options.push({ label: t("centres.helpline"), onSelect: () => call(helpline) })
+      return options
+    },
+    shortcuts: { call: () => call(focusedPhone() ?? helpline) },
+  })
+
+  return (
+    <div ref={rootRef} className="win-surface p-2" onKeyDown={onKeyDown}>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-medium">{t("centres.heading")}</h3>
+        <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={onBack}>
+          {t("common.back")}
+        </button>
+      </div>
+      {isLoading ? <p className="text-xs leading-5">{t("centres.loading")}</p> : null}
+      {error ? <p className="text-xs leading-5 text-[color:var(--destructive)]">{t("schemes.error")}</p> : null}
+      {data?.coverage === "sample" ? <p className="text-[11px] leading-5 mb-1 opacity-80">{t("centres.sample")}</p> : null}
+      {data?.mode === "district" && district && data.centres.length ? (
+        <p className="text-[11px] leading-5 opacity-70">{t("centres.inDistrict", { district })}</p>
+      ) : null}
+      {data && !data.centres.length ? <p className="text-xs leading-5">{t("centres.empty")}</p> : null}
+      {data?.centres.length ? (
+        <ul className="mt-1 grid grid-cols-1 gap-2">
+          {data.centres.map((c) => (
+            // Focusable so rows without a number can still be reached and read with the keypad
+            <li key={c.id} data-nav tabIndex={0} data-centre-id={c.id} className="rounded-lg border p-2">
+              <div className="text-sm font-medium leading-5 text-pretty">{c.name}</div>
+              <div className="text-[11px] leading-5 opacity-80">
+                {t(`centres.kind.${c.kind}`)}
+                {c.distanceKm !== null ? ` • ${t("centres.km", { km: c.distanceKm })}` : ""}
+              </div>
+              {c.address ? <div className="text-[11px] leading-5 opacity-80">{c.address}</div> : null}
+              {c.phone ? (
+                <a data-nav className="win-btn mt-1 inline-block px-3 py-2 text-xs border" href={telHref(c.phone)}>
+                  {t("centres.call")} {c.phone}
+                </a>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {helpline ? (
+        <div className="mt-2 rounded-lg border p-2">
+          <div className="text-xs font-medium leading-5">{t("centres.helpline")}</div>
+          <p className="text-[11px] leading-5 opacity-80">{t("centres.helplineNote")}</p>
+          <a data-nav className="win-btn mt-1 inline-block px-3 py-2 text-xs border" href={telHref(helpline)}>
+            {t("centres.call")} {helpline}
+          </a>
+        </div>
+      ) : null}
+    </div>
+  )
+}
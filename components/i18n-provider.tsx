@@ -0,0 +1,40 @@
+"use client"
+
+import { createContext, useCallback, useContext, useState, type ReactNode } from "react"
+import { useRouter } from "next/navigation"
+import { LOCALE_COOKIE, translate, type Locale, type MessageKey } from "@/lib/i18n"
+
+type I18nContextValue = {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: (key: MessageKey, vars?: Record<string, string | number>) => string
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+// The initial locale comes from the server (cookie or Accept-Language) so the first paint is already translated.
+export function I18nProvider({ locale: initial, children }: { locale: Locale; children: ReactNode }) {
+  const router = useRouter()
+  const [locale, setLocaleState] = useState(initial)
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      setLocaleState(next)
+      document.documentElement.lang = next
+      document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${365 * 24 * 60 * 60}; samesite=lax`
+      // Server-rendered text (header, footer) picks the new cookie up on refresh
+      router.refresh()
+    },
+    [router],
+  )
+
+  const t = useCallback<I18nContextValue["t"]>((key, vars) => translate(locale, key, vars), [locale])
+
+  return <I18nContext.Provider value={{ locale, setLocale, t }}>{children}</I18nContext.Provider>
+}
+
+export function useI18n() {
+  const ctx = useContext(I18nContext)
+  if (!ctx) throw new Error("useI18n must be used inside <I18nProvider>")
+  return ctx
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { isLocale, LOCALE_NAMES, LOCALES } from "@/lib/i18n"
+import { useI18n } from "@/components/i18n-provider"
+
+// The choice is stored in a cookie, so it persists across visits and applies to server-rendered text too.
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n()
+  return (
+    <select
+      value={locale}
+      onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+      aria-label={t("language.label")}
+      className="ml-auto rounded-md border bg-background px-1 py-0.5 text-[11px] focus:outline-2 focus:outline-[color:var(--ring)]"
+    >
+      {LOCALES.map((l) => (
+        <option key={l} value={l} lang={l}>
+          {LOCALE_NAMES[l]}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -1,20 +1,63 @@
 "use client"
 
-import { useEffect, useMemo, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import useSWR from "swr"
+import useSWRInfinite from "swr/infinite"
+import { useArrowNav } from "@/hooks/use-arrow-nav"
+import { useDeadlineReminders } from "@/hooks/use-deadline-reminders"
+import { useOnlineStatus } from "@/hooks/use-online-status"
+import { useSavedSchemes } from "@/hooks/use-saved-schemes"
+import { MAX_COMPARE, MIN_COMPARE } from "@/lib/compare"
+import { isProfileEmpty, rankByEligibility, type EligibilityVerdict } from "@/lib/eligibility"
+import type { SchemeItem } from "@/lib/schemes/schema"
+import type { MessageKey } from "@/lib/i18n"
+import type { SavedScheme } from "@/lib/saved-schemes"
 import { cn } from "@/lib/utils"
+import DeadlineBadge from "@/components/deadline-badge"
+import DocumentChecklist from "@/components/document-checklist"
+import EligibilityForm, { EligibilityBadge, useEligibilityProfile } from "@/components/eligibility-form"
+import HelpCentres from "@/components/help-centres"
+import { useI18n } from "@/components/i18n-provider"
+import RegionPicker, { useManualRegion } from "@/components/region-picker"
+import SavedSchemes from "@/components/saved-schemes"
+import SchemeCompare from "@/components/scheme-compare"
+import ShareSheet from "@/components/share-sheet"
+import SchemeSearchForm, {
+  EMPTY_SEARCH,
+  isSearchActive,
+  type FacetCount,
+  type SchemeSearch,
+} from "@/components/scheme-search"
+import { useSoftkeys, type SoftkeyOption } from "@/components/softkeys"
+import SchemeDetailView from "@/components/scheme-detail"
+import WhatsNew, { NewBadge, useRecentAdditions } from "@/components/whats-new"
 
 type Geo = { lat: number; lon: number }
 type ResolvedLocation = {
   state: string | null
   district: string | null
+  stateCode?: string | null
+  districtCode?: string | null
   raw?: any
 }
-type SchemeItem = {
-  title: string
-  href: string
-  description?: string
-  sourceUrl?: string
+type SearchPage = {
+  items: SchemeItem[]
+  total: number
+  page: number
+  pageSize: number
+  facets: { category: FacetCount[]; ministry: FacetCount[] }
+  note?: string
+}
+
+// Rows shown per page, both for the region list and for search results
+const PAGE_SIZE = 20
+
+// Compact "updated 3h ago" label from a cache age in seconds
+function formatAge(seconds: number, t: (key: MessageKey, vars?: Record<string, number>) => string) {
+  if (seconds < 60) return t("age.justNow")
+  if (seconds < 3600) return t("age.minutes", { n: Math.floor(seconds / 60) })
+  if (seconds < 86400) return t("age.hours", { n: Math.floor(seconds / 3600) })
+  return t("age.days", { n: Math.floor(seconds / 86400) })
 }
 
 const fetcher = async (url: string) => {
@@ -24,15 +67,36 @@ const fetcher = async (url: string) => {
 }
 
 export default function LocationSchemes() {
+  const { locale, t } = useI18n()
   const [geo, setGeo] = useState<Geo | null>(null)
-  const [geoError, setGeoError] = useState<string | null>(null)
+  const [geoError, setGeoError] = useState<MessageKey | null>(null)
   const [retryKey, setRetryKey] = useState(0)
+  const [selected, setSelected] = useState<{ slug: string; item: SchemeItem } | null>(null)
+  const [profile, setProfile] = useEligibilityProfile()
+  const [askEligibility, setAskEligibility] = useState(false)
+  const [hideIneligible, setHideIneligible] = useState(false)
+  const [manual, setManual] = useManualRegion()
+  const [picking, setPicking] = useState(false)
+  const [showSaved, setShowSaved] = useState(false)
+  const [showChecklist, setShowChecklist] = useState(false)
+  const [sharing, setSharing] = useState(false)
+  const [showCentres, setShowCentres] = useState(false)
+  const [comparing, setComparing] = useState<SchemeItem[]>([])
+  const [showCompare, setShowCompare] = useState(false)
+  const [search, setSearch] = useState<SchemeSearch>(EMPTY_SEARCH)
+  const [visible, setVisible] = useState(PAGE_SIZE)
+  const searchRef = useRef<HTMLInputElement>(null)
+  const online = useOnlineStatus()
+  const { saved, isSaved, toggle: toggleSaved, update: updateSaved } = useSavedSchemes()
+  const { permission: notifications, requestPermission } = useDeadlineReminders(saved, updateSaved)
+  const rootRef = useRef<HTMLElement>(null)
+  const onKeyDown = useArrowNav(rootRef)
 
   // Request location once on mount (or when retrying)
   useEffect(() => {
     let cancelled = false
     if (!("geolocation" in navigator)) {
-      setGeoError("Geolocation not supported on this device.")
+      setGeoError("location.unsupported")
       return
     }
     setGeoError(null)
@@ -46,7 +110,7 @@ export default function LocationSchemes() {
       },
       (err) => {
         if (cancelled) return
-        setGeoError(err.message || "Unable to retrieve your location.")
+        setGeoError(err.code === err.PERMISSION_DENIED ? "location.denied" : "location.unavailable")
       },
       {
         enableHighAccuracy: false,
@@ -69,123 +133,495 @@ export default function LocationSchemes() {
     { revalidateOnFocus: false },
   )
 
-  const stateParam = useMemo(() => {
+  // A manually picked region overrides GPS (no fix, denied permission, or a wrong reverse-geocode)
+  const region = useMemo(() => {
+    if (manual) return manual
     if (!resolved?.state) return null
-    return resolved.state
-  }, [resolved?.state])
+    return { state: resolved.state, district: resolved.district }
+  }, [manual, resolved?.state, resolved?.district])
+
+  const stateParam = region?.state ?? null
 
   const searchLink = useMemo(() => {
-    if (!resolved?.state) return null
-    const q = resolved.district ? `${resolved.state} ${resolved.district}` : resolved.state
+    if (!region) return null
+    const q = region.district ? `${region.state} ${region.district}` : region.state
     return `https://www.myscheme.gov.in/search?q=${encodeURIComponent(q)}`
-  }, [resolved?.state, resolved?.district])
+  }, [region])
 
   const {
     data: schemes,
     error: schemesErr,
     isLoading: loadingSchemes,
-  } = useSWR<{ items: SchemeItem[]; sourceUrl?: string; note?: string }>(
-    stateParam
-      ? `/api/schemes?state=${encodeURIComponent(resolved!.state!)}${
-          resolved?.district ? `&district=${encodeURIComponent(resolved.district)}` : ""
-        }`
+  } = useSWR<{ items: SchemeItem[]; sourceUrl?: string; note?: string; cacheAge?: number }>(
+    region
+      ? `/api/schemes?state=${encodeURIComponent(region.state)}${
+          region.district ? `&district=${encodeURIComponent(region.district)}` : ""
+        }&lang=${locale}`
       : null,
     fetcher,
     { revalidateOnFocus: false },
   )
 
+  // Keyword/facet search goes to the server index and is paged there; "Show more" loads the next page
+  const searching = Boolean(region) && isSearchActive(search)
+  const {
+    data: pages,
+    error: searchErr,
+    isLoading: loadingSearch,
+    isValidating: validatingSearch,
+    size: searchPages,
+    setSize: setSearchPages,
+  } = useSWRInfinite<SearchPage>(
+    (index, prev: SearchPage | null) => {
+      if (!region || !searching) return null
+      if (prev && prev.page * prev.pageSize >= prev.total) return null
+      const params = new URLSearchParams({ state: region.state, lang: locale })
+      if (region.district) params.set("district", region.district)
+      if (search.q) params.set("q", search.q)
+      if (search.category) params.set("category", search.category)
+      if (search.ministry) params.set("ministry", search.ministry)
+      params.set("page", String(index + 1))
+      params.set("pageSize", String(PAGE_SIZE))
+      return `/api/schemes/search?${params}`
+    },
+    fetcher,
+    { revalidateOnFocus: false, revalidateFirstPage: false },
+  )
+  const recent = useRecentAdditions(region)
+  const searchTotal = pages?.[0]?.total ?? 0
+  const listItems = useMemo(
+    () => (searching ? (pages ?? []).flatMap((p) => p.items) : (schemes?.items ?? [])),
+    [searching, pages, schemes?.items],
+  )
+
+  // A new region or search starts again from the first page
+  useEffect(() => setVisible(PAGE_SIZE), [region, search])
+
+  // With questionnaire answers, rank eligible schemes first and attach a badge to each row
+  const rows = useMemo<{ item: SchemeItem; verdict: EligibilityVerdict | null }[]>(() => {
+    if (isProfileEmpty(profile)) return listItems.map((item) => ({ item, verdict: null }))
+    const ranked = rankByEligibility(listItems, profile)
+    return hideIneligible ? ranked.filter((r) => r.verdict.status !== "not-eligible") : ranked
+  }, [listItems, profile, hideIneligible])
+
+  const shownRows = searching ? rows : rows.slice(0, visible)
+  const remaining = searching ? searchTotal - listItems.length : rows.length - shownRows.length
+  const showMore = () => (searching ? setSearchPages(searchPages + 1) : setVisible((n) => n + PAGE_SIZE))
+  const focusSearch = () => (searchRef.current ? searchRef.current.focus() : setPicking(true))
+
   const onRetry = () => {
     setGeo(null)
     setRetryKey((k) => k + 1)
   }
 
+  const toggleItem = (item: SchemeItem) =>
+    toggleSaved({
+      href: item.href,
+      title: item.title,
+      description: item.description,
+      region: region ? [region.district, region.state].filter(Boolean).join(", ") : undefined,
+      slug: item.slug,
+      documents: item.documents,
+      openDate: item.openDate,
+      closeDate: item.closeDate,
+    })
+
+  const isComparing = (item: SchemeItem) => comparing.some((c) => c.href === item.href)
+  const toggleCompare = (item: SchemeItem) =>
+    setComparing((current) =>
+      current.some((c) => c.href === item.href)
+        ? current.filter((c) => c.href !== item.href)
+        : current.length < MAX_COMPARE
+          ? [...current, item]
+          : current,
+    )
+  // Removing down to one scheme leaves nothing to compare
+  const removeCompared = (item: SchemeItem) => {
+    const next = comparing.filter((c) => c.href !== item.href)
+    setComparing(next)
+    if (next.length < MIN_COMPARE) setShowCompare(false)
+  }
+
+  // Choosing a reminder asks for notification permission once; a changed reminder may notify again
+  const setReminder = async (item: SavedScheme, daysBefore: number | undefined) => {
+    if (daysBefore !== undefined) await requestPermission()
+    await updateSaved(item.href, { remindDaysBefore: daysBefore, remindedFor: undefined })
+  }
+
+  // The scheme row holding keypad focus, if any
+  const focusedItem = () => {
+    const href = (document.activeElement as HTMLElement | null)?.closest<HTMLElement>("[data-scheme-href]")?.dataset
+      .schemeHref
+    return listItems.find((i) => i.href === href)
+  }
+  const saveFocused = () => {
+    const item = focusedItem()
+    if (item) toggleItem(item)
+  }
+
+  useSoftkeys({
+    options: () => {
+      const item = focusedItem()
+      const options: SoftkeyOption[] = [
+        { label: t("location.retryLabel"), onSelect: onRetry, shortcut: "retry" },
+      ]
+      if (region) options.push({ label: t("search.label"), onSelect: focusSearch, shortcut: "search" })
+      options.push({ label: region ? t("location.change") : t("location.choose"), onSelect: () => setPicking(true) })
+      if (item) {
+        options.push({
+          label: isSaved(item.href) ? t("options.unsave") : t("options.save"),
+          onSelect: () => toggleItem(item),
+          shortcut: "save",
+        })
+        if (isComparing(item) || comparing.length < MAX_COMPARE) {
+          options.push({
+            label: isComparing(item) ? t("compare.added") : t("compare.add"),
+            onSelect: () => toggleCompare(item),
+          })
+        }
+      }
+      if (comparing.length >= MIN_COMPARE) {
+        options.push({ label: t("compare.button", { count: comparing.length }), onSelect: () => setShowCompare(true) })
+      }
+      options.push({ label: t("saved.title"), onSelect: () => setShowSaved(true) })
+      if (region) options.push({ label: t("share.button"), onSelect: () => setSharing(true) })
+      if (region) options.push({ label: t("centres.button"), onSelect: () => setShowCentres(true) })
+      if (schemes?.items?.length) {
+        options.push({ label: t("eligibility.check"), onSelect: () => setAskEligibility(true) })
+      }
+      if (manual) options.push({ label: t("location.useGps"), onSelect: () => setManual(null) })
+      return options
+    },
+    shortcuts: { retry: onRetry, search: focusSearch, save: saveFocused },
+  })
+
   return (
-    <section aria-labelledby="schemes-title" className={cn("flex flex-col gap-2")}>
+    <section
+      ref={rootRef}
+      aria-labelledby="schemes-title"
+      className={cn("flex flex-col gap-2")}
+      onKeyDown={onKeyDown}
+    >
+      {!online ? (
+        <p role="status" className="win-surface p-2 text-xs leading-5 border border-[color:var(--destructive)]">
+          <strong>{t("offline.title")}</strong> {t("offline.body")}
+        </p>
+      ) : null}
       <div className="win-surface p-2">
         <div className="flex items-center justify-between">
           <h2 id="schemes-title" className="text-sm font-medium">
-            Your location
+            {t("location.title")}
           </h2>
           <button
             type="button"
+            data-nav
             onClick={onRetry}
-            className={cn(
-              "win-btn px-3 py-2 text-xs bg-primary text-primary-foreground active:scale-95 transition touch-lg",
-            )}
-            aria-label="Retry location"
+            className={cn("win-btn px-3 py-2 text-xs bg-primary text-primary-foreground")}
+            aria-label={t("location.retryLabel")}
           >
-            Retry
+            {t("location.retry")}
           </button>
         </div>
 
-        {!geo && !geoError && <p className="text-xs leading-5 mt-1">Requesting location…</p>}
-        {geoError && <p className="text-xs leading-5 mt-1 text-[color:var(--destructive)]">{geoError}</p>}
-        {geo && (
+        {!manual && !geo && !geoError && <p className="text-xs leading-5 mt-1">{t("location.requesting")}</p>}
+        {!manual && geoError && <p className="text-xs leading-5 mt-1 text-[color:var(--destructive)]">{t(geoError)}</p>}
+        {!manual && geo && (
           <p className="text-[11px] leading-5 mt-1 opacity-80">
-            Coords: {geo.lat.toFixed(3)}, {geo.lon.toFixed(3)}
+            {t("location.coords", { lat: geo.lat.toFixed(3), lon: geo.lon.toFixed(3) })}
           </p>
         )}
-        {resolving && <p className="text-xs leading-5 mt-1">Resolving state/district…</p>}
-        {resolveErr && (
+        {!manual && resolving && <p className="text-xs leading-5 mt-1">{t("location.resolving")}</p>}
+        {!manual && resolveErr && (
           <p className="text-xs leading-5 mt-1 text-[color:var(--destructive)]">
-            Could not resolve state from your location.
+            {t("location.resolveFailed")}
           </p>
         )}
-        {resolved?.state && (
+        {region && (
           <p className="text-sm leading-5 mt-1">
-            State: <strong>{resolved.state}</strong>
-            {resolved.district ? <span className="opacity-80"> • District: {resolved.district}</span> : null}
+            {t("location.state")} <strong>{region.state}</strong>
+            {region.district ? (
+              <span className="opacity-80">
+                {" "}
+                • {t("location.district")} {region.district}
+              </span>
+            ) : null}
+            {manual ? <span className="text-[11px] opacity-70"> {t("location.chosen")}</span> : null}
           </p>
         )}
+
+        {picking ? (
+          <RegionPicker
+            initial={region}
+            onPick={(r) => {
+              setManual(r)
+              setPicking(false)
+            }}
+            onCancel={() => setPicking(false)}
+          />
+        ) : (
+          <div className="flex flex-wrap gap-2 mt-1">
+            <button
+              type="button"
+              data-nav
+              className={cn(
+                "win-btn px-3 py-2 text-xs border",
+                !region && (geoError || resolveErr) && "bg-primary text-primary-foreground",
+              )}
+              onClick={() => setPicking(true)}
+            >
+              {region ? t("location.change") : t("location.choose")}
+            </button>
+            {manual ? (
+              <button
+                type="button"
+                data-nav
+                className="win-btn px-3 py-2 text-xs border"
+                onClick={() => setManual(null)}
+              >
+                {t("location.useGps")}
+              </button>
+            ) : null}
+          </div>
+        )}
       </div>
 
-      <div className="win-surface p-2">
-        <div className="flex items-center justify-between mb-1">
-          <h3 className="text-sm font-medium">Schemes for your region</h3>
-          {stateParam ? (
-            <a
-              className="text-xs underline hover:opacity-90 focus:outline-none"
-              href={searchLink || `https://www.myscheme.gov.in/`}
-              target="_blank"
-              rel="noopener noreferrer"
-              aria-label="Open myScheme website"
+      {selected ? (
+        <SchemeDetailView
+          slug={selected.slug}
+          title={selected.item.title}
+          onBack={() => setSelected(null)}
+          saved={isSaved(selected.item.href)}
+          onToggleSave={() => toggleItem(selected.item)}
+        />
+      ) : showCompare && comparing.length >= MIN_COMPARE ? (
+        <SchemeCompare items={comparing} onRemove={removeCompared} onBack={() => setShowCompare(false)} />
+      ) : showCentres && region ? (
+        <HelpCentres
+          geo={manual ? null : geo}
+          state={region.state}
+          district={region.district}
+          onBack={() => setShowCentres(false)}
+        />
+      ) : sharing && region ? (
+        <ShareSheet
+          state={region.state}
+          district={region.district}
+          category={search.category}
+          onBack={() => setSharing(false)}
+        />
+      ) : showSaved && showChecklist ? (
+        <DocumentChecklist saved={saved} onBack={() => setShowChecklist(false)} />
+      ) : showSaved ? (
+        <SavedSchemes
+          saved={saved}
+          onRemove={(item) => toggleSaved(item)}
+          onRemind={setReminder}
+          notifications={notifications}
+          onChecklist={() => setShowChecklist(true)}
+          onBack={() => setShowSaved(false)}
+        />
+      ) : (
+        <div className="win-surface p-2">
+          <div className="flex items-center justify-between mb-1">
+            <h3 className="text-sm font-medium">{t("schemes.title")}</h3>
+            <button type="button" data-nav className="text-xs underline" onClick={() => setShowSaved(true)}>
+              {t("schemes.savedCount", { count: saved.length })}
+            </button>
+            {stateParam ? (
+              <a
+                data-nav
+                className="text-xs underline hover:opacity-90"
+                href={searchLink || `https://www.myscheme.gov.in/`}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-label={t("schemes.openMySchemeLabel")}
+              >
+                {t("schemes.openMyScheme")}
+              </a>
+            ) : null}
+          </div>
+
+          {!stateParam && !resolving && <p className="text-xs leading-5">{t("schemes.waiting")}</p>}
+          {loadingSchemes && stateParam && <p className="text-xs leading-5">{t("schemes.loading")}</p>}
+          {schemesErr && (
+            <p className="text-xs leading-5 text-[color:var(--destructive)]">
+              {online ? t("schemes.error") : t("schemes.offlineError")}
+            </p>
+          )}
+          {schemes?.note ? <p className="text-[11px] leading-5 mb-2 opacity-80">{schemes.note}</p> : null}
+          {region && (schemes?.items?.length || searching) ? (
+            <SchemeSearchForm value={search} onChange={setSearch} facets={pages?.[0]?.facets} inputRef={searchRef} />
+          ) : null}
+          {searching && loadingSearch ? <p className="text-xs leading-5">{t("search.loading")}</p> : null}
+          {searching && searchErr ? (
+            <p className="text-xs leading-5 text-[color:var(--destructive)]">
+              {online ? t("schemes.error") : t("schemes.offlineError")}
+            </p>
+          ) : null}
+          {searching && pages?.[0]?.note ? (
+            <p className="text-[11px] leading-5 mb-1 opacity-80">{pages[0].note}</p>
+          ) : null}
+          {searching && pages ? (
+            <p role="status" className="text-[11px] leading-5 opacity-70">
+              {searchTotal ? t("search.results", { total: searchTotal }) : t("search.noResults")}
+            </p>
+          ) : null}
+          {typeof schemes?.cacheAge === "number" && schemes.items?.length ? (
+            <p className="text-[11px] leading-5 opacity-70">
+              {t("schemes.updated", { age: formatAge(schemes.cacheAge, t) })}
+            </p>
+          ) : null}
+
+          {!searching && schemes?.items?.length ? (
+            <WhatsNew
+              added={recent.added}
+              items={schemes.items}
+              rss={recent.rss}
+              onOpen={(slug, item) => setSelected({ slug, item })}
+            />
+          ) : null}
+
+          {schemes?.items?.length ? (
+            <div className="flex flex-wrap items-center gap-2 my-1">
+              <button
+                type="button"
+                data-nav
+                className="win-btn px-3 py-2 text-xs border"
+                aria-expanded={askEligibility}
+                onClick={() => setAskEligibility((v) => !v)}
+              >
+                {isProfileEmpty(profile) ? t("eligibility.check") : t("eligibility.edit")}
+              </button>
+              <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={() => setSharing(true)}>
+                {t("share.button")}
+              </button>
+              <button
+                type="button"
+                data-nav
+                className="win-btn px-3 py-2 text-xs border"
+                onClick={() => setShowCentres(true)}
+              >
+                {t("centres.button")}
+              </button>
+              {!isProfileEmpty(profile) ? (
+                <label className="flex items-center gap-1 text-[11px]">
+                  <input
+                    type="checkbox"
+                    data-nav
+                    checked={hideIneligible}
+                    onChange={(e) => setHideIneligible(e.target.checked)}
+                  />
+                  {t("eligibility.hide")}
+                </label>
+              ) : null}
+            </div>
+          ) : null}
+          {askEligibility ? (
+            <EligibilityForm profile={profile} onChange={setProfile} onDone={() => setAskEligibility(false)} />
+          ) : null}
+
+          {comparing.length ? (
+            <div role="status" className="flex flex-wrap items-center gap-2 my-1 rounded-lg border p-1.5">
+              <span className="text-[11px] leading-5 flex-1 min-w-0">
+                {t("compare.selected", { count: comparing.length, max: MAX_COMPARE })}
+              </span>
+              <button
+                type="button"
+                data-nav
+                className="win-btn px-3 py-2 text-xs border bg-primary text-primary-foreground"
+                disabled={comparing.length < MIN_COMPARE}
+                onClick={() => setShowCompare(true)}
+              >
+                {t("compare.button", { count: comparing.length })}
+              </button>
+              <button type="button" data-nav className="text-[11px] underline" onClick={() => setComparing([])}>
+                {t("compare.clear")}
+              </button>
+            </div>
+          ) : null}
+
+          {listItems.length ? (
+            <ul className="mt-1 grid grid-cols-1 gap-2">
+              {shownRows.map(({ item, verdict }) => {
+                const slug = item.slug
+                const body = (
+                  <>
+                    <div className="text-sm font-medium leading-5 text-pretty">
+                      {item.title}
+                      {recent.hrefs.has(item.href) ? <NewBadge /> : null}
+                    </div>
+                    {item.description ? (
+                      <div className="text-[11px] leading-5 mt-1 opacity-80 line-clamp-3">{item.description}</div>
+                    ) : null}
+                  </>
+                )
+                return (
+                  <li
+                    key={item.href}
+                    lang={item.lang}
+                    data-scheme-href={item.href}
+                    className="rounded-lg border p-2 hover:bg-muted/40 transition"
+                  >
+                    {slug ? (
+                      // Scheme pages open in the in-app detail view instead of leaving for myScheme
+                      <button
+                        type="button"
+                        data-nav
+                        className="block w-full text-left"
+                        onClick={() => setSelected({ slug, item })}
+                      >
+                        {body}
+                      </button>
+                    ) : (
+                      <a
+                        data-nav
+                        className="block"
+                        href={item.canonicalUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        {body}
+                      </a>
+                    )}
+                    <DeadlineBadge openDate={item.openDate} closeDate={item.closeDate} />
+                    {verdict ? <EligibilityBadge status={verdict.status} reason={verdict.reason} /> : null}
+                    <button
+                      type="button"
+                      className="mt-1 text-[11px] underline"
+                      aria-pressed={isSaved(item.href)}
+                      onClick={() => toggleItem(item)}
+                    >
+                      {isSaved(item.href) ? t("schemes.saved") : t("schemes.save")}
+                    </button>
+                    <button
+                      type="button"
+                      className="mt-1 ml-3 text-[11px] underline disabled:opacity-50 disabled:no-underline"
+                      aria-pressed={isComparing(item)}
+                      disabled={!isComparing(item) && comparing.length >= MAX_COMPARE}
+                      onClick={() => toggleCompare(item)}
+                    >
+                      {isComparing(item) ? t("compare.added") : t("compare.add")}
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          ) : stateParam && !searching && !loadingSchemes && !schemesErr ? (
+            <p className="text-xs leading-5">{t("schemes.empty")}</p>
+          ) : null}
+          {remaining > 0 ? (
+            <button
+              type="button"
+              data-nav
+              className="win-btn mt-2 w-full px-3 py-2 text-xs border"
+              disabled={searching && validatingSearch}
+              onClick={showMore}
             >
-              Open myScheme
-            </a>
+              {t("schemes.showMore", { count: remaining })}
+            </button>
           ) : null}
         </div>
-
-        {!stateParam && !resolving && <p className="text-xs leading-5">Waiting for your state to load…</p>}
-        {loadingSchemes && stateParam && <p className="text-xs leading-5">Fetching schemes from myScheme…</p>}
-        {schemesErr && (
-          <p className="text-xs leading-5 text-[color:var(--destructive)]">
-            Could not fetch schemes. Please try again.
-          </p>
-        )}
-        {schemes?.note ? <p className="text-[11px] leading-5 mb-2 opacity-80">{schemes.note}</p> : null}
-
-        {schemes?.items?.length ? (
-          <ul className="mt-1 grid grid-cols-1 gap-2">
-            {schemes.items.slice(0, 50).map((item) => (
-              <li key={item.href} className="rounded-lg border p-2 hover:bg-muted/40 transition">
-                <a
-                  className="block"
-                  href={item.href.startsWith("http") ? item.href : `https://www.myscheme.gov.in${item.href}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                >
-                  <div className="text-sm font-medium leading-5 text-pretty">{item.title}</div>
-                  {item.description ? (
-                    <div className="text-[11px] leading-5 mt-1 opacity-80 line-clamp-3">{item.description}</div>
-                  ) : null}
-                </a>
-              </li>
-            ))}
-          </ul>
-        ) : stateParam && !loadingSchemes && !schemesErr ? (
-          <p className="text-xs leading-5">No schemes found right now. You can browse directly on myScheme above.</p>
-        ) : null}
-      </div>
+      )}
     </section>
   )
 }
@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useArrowNav } from "@/hooks/use-arrow-nav"
+import { findState, searchEntries, STATES } from "@/lib/gazetteer"
+import { useI18n } from "@/components/i18n-provider"
+import { useSoftkeys } from "@/components/softkeys"
+
+export type ManualRegion = { state: string; district: string | null }
+
+const STORAGE_KEY = "manual-region"
+
+// The chosen region persists on the device until the user switches back to GPS.
+export function useManualRegion() {
+  const [region, setRegion] = useState<ManualRegion | null>(null)
+
+  useEffect(() => {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY)
+      if (raw) setRegion(JSON.parse(raw))
+    } catch {
+      // ignore unreadable storage
+    }
+  }, [])
+
+  const save = (next: ManualRegion | null) => {
+    setRegion(next)
+    try {
+      if (next) localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      else localStorage.removeItem(STORAGE_KEY)
+    } catch {
+      // storage full or disabled; keep the in-memory choice
+    }
+  }
+
+  return [region, save] as const
+}
+
+// Two-step state → district picker. Type to filter, Down to move into the list, OK to choose.
+export default function RegionPicker({
+  initial,
+  onPick,
+  onCancel,
+}: {
+  initial?: ManualRegion | null
+  onPick: (region: ManualRegion) => void
+  onCancel: () => void
+}) {
+  const { t } = useI18n()
+  const rootRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [state, setState] = useState<string | null>(initial?.state ? (findState(initial.state)?.name ?? null) : null)
+  const [query, setQuery] = useState("")
+
+  // Search also matches old names and Hindi/regional-script names, e.g. "Gurgaon" or "नागपुर"
+  const options = useMemo(() => {
+    if (!state) return searchEntries(STATES, query).map((s) => s.name)
+    return searchEntries(findState(state)?.districts ?? [], query).map((d) => d.name)
+  }, [state, query])
+
+  // Each step starts in the search box with an empty query
+  useEffect(() => {
+    setQuery("")
+    inputRef.current?.focus()
+  }, [state])
+
+  const back = () => (state ? setState(null) : onCancel())
+  const onKeyDown = useArrowNav(rootRef)
+  useSoftkeys({
+    back: { label: state ? t("common.back") : t("common.cancel"), onPress: back },
+    options: state
+      ? () => [{ label: t("picker.wholeState"), onSelect: () => onPick({ state, district: null }) }]
+      : undefined,
+    shortcuts: { search: () => inputRef.current?.focus() },
+  })
+
+  const choose = (name: string) => {
+    if (!state) {
+      const s = findState(name)
+      // Single-district UTs need no second step
+      if (s && s.districts.length === 1) onPick({ state: s.name, district: s.districts[0].name })
+      else setState(name)
+      return
+    }
+    onPick({ state, district: name })
+  }
+
+  return (
+    <div ref={rootRef} className="mt-2 grid gap-1" onKeyDown={onKeyDown}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-medium">{state ? t("picker.districtIn", { state }) : t("picker.chooseState")}</p>
+        <button type="button" data-nav className="win-btn px-2 py-1 text-[11px] border" onClick={back}>
+          {state ? t("common.back") : t("common.cancel")}
+        </button>
+      </div>
+      <input
+        ref={inputRef}
+        data-nav
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && options.length) {
+            e.preventDefault()
+            choose(options[0])
+          }
+        }}
+        placeholder={state ? t("picker.searchDistrict") : t("picker.searchState")}
+        aria-label={state ? t("picker.searchDistrict") : t("picker.searchState")}
+        className="w-full rounded-md border bg-background px-2 py-1.5 text-xs focus:outline-2 focus:outline-[color:var(--ring)]"
+      />
+      {state ? (
+        <button
+          type="button"
+          data-nav
+          className="text-left text-[11px] underline px-1 py-1"
+          onClick={() => onPick({ state, district: null })}
+        >
+          {t("picker.wholeState")}
+        </button>
+      ) : null}
+      <ul className="max-h-48 overflow-y-auto grid gap-0.5" role="listbox" aria-label={state ? t("picker.districts") : t("picker.states")}>
+        {options.map((name) => (
+          <li key={name}>
+            <button
+              type="button"
+              data-nav
+              role="option"
+              aria-selected={name === (state ? initial?.district : initial?.state)}
+              onClick={() => choose(name)}
+              className="w-full text-left rounded px-2 py-1.5 text-xs focus:bg-primary focus:text-primary-foreground"
+            >
+              {name}
+            </button>
+          </li>
+        ))}
+        {!options.length ? <li className="text-[11px] opacity-70 px-2 py-1">{t("picker.noMatches")}</li> : null}
+      </ul>
+    </div>
+  )
+}
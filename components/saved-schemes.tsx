@@ -0,0 +1,159 @@
+"use client"
+
+import { useRef } from "react"
+import { useArrowNav } from "@/hooks/use-arrow-nav"
+import { deadlineState, todayIso } from "@/lib/deadlines"
+import { deadlinesToIcs } from "@/lib/ics"
+import type { SavedScheme } from "@/lib/saved-schemes"
+import { absoluteUrl } from "@/lib/schemes/slug"
+import DeadlineBadge from "@/components/deadline-badge"
+import { useI18n } from "@/components/i18n-provider"
+import { useSoftkeys, type SoftkeyOption } from "@/components/softkeys"
+
+// Reminder choices offered for a saved scheme with a closing date, in days before it
+const REMIND_DAYS = [0, 3, 7, 14]
+
+function downloadCalendar(saved: SavedScheme[]) {
+  const ics = deadlinesToIcs(
+    saved.map((s) => ({
+      uid: `saved:${s.href}`,
+      title: s.title,
+      date: s.closeDate!,
+      url: absoluteUrl(s.href),
+      description: s.region,
+      remindDaysBefore: s.remindDaysBefore,
+    })),
+  )
+  const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = "scheme-deadlines.ics"
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Saved schemes come from IndexedDB, so this list works with no connectivity at all.
+export default function SavedSchemes({
+  saved,
+  onRemove,
+  onRemind,
+  notifications,
+  onChecklist,
+  onBack,
+}: {
+  saved: SavedScheme[]
+  onRemove: (item: SavedScheme) => void
+  onRemind: (item: SavedScheme, daysBefore: number | undefined) => void
+  // Notification permission; reminders still go into the calendar export when it is not granted
+  notifications: NotificationPermission | "unsupported"
+  onChecklist: () => void
+  onBack: () => void
+}) {
+  const { t } = useI18n()
+  const rootRef = useRef<HTMLDivElement>(null)
+  const onKeyDown = useArrowNav(rootRef)
+  const today = todayIso()
+  // Deadlines still ahead; closed windows are left out of the calendar export
+  const upcoming = saved.filter((s) => s.closeDate && deadlineState(s, today)?.kind !== "closed")
+  const hasReminders = saved.some((s) => s.remindDaysBefore !== undefined)
+
+  // The focused row, for "remove" from the Options menu or the save shortcut
+  const focused = () => {
+    const href = (document.activeElement as HTMLElement | null)?.closest<HTMLElement>("[data-scheme-href]")?.dataset
+      .schemeHref
+    return saved.find((s) => s.href === href)
+  }
+  const removeFocused = () => {
+    const item = focused()
+    if (item) onRemove(item)
+  }
+  useSoftkeys({
+    back: { label: t("common.back"), onPress: onBack },
+    options: () => {
+      const options: SoftkeyOption[] = []
+      if (focused()) options.push({ label: t("saved.remove"), onSelect: removeFocused, shortcut: "save" })
+      if (saved.length) options.push({ label: t("checklist.title"), onSelect: onChecklist })
+      if (upcoming.length) options.push({ label: t("reminder.export"), onSelect: () => downloadCalendar(upcoming) })
+      return options
+    },
+    shortcuts: { save: removeFocused },
+  })
+
+  return (
+    <div ref={rootRef} className="win-surface p-2" onKeyDown={onKeyDown}>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-medium">{t("saved.title")}</h3>
+        <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={onBack}>
+          {t("common.back")}
+        </button>
+      </div>
+      {saved.length ? (
+        <button type="button" data-nav className="win-btn mb-1 w-full px-3 py-2 text-xs border" onClick={onChecklist}>
+          {t("checklist.title")}
+        </button>
+      ) : null}
+      {upcoming.length ? (
+        <button
+          type="button"
+          data-nav
+          className="win-btn mb-1 w-full px-3 py-2 text-xs border"
+          onClick={() => downloadCalendar(upcoming)}
+        >
+          {t("reminder.export")}
+        </button>
+      ) : null}
+      {hasReminders && (notifications === "denied" || notifications === "unsupported") ? (
+        <p className="text-[11px] leading-5 mb-1 opacity-80">{t("reminder.blocked")}</p>
+      ) : null}
+      {saved.length ? (
+        <ul className="mt-1 grid grid-cols-1 gap-2">
+          {saved.map((item) => (
+            <li key={item.href} data-scheme-href={item.href} className="rounded-lg border p-2">
+              <a
+                data-nav
+                className="block"
+                href={absoluteUrl(item.href)}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <div className="text-sm font-medium leading-5 text-pretty">{item.title}</div>
+                {item.description ? (
+                  <div className="text-[11px] leading-5 mt-1 opacity-80">{item.description}</div>
+                ) : null}
+              </a>
+              <DeadlineBadge openDate={item.openDate} closeDate={item.closeDate} />
+              {item.closeDate && deadlineState(item, today)?.kind !== "closed" ? (
+                <label className="mt-1 flex items-center gap-2 text-[11px]">
+                  {t("reminder.label")}
+                  <select
+                    data-nav
+                    className="rounded-md border bg-background px-1 py-1 text-[11px]"
+                    value={item.remindDaysBefore ?? ""}
+                    onChange={(e) => onRemind(item, e.target.value === "" ? undefined : Number(e.target.value))}
+                  >
+                    <option value="">{t("reminder.off")}</option>
+                    {REMIND_DAYS.map((days) => (
+                      <option key={days} value={days}>
+                        {days ? t("reminder.daysBefore", { days }) : t("reminder.onDay")}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+              <div className="mt-1 flex items-center justify-between gap-2 text-[11px]">
+                <span className="opacity-70">{item.region}</span>
+                <button type="button" className="underline" onClick={() => onRemove(item)}>
+                  {t("saved.remove")}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs leading-5">{t("saved.empty")}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import useSWR from "swr"
+import { useArrowNav } from "@/hooks/use-arrow-nav"
+import { compareRows, MAX_COMPARE } from "@/lib/compare"
+import type { SchemeDetail } from "@/lib/schemes/detail"
+import type { SchemeItem } from "@/lib/schemes/schema"
+import { useI18n } from "@/components/i18n-provider"
+import { useSoftkeys } from "@/components/softkeys"
+
+// Lines shown per cell before "+N more"; documents lists run long
+const CELL_LINES = 4
+
+const letter = (i: number) => String.fromCharCode(65 + i)
+
+// A scheme page that fails to load leaves that column to the curated data
+async function fetchDetails(slugs: string[], lang: string): Promise<Record<string, SchemeDetail | null>> {
+  const details = await Promise.all(
+    slugs.map(async (slug) => {
+      try {
+        const res = await fetch(`/api/schemes/${encodeURIComponent(slug)}?lang=${lang}`)
+        return res.ok ? ((await res.json()).detail as SchemeDetail | null) : null
+      } catch {
+        return null
+      }
+    }),
+  )
+  return Object.fromEntries(slugs.map((slug, i) => [slug, details[i]]))
+}
+
+// Two or three schemes in aligned rows. Schemes are lettered A-C and every row lists each one's value
+// under its letter, so the rows stay readable on a 240px screen where columns would not fit.
+export default function SchemeCompare({
+  items,
+  onRemove,
+  onBack,
+}: {
+  items: SchemeItem[]
+  onRemove: (item: SchemeItem) => void
+  onBack: () => void
+}) {
+  const { locale, t } = useI18n()
+  const rootRef = useRef<HTMLDivElement>(null)
+  const onKeyDown = useArrowNav(rootRef)
+  const slugs = items.flatMap((i) => (i.slug ? [i.slug] : []))
+  const { data: details, isLoading } = useSWR(
+    slugs.length ? ["compare", locale, ...slugs] : null,
+    () => fetchDetails(slugs, locale),
+    { revalidateOnFocus: false },
+  )
+  const rows = compareRows(
+    items.map((item) => ({ item, detail: item.slug ? details?.[item.slug] : null })),
+    t,
+  )
+
+  useEffect(() => {
+    rootRef.current?.querySelector<HTMLElement>("[data-nav]")?.focus()
+  }, [])
+
+  useSoftkeys({ back: { label: t("common.back"), onPress: onBack } })
+
+  return (
+    <div ref={rootRef} className="win-surface p-2" onKeyDown={onKeyDown}>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-medium">{t("compare.title")}</h3>
+        <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={onBack}>
+          {t("common.back")}
+        </button>
+      </div>
+      <ol className="grid gap-1">
+        {items.slice(0, MAX_COMPARE).map((item, i) => (
+          <li key={item.href} lang={item.lang} className="flex items-start gap-1.5 rounded-lg border p-1.5">
+            <span className="flex-none w-5 text-center text-xs font-bold leading-5 rounded bg-primary text-primary-foreground">
+              {letter(i)}
+            </span>
+            <span className="flex-1 min-w-0 text-xs font-medium leading-5 text-pretty break-words">{item.title}</span>
+            <button
+              type="button"
+              data-nav
+              className="flex-none px-1.5 text-xs leading-5"
+              aria-label={t("compare.remove", { title: item.title })}
+              onClick={() => onRemove(item)}
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ol>
+      {isLoading ? <p className="text-[11px] leading-5 mt-1 opacity-80">{t("compare.loading")}</p> : null}
+
+      {rows.map((row) => (
+        // Focusable so the keypad can step through the rows
+        <section key={row.id} data-nav tabIndex={0} className="mt-2 border-t pt-1" aria-label={t(row.label)}>
+          <h4 className="text-xs font-medium leading-5">{t(row.label)}</h4>
+          <dl className="grid grid-cols-[auto_minmax(0,1fr)] gap-x-1.5 gap-y-1">
+            {row.cells.map((lines, i) => (
+              <div key={items[i].href} className="contents">
+                <dt className="text-[11px] font-bold leading-4">{letter(i)}</dt>
+                <dd className="text-[11px] leading-4 break-words">
+                  {!lines.length ? (
+                    <span className="opacity-60">{t("compare.unknown")}</span>
+                  ) : (
+                    <>
+                      {lines.slice(0, CELL_LINES).map((line, j) => (
+                        <span key={j} className="block">
+                          {line}
+                        </span>
+                      ))}
+                      {lines.length > CELL_LINES ? (
+                        <span className="block opacity-70">{t("share.more", { count: lines.length - CELL_LINES })}</span>
+                      ) : null}
+                    </>
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      ))}
+      <p className="mt-2 text-[11px] leading-5 opacity-70">{t("compare.note")}</p>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import useSWR from "swr"
+import { useArrowNav } from "@/hooks/use-arrow-nav"
+import type { MessageKey } from "@/lib/i18n"
+import { useI18n } from "@/components/i18n-provider"
+import { useSoftkeys, type SoftkeyOption } from "@/components/softkeys"
+import { cn } from "@/lib/utils"
+
+type SchemeFaq = { question: string; answer: string }
+type SchemeDetail = {
+  slug: string
+  title: string
+  description?: string
+  url: string
+  benefits: string[]
+  eligibility: string[]
+  documents: string[]
+  application: string[]
+  faqs: SchemeFaq[]
+}
+
+const SECTIONS = [
+  { id: "benefits", label: "detail.benefits" },
+  { id: "eligibility", label: "detail.eligibility" },
+  { id: "documents", label: "detail.documents" },
+  { id: "application", label: "detail.application" },
+  { id: "faqs", label: "detail.faqs" },
+] as const satisfies readonly { id: string; label: MessageKey }[]
+
+type SectionId = (typeof SECTIONS)[number]["id"]
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return res.json()
+}
+
+export default function SchemeDetailView({
+  slug,
+  title,
+  onBack,
+  saved,
+  onToggleSave,
+}: {
+  slug: string
+  title: string
+  onBack: () => void
+  saved?: boolean
+  onToggleSave?: () => void
+}) {
+  const { locale, t } = useI18n()
+  const rootRef = useRef<HTMLElement>(null)
+  const [open, setOpen] = useState<SectionId | null>("benefits")
+  const { data, error, isLoading } = useSWR<{ detail: SchemeDetail }>(
+    `/api/schemes/${encodeURIComponent(slug)}?lang=${locale}`,
+    fetcher,
+    { revalidateOnFocus: false },
+  )
+  const detail = data?.detail
+  const externalUrl = detail?.url || `https://www.myscheme.gov.in/schemes/${slug}`
+
+  // Start keypad focus on the back button so the screen is usable without touch
+  useEffect(() => {
+    rootRef.current?.querySelector<HTMLElement>("[data-nav]")?.focus()
+  }, [])
+
+  const onKeyDown = useArrowNav(rootRef)
+  useSoftkeys({
+    back: { label: t("common.back"), onPress: onBack },
+    options: () => {
+      const options: SoftkeyOption[] = []
+      if (onToggleSave) {
+        options.push({ label: saved ? t("options.unsave") : t("options.save"), onSelect: onToggleSave, shortcut: "save" })
+      }
+      options.push({ label: t("detail.open"), onSelect: () => window.open(externalUrl, "_blank", "noopener") })
+      return options
+    },
+    shortcuts: { save: onToggleSave },
+  })
+
+  const count = (id: SectionId) => (detail ? detail[id].length : 0)
+
+  return (
+    <section
+      ref={rootRef}
+      aria-labelledby="scheme-detail-title"
+      className="win-surface p-2 flex flex-col gap-2"
+      onKeyDown={onKeyDown}
+    >
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          data-nav
+          onClick={onBack}
+          className="win-btn px-3 py-2 text-xs border focus:outline-2 focus:outline-[color:var(--ring)]"
+          aria-label={t("detail.backLabel")}
+        >
+          {t("common.back")}
+        </button>
+        <h3 id="scheme-detail-title" className="text-sm font-medium leading-5 text-pretty">
+          {detail?.title || title}
+        </h3>
+      </div>
+
+      {isLoading && <p className="text-xs leading-5">{t("detail.loading")}</p>}
+      {error && (
+        <p className="text-xs leading-5 text-[color:var(--destructive)]">
+          {t("detail.error")}
+        </p>
+      )}
+      {detail?.description ? <p className="text-[11px] leading-5 opacity-80">{detail.description}</p> : null}
+
+      {detail ? (
+        <ul className="grid grid-cols-1 gap-1">
+          {SECTIONS.filter((s) => count(s.id) > 0).map((s) => (
+            <li key={s.id} className="rounded-lg border">
+              <button
+                type="button"
+                data-nav
+                aria-expanded={open === s.id}
+                onClick={() => setOpen(open === s.id ? null : s.id)}
+                className="w-full text-left px-2 py-2 text-sm font-medium flex justify-between focus:bg-muted/60"
+              >
+                <span>{t(s.label)}</span>
+                <span className="text-[11px] opacity-70">{open === s.id ? "−" : `+${count(s.id)}`}</span>
+              </button>
+              {open === s.id ? (
+                <div className="px-2 pb-2">
+                  {s.id === "faqs" ? (
+                    <dl className="grid gap-1">
+                      {detail.faqs.map((f, i) => (
+                        <div key={i}>
+                          <dt className="text-xs font-medium leading-5">{f.question}</dt>
+                          <dd className="text-[11px] leading-5 opacity-80">{f.answer}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  ) : (
+                    <ul className={cn("list-disc pl-4 grid gap-1")}>
+                      {detail[s.id].map((line, i) => (
+                        <li key={i} className="text-[11px] leading-5">
+                          {line}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <a
+        data-nav
+        className="text-xs underline hover:opacity-90 focus:outline-2 focus:outline-[color:var(--ring)]"
+        href={externalUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        {t("detail.open")}
+      </a>
+    </section>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { useEffect, useState, type RefObject } from "react"
+import { SCHEME_CATEGORIES, type SchemeCategory } from "@/lib/schemes/categories"
+import { useI18n } from "@/components/i18n-provider"
+
+export type SchemeSearch = { q: string; category: SchemeCategory | null; ministry: string | null }
+export type FacetCount = { value: string; count: number }
+
+export const EMPTY_SEARCH: SchemeSearch = { q: "", category: null, ministry: null }
+
+export function isSearchActive(s: SchemeSearch) {
+  return Boolean(s.q || s.category || s.ministry)
+}
+
+const fieldClass = "rounded-md border bg-background px-2 py-1.5 text-xs focus:outline-2 focus:outline-[color:var(--ring)]"
+
+// Keyword box plus category/ministry facets. The keyword is submitted with OK/Enter; facets apply at once.
+// Facet counts come from the last search response, so empty categories are still listed but marked (0).
+export default function SchemeSearchForm({
+  value,
+  onChange,
+  facets,
+  inputRef,
+}: {
+  value: SchemeSearch
+  onChange: (next: SchemeSearch) => void
+  facets?: { category: FacetCount[]; ministry: FacetCount[] }
+  inputRef: RefObject<HTMLInputElement | null>
+}) {
+  const { t } = useI18n()
+  const [text, setText] = useState(value.q)
+
+  // Keep the box in sync when the search is cleared from elsewhere
+  useEffect(() => setText(value.q), [value.q])
+
+  const countOf = (list: FacetCount[] | undefined, v: string) => list?.find((f) => f.value === v)?.count
+  const ministries = facets?.ministry ?? []
+
+  return (
+    <form
+      role="search"
+      className="grid gap-1 mb-1"
+      aria-label={t("search.label")}
+      onSubmit={(e) => {
+        e.preventDefault()
+        onChange({ ...value, q: text.trim() })
+      }}
+    >
+      <div className="flex gap-1">
+        <input
+          ref={inputRef}
+          data-nav
+          type="search"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t("search.placeholder")}
+          aria-label={t("search.label")}
+          className={`${fieldClass} min-w-0 flex-1`}
+        />
+        <button type="submit" data-nav className="win-btn px-2 py-1 text-xs border">
+          {t("search.submit")}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        <label className="grid gap-0.5 text-[11px] min-w-0 flex-1">
+          {t("search.category")}
+          <select
+            data-nav
+            className={fieldClass}
+            value={value.category ?? ""}
+            onChange={(e) => onChange({ ...value, category: (e.target.value || null) as SchemeCategory | null })}
+          >
+            <option value="">{t("search.all")}</option>
+            {SCHEME_CATEGORIES.map((c) => {
+              const n = countOf(facets?.category, c)
+              return (
+                <option key={c} value={c}>
+                  {t(`category.${c}`)}
+                  {facets ? ` (${n ?? 0})` : ""}
+                </option>
+              )
+            })}
+          </select>
+        </label>
+        {ministries.length ? (
+          <label className="grid gap-0.5 text-[11px] min-w-0 flex-1">
+            {t("search.ministry")}
+            <select
+              data-nav
+              className={fieldClass}
+              value={value.ministry ?? ""}
+              onChange={(e) => onChange({ ...value, ministry: e.target.value || null })}
+            >
+              <option value="">{t("search.all")}</option>
+              {ministries.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.value} ({m.count})
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+      </div>
+      {isSearchActive(value) ? (
+        <button
+          type="button"
+          data-nav
+          className="justify-self-start text-[11px] underline"
+          onClick={() => onChange(EMPTY_SEARCH)}
+        >
+          {t("search.clear")}
+        </button>
+      ) : null}
+    </form>
+  )
+}
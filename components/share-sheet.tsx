@@ -0,0 +1,115 @@
+"use client"
+
+import { useRef, useState } from "react"
+import useSWR from "swr"
+import { useArrowNav } from "@/hooks/use-arrow-nav"
+import type { SchemeCategory } from "@/lib/schemes/categories"
+import { useI18n } from "@/components/i18n-provider"
+import { useSoftkeys, type SoftkeyOption } from "@/components/softkeys"
+
+type SharePayload = { url: string; path: string; count: number; sms: string[]; qrSvg: string }
+
+const fetcher = async (url: string): Promise<SharePayload> => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Share request failed: ${res.status}`)
+  return res.json()
+}
+
+// Pass the current region's list on: permalink, QR code to scan off the screen, and SMS text.
+export default function ShareSheet({
+  state,
+  district,
+  category,
+  onBack,
+}: {
+  state: string
+  district: string | null
+  category: SchemeCategory | null
+  onBack: () => void
+}) {
+  const { locale, t } = useI18n()
+  const rootRef = useRef<HTMLDivElement>(null)
+  const onKeyDown = useArrowNav(rootRef)
+  const [copied, setCopied] = useState(false)
+
+  const params = new URLSearchParams({ state, lang: locale })
+  if (district) params.set("district", district)
+  if (category) params.set("cat", category)
+  const { data, error, isLoading } = useSWR(`/api/share?${params}`, fetcher, { revalidateOnFocus: false })
+
+  const copy = () => {
+    if (!data) return
+    navigator.clipboard
+      ?.writeText(data.url)
+      .then(() => setCopied(true))
+      .catch((err) => console.log("[v0] share copy failed", err?.message))
+  }
+  const canShare = typeof navigator !== "undefined" && typeof navigator.share === "function"
+  const share = () => {
+    if (!data) return
+    navigator.share({ title: t("app.title"), url: data.url }).catch(() => {})
+  }
+
+  useSoftkeys({
+    back: { label: t("common.back"), onPress: onBack },
+    options: () => {
+      const options: SoftkeyOption[] = []
+      if (data) {
+        options.push({ label: t("share.copy"), onSelect: copy })
+        if (canShare) options.push({ label: t("share.native"), onSelect: share })
+      }
+      return options
+    },
+  })
+
+  return (
+    <div ref={rootRef} className="win-surface p-2" onKeyDown={onKeyDown}>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-medium">{t("share.heading")}</h3>
+        <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={onBack}>
+          {t("common.back")}
+        </button>
+      </div>
+      {isLoading ? <p className="text-xs leading-5">{t("share.loading")}</p> : null}
+      {error ? <p className="text-xs leading-5 text-[color:var(--destructive)]">{t("schemes.error")}</p> : null}
+      {data ? (
+        <>
+          <img
+            src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(data.qrSvg)}`}
+            alt={t("share.qr")}
+            className="mx-auto block w-40 bg-white"
+            width={160}
+            height={160}
+          />
+          <p className="text-center text-[11px] leading-5 opacity-80">{t("share.qr")}</p>
+          <a data-nav className="block text-[11px] leading-5 underline break-all" href={data.path}>
+            {data.url}
+          </a>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={copy}>
+              {copied ? t("share.copied") : t("share.copy")}
+            </button>
+            {canShare ? (
+              <button type="button" data-nav className="win-btn px-3 py-2 text-xs border" onClick={share}>
+                {t("share.native")}
+              </button>
+            ) : null}
+            {data.sms.map((part, i) => (
+              <a
+                key={i}
+                data-nav
+                className="win-btn px-3 py-2 text-xs border"
+                href={`sms:?body=${encodeURIComponent(part)}`}
+              >
+                {data.sms.length > 1 ? `${t("share.sms")} ${i + 1}/${data.sms.length}` : t("share.sms")}
+              </a>
+            ))}
+          </div>
+          <p className="mt-1 text-[11px] leading-5 opacity-70">
+            {t("share.smsCount", { count: data.sms.length, schemes: data.count })}
+          </p>
+        </>
+      ) : null}
+    </div>
+  )
+}
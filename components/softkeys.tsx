@@ -0,0 +1,246 @@
+"use client"
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+  type MouseEvent,
+  type ReactNode,
+  type RefObject,
+} from "react"
+import { focusNav, NAV_SELECTOR, useArrowNav } from "@/hooks/use-arrow-nav"
+import { useI18n } from "@/components/i18n-provider"
+
+// KaiOS-style softkey layer shared by every screen.
+//  - Left softkey (also Back/Backspace and Escape): the top screen's `back` action
+//  - Center softkey (Enter): activates the focused `[data-nav]` element
+//  - Right softkey: an Options menu built from the top screen's `options`
+// Screens register with `useSoftkeys`; the most recently mounted one is on top and owns the keys.
+
+export type Softkey = { label: string; onPress: () => void }
+
+export type ShortcutAction = "retry" | "search" | "save" | "call"
+
+export type SoftkeyOption = { label: string; onSelect: () => void; shortcut?: ShortcutAction }
+
+export type SoftkeyScreen = {
+  back?: Softkey
+  // Label for the center key; defaults to "Select"
+  center?: string
+  // Built when the menu opens, so options can depend on the focused element
+  options?: () => SoftkeyOption[]
+  shortcuts?: Partial<Record<ShortcutAction, () => void>>
+}
+
+// Number keys for the T9 keypad, letters for desktop browsers and the KaiOS simulator
+export const SHORTCUT_KEYS: Record<ShortcutAction, string[]> = {
+  retry: ["1", "r"],
+  search: ["2", "/"],
+  save: ["3", "s"],
+  // KaiOS phones have a dedicated Call key
+  call: ["call", "c"],
+}
+
+type Registered = { id: string; screen: RefObject<SoftkeyScreen> }
+
+type SoftkeyContextValue = {
+  register: (entry: Registered) => void
+  unregister: (id: string) => void
+  refresh: () => void
+}
+
+const SoftkeyContext = createContext<SoftkeyContextValue | null>(null)
+
+function isTyping(target: EventTarget | null) {
+  return target instanceof HTMLElement && target.matches("input:not([type=checkbox]):not([type=radio]), textarea")
+}
+
+function shortcutFor(key: string): ShortcutAction | null {
+  const k = key.toLowerCase()
+  return (Object.keys(SHORTCUT_KEYS) as ShortcutAction[]).find((a) => SHORTCUT_KEYS[a].includes(k)) ?? null
+}
+
+export function useSoftkeys(screen: SoftkeyScreen) {
+  const ctx = useContext(SoftkeyContext)
+  const id = useId()
+  const ref = useRef(screen)
+  ref.current = screen
+
+  useEffect(() => {
+    if (!ctx) return
+    ctx.register({ id, screen: ref })
+    return () => ctx.unregister(id)
+  }, [ctx, id])
+
+  // Re-render the bar only when something it shows changes
+  const labels = `${screen.back?.label ?? ""}|${screen.center ?? ""}|${screen.options ? 1 : 0}`
+  useEffect(() => {
+    ctx?.refresh()
+  }, [ctx, labels])
+}
+
+function OptionsMenu({ options, onClose }: { options: SoftkeyOption[]; onClose: (run?: () => void) => void }) {
+  const { t } = useI18n()
+  const rootRef = useRef<HTMLDivElement>(null)
+  const onKeyDown = useArrowNav(rootRef)
+
+  useEffect(() => {
+    focusNav(rootRef.current?.querySelector<HTMLElement>(NAV_SELECTOR))
+  }, [])
+
+  return (
+    <div
+      ref={rootRef}
+      role="menu"
+      aria-label={t("softkeys.options")}
+      className="win-surface fixed bottom-8 left-1/2 z-50 w-[calc(100%-1rem)] max-w-[304px] -translate-x-1/2 p-1"
+      onKeyDown={onKeyDown}
+    >
+      <p className="px-2 py-1 text-xs font-medium">{t("softkeys.options")}</p>
+      <ul className="grid gap-0.5 max-h-48 overflow-y-auto">
+        {options.map((o) => (
+          <li key={o.label}>
+            <button
+              type="button"
+              role="menuitem"
+              data-nav
+              className="w-full flex justify-between rounded px-2 py-1.5 text-left text-xs focus:bg-primary focus:text-primary-foreground"
+              onClick={() => onClose(o.onSelect)}
+            >
+              <span>{o.label}</span>
+              {o.shortcut ? <kbd className="opacity-70">{SHORTCUT_KEYS[o.shortcut][0]}</kbd> : null}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export function SoftkeyProvider({ children }: { children: ReactNode }) {
+  const { t } = useI18n()
+  const [stack, setStack] = useState<Registered[]>([])
+  const [, setTick] = useState(0)
+  const [menu, setMenu] = useState<{ options: SoftkeyOption[]; returnFocus: HTMLElement | null } | null>(null)
+
+  const ctx = useMemo<SoftkeyContextValue>(
+    () => ({
+      register: (entry) => setStack((s) => [...s.filter((e) => e.id !== entry.id), entry]),
+      unregister: (id) => setStack((s) => s.filter((e) => e.id !== id)),
+      refresh: () => setTick((n) => n + 1),
+    }),
+    [],
+  )
+
+  // Handlers read the screen ref at key time so they never run a stale closure
+  const topRef = stack.length ? stack[stack.length - 1].screen : null
+  const top = topRef?.current ?? null
+
+  const openMenu = useCallback(() => {
+    const options = topRef?.current?.options?.() ?? []
+    if (options.length) setMenu({ options, returnFocus: document.activeElement as HTMLElement | null })
+  }, [topRef])
+
+  // Focus goes back where it was before the menu opened, so "save the focused scheme" still works
+  const closeMenu = useCallback(
+    (run?: () => void) => {
+      const returnFocus = menu?.returnFocus
+      setMenu(null)
+      if (returnFocus?.isConnected) returnFocus.focus({ preventScroll: true })
+      run?.()
+    },
+    [menu],
+  )
+
+  const pressCenter = () => {
+    const el = document.activeElement
+    if (el instanceof HTMLElement && el !== document.body) el.click()
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const top = topRef?.current
+      if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey) return
+      const typing = isTyping(e.target)
+      const isBack = e.key === "SoftLeft" || e.key === "Escape" || (e.key === "Backspace" && !typing)
+      const isOptions = e.key === "SoftRight" || e.key === "ContextMenu"
+
+      if (menu) {
+        if (isBack || isOptions) {
+          e.preventDefault()
+          closeMenu()
+        }
+        return
+      }
+      if (isBack && top?.back) {
+        e.preventDefault()
+        top.back.onPress()
+      } else if (isOptions) {
+        e.preventDefault()
+        openMenu()
+      } else if ((e.key === "ArrowDown" || e.key === "ArrowUp") && document.activeElement === document.body) {
+        // Nothing focused yet: the first arrow press lands on the first navigable element
+        const first = Array.from(document.querySelectorAll<HTMLElement>(NAV_SELECTOR)).find((n) => n.offsetParent)
+        if (first) {
+          e.preventDefault()
+          focusNav(first)
+        }
+      } else if (!typing) {
+        const action = shortcutFor(e.key)
+        const run = action ? top?.shortcuts?.[action] : undefined
+        if (run) {
+          e.preventDefault()
+          run()
+        }
+      }
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [topRef, menu, openMenu, closeMenu])
+
+  // Buttons keep keypad focus where it is when the bar is tapped
+  const keepFocus = (e: MouseEvent) => e.preventDefault()
+
+  return (
+    <SoftkeyContext.Provider value={ctx}>
+      {children}
+      {menu ? <OptionsMenu options={menu.options} onClose={closeMenu} /> : null}
+      {top ? (
+        <nav
+          aria-label={t("softkeys.label")}
+          className="softkey-bar fixed bottom-0 left-1/2 z-40 grid h-7 w-full max-w-[320px] -translate-x-1/2 grid-cols-3 items-center px-2 text-[11px]"
+        >
+          <button
+            type="button"
+            className="text-left truncate"
+            onMouseDown={keepFocus}
+            onClick={() => (menu ? closeMenu() : topRef?.current?.back?.onPress())}
+          >
+            {menu ? t("softkeys.close") : (top.back?.label ?? "")}
+          </button>
+          <button
+            type="button"
+            className="text-center font-semibold uppercase truncate"
+            onMouseDown={keepFocus}
+            onClick={pressCenter}
+          >
+            {top.center ?? t("softkeys.select")}
+          </button>
+          <button
+            type="button"
+            className="text-right truncate"
+            onMouseDown={keepFocus}
+            onClick={() => (menu ? closeMenu() : openMenu())}
+          >
+            {top.options ? t("softkeys.options") : ""}
+          </button>
+        </nav>
+      ) : null}
+    </SoftkeyContext.Provider>
+  )
+}
@@ -0,0 +1,14 @@
+"use client"
+
+import { useEffect } from "react"
+
+// Registers public/sw.js in production builds. In dev the worker's caching would mask code changes.
+export default function ServiceWorkerRegister() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.log("[v0] service worker registration failed", err?.message)
+    })
+  }, [])
+  return null
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import useSWR from "swr"
+import type { SchemeChange } from "@/lib/schemes/changes"
+import type { SchemeItem } from "@/lib/schemes/schema"
+import { useI18n } from "@/components/i18n-provider"
+
+type ChangesPayload = { tracked: boolean; changes: SchemeChange[]; feeds: { atom: string; rss: string } }
+
+// Additions within this many days are highlighted
+const RECENT_DAYS = 30
+const SHOWN = 5
+
+const fetcher = async (url: string): Promise<ChangesPayload> => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Request failed: ${res.status}`)
+  return res.json()
+}
+
+// Schemes the change feed saw appear in the region recently (and still listed), newest first
+export function useRecentAdditions(region: { state: string; district: string | null } | null) {
+  const { locale } = useI18n()
+  const params = region ? new URLSearchParams({ state: region.state, lang: locale }) : null
+  if (region?.district) params?.set("district", region.district)
+  const { data } = useSWR(params ? `/api/schemes/changes?${params}` : null, fetcher, { revalidateOnFocus: false })
+
+  const since = Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000
+  const changes = data?.changes ?? []
+  const removedLater = (c: SchemeChange) =>
+    changes.some((o) => o.href === c.href && o.kind === "removed" && o.at > c.at)
+  const added = changes.filter((c) => c.kind === "added" && Date.parse(c.at) >= since && !removedLater(c))
+  return { added, hrefs: new Set(added.map((c) => c.href)), rss: data?.feeds.rss ?? null }
+}
+
+export function NewBadge() {
+  const { t } = useI18n()
+  return (
+    <span className="ml-1 rounded px-1.5 py-0.5 text-[10px] font-medium bg-primary text-primary-foreground">
+      {t("changes.new")}
+    </span>
+  )
+}
+
+// "What's new": recent additions for the region, opening in the detail view like list rows do.
+// Titles come from the current list when the scheme is in it, so they follow the UI language.
+export default function WhatsNew({
+  added,
+  items,
+  rss,
+  onOpen,
+}: {
+  added: SchemeChange[]
+  items: SchemeItem[]
+  rss: string | null
+  onOpen: (slug: string, item: SchemeItem) => void
+}) {
+  const { t } = useI18n()
+  if (!added.length) return null
+  return (
+    <div className="rounded-lg border p-2 my-1">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium">{t("changes.heading")}</h4>
+        {rss ? (
+          <a data-nav className="text-[11px] underline" href={rss} target="_blank" rel="noopener noreferrer">
+            {t("changes.feed")}
+          </a>
+        ) : null}
+      </div>
+      <ul className="mt-1 flex flex-col gap-1">
+        {added.slice(0, SHOWN).map((change) => {
+          const item = items.find((i) => i.href === change.href)
+          const title = item?.title ?? change.title
+          const slug = item?.slug ?? change.slug
+          return (
+            <li key={change.id} className="text-xs leading-5">
+              {slug && item ? (
+                <button type="button" data-nav className="text-left underline" onClick={() => onOpen(slug, item)}>
+                  {title}
+                </button>
+              ) : (
+                <span>{title}</span>
+              )}
+              <NewBadge />
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
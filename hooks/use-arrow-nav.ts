@@ -0,0 +1,32 @@
+"use client"
+
+import { useCallback, type KeyboardEvent, type RefObject } from "react"
+
+export const NAV_SELECTOR = "[data-nav]"
+
+// Keypad navigation inside a container: Up/Down move focus between `[data-nav]` elements and
+// scroll the focused one into view. Returns a keydown handler to attach to the container.
+// Nested containers win: once an inner handler has moved focus, outer ones leave the event alone.
+// Back and softkeys are handled by the softkey layer (see components/softkeys.tsx).
+export function useArrowNav(rootRef: RefObject<HTMLElement | null>) {
+  return useCallback(
+    (e: KeyboardEvent<HTMLElement>) => {
+      if (e.defaultPrevented || (e.key !== "ArrowDown" && e.key !== "ArrowUp")) return
+      const nodes = Array.from(rootRef.current?.querySelectorAll<HTMLElement>(NAV_SELECTOR) ?? []).filter(
+        (n) => n.offsetParent !== null,
+      )
+      if (!nodes.length) return
+      e.preventDefault()
+      const i = nodes.indexOf(document.activeElement as HTMLElement)
+      const next = i === -1 ? 0 : e.key === "ArrowDown" ? Math.min(i + 1, nodes.length - 1) : Math.max(i - 1, 0)
+      focusNav(nodes[next])
+    },
+    [rootRef],
+  )
+}
+
+export function focusNav(el: HTMLElement | null | undefined) {
+  if (!el) return
+  el.focus({ preventScroll: true })
+  el.scrollIntoView({ block: "nearest" })
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { deadlineLabel } from "@/components/deadline-badge"
+import { useI18n } from "@/components/i18n-provider"
+import { deadlineState, reminderDue, todayIso } from "@/lib/deadlines"
+import type { SavedScheme } from "@/lib/saved-schemes"
+
+type Permission = NotificationPermission | "unsupported"
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+function currentPermission(): Permission {
+  return typeof Notification === "undefined" ? "unsupported" : Notification.permission
+}
+
+// Through the service worker when one is active (required on Android and KaiOS), else directly
+async function notify(title: string, body: string, tag: string) {
+  const reg = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined
+  if (reg) await reg.showNotification(title, { body, tag, icon: "/placeholder-logo.png" })
+  else new Notification(title, { body, tag })
+}
+
+// Local reminders for saved schemes: while the app is open, any reminder that has come due is shown
+// once per closing date through the Notifications API. There is no push server, so a reminder only
+// fires when the app runs; the .ics export covers the rest with the calendar's own alarms.
+export function useDeadlineReminders(
+  saved: SavedScheme[],
+  update: (href: string, patch: Partial<Omit<SavedScheme, "href">>) => Promise<void>,
+) {
+  const { locale, t } = useI18n()
+  const [permission, setPermission] = useState<Permission>("unsupported")
+
+  useEffect(() => setPermission(currentPermission()), [])
+
+  const requestPermission = useCallback(async () => {
+    if (currentPermission() !== "default") return currentPermission()
+    try {
+      const result = await Notification.requestPermission()
+      setPermission(result)
+      return result
+    } catch (err: any) {
+      console.log("[v0] notification permission request failed", err?.message)
+      return currentPermission()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (permission !== "granted") return
+    const check = () => {
+      const today = todayIso()
+      for (const item of saved) {
+        if (item.remindDaysBefore === undefined || !item.closeDate || item.remindedFor === item.closeDate) continue
+        if (!reminderDue(item.closeDate, item.remindDaysBefore, today)) continue
+        const state = deadlineState(item, today)
+        const body = state ? `${item.title} — ${deadlineLabel(state, locale, t)}` : item.title
+        notify(t("reminder.notifyTitle"), body, item.href)
+          .then(() => update(item.href, { remindedFor: item.closeDate }))
+          .catch((err) => console.log("[v0] reminder notification failed", err?.message))
+      }
+    }
+    check()
+    const timer = setInterval(check, CHECK_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [saved, permission, update, locale, t])
+
+  return { permission, requestPermission }
+}
@@ -0,0 +1,21 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+export function useOnlineStatus() {
+  const [online, setOnline] = useState(true)
+
+  useEffect(() => {
+    setOnline(navigator.onLine)
+    const up = () => setOnline(true)
+    const down = () => setOnline(false)
+    window.addEventListener("online", up)
+    window.addEventListener("offline", down)
+    return () => {
+      window.removeEventListener("online", up)
+      window.removeEventListener("offline", down)
+    }
+  }, [])
+
+  return online
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { listSaved, removeSaved, saveScheme, updateSaved, type SavedScheme } from "@/lib/saved-schemes"
+
+export function useSavedSchemes() {
+  const [saved, setSaved] = useState<SavedScheme[]>([])
+
+  const reload = useCallback(() => {
+    listSaved()
+      .then(setSaved)
+      .catch((err) => console.log("[v0] saved schemes unavailable", err?.message))
+  }, [])
+
+  useEffect(() => {
+    if ("indexedDB" in window) reload()
+  }, [reload])
+
+  const isSaved = useCallback((href: string) => saved.some((s) => s.href === href), [saved])
+
+  const toggle = useCallback(
+    async (item: Omit<SavedScheme, "savedAt">) => {
+      try {
+        if (saved.some((s) => s.href === item.href)) await removeSaved(item.href)
+        else await saveScheme(item)
+      } catch (err: any) {
+        console.log("[v0] could not update saved schemes", err?.message)
+      }
+      reload()
+    },
+    [saved, reload],
+  )
+
+  const update = useCallback(
+    async (href: string, patch: Partial<Omit<SavedScheme, "href">>) => {
+      try {
+        await updateSaved(href, patch)
+      } catch (err: any) {
+        console.log("[v0] could not update saved schemes", err?.message)
+      }
+      reload()
+    },
+    [reload],
+  )
+
+  return { saved, isSaved, toggle, update }
+}
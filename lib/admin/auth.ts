@@ -0,0 +1,51 @@
+// Operator sign-in for /admin: a single shared password (ADMIN_PASSWORD) exchanged for a signed,
+// expiring session cookie. The console is switched off entirely while no password is configured.
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto"
+import { cookies } from "next/headers"
+
+export const ADMIN_COOKIE = "admin_session"
+export const SESSION_MS = 12 * 60 * 60 * 1000
+
+// ADMIN_SECRET lets sessions survive a password change; without it the password signs them
+function secret() {
+  return process.env.ADMIN_SECRET || process.env.ADMIN_PASSWORD || ""
+}
+
+export function adminEnabled() {
+  return Boolean(process.env.ADMIN_PASSWORD)
+}
+
+// Digests first, so the comparison takes the same time whatever the input length
+function safeEqual(a: string, b: string) {
+  const da = createHash("sha256").update(a).digest()
+  const db = createHash("sha256").update(b).digest()
+  return timingSafeEqual(da, db)
+}
+
+export function checkPassword(password: string) {
+  return adminEnabled() && safeEqual(password, process.env.ADMIN_PASSWORD!)
+}
+
+function sign(expires: number) {
+  return createHmac("sha256", secret()).update(`admin:${expires}`).digest("base64url")
+}
+
+// "<expiry ms>.<signature>"
+export function createSession(now = Date.now()) {
+  const expires = now + SESSION_MS
+  return `${expires}.${sign(expires)}`
+}
+
+export function verifySession(token: string | undefined, now = Date.now()) {
+  if (!adminEnabled() || !token) return false
+  const [expires, signature] = token.split(".")
+  const exp = Number(expires)
+  if (!Number.isFinite(exp) || exp < now || !signature) return false
+  return safeEqual(signature, sign(exp))
+}
+
+// For route handlers and server components alike
+export async function isAdmin() {
+  return verifySession((await cookies()).get(ADMIN_COOKIE)?.value)
+}
@@ -0,0 +1,210 @@
+// Operator overrides for scheme listings, edited in /admin and applied by the scheme routes at
+// response time (cached listings stay untouched, so an override takes effect on the next request).
+//
+// Overrides are scoped to all regions ("*"), a state ("Maharashtra") or a district
+// ("Maharashtra/Nagpur"); a request sees every scope that contains its region. Items are matched by
+// canonical href, so a full myScheme URL pasted by an operator matches the scraped "/schemes/<slug>".
+// The store is one JSON file (OVERRIDES_FILE, default .data/overrides.json), validated with zod.
+
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import { LOCALES, type Locale } from "@/lib/i18n"
+import { errorFields, log } from "@/lib/log"
+import { SCHEME_CATEGORIES } from "@/lib/schemes/categories"
+import { canonicalHref, schemeSlugOf } from "@/lib/schemes/normalize"
+import { IsoDateSchema, type SchemeItem } from "@/lib/schemes/schema"
+import { absoluteUrl, MYSCHEME_ORIGIN } from "@/lib/schemes/slug"
+
+export const GLOBAL_SCOPE = "*"
+
+const AdminEntrySchema = z.object({
+  id: z.string().regex(/^admin\.[a-z0-9-]+$/),
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1).max(1000),
+  // myScheme path or any http(s) URL; a myScheme search for the title when omitted
+  href: z
+    .string()
+    .trim()
+    .regex(/^(https?:\/\/|\/)/)
+    .optional(),
+  category: z.enum(SCHEME_CATEGORIES),
+  ministry: z.string().trim().min(1).optional(),
+  openDate: IsoDateSchema.optional(),
+  closeDate: IsoDateSchema.optional(),
+  lastVerified: IsoDateSchema,
+})
+
+const TextEditSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  description: z.string().trim().min(1).max(1000).optional(),
+})
+
+export const ScopeOverridesSchema = z.object({
+  entries: z.array(AdminEntrySchema).default([]),
+  // Canonical hrefs, in display order
+  pinned: z.array(z.string()).default([]),
+  hidden: z.array(z.string()).default([]),
+  // Per canonical href and UI language, so a fixed English title does not replace the Hindi one
+  edits: z.record(z.record(z.enum(LOCALES), TextEditSchema)).default({}),
+  updatedAt: z.string().optional(),
+})
+
+const OverridesStoreSchema = z.object({
+  version: z.literal(1),
+  scopes: z.record(ScopeOverridesSchema),
+})
+
+export type AdminEntry = z.infer<typeof AdminEntrySchema>
+export type ScopeOverrides = z.infer<typeof ScopeOverridesSchema>
+export type OverridesStore = z.infer<typeof OverridesStoreSchema>
+
+export const EMPTY_SCOPE: ScopeOverrides = { entries: [], pinned: [], hidden: [], edits: {} }
+const EMPTY_STORE: OverridesStore = { version: 1, scopes: {} }
+
+export function scopeKey(state: string, district: string) {
+  if (!state) return GLOBAL_SCOPE
+  return district ? `${state}/${district}` : state
+}
+
+// Widest first, so a district's overrides win over its state's
+export function scopesFor(state: string, district: string) {
+  const keys = [GLOBAL_SCOPE]
+  if (state) keys.push(state)
+  if (state && district) keys.push(scopeKey(state, district))
+  return keys
+}
+
+function entryToItem(entry: AdminEntry): SchemeItem {
+  const href = entry.href
+    ? canonicalHref(entry.href)
+    : `${MYSCHEME_ORIGIN}/search?q=${encodeURIComponent(entry.title)}`
+  return {
+    id: entry.id,
+    source: "curated",
+    title: entry.title,
+    href,
+    canonicalUrl: absoluteUrl(href),
+    slug: schemeSlugOf(href) ?? undefined,
+    description: entry.description,
+    categories: [entry.category],
+    ministry: entry.ministry,
+    openDate: entry.openDate,
+    closeDate: entry.closeDate,
+    lastVerified: entry.lastVerified,
+    sourceUrl: MYSCHEME_ORIGIN,
+    score: 1,
+  }
+}
+
+// Combine the scopes a region sees: entries and pins accumulate, a later scope's edit wins
+export function mergeScopes(scopes: ScopeOverrides[]): ScopeOverrides {
+  const merged: ScopeOverrides = { entries: [], pinned: [], hidden: [], edits: {} }
+  for (const s of scopes) {
+    merged.entries.push(...s.entries)
+    merged.pinned.push(...s.pinned.map(canonicalHref))
+    merged.hidden.push(...s.hidden.map(canonicalHref))
+    for (const [href, byLang] of Object.entries(s.edits)) {
+      const key = canonicalHref(href)
+      merged.edits[key] = { ...merged.edits[key], ...byLang }
+    }
+  }
+  return merged
+}
+
+type ApplyOptions = {
+  lang: Locale
+  // Operator entries are listed before scraped and catalog items; search pages leave them out
+  withEntries?: boolean
+}
+
+// Add operator entries, drop hidden items, apply text edits and move pinned items to the top in
+// the order they were pinned.
+export function applyOverrides(items: SchemeItem[], overrides: ScopeOverrides, options: ApplyOptions): SchemeItem[] {
+  const added = options.withEntries === false ? [] : overrides.entries.map(entryToItem)
+  const addedHrefs = new Set(added.map((i) => i.href))
+  const hidden = new Set(overrides.hidden.map(canonicalHref))
+  const list = [...added, ...items.filter((i) => !addedHrefs.has(canonicalHref(i.href)))]
+    .filter((i) => !hidden.has(canonicalHref(i.href)))
+    .map((item) => {
+      const edit = overrides.edits[canonicalHref(item.href)]?.[options.lang]
+      return edit ? { ...item, ...edit } : item
+    })
+  const pinOrder = overrides.pinned.map(canonicalHref)
+  const rankOf = (item: SchemeItem) => {
+    const i = pinOrder.indexOf(canonicalHref(item.href))
+    return i < 0 ? pinOrder.length : i
+  }
+  // Array.prototype.sort is stable, so unpinned items keep their order
+  return list.sort((a, b) => rankOf(a) - rankOf(b))
+}
+
+function storeFile() {
+  return path.resolve(process.cwd(), process.env.OVERRIDES_FILE || path.join(".data", "overrides.json"))
+}
+
+let memo: { file: string; mtimeMs: number; store: OverridesStore } | null = null
+
+// Re-read only when the file changed. A missing file means no overrides; an unreadable or invalid one
+// is logged and the last good copy (or none) is used, so a bad edit never takes the listing down.
+export async function loadOverrides(): Promise<OverridesStore> {
+  const file = storeFile()
+  try {
+    const { mtimeMs } = await stat(file)
+    if (memo?.file === file && memo.mtimeMs === mtimeMs) return memo.store
+    const store = OverridesStoreSchema.parse(JSON.parse(await readFile(file, "utf8")))
+    memo = { file, mtimeMs, store }
+    return store
+  } catch (err: any) {
+    if (err?.code !== "ENOENT") log.error("overrides.unreadable", { file, ...errorFields(err) })
+    return memo?.file === file ? memo.store : EMPTY_STORE
+  }
+}
+
+export async function overridesFor(state: string, district: string): Promise<ScopeOverrides> {
+  const store = await loadOverrides()
+  return mergeScopes(scopesFor(state, district).flatMap((k) => (store.scopes[k] ? [store.scopes[k]] : [])))
+}
+
+// The store on disk cannot be read or does not validate, so saving over it would lose its other scopes
+export class OverridesStoreError extends Error {}
+
+// The store as it is on disk right now; unlike loadOverrides, an unreadable file is an error
+async function readStore(file: string): Promise<OverridesStore> {
+  let text: string
+  try {
+    text = await readFile(file, "utf8")
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return EMPTY_STORE
+    throw new OverridesStoreError(`${file}: ${err?.message ?? "unreadable"}`)
+  }
+  try {
+    return OverridesStoreSchema.parse(JSON.parse(text))
+  } catch (err: any) {
+    throw new OverridesStoreError(`${file}: not a valid overrides store (${err?.message ?? "invalid"})`)
+  }
+}
+
+let writes: Promise<unknown> = Promise.resolve()
+
+// Replace one scope (or drop it with null). Writes are serialized and go through a temporary file, so
+// concurrent saves never interleave and readers never see a half-written store. Rejects with
+// OverridesStoreError, leaving the file alone, when the current store does not parse.
+export function saveScope(scope: string, overrides: ScopeOverrides | null): Promise<OverridesStore> {
+  const next = writes.then(async () => {
+    const file = storeFile()
+    const current = await readStore(file)
+    const scopes = { ...current.scopes }
+    if (overrides) scopes[scope] = { ...overrides, updatedAt: new Date().toISOString() }
+    else delete scopes[scope]
+    const store: OverridesStore = { version: 1, scopes }
+    await mkdir(path.dirname(file), { recursive: true })
+    const tmp = `${file}.${process.pid}.tmp`
+    await writeFile(tmp, `${JSON.stringify(store, null, 2)}\n`)
+    await rename(tmp, file)
+    memo = null
+    return store
+  })
+  writes = next.catch(() => undefined)
+  return next
+}
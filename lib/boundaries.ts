@@ -0,0 +1,106 @@
+// Offline reverse geocoding: point-in-polygon over simplified state and district boundaries bundled in
+// data/regions/boundaries.json (written by scripts/import-boundaries.mjs). A coarse grid index narrows
+// each lookup to the few shapes whose bounding boxes touch the point's cell. A district containing the
+// point wins; a state outline answers where no district does.
+
+import boundaries from "@/data/regions/boundaries.json"
+import { resolveRegion, type RegionMatch } from "@/lib/gazetteer"
+
+// [lon, lat] pairs as in GeoJSON; the first ring of a polygon is its outline, the rest are holes
+type Ring = number[][]
+type Polygon = Ring[]
+
+export type BoundaryFeature = {
+  // Gazetteer district ID, e.g. "27.nagpur", or a state code ("27") for the state's outline
+  id: string
+  polygons: Polygon[]
+}
+
+export type BoundaryData = {
+  version: number
+  // Every district, some districts, or state outlines only
+  coverage: "full" | "partial" | "states"
+  source: string
+  note?: string
+  features: BoundaryFeature[]
+}
+
+export type BoundaryIndex = {
+  coverage: BoundaryData["coverage"]
+  // District ID containing the point, else the state code, or null outside every boundary
+  locate(lat: number, lon: number): string | null
+}
+
+// Half a degree (~55km) keeps cell lists short without indexing every district many times over
+const CELL_DEG = 0.5
+
+// Even-odd ray casting; points exactly on an edge may fall either way, which simplified data makes moot
+export function pointInRing(lon: number, lat: number, ring: Ring): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+export function pointInPolygon(lon: number, lat: number, [outline, ...holes]: Polygon): boolean {
+  return pointInRing(lon, lat, outline) && !holes.some((hole) => pointInRing(lon, lat, hole))
+}
+
+function bboxOf(polygons: Polygon[]) {
+  let [minLon, minLat, maxLon, maxLat] = [Infinity, Infinity, -Infinity, -Infinity]
+  for (const [outline] of polygons) {
+    for (const [lon, lat] of outline) {
+      minLon = Math.min(minLon, lon)
+      minLat = Math.min(minLat, lat)
+      maxLon = Math.max(maxLon, lon)
+      maxLat = Math.max(maxLat, lat)
+    }
+  }
+  return { minLon, minLat, maxLon, maxLat }
+}
+
+const cell = (value: number) => Math.floor(value / CELL_DEG)
+
+export function createBoundaryIndex(data: BoundaryData): BoundaryIndex {
+  const features = data.features.map((f) => ({ ...f, bbox: bboxOf(f.polygons) }))
+  const grid = new Map<string, number[]>()
+  features.forEach((f, i) => {
+    for (let x = cell(f.bbox.minLon); x <= cell(f.bbox.maxLon); x++) {
+      for (let y = cell(f.bbox.minLat); y <= cell(f.bbox.maxLat); y++) {
+        const key = `${x}:${y}`
+        grid.set(key, [...(grid.get(key) ?? []), i])
+      }
+    }
+  })
+  return {
+    coverage: data.coverage,
+    locate(lat, lon) {
+      let state: string | null = null
+      for (const i of grid.get(`${cell(lon)}:${cell(lat)}`) ?? []) {
+        const { id, bbox, polygons } = features[i]
+        if (lon < bbox.minLon || lon > bbox.maxLon || lat < bbox.minLat || lat > bbox.maxLat) continue
+        if (!polygons.some((p) => pointInPolygon(lon, lat, p))) continue
+        if (id.includes(".")) return id
+        state ??= id
+      }
+      return state
+    },
+  }
+}
+
+let bundled: BoundaryIndex | null = null
+
+export function boundaryIndex(): BoundaryIndex {
+  if (!bundled) bundled = createBoundaryIndex(boundaries as BoundaryData)
+  return bundled
+}
+
+// Gazetteer entry for the district containing the point, or just its state (district null) where the
+// bundled boundaries have no district there
+export function locateRegion(lat: number, lon: number, index = boundaryIndex()): RegionMatch | null {
+  const id = index.locate(lat, lon)
+  return id ? resolveRegion(id.split(".")[0], id.includes(".") ? id : null) : null
+}
@@ -0,0 +1,29 @@
+// File cache backend: one JSON file per key under `<dir>/<namespace>/`, surviving restarts.
+
+import { createHash } from "node:crypto"
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { CacheBackend, CacheEntry } from "./types"
+
+export function createFileBackend(dir: string): CacheBackend {
+  const fileFor = (namespace: string, key: string) =>
+    path.join(dir, namespace, `${createHash("sha1").update(key).digest("hex")}.json`)
+
+  return {
+    async get<T>(namespace: string, key: string) {
+      try {
+        return JSON.parse(await readFile(fileFor(namespace, key), "utf8")) as CacheEntry<T>
+      } catch {
+        return null
+      }
+    },
+    async set<T>(namespace: string, key: string, entry: CacheEntry<T>) {
+      const file = fileFor(namespace, key)
+      await mkdir(path.dirname(file), { recursive: true })
+      // Write-then-rename so concurrent readers never see a half-written file
+      const tmp = `${file}.${process.pid}.tmp`
+      await writeFile(tmp, JSON.stringify(entry))
+      await rename(tmp, file)
+    },
+  }
+}
@@ -0,0 +1,89 @@
+// Server-side response cache with stale-while-revalidate.
+// Backend is chosen by CACHE_BACKEND ("memory" by default, or "file" under CACHE_DIR).
+
+import { errorFields, log } from "@/lib/log"
+import { createFileBackend } from "./file"
+import { createMemoryBackend } from "./memory"
+import type { CacheBackend } from "./types"
+
+export type { CacheBackend, CacheEntry } from "./types"
+
+export type CachePolicy = {
+  // Entries younger than this are served as-is
+  ttlMs: number
+  // Older entries, up to ttlMs + staleMs, are served while a refresh runs in the background
+  staleMs: number
+  // Only matching values are stored; failures and degraded results are left uncached
+  shouldCache?: (value: any) => boolean
+}
+
+export type CachedResult<T> = {
+  value: T
+  storedAt: number
+  ageMs: number
+  stale: boolean
+  hit: boolean
+}
+
+let backend: CacheBackend | null = null
+
+function getBackend(): CacheBackend {
+  if (!backend) {
+    backend =
+      process.env.CACHE_BACKEND === "file"
+        ? createFileBackend(process.env.CACHE_DIR || ".cache")
+        : createMemoryBackend()
+  }
+  return backend
+}
+
+// Read a duration in seconds from the environment, falling back to `fallbackSec`.
+export function envSeconds(name: string, fallbackSec: number): number {
+  const n = Number(process.env[name])
+  return (Number.isFinite(n) && n >= 0 ? n : fallbackSec) * 1000
+}
+
+const inflight = new Map<string, Promise<unknown>>()
+
+async function refresh<T>(namespace: string, key: string, policy: CachePolicy, load: () => Promise<T>): Promise<T> {
+  const id = `${namespace}:${key}`
+  const pending = inflight.get(id) as Promise<T> | undefined
+  if (pending) return pending
+  const p = (async () => {
+    try {
+      const value = await load()
+      if (!policy.shouldCache || policy.shouldCache(value)) {
+        await getBackend()
+          .set(namespace, key, { value, storedAt: Date.now() })
+          .catch((err) => log.warn("cache.write_failed", { namespace, ...errorFields(err) }))
+      }
+      return value
+    } finally {
+      inflight.delete(id)
+    }
+  })()
+  inflight.set(id, p)
+  return p
+}
+
+export async function cached<T>(
+  namespace: string,
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+): Promise<CachedResult<T>> {
+  const entry = await getBackend().get<T>(namespace, key)
+  const now = Date.now()
+  if (entry) {
+    const ageMs = now - entry.storedAt
+    if (ageMs < policy.ttlMs) return { value: entry.value, storedAt: entry.storedAt, ageMs, stale: false, hit: true }
+    if (ageMs < policy.ttlMs + policy.staleMs) {
+      refresh(namespace, key, policy, load).catch((err) =>
+        log.warn("cache.refresh_failed", { namespace, ...errorFields(err) }),
+      )
+      return { value: entry.value, storedAt: entry.storedAt, ageMs, stale: true, hit: true }
+    }
+  }
+  const value = await refresh(namespace, key, policy, load)
+  return { value, storedAt: now, ageMs: 0, stale: false, hit: false }
+}
@@ -0,0 +1,31 @@
+// In-process cache backend. Entries live until the server restarts; fine for dev and single instances.
+
+import type { CacheBackend, CacheEntry } from "./types"
+
+// Oldest entries are dropped past this many keys per namespace.
+const MAX_ENTRIES = 500
+
+export function createMemoryBackend(): CacheBackend {
+  const stores = new Map<string, Map<string, CacheEntry>>()
+
+  const storeFor = (namespace: string) => {
+    let s = stores.get(namespace)
+    if (!s) {
+      s = new Map()
+      stores.set(namespace, s)
+    }
+    return s
+  }
+
+  return {
+    async get<T>(namespace: string, key: string) {
+      return (storeFor(namespace).get(key) as CacheEntry<T> | undefined) ?? null
+    },
+    async set<T>(namespace: string, key: string, entry: CacheEntry<T>) {
+      const s = storeFor(namespace)
+      s.delete(key)
+      s.set(key, entry)
+      if (s.size > MAX_ENTRIES) s.delete(s.keys().next().value!)
+    },
+  }
+}
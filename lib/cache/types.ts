@@ -0,0 +1,10 @@
+export type CacheEntry<T = unknown> = {
+  value: T
+  storedAt: number
+}
+
+// Storage for cached responses. Backends only persist entries; freshness is decided by `cached()`.
+export interface CacheBackend {
+  get<T>(namespace: string, key: string): Promise<CacheEntry<T> | null>
+  set<T>(namespace: string, key: string, entry: CacheEntry<T>): Promise<void>
+}
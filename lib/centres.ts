@@ -0,0 +1,115 @@
+// Help centres where people apply for schemes: Common Service Centres, banks, post offices and district
+// offices. The bundled data/centres/centres.json holds India Post's head post offices; CENTRES_FILE points
+// at a fuller dataset (CSCs, banks, every post office) written by scripts/import-centres.mjs, read at
+// runtime so it can be replaced without a build.
+// Phone numbers are only ever what the dataset lists; the CSC helpline is the national fallback.
+
+import { readFile, stat } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import bundled from "@/data/centres/centres.json"
+import { errorFields, log } from "@/lib/log"
+
+export const CENTRE_KINDS = ["csc", "bank", "post-office", "district-office"] as const
+export type CentreKind = (typeof CENTRE_KINDS)[number]
+
+// Common Service Centres' national toll-free helpline
+export const CSC_HELPLINE = "1800-121-3468"
+
+const CentreSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(CENTRE_KINDS),
+  name: z.string().min(1),
+  address: z.string().optional(),
+  // Gazetteer district ID, e.g. "27.nagpur"
+  district: z.string().regex(/^\d+\.[a-z0-9-]+$/),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  phone: z.string().optional(),
+})
+
+const CentreDataSchema = z.object({
+  version: z.literal(1),
+  // "sample" is the bundled hand-placed set; anything imported is "imported"
+  coverage: z.enum(["sample", "imported"]),
+  source: z.string(),
+  note: z.string().optional(),
+  centres: z.array(CentreSchema),
+})
+
+export type Centre = z.infer<typeof CentreSchema>
+export type CentreData = z.infer<typeof CentreDataSchema>
+export type NearbyCentre = Centre & { distanceKm: number | null }
+
+const EARTH_RADIUS_KM = 6371
+
+export function haversineKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
+  const rad = (d: number) => (d * Math.PI) / 180
+  const dLat = rad(b.lat - a.lat)
+  const dLon = rad(b.lon - a.lon)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h))
+}
+
+export type CentreIndex = {
+  coverage: CentreData["coverage"]
+  // Within `maxKm` of the point, nearest first
+  nearest(point: { lat: number; lon: number }, options: { kinds?: CentreKind[]; limit: number; maxKm: number }): NearbyCentre[]
+  // For a region picked by hand (no coordinates): the district's centres by kind, then name
+  inDistrict(districtId: string, options: { kinds?: CentreKind[]; limit: number }): NearbyCentre[]
+}
+
+// A linear scan with a bounding-box check: even a national post office list (~150k rows) is a few
+// milliseconds per request, so no spatial index is needed
+export function createCentreIndex(data: CentreData): CentreIndex {
+  const ofKind = (kinds?: CentreKind[]) => (c: Centre) => !kinds?.length || kinds.includes(c.kind)
+  return {
+    coverage: data.coverage,
+    nearest(point, { kinds, limit, maxKm }) {
+      const dLat = maxKm / 111
+      const dLon = maxKm / (111 * Math.max(Math.cos((point.lat * Math.PI) / 180), 0.01))
+      return data.centres
+        .filter(ofKind(kinds))
+        .filter((c) => Math.abs(c.lat - point.lat) <= dLat && Math.abs(c.lon - point.lon) <= dLon)
+        .map((c) => ({ ...c, distanceKm: haversineKm(point, c) }))
+        .filter((c) => c.distanceKm <= maxKm)
+        .sort((a, b) => a.distanceKm - b.distanceKm)
+        .slice(0, limit)
+    },
+    inDistrict(districtId, { kinds, limit }) {
+      return data.centres
+        .filter((c) => c.district === districtId && ofKind(kinds)(c))
+        .sort((a, b) => CENTRE_KINDS.indexOf(a.kind) - CENTRE_KINDS.indexOf(b.kind) || a.name.localeCompare(b.name))
+        .slice(0, limit)
+        .map((c) => ({ ...c, distanceKm: null }))
+    },
+  }
+}
+
+let bundledIndex: CentreIndex | null = null
+let loaded: { file: string; mtimeMs: number; index: CentreIndex } | null = null
+
+// CENTRES_FILE when set (re-read when it changes), else the bundled head post offices. An unreadable or
+// invalid file is logged and the bundled data answers instead.
+export async function centreIndex(): Promise<CentreIndex> {
+  bundledIndex ??= createCentreIndex(CentreDataSchema.parse(bundled))
+  if (!process.env.CENTRES_FILE) return bundledIndex
+  const file = path.resolve(process.cwd(), process.env.CENTRES_FILE)
+  try {
+    const { mtimeMs } = await stat(file)
+    if (loaded?.file === file && loaded.mtimeMs === mtimeMs) return loaded.index
+    const index = createCentreIndex(CentreDataSchema.parse(JSON.parse(await readFile(file, "utf8"))))
+    loaded = { file, mtimeMs, index }
+    return index
+  } catch (err) {
+    log.error("centres.unreadable", { file, ...errorFields(err) })
+    return loaded?.file === file ? loaded.index : bundledIndex
+  }
+}
+
+// "csc,bank" -> kinds; null when any entry is not a known kind
+export function parseKinds(value: string | null): CentreKind[] | null {
+  if (!value) return []
+  const kinds = value.split(",").map((k) => k.trim())
+  return kinds.every((k): k is CentreKind => (CENTRE_KINDS as readonly string[]).includes(k)) ? kinds : null
+}
@@ -0,0 +1,92 @@
+// Side-by-side comparison of two or three schemes: benefit, eligibility, documents, level and how to
+// apply, in aligned rows. Each cell comes from the parsed myScheme page when there is one, else from
+// the curated catalog. Safe to import from server and client code.
+
+import type { EligibilityCriteria } from "@/lib/eligibility"
+import type { MessageKey } from "@/lib/i18n"
+import type { SchemeDetail } from "@/lib/schemes/detail"
+import type { ApplyMode, SchemeItem } from "@/lib/schemes/schema"
+
+export const MIN_COMPARE = 2
+export const MAX_COMPARE = 3
+
+export const COMPARE_ROWS = [
+  { id: "benefit", label: "compare.benefit" },
+  { id: "eligibility", label: "detail.eligibility" },
+  { id: "documents", label: "detail.documents" },
+  { id: "level", label: "compare.level" },
+  { id: "apply", label: "detail.application" },
+] as const satisfies readonly { id: string; label: MessageKey }[]
+
+export type CompareRowId = (typeof COMPARE_ROWS)[number]["id"]
+export type CompareColumn = { item: SchemeItem; detail?: SchemeDetail | null }
+// One list of lines per scheme, in column order; an empty list means nothing on record
+export type CompareRow = { id: CompareRowId; label: MessageKey; cells: string[][] }
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string
+
+const AMOUNT = /₹|\brs\.?\s?\d|\binr\b|rupees?|\blakhs?\b|\bcrores?\b|रु|रुपये|लाख|करोड़/i
+
+// The first benefit line naming an amount, else the first line
+export function benefitAmount(lines: string[]): string | null {
+  return lines.find((l) => AMOUNT.test(l)) ?? lines[0] ?? null
+}
+
+const ONLINE = /\bonline\b|\bportal\b|\bwebsite\b|\bapp\b|ऑनलाइन|पोर्टल|वेबसाइट/i
+const OFFLINE =
+  /\boffline\b|\bvisit\b|\boffice\b|\bbranch\b|\bcsc\b|common service cent|gram panchayat|ऑफलाइन|कार्यालय|शाखा/i
+
+// From the "how to apply" section: online, offline (office, bank branch, CSC) or both
+export function applicationMode(lines: string[]): ApplyMode | null {
+  const text = lines.join(" ")
+  const online = ONLINE.test(text)
+  const offline = OFFLINE.test(text)
+  return online && offline ? "both" : online ? "online" : offline ? "offline" : null
+}
+
+function conditionLines(c: Omit<EligibilityCriteria, "anyOf">, t: Translate): string[] {
+  const lines: string[] = []
+  if (c.minAge !== undefined && c.maxAge !== undefined) lines.push(t("compare.ageRange", { min: c.minAge, max: c.maxAge }))
+  else if (c.minAge !== undefined) lines.push(t("compare.ageMin", { min: c.minAge }))
+  else if (c.maxAge !== undefined) lines.push(t("compare.ageMax", { max: c.maxAge }))
+  if (c.genders?.length) lines.push(c.genders.map((g) => t(`gender.${g}`)).join(" / "))
+  if (c.occupations?.length) lines.push(c.occupations.map((o) => t(`occupation.${o}`)).join(" / "))
+  if (c.maxIncomeBand) lines.push(t("compare.income", { band: t(`income.${c.maxIncomeBand}`) }))
+  if (c.castes?.length) lines.push(c.castes.map((k) => t(`caste.${k}`)).join(" / "))
+  if (c.disability) lines.push(t("eligibility.disability"))
+  return lines
+}
+
+// Curated criteria in words: each condition on a line, alternatives on one "any of" line
+export function criteriaLines(criteria: EligibilityCriteria, t: Translate): string[] {
+  const lines = conditionLines(criteria, t)
+  const alternatives = (criteria.anyOf ?? []).map((alt) => conditionLines(alt, t).join(", ")).filter(Boolean)
+  if (alternatives.length) lines.push(t("compare.anyOf", { options: alternatives.join("; ") }))
+  return lines
+}
+
+function cell(column: CompareColumn, row: CompareRowId, t: Translate): string[] {
+  const { item, detail } = column
+  switch (row) {
+    case "benefit": {
+      // The page is in the reader's language; the catalog's headline is English-only
+      const benefit = (detail ? benefitAmount(detail.benefits) : null) ?? item.benefit
+      return benefit ? [benefit] : []
+    }
+    case "eligibility":
+      if (detail?.eligibility.length) return detail.eligibility
+      return item.eligibility ? criteriaLines(item.eligibility, t) : []
+    case "documents":
+      return detail?.documents.length ? detail.documents : (item.documents ?? [])
+    case "level":
+      return item.level ? [t(`compare.level.${item.level}`)] : []
+    case "apply": {
+      const mode = item.applyMode ?? (detail ? applicationMode(detail.application) : null)
+      return mode ? [t(`compare.apply.${mode}`)] : []
+    }
+  }
+}
+
+export function compareRows(columns: CompareColumn[], t: Translate): CompareRow[] {
+  return COMPARE_ROWS.map(({ id, label }) => ({ id, label, cells: columns.map((c) => cell(c, id, t)) }))
+}
@@ -0,0 +1,67 @@
+// Application windows: days left until a scheme closes, the badge state for its window, and which
+// schemes close soon. Dates are calendar days ("YYYY-MM-DD") with no time of day; callers pass "today"
+// in the time zone that matters to them. Safe to import from server and client code.
+
+// A window closing within this many days is shown as "closing soon"
+export const CLOSING_SOON_DAYS = 30
+
+// Scheme deadlines are Indian dates, so the server counts days in IST whatever its own zone is
+export const INDIA_TIME_ZONE = "Asia/Kolkata"
+
+const DAY_MS = 86_400_000
+
+type Window = { openDate?: string; closeDate?: string }
+
+export type DeadlineState =
+  | { kind: "opens"; days: number; date: string }
+  | { kind: "closing"; days: number; date: string }
+  | { kind: "open"; days: number; date: string }
+  | { kind: "closed"; days: number; date: string }
+
+const pad = (n: number) => String(n).padStart(2, "0")
+
+// Today's calendar date in the given IANA zone, or in the device's own zone when none is given
+export function todayIso(timeZone?: string, now = new Date()): string {
+  if (!timeZone) return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+    .formatToParts(now)
+    .reduce<Record<string, string>>((acc, p) => ({ ...acc, [p.type]: p.value }), {})
+  return `${parts.year}-${parts.month}-${parts.day}`
+}
+
+// Whole days from one calendar date to another; negative when `to` is earlier
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+// Calendar date `days` after `date`
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+// Where today falls in a scheme's window, or null when the scheme has no dates to show.
+// A window that has not opened yet reports its opening day; otherwise the closing day decides.
+export function deadlineState(item: Window, today: string, soonDays = CLOSING_SOON_DAYS): DeadlineState | null {
+  if (item.openDate) {
+    const days = daysBetween(today, item.openDate)
+    if (days > 0) return { kind: "opens", days, date: item.openDate }
+  }
+  if (!item.closeDate) return null
+  const date = item.closeDate
+  const days = daysBetween(today, date)
+  if (days < 0) return { kind: "closed", days, date }
+  return { kind: days <= soonDays ? "closing" : "open", days, date }
+}
+
+// Open schemes whose window closes within `days` (today included), soonest first
+export function closingWithin<T extends Window>(items: T[], today: string, days = CLOSING_SOON_DAYS): T[] {
+  return items
+    .filter((item) => deadlineState(item, today, days)?.kind === "closing")
+    .sort((a, b) => a.closeDate!.localeCompare(b.closeDate!))
+}
+
+// A reminder set `daysBefore` the close date is due from that day until the window closes
+export function reminderDue(closeDate: string, daysBefore: number, today: string): boolean {
+  const left = daysBetween(today, closeDate)
+  return left >= 0 && left <= daysBefore
+}
@@ -0,0 +1,178 @@
+// Application-document checklist for a set of schemes: the "documents required" lines of each scheme
+// (from myScheme pages or the curated catalog) are mapped to common document kinds, merged across
+// schemes and exported as printable text, printable HTML or SMS-sized messages for CSC operators.
+// Safe to import from server and client code.
+
+import type { MessageKey } from "@/lib/i18n"
+import { splitSms } from "@/lib/sms"
+
+export const DOCUMENT_KINDS = [
+  "aadhaar",
+  "bank",
+  "income",
+  "ration",
+  "caste",
+  "residence",
+  "land",
+  "age",
+  "photo",
+  "mobile",
+  "disability",
+  "voter-id",
+  "pan",
+  "bpl",
+] as const
+
+export type DocumentKind = (typeof DOCUMENT_KINDS)[number]
+
+// English and Hindi wordings seen in myScheme "documents required" sections
+const KIND_PATTERNS: Record<DocumentKind, RegExp> = {
+  aadhaar: /aadha?ar|आधार/i,
+  bank: /bank|passbook|बैंक|पासबुक/i,
+  income: /income (certificate|proof)|आय प्रमाण/i,
+  ration: /ration card|राशन/i,
+  caste: /caste|जाति/i,
+  residence: /domicile|residen(ce|tial)|address proof|proof of address|निवास/i,
+  land: /\bland\b|khasra|khatauni|7\/12|satbara|भूमि|ज़मीन|जमीन|खसरा|खतौनी/i,
+  age: /birth certificate|age proof|proof of age|date of birth|जन्म/i,
+  photo: /photo|फ़ोटो|फोटो/i,
+  mobile: /mobile|मोबाइल/i,
+  disability: /disab|udid|divyang|दिव्यांग|विकलांग/i,
+  "voter-id": /voter|\bepic\b|मतदाता/i,
+  pan: /\bpan\b|पैन/i,
+  bpl: /\bbpl\b|below poverty|गरीबी रेखा/i,
+}
+
+// "Aadhaar or Voter ID" lists alternatives, not two documents to bring
+const ALTERNATIVES_RE = /\/|\bor\b|\bany (one|of)\b|या|अथवा/i
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string
+
+export type ChecklistScheme = { id: string; title: string; documents: string[] }
+
+export type ChecklistEntry = {
+  // Document kind, or the normalized wording for documents outside the known kinds
+  key: string
+  kind: DocumentKind | null
+  // Wording from the first scheme that asked for it
+  text: string
+  // IDs of the schemes needing it, in selection order
+  schemes: string[]
+}
+
+export type Checklist = {
+  entries: ChecklistEntry[]
+  schemes: { id: string; title: string }[]
+  // Selected schemes with no document list to go on
+  missing: { id: string; title: string }[]
+}
+
+// Known kinds a document line asks for; empty when it is unknown or offers alternatives
+export function documentKinds(line: string): DocumentKind[] {
+  const kinds = DOCUMENT_KINDS.filter((k) => KIND_PATTERNS[k].test(line))
+  return kinds.length > 1 && ALTERNATIVES_RE.test(line) ? [] : kinds
+}
+
+function textKey(line: string) {
+  return line
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .trim()
+}
+
+// Known kinds come first, most widely needed first; other documents follow in the order they appeared.
+export function buildChecklist(schemes: ChecklistScheme[]): Checklist {
+  const byKey = new Map<string, ChecklistEntry>()
+  for (const scheme of schemes) {
+    for (const raw of scheme.documents) {
+      const text = raw.replace(/\s+/g, " ").trim()
+      if (!text) continue
+      const kinds = documentKinds(text)
+      const targets = kinds.length ? kinds.map((k) => ({ key: k, kind: k })) : [{ key: textKey(text), kind: null }]
+      for (const { key, kind } of targets) {
+        if (!key) continue
+        const entry = byKey.get(key) ?? { key, kind, text, schemes: [] }
+        if (!entry.schemes.includes(scheme.id)) entry.schemes.push(scheme.id)
+        byKey.set(key, entry)
+      }
+    }
+  }
+  const order = (e: ChecklistEntry) => (e.kind ? DOCUMENT_KINDS.indexOf(e.kind) : DOCUMENT_KINDS.length)
+  const entries = Array.from(byKey.values()).sort(
+    (a, b) => Number(!a.kind) - Number(!b.kind) || b.schemes.length - a.schemes.length || order(a) - order(b),
+  )
+  return {
+    entries,
+    schemes: schemes.map(({ id, title }) => ({ id, title })),
+    missing: schemes.filter((s) => !s.documents.some((d) => d.trim())).map(({ id, title }) => ({ id, title })),
+  }
+}
+
+export function documentLabel(entry: ChecklistEntry, t: Translate) {
+  return entry.kind ? t(`document.${entry.kind}`) : entry.text
+}
+
+function schemeTitles(checklist: Checklist, ids: string[]) {
+  return ids.map((id) => checklist.schemes.find((s) => s.id === id)?.title ?? id)
+}
+
+// Plain text for printing or pasting: one tick box per document with the schemes that need it
+export function checklistText(checklist: Checklist, t: Translate): string {
+  const lines = [t("checklist.title"), t("checklist.for", { schemes: checklist.schemes.map((s) => s.title).join(", ") }), ""]
+  for (const entry of checklist.entries) {
+    lines.push(`[ ] ${documentLabel(entry, t)}`)
+    lines.push(`    ${t("checklist.neededBy", { schemes: schemeTitles(checklist, entry.schemes).join(", ") })}`)
+  }
+  if (checklist.missing.length) {
+    lines.push("", t("checklist.missing", { schemes: checklist.missing.map((s) => s.title).join(", ") }))
+  }
+  return lines.join("\n")
+}
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!)
+
+// Self-contained page that opens the print dialog; sized for A4 and for small CSC printers alike
+export function checklistHtml(checklist: Checklist, t: Translate, lang: string): string {
+  const rows = checklist.entries
+    .map(
+      (entry) =>
+        `<li><span class="box"></span><div><strong>${escapeHtml(documentLabel(entry, t))}</strong>` +
+        `<small>${escapeHtml(t("checklist.neededBy", { schemes: schemeTitles(checklist, entry.schemes).join(", ") }))}</small></div></li>`,
+    )
+    .join("")
+  const missing = checklist.missing.length
+    ? `<p>${escapeHtml(t("checklist.missing", { schemes: checklist.missing.map((s) => s.title).join(", ") }))}</p>`
+    : ""
+  return `<!doctype html>
+<html lang="${escapeHtml(lang)}"><head><meta charset="utf-8"><title>${escapeHtml(t("checklist.title"))}</title>
+<style>
+body{font:14px/1.4 system-ui,sans-serif;margin:16px;color:#000}
+h1{font-size:18px;margin:0 0 4px}
+ul{list-style:none;padding:0}
+li{display:flex;gap:8px;padding:6px 0;border-bottom:1px solid #ccc;break-inside:avoid}
+.box{flex:none;width:14px;height:14px;border:1.5px solid #000;margin-top:2px}
+small{display:block;color:#444}
+</style></head>
+<body onload="print()">
+<h1>${escapeHtml(t("checklist.title"))}</h1>
+<p>${escapeHtml(t("checklist.for", { schemes: checklist.schemes.map((s) => s.title).join(", ") }))}</p>
+<ul>${rows}</ul>${missing}
+</body></html>
+`
+}
+
+// Compact form for SMS: schemes get letters, each document lists the letters that need it
+export function checklistSms(checklist: Checklist, t: Translate): string[] {
+  const letter = (id: string) => String.fromCharCode(65 + checklist.schemes.findIndex((s) => s.id === id))
+  const all = checklist.schemes.length
+  const lines = [
+    `${t("checklist.title")}:`,
+    ...checklist.schemes.map((s, i) => `${String.fromCharCode(65 + i)} ${s.title}`),
+    ...checklist.entries.map(
+      (e) =>
+        `- ${documentLabel(e, t)}: ${all > 1 && e.schemes.length === all ? t("checklist.all") : e.schemes.map(letter).join(",")}`,
+    ),
+  ]
+  return splitSms(lines.join("\n"))
+}
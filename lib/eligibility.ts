@@ -0,0 +1,235 @@
+// Eligibility matching shared by the server (catalog validation) and the client (questionnaire, badges).
+
+import { z } from "zod"
+import type { MessageKey } from "@/lib/i18n"
+
+export const GENDERS = ["female", "male", "other"] as const
+export const OCCUPATIONS = [
+  "farmer",
+  "student",
+  "unorganised-worker",
+  "self-employed",
+  "salaried",
+  "unemployed",
+  "homemaker",
+  "other",
+] as const
+// Annual household income, in ascending order
+export const INCOME_BANDS = ["below-1l", "1l-2.5l", "2.5l-5l", "5l-8l", "above-8l"] as const
+export const CASTE_CATEGORIES = ["general", "obc", "sc", "st"] as const
+
+export type Gender = (typeof GENDERS)[number]
+export type Occupation = (typeof OCCUPATIONS)[number]
+export type IncomeBand = (typeof INCOME_BANDS)[number]
+export type CasteCategory = (typeof CASTE_CATEGORIES)[number]
+
+export type EligibilityProfile = {
+  age?: number
+  gender?: Gender
+  occupation?: Occupation
+  incomeBand?: IncomeBand
+  caste?: CasteCategory
+  disability?: boolean
+}
+
+const BaseCriteriaSchema = z.object({
+  minAge: z.number().int().min(0).optional(),
+  maxAge: z.number().int().min(0).optional(),
+  genders: z.array(z.enum(GENDERS)).optional(),
+  occupations: z.array(z.enum(OCCUPATIONS)).optional(),
+  maxIncomeBand: z.enum(INCOME_BANDS).optional(),
+  castes: z.array(z.enum(CASTE_CATEGORIES)).optional(),
+  // true: only for persons with disability
+  disability: z.literal(true).optional(),
+})
+
+// All listed conditions must hold; `anyOf` adds alternatives of which at least one must hold
+// (e.g. "women or SC/ST entrepreneurs").
+export const EligibilityCriteriaSchema = BaseCriteriaSchema.extend({
+  anyOf: z.array(BaseCriteriaSchema).optional(),
+})
+
+export type EligibilityCriteria = z.infer<typeof EligibilityCriteriaSchema>
+
+export type EligibilityStatus = "eligible" | "maybe" | "not-eligible"
+
+// One condition of a scheme, kept as data so the UI can word it in the reader's language
+export type EligibilityCondition =
+  | { kind: "min-age"; age: number }
+  | { kind: "max-age"; age: number }
+  | { kind: "gender"; genders: Gender[] }
+  | { kind: "occupation"; occupations: Occupation[] }
+  | { kind: "income"; maxBand: IncomeBand }
+  | { kind: "caste"; castes: CasteCategory[] }
+  | { kind: "disability" }
+
+// Why a verdict was reached; worded by reasonText()
+export type EligibilityReason =
+  | { code: "only-for" | "check" | "appears-to-target" | "matches"; conditions: EligibilityCondition[] }
+  | { code: "no-rules" | "no-details" }
+
+export type EligibilityVerdict = {
+  status: EligibilityStatus
+  reason: EligibilityReason
+  // curated: from catalog criteria; inferred: from keywords in the title and description
+  source: "curated" | "inferred" | "none"
+}
+
+type Check = { pass: boolean | null; condition: EligibilityCondition }
+
+// Evaluate one criteria object; `pass: null` means the profile does not answer that question yet.
+function checks(c: z.infer<typeof BaseCriteriaSchema>, p: EligibilityProfile): Check[] {
+  const out: Check[] = []
+  const known = <T>(v: T | undefined, test: (v: T) => boolean) => (v === undefined ? null : test(v))
+  if (c.minAge !== undefined) {
+    out.push({ pass: known(p.age, (a) => a >= c.minAge!), condition: { kind: "min-age", age: c.minAge } })
+  }
+  if (c.maxAge !== undefined) {
+    out.push({ pass: known(p.age, (a) => a <= c.maxAge!), condition: { kind: "max-age", age: c.maxAge } })
+  }
+  if (c.genders?.length) {
+    out.push({
+      pass: known(p.gender, (g) => c.genders!.includes(g)),
+      condition: { kind: "gender", genders: c.genders },
+    })
+  }
+  if (c.occupations?.length) {
+    out.push({
+      pass: known(p.occupation, (o) => c.occupations!.includes(o)),
+      condition: { kind: "occupation", occupations: c.occupations },
+    })
+  }
+  if (c.maxIncomeBand) {
+    const max = INCOME_BANDS.indexOf(c.maxIncomeBand)
+    out.push({
+      pass: known(p.incomeBand, (b) => INCOME_BANDS.indexOf(b) <= max),
+      condition: { kind: "income", maxBand: c.maxIncomeBand },
+    })
+  }
+  if (c.castes?.length) {
+    out.push({ pass: known(p.caste, (k) => c.castes!.includes(k)), condition: { kind: "caste", castes: c.castes } })
+  }
+  if (c.disability) out.push({ pass: known(p.disability, (d) => d), condition: { kind: "disability" } })
+  return out
+}
+
+function verdictFrom(list: Check[], source: "curated" | "inferred"): EligibilityVerdict {
+  const failed = list.find((c) => c.pass === false)
+  // Keyword guesses never rule a scheme out either: "women" in a description is no bar to men
+  if (failed && source === "inferred") {
+    return { status: "maybe", reason: { code: "appears-to-target", conditions: [failed.condition] }, source }
+  }
+  if (failed) return { status: "not-eligible", reason: { code: "only-for", conditions: [failed.condition] }, source }
+  const unknown = list.filter((c) => c.pass === null)
+  if (unknown.length) {
+    return { status: "maybe", reason: { code: "check", conditions: unknown.map((c) => c.condition) }, source }
+  }
+  const conditions = list.map((c) => c.condition)
+  // Keyword guesses never promise eligibility; they only point at a likely match
+  if (source === "inferred") return { status: "maybe", reason: { code: "appears-to-target", conditions }, source }
+  return { status: "eligible", reason: { code: "matches", conditions }, source }
+}
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string
+
+function conditionText(c: EligibilityCondition, t: Translate): string {
+  switch (c.kind) {
+    case "min-age":
+      return t("eligibility.cond.minAge", { age: c.age })
+    case "max-age":
+      return t("eligibility.cond.maxAge", { age: c.age })
+    case "gender":
+      return t("eligibility.cond.gender", { genders: c.genders.map((g) => t(`gender.${g}`)).join(" / ") })
+    case "occupation":
+      return c.occupations.map((o) => t(`occupation.${o}`)).join(" / ")
+    case "income":
+      // The top band as a ceiling is no ceiling at all
+      if (c.maxBand === "above-8l") return t("eligibility.cond.anyIncome")
+      return t("eligibility.cond.income", { band: t(`income.${c.maxBand}`) })
+    case "caste":
+      return t("eligibility.cond.caste", { castes: c.castes.map((k) => t(`caste.${k}`)).join(" / ") })
+    case "disability":
+      return t("eligibility.cond.disability")
+  }
+}
+
+const REASON_KEYS = {
+  "only-for": "eligibility.reason.onlyFor",
+  check: "eligibility.reason.check",
+  "appears-to-target": "eligibility.reason.appearsToTarget",
+  matches: "eligibility.reason.matches",
+  "no-rules": "eligibility.reason.noRules",
+  "no-details": "eligibility.reason.noDetails",
+} as const satisfies Record<EligibilityReason["code"], MessageKey>
+
+// The reason as a sentence in the locale `t` translates to
+export function reasonText(reason: EligibilityReason, t: Translate): string {
+  if (!("conditions" in reason)) return t(REASON_KEYS[reason.code])
+  const conditions = reason.conditions.map((c) => conditionText(c, t)).join(", ")
+  return t(REASON_KEYS[reason.code], { conditions })
+}
+
+export function assessCriteria(
+  criteria: EligibilityCriteria,
+  profile: EligibilityProfile,
+  source: "curated" | "inferred",
+): EligibilityVerdict {
+  const base = checks(criteria, profile)
+  if (criteria.anyOf?.length) {
+    // Pick the most favourable alternative: passing beats unknown beats failing
+    const alts = criteria.anyOf.map((alt) => checks(alt, profile))
+    const best =
+      alts.find((a) => a.every((c) => c.pass === true)) ??
+      alts.find((a) => a.every((c) => c.pass !== false)) ??
+      alts[0]
+    base.push(...best)
+  }
+  if (!base.length) return { status: "maybe", reason: { code: "no-rules" }, source: "none" }
+  return verdictFrom(base, source)
+}
+
+// Keyword heuristics for scraped schemes that carry no structured criteria.
+// Each matching rule becomes an alternative, since "women and SC/ST entrepreneurs" means either group.
+const KEYWORD_RULES: { re: RegExp; criteria: z.infer<typeof BaseCriteriaSchema> }[] = [
+  { re: /\b(farmers?|kisan|krishi|agricultur\w*|crop)\b/i, criteria: { occupations: ["farmer"] } },
+  { re: /\b(students?|scholarships?|fellowships?)\b/i, criteria: { occupations: ["student"] } },
+  { re: /\b(unorganised|unorganized|street vendors?|labou?rers?)\b/i, criteria: { occupations: ["unorganised-worker"] } },
+  { re: /\b(women|woman|girls?|mahila|widows?|daughters?|beti)\b/i, criteria: { genders: ["female"] } },
+  { re: /\b(scheduled castes?|scheduled tribes?|sc\/st)\b/i, criteria: { castes: ["sc", "st"] } },
+  { re: /\b(other backward class(es)?|obc)\b/i, criteria: { castes: ["obc"] } },
+  { re: /\b(disabilit\w*|disabled|divyang\w*|handicapped)\b/i, criteria: { disability: true } },
+  { re: /\b(senior citizens?|old age|elderly)\b/i, criteria: { minAge: 60 } },
+]
+
+export function inferCriteria(text: string): EligibilityCriteria | null {
+  const matched = KEYWORD_RULES.filter((r) => r.re.test(text))
+  if (!matched.length) return null
+  return { anyOf: matched.map((r) => r.criteria) }
+}
+
+export function assessItem(
+  item: { title: string; description?: string; eligibility?: EligibilityCriteria },
+  profile: EligibilityProfile,
+): EligibilityVerdict {
+  if (item.eligibility) return assessCriteria(item.eligibility, profile, "curated")
+  const inferred = inferCriteria(`${item.title} ${item.description ?? ""}`)
+  if (inferred) return assessCriteria(inferred, profile, "inferred")
+  return { status: "maybe", reason: { code: "no-details" }, source: "none" }
+}
+
+const STATUS_ORDER: Record<EligibilityStatus, number> = { eligible: 0, maybe: 1, "not-eligible": 2 }
+
+// Stable sort: eligible first, then maybe, then not eligible; original order within each group.
+export function rankByEligibility<T extends { title: string; description?: string; eligibility?: EligibilityCriteria }>(
+  items: T[],
+  profile: EligibilityProfile,
+): { item: T; verdict: EligibilityVerdict }[] {
+  return items
+    .map((item, i) => ({ item, verdict: assessItem(item, profile), i }))
+    .sort((a, b) => STATUS_ORDER[a.verdict.status] - STATUS_ORDER[b.verdict.status] || a.i - b.i)
+    .map(({ item, verdict }) => ({ item, verdict }))
+}
+
+export function isProfileEmpty(p: EligibilityProfile) {
+  return Object.values(p).every((v) => v === undefined)
+}
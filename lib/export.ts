@@ -0,0 +1,197 @@
+// Bulk export for NGOs and CSC operators: the listings of many regions, run through the same pipeline
+// as /api/schemes a few at a time, as CSV (for spreadsheets), JSON or a printable handout.
+//
+// Regions are written "State/District" or "State", in any spelling the gazetteer resolves.
+
+import { escapeHtml } from "@/lib/documents"
+import type { Locale, MessageKey } from "@/lib/i18n"
+import { errorFields, log } from "@/lib/log"
+import type { SchemeCategory } from "@/lib/schemes/categories"
+import { getListing, upstreamFailed } from "@/lib/schemes/pipeline"
+import type { SchemeItem } from "@/lib/schemes/schema"
+import { filterByCategory } from "@/lib/share"
+
+export const EXPORT_FORMATS = ["csv", "json", "html"] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+// Regions per export; each uncached one costs a round of upstream requests
+export const MAX_EXPORT_REGIONS = 50
+
+// Listings fetched at once. Upstream requests are throttled per host anyway; this keeps one large
+// export from queueing ahead of everyone else's lookups.
+export function exportConcurrency() {
+  const n = Number.parseInt(process.env.EXPORT_CONCURRENCY ?? "", 10)
+  return Number.isFinite(n) && n > 0 ? n : 3
+}
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string
+
+export type ExportRegion = {
+  state: string
+  district: string | null
+  // "failed": nothing could be listed; "partial": the live sources failed and only curated schemes are listed
+  status: "ok" | "partial" | "failed"
+  items: SchemeItem[]
+}
+
+// Runs `fn` over `items` with at most `limit` calls in flight; results keep the input order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker))
+  return results
+}
+
+export function regionLabel(region: { state: string; district: string | null }) {
+  return region.district ? `${region.district}, ${region.state}` : region.state
+}
+
+// A region that throws is reported as failed instead of failing the whole export
+export async function collectRegions(
+  regions: { state: string; district: string | null }[],
+  lang: Locale,
+  {
+    category = null,
+    concurrency = exportConcurrency(),
+    load = getListing,
+  }: { category?: SchemeCategory | null; concurrency?: number; load?: typeof getListing } = {},
+): Promise<ExportRegion[]> {
+  return mapWithConcurrency(regions, concurrency, async (region): Promise<ExportRegion> => {
+    try {
+      const { value, items } = await load(region.state, region.district ?? "", lang)
+      const failed = upstreamFailed(value)
+      return {
+        ...region,
+        status: failed ? (items.length ? "partial" : "failed") : "ok",
+        items: filterByCategory(items, category),
+      }
+    } catch (err) {
+      log.error("export.region_failed", { region: regionLabel(region), ...errorFields(err) })
+      return { ...region, status: "failed", items: [] }
+    }
+  })
+}
+
+const oneLine = (text?: string) => (text ?? "").replace(/\s+/g, " ").trim()
+const categoryLabels = (item: SchemeItem, t: Translate) => (item.categories ?? []).map((c) => t(`category.${c}`))
+
+export const CSV_COLUMNS = [
+  "state",
+  "district",
+  "title",
+  "description",
+  "categories",
+  "level",
+  "ministry",
+  "open_date",
+  "close_date",
+  "link",
+] as const
+
+// RFC 4180 quoting. Cells that a spreadsheet would run as a formula ("=...", "+...") get a leading
+// apostrophe, since titles and descriptions are scraped text.
+function csvCell(value: string) {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+// One row per scheme per region. Starts with a byte order mark so Excel reads Devanagari and other
+// scripts as UTF-8.
+export function exportCsv(regions: ExportRegion[], t: Translate): string {
+  const rows = regions.flatMap((region) =>
+    region.items.map((item) => [
+      region.state,
+      region.district ?? "",
+      oneLine(item.title),
+      oneLine(item.description),
+      categoryLabels(item, t).join("; "),
+      item.level ?? "",
+      item.ministry ?? "",
+      item.openDate ?? "",
+      item.closeDate ?? "",
+      item.canonicalUrl,
+    ]),
+  )
+  return `\uFEFF${[[...CSV_COLUMNS], ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n")}\r\n`
+}
+
+export function exportJson(regions: ExportRegion[], { lang, generatedAt }: { lang: Locale; generatedAt: string }) {
+  return {
+    generatedAt,
+    lang,
+    regions: regions.map((region) => ({
+      state: region.state,
+      district: region.district,
+      status: region.status,
+      count: region.items.length,
+      schemes: region.items.map((item) => ({
+        title: item.title,
+        description: item.description ?? null,
+        categories: item.categories ?? [],
+        level: item.level ?? null,
+        ministry: item.ministry ?? null,
+        openDate: item.openDate ?? null,
+        closeDate: item.closeDate ?? null,
+        url: item.canonicalUrl,
+        source: item.source,
+      })),
+    })),
+  }
+}
+
+// Printable handout, one section per region, in the same self-printing form as the document checklist.
+// Links are printed as text so they survive on paper.
+export function exportHtml(
+  regions: ExportRegion[],
+  t: Translate,
+  { lang, generatedAt }: { lang: Locale; generatedAt: string },
+): string {
+  const sections = regions
+    .map((region) => {
+      const body =
+        region.status === "failed"
+          ? `<p>${escapeHtml(t("export.failed"))}</p>`
+          : !region.items.length
+            ? `<p>${escapeHtml(t("share.empty"))}</p>`
+            : `<ol>${region.items
+                .map((item) => {
+                  const categories = categoryLabels(item, t)
+                  return (
+                    `<li${item.lang ? ` lang="${escapeHtml(item.lang)}"` : ""}><strong>${escapeHtml(item.title)}</strong>` +
+                    (item.description ? `<p>${escapeHtml(oneLine(item.description))}</p>` : "") +
+                    (categories.length ? `<small>${escapeHtml(categories.join(", "))}</small>` : "") +
+                    `<small class="url">${escapeHtml(item.canonicalUrl)}</small></li>`
+                  )
+                })
+                .join("")}</ol>`
+      const partial = region.status === "partial" ? `<p><em>${escapeHtml(t("export.partial"))}</em></p>` : ""
+      return `<section><h2>${escapeHtml(t("share.title", { region: regionLabel(region) }))}</h2>${partial}${body}</section>`
+    })
+    .join("\n")
+  return `<!doctype html>
+<html lang="${escapeHtml(lang)}"><head><meta charset="utf-8"><title>${escapeHtml(t("export.handout"))}</title>
+<style>
+body{font:13px/1.4 system-ui,sans-serif;margin:16px;color:#000}
+h1{font-size:18px;margin:0 0 4px}
+h2{font-size:15px;margin:16px 0 4px;border-bottom:1.5px solid #000}
+section+section{break-before:page}
+ol{padding-left:20px;margin:0}
+li{padding:4px 0;border-bottom:1px solid #ccc;break-inside:avoid}
+li p{margin:2px 0}
+small{display:block;color:#444}
+.url{word-break:break-all}
+footer{margin-top:12px;color:#444;font-size:11px}
+</style></head>
+<body onload="print()">
+<h1>${escapeHtml(t("export.handout"))}</h1>
+${sections}
+<footer>${escapeHtml(t("export.generated", { date: generatedAt.slice(0, 10) }))}</footer>
+</body></html>
+`
+}
@@ -0,0 +1,83 @@
+// Minimal Atom 1.0 and RSS 2.0 writers for the scheme change feed. Text is escaped; no HTML content.
+
+export type FeedEntry = {
+  id: string
+  title: string
+  link: string
+  // ISO timestamp
+  updated: string
+  summary?: string
+}
+
+export type Feed = {
+  id: string
+  title: string
+  // The page the feed is about, and the feed's own URL
+  link: string
+  self: string
+  updated: string
+  lang?: string
+  entries: FeedEntry[]
+}
+
+export function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+export function atomFeed(feed: Feed): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom"${feed.lang ? ` xml:lang="${escapeXml(feed.lang)}"` : ""}>`,
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <updated>${escapeXml(feed.updated)}</updated>`,
+    `  <link rel="alternate" href="${escapeXml(feed.link)}"/>`,
+    `  <link rel="self" href="${escapeXml(feed.self)}"/>`,
+  ]
+  for (const e of feed.entries) {
+    lines.push(
+      "  <entry>",
+      `    <id>${escapeXml(e.id)}</id>`,
+      `    <title>${escapeXml(e.title)}</title>`,
+      `    <updated>${escapeXml(e.updated)}</updated>`,
+      `    <link rel="alternate" href="${escapeXml(e.link)}"/>`,
+    )
+    if (e.summary) lines.push(`    <summary>${escapeXml(e.summary)}</summary>`)
+    lines.push("  </entry>")
+  }
+  lines.push("</feed>")
+  return lines.join("\n") + "\n"
+}
+
+export function rssFeed(feed: Feed): string {
+  const date = (iso: string) => new Date(iso).toUTCString()
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.link)}</link>`,
+    `    <description>${escapeXml(feed.title)}</description>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(feed.self)}"/>`,
+    `    <lastBuildDate>${date(feed.updated)}</lastBuildDate>`,
+  ]
+  if (feed.lang) lines.push(`    <language>${escapeXml(feed.lang)}</language>`)
+  for (const e of feed.entries) {
+    lines.push(
+      "    <item>",
+      `      <title>${escapeXml(e.title)}</title>`,
+      `      <link>${escapeXml(e.link)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(e.id)}</guid>`,
+      `      <pubDate>${date(e.updated)}</pubDate>`,
+    )
+    if (e.summary) lines.push(`      <description>${escapeXml(e.summary)}</description>`)
+    lines.push("    </item>")
+  }
+  lines.push("  </channel>", "</rss>")
+  return lines.join("\n") + "\n"
+}
@@ -0,0 +1,233 @@
+// Canonical gazetteer of Indian states, union territories and districts, with fuzzy name matching.
+// State codes are LGD (Local Government Directory) state codes. Districts carry a stable
+// `<stateCode>.<slug>` ID and, once imported with scripts/import-lgd.mjs, their LGD district code and
+// local-script name. Until then `lgdSource` is null and only states and major cities have local names.
+
+import india from "@/data/regions/india.json"
+
+export type GazetteerDistrict = {
+  id: string
+  name: string
+  lgd?: string
+  // Old names and common spellings, e.g. "Gurgaon" for Gurugram
+  aliases?: string[]
+  // Names in Hindi and regional scripts
+  local?: string[]
+}
+
+export type GazetteerState = {
+  code: string
+  abbr: string
+  name: string
+  type: "state" | "ut"
+  aliases?: string[]
+  local?: string[]
+  districts: GazetteerDistrict[]
+}
+
+export type RegionMatch = {
+  state: string
+  stateCode: string
+  district: string | null
+  // Stable gazetteer ID; never changes once published, even after LGD codes are imported
+  districtCode: string | null
+  districtLgd: string | null
+  // 1 for an exact or alias match, lower for fuzzy matches
+  confidence: number
+}
+
+export const GAZETTEER_VERSION = india.version
+// LGD export the district codes were imported from, or null before the import
+export const LGD_SOURCE: string | null = india.lgdSource
+export const STATES: GazetteerState[] = india.states as GazetteerState[]
+
+// Words that OSM and other sources append to administrative names but which are not part of them.
+const NOISE_WORDS = new Set([
+  "district",
+  "dist",
+  "zila",
+  "zilla",
+  "jila",
+  "division",
+  "tahsil",
+  "tehsil",
+  "taluka",
+  "taluk",
+  "mandal",
+  "subdivision",
+  "जिला",
+  "जिल्हा",
+  "मंडल",
+])
+// Only stripped as a last resort: "Bengaluru Urban" is a real district, "Nagpur Rural" is not.
+const AREA_WORDS = new Set(["rural", "urban", "city", "metropolitan", "metro"])
+
+// Lowercase, drop Latin diacritics and punctuation, and spell out "&". Other scripts are kept intact.
+export function normalizeName(input: string): string {
+  return input
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}\p{M}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function variants(input: string): string[] {
+  const base = normalizeName(input)
+  const words = base.split(" ").filter((w) => !NOISE_WORDS.has(w))
+  const stripped = words.join(" ")
+  const bare = words.filter((w) => !AREA_WORDS.has(w)).join(" ")
+  return Array.from(new Set([base, stripped, bare].filter(Boolean)))
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i]
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    prev = cur
+  }
+  return prev[b.length]
+}
+
+// 1 for identical strings, falling towards 0 with edit distance relative to length.
+export function similarity(a: string, b: string) {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1)
+}
+
+type Keyed<T> = { entry: T; keys: string[] }
+
+function keysOf(e: { name: string; aliases?: string[]; local?: string[] }) {
+  return [e.name, ...(e.aliases ?? []), ...(e.local ?? [])].map(normalizeName)
+}
+
+// Exact (or alias) match on any input variant, then closest spelling, then a known name
+// appearing as whole words inside the input ("Nagpur Rural Taluka").
+function bestMatch<T>(input: string, candidates: Keyed<T>[]): { entry: T; score: number } | null {
+  const vs = variants(input)
+  for (const v of vs) {
+    const hit = candidates.find((c) => c.keys.includes(v))
+    if (hit) return { entry: hit.entry, score: 1 }
+  }
+
+  let best: { entry: T; score: number } | null = null
+  for (const c of candidates) {
+    for (const k of c.keys) {
+      for (const v of vs) {
+        const s = similarity(v, k)
+        if (s >= 0.8 && (!best || s > best.score)) best = { entry: c.entry, score: s }
+      }
+    }
+  }
+  if (best) return { entry: best.entry, score: best.score * 0.9 }
+
+  let contained: { entry: T; len: number } | null = null
+  for (const c of candidates) {
+    for (const k of c.keys) {
+      if (k.length >= 3 && vs.some((v) => ` ${v} `.includes(` ${k} `)) && (!contained || k.length > contained.len)) {
+        contained = { entry: c.entry, len: k.length }
+      }
+    }
+  }
+  return contained ? { entry: contained.entry, score: 0.7 } : null
+}
+
+const STATE_KEYS: Keyed<GazetteerState>[] = STATES.map((s) => ({ entry: s, keys: keysOf(s) }))
+const DISTRICT_KEYS = new Map<string, Keyed<GazetteerDistrict>[]>(
+  STATES.map((s) => [s.code, s.districts.map((d) => ({ entry: d, keys: keysOf(d) }))]),
+)
+
+export function matchState(input: string): { state: GazetteerState; score: number } | null {
+  const m = bestMatch(input, STATE_KEYS)
+  return m ? { state: m.entry, score: m.score } : null
+}
+
+export function matchDistrict(
+  state: GazetteerState,
+  input: string,
+): { district: GazetteerDistrict; score: number } | null {
+  const m = bestMatch(input, DISTRICT_KEYS.get(state.code) ?? [])
+  return m ? { district: m.entry, score: m.score } : null
+}
+
+// Codes (LGD code, abbreviation such as "MH", district ID) win over name matching.
+function stateFor(input: string) {
+  const q = input.trim()
+  if (!q) return null
+  const byCode = STATES.find((s) => s.code === q || s.abbr.toLowerCase() === q.toLowerCase())
+  return byCode ? { state: byCode, score: 1 } : matchState(q)
+}
+
+function districtFor(state: GazetteerState, input: string) {
+  const q = input.trim()
+  if (!q) return null
+  const byCode = state.districts.find((d) => d.id === q || d.lgd === q)
+  return byCode ? { district: byCode, score: 1 } : matchDistrict(state, q)
+}
+
+export function findState(nameOrCode: string): GazetteerState | undefined {
+  return stateFor(nameOrCode)?.state
+}
+
+export function findDistrict(state: GazetteerState, nameOrCode: string): GazetteerDistrict | undefined {
+  return districtFor(state, nameOrCode)?.district
+}
+
+// Map free-form state/district strings (OSM output, query params, user input) to canonical entries.
+// Returns null when the state is unknown; an unknown district leaves district fields null.
+export function resolveRegion(stateInput: string, districtInput?: string | null): RegionMatch | null {
+  const sm = stateFor(stateInput)
+  if (!sm) return null
+  const dm = districtInput ? districtFor(sm.state, districtInput) : null
+  return {
+    state: sm.state.name,
+    stateCode: sm.state.code,
+    district: dm?.district.name ?? null,
+    districtCode: dm?.district.id ?? null,
+    districtLgd: dm?.district.lgd ?? null,
+    confidence: Math.min(sm.score, dm?.score ?? 1),
+  }
+}
+
+// "Maharashtra/Nagpur", "Karnataka" -> canonical regions, de-duplicated in order. Entries the gazetteer
+// does not know (or a district it cannot find in the state) are returned as `unknown`.
+export function parseRegions(values: string[]) {
+  const regions: { state: string; district: string | null }[] = []
+  const unknown: string[] = []
+  const seen = new Set<string>()
+  for (const entry of values.flatMap((v) => v.split(",")).map((s) => s.trim()).filter(Boolean)) {
+    const [state, district = ""] = entry.split("/").map((s) => s.trim())
+    const match = resolveRegion(state, district)
+    if (!match || (district && !match.district)) {
+      unknown.push(entry)
+      continue
+    }
+    const key = `${match.state}/${match.district ?? ""}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    regions.push({ state: match.state, district: match.district })
+  }
+  return { regions, unknown }
+}
+
+// Picker search over names, aliases and local-script names: prefix matches first, then substrings.
+export function searchEntries<T extends { name: string; aliases?: string[]; local?: string[] }>(
+  entries: T[],
+  query: string,
+): T[] {
+  const q = normalizeName(query)
+  if (!q) return entries
+  const starts: T[] = []
+  const contains: T[] = []
+  for (const e of entries) {
+    const keys = keysOf(e)
+    if (keys.some((k) => k.startsWith(q))) starts.push(e)
+    else if (keys.some((k) => k.includes(q))) contains.push(e)
+  }
+  return [...starts, ...contains]
+}
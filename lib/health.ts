@@ -0,0 +1,55 @@
+// Overall service health for /api/health, from what the server has seen recently: provider health
+// and outcome rates (lib/metrics), upstream circuit breakers and, when asked for, a live probe of each
+// upstream. "down" means no live scheme source is working, so listings are curated-only at best;
+// "degraded" means something is failing but live listings still come through.
+
+import type { BreakerSnapshot } from "@/lib/http/breaker"
+import type { SeriesSummary } from "@/lib/metrics"
+import type { ProviderHealth } from "@/lib/schemes/providers"
+
+export type HealthStatus = "ok" | "degraded" | "down"
+
+// A success rate over fewer recent runs than this says too little to call a source failing
+export const MIN_SAMPLES = 3
+// Below this recent success rate a working source still counts as degraded
+const DEGRADED_RATE = 0.5
+
+export type ProviderInfo = { name: string; mode: "primary" | "supplemental"; health: ProviderHealth }
+export type ProbeResult = { host: string; ok: boolean; status: number | null; ms: number; error?: string }
+
+export type HealthInput = {
+  providers: ProviderInfo[]
+  providerMetrics: SeriesSummary[]
+  upstreams: { host: string; breaker: BreakerSnapshot }[]
+  probes?: ProbeResult[]
+  now?: number
+}
+
+export type ProviderVerdict = "ok" | "degraded" | "failing" | "idle"
+
+export function providerVerdict(
+  provider: ProviderInfo,
+  metrics: SeriesSummary | undefined,
+  now = Date.now(),
+): ProviderVerdict {
+  if (provider.health.disabledUntil > now) return "failing"
+  if (!metrics || metrics.successRate === null) return "idle"
+  if (metrics.recent >= MIN_SAMPLES && metrics.successRate === 0) return "failing"
+  return metrics.successRate < DEGRADED_RATE ? "degraded" : "ok"
+}
+
+export function healthStatus({ providers, providerMetrics, upstreams, probes = [], now = Date.now() }: HealthInput) {
+  const verdicts = providers
+    .filter((p) => p.mode === "primary")
+    .map((p) => ({ name: p.name, verdict: providerVerdict(p, providerMetrics.find((m) => m.name === p.name), now) }))
+
+  const allFailing = verdicts.length > 0 && verdicts.every((v) => v.verdict === "failing")
+  const anyFailing = verdicts.some((v) => v.verdict === "failing" || v.verdict === "degraded")
+  const breakerTripped = upstreams.some((u) => u.breaker.state !== "closed")
+  const probeFailed = probes.some((p) => !p.ok)
+
+  let status: HealthStatus = "ok"
+  if (allFailing) status = "down"
+  else if (anyFailing || breakerTripped || probeFailed) status = "degraded"
+  return { status, providers: verdicts }
+}
@@ -0,0 +1,60 @@
+// Circuit breaker for one upstream host. After `threshold` consecutive failures the circuit opens and
+// requests fail fast for `cooldownMs`; then a single trial request is let through (half-open) and its
+// outcome closes the circuit again or reopens it for another cooldown.
+
+export type BreakerState = "closed" | "open" | "half-open"
+
+export type BreakerSnapshot = {
+  state: BreakerState
+  consecutiveFailures: number
+  openedAt: number | null
+  lastError: string | null
+}
+
+export type CircuitBreaker = {
+  // Whether a request may go out now; in half-open state only the first caller gets true
+  allow(now?: number): boolean
+  success(): void
+  failure(reason: string, now?: number): void
+  // The allowed request ended without an upstream verdict (cancelled by the caller)
+  release(): void
+  snapshot(now?: number): BreakerSnapshot
+}
+
+export function createCircuitBreaker({ threshold, cooldownMs }: { threshold: number; cooldownMs: number }): CircuitBreaker {
+  let failures = 0
+  let openedAt: number | null = null
+  let lastError: string | null = null
+  let trialInFlight = false
+
+  const state = (now: number): BreakerState =>
+    openedAt === null ? "closed" : now - openedAt < cooldownMs ? "open" : "half-open"
+
+  return {
+    allow(now = Date.now()) {
+      const s = state(now)
+      if (s === "closed") return true
+      if (s === "open" || trialInFlight) return false
+      trialInFlight = true
+      return true
+    },
+    success() {
+      failures = 0
+      openedAt = null
+      trialInFlight = false
+    },
+    failure(reason, now = Date.now()) {
+      failures += 1
+      lastError = reason
+      // A failed trial reopens at once; a closed circuit opens at the threshold
+      if (trialInFlight || failures >= threshold) openedAt = now
+      trialInFlight = false
+    },
+    release() {
+      trialInFlight = false
+    },
+    snapshot(now = Date.now()) {
+      return { state: state(now), consecutiveFailures: failures, openedAt, lastError }
+    },
+  }
+}
@@ -0,0 +1,223 @@
+// Shared client for every outbound request to third-party sites (myScheme, Nominatim). Per host it
+// spaces requests out, applies a timeout, retries transient failures with backoff and trips a circuit
+// breaker after repeated failures, so a struggling upstream is left alone instead of hammered.
+// Requests identify this service honestly; set UPSTREAM_CONTACT to a URL or email operators can reach.
+
+import { log } from "@/lib/log"
+import { recordUpstream } from "@/lib/metrics"
+import { processState } from "@/lib/process-state"
+import { createCircuitBreaker, type BreakerSnapshot, type CircuitBreaker } from "./breaker"
+import { createThrottle, sleep, ThrottleFullError, type Throttle } from "./throttle"
+
+export type HostPolicy = {
+  // Minimum gap between requests to the host
+  minIntervalMs: number
+  // Callers are turned away rather than queue longer than this for a slot
+  maxWaitMs: number
+  timeoutMs: number
+  // Extra attempts after a timeout, network error, 429 or 5xx
+  retries: number
+  failureThreshold: number
+  cooldownMs: number
+}
+
+const DEFAULT_POLICY: HostPolicy = {
+  minIntervalMs: 0,
+  maxWaitMs: 10_000,
+  timeoutMs: 10_000,
+  retries: 1,
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+}
+
+const HOST_POLICIES: Record<string, Partial<HostPolicy>> = {
+  // Usage policy: at most one request per second, with an identifying User-Agent
+  // (https://operations.osmfoundation.org/policies/nominatim/)
+  "nominatim.openstreetmap.org": { minIntervalMs: 1000, maxWaitMs: 5000, timeoutMs: 8000, retries: 1 },
+  // No published limit; a couple of page loads per second is what a single visitor would do. Kept short
+  // enough that both attempts fit in the search providers' timeout (see requestBudgetMs)
+  "www.myscheme.gov.in": { minIntervalMs: 500, maxWaitMs: 1500, timeoutMs: 3500, retries: 1 },
+}
+
+const MAX_BACKOFF_MS = 4000
+// Retry-After beyond this is treated as a failure rather than waited out
+const MAX_RETRY_AFTER_MS = 2000
+
+export type UpstreamErrorKind = "circuit-open" | "queue-full" | "timeout" | "network" | "http"
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly kind: UpstreamErrorKind,
+    readonly host: string,
+    readonly status?: number,
+  ) {
+    super(message)
+  }
+}
+
+// Status a route answers with when an upstream call it depends on failed: the source's own 404 passes
+// through, a timeout is a gateway timeout, a source we are backing off from is unavailable for now
+export function upstreamErrorStatus(err: UpstreamError): number {
+  switch (err.kind) {
+    case "http":
+      return err.status === 404 ? 404 : 502
+    case "timeout":
+      return 504
+    case "circuit-open":
+    case "queue-full":
+      return 503
+    case "network":
+      return 502
+  }
+}
+
+const contact = process.env.UPSTREAM_CONTACT || process.env.PUBLIC_BASE_URL
+export const USER_AGENT = `myscheme-locator/1.2${contact ? ` (+${contact})` : ""}`
+let warnedContact = false
+
+type HostState = { policy: HostPolicy; throttle: Throttle; breaker: CircuitBreaker }
+const hosts = processState("http.hosts", () => new Map<string, HostState>())
+
+function hostState(host: string): HostState {
+  let s = hosts.get(host)
+  if (!s) {
+    const policy = { ...DEFAULT_POLICY, ...HOST_POLICIES[host] }
+    s = {
+      policy,
+      throttle: createThrottle(policy),
+      breaker: createCircuitBreaker({ threshold: policy.failureThreshold, cooldownMs: policy.cooldownMs }),
+    }
+    hosts.set(host, s)
+  }
+  return s
+}
+
+export function upstreamStatus(): { host: string; breaker: BreakerSnapshot }[] {
+  return Array.from(hosts, ([host, s]) => ({ host, breaker: s.breaker.snapshot() }))
+}
+
+// Longest upstreamFetch can take for the host: every attempt queueing and timing out, with the longest
+// allowed wait between them. Callers that race their own timeout against it should allow at least this.
+export function requestBudgetMs(host: string) {
+  const { maxWaitMs, timeoutMs, retries } = { ...DEFAULT_POLICY, ...HOST_POLICIES[host] }
+  let ms = (retries + 1) * (maxWaitMs + timeoutMs)
+  for (let attempt = 0; attempt < retries; attempt++) {
+    ms += Math.max(Math.min(250 * 2 ** attempt, MAX_BACKOFF_MS), MAX_RETRY_AFTER_MS)
+  }
+  return ms
+}
+
+// Exponential with jitter, so retries from concurrent requests do not land together
+export function backoffMs(attempt: number, random = Math.random()) {
+  return Math.min(250 * 2 ** attempt, MAX_BACKOFF_MS) * (0.5 + random / 2)
+}
+
+function retryAfterMs(res: Response): number | null {
+  const value = res.headers.get("retry-after")
+  if (!value) return null
+  const seconds = Number(value)
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now()
+  return Number.isFinite(ms) ? Math.max(ms, 0) : null
+}
+
+const transient = (status: number) => status === 429 || status >= 500
+
+// One signal for the request: aborts on the caller's signal or once `ms` have passed
+function deadline(ms: number, signal?: AbortSignal) {
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, ms)
+  const onAbort = () => controller.abort(signal!.reason)
+  signal?.addEventListener("abort", onAbort, { once: true })
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear() {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+    },
+  }
+}
+
+export type UpstreamInit = {
+  headers?: Record<string, string>
+  // Cancels the request, including any wait for a slot or a retry
+  signal?: AbortSignal
+}
+
+// GET through the host's limits. Resolves with any response the upstream answered for good (including
+// 404s, which callers check); rejects with UpstreamError when it could not be reached or kept failing.
+export async function upstreamFetch(url: string, init: UpstreamInit = {}): Promise<Response> {
+  const host = new URL(url).host
+  const { policy, throttle, breaker } = hostState(host)
+  if (!contact && !warnedContact) {
+    warnedContact = true
+    log.warn("http.no_contact", { message: "UPSTREAM_CONTACT is not set; upstream operators have no way to reach us" })
+  }
+  if (!breaker.allow()) {
+    recordUpstream(host, "circuit-open", 0, false)
+    throw new UpstreamError(`${host}: circuit open after repeated failures`, "circuit-open", host)
+  }
+  const started = Date.now()
+
+  let lastError: UpstreamError | null = null
+  try {
+    for (let attempt = 0; attempt <= policy.retries; attempt++) {
+      try {
+        await throttle.wait(init.signal)
+      } catch (err) {
+        if (err instanceof ThrottleFullError) throw new UpstreamError(`${host}: ${err.message}`, "queue-full", host)
+        throw err
+      }
+
+      let wait = backoffMs(attempt)
+      const timer = deadline(policy.timeoutMs, init.signal)
+      try {
+        const res = await fetch(url, {
+          headers: { ...init.headers, "User-Agent": USER_AGENT },
+          cache: "no-store",
+          signal: timer.signal,
+        })
+        if (!transient(res.status)) {
+          breaker.success()
+          recordUpstream(host, `http-${res.status}`, Date.now() - started, true)
+          return res
+        }
+        await res.body?.cancel()
+        lastError = new UpstreamError(`${host}: HTTP ${res.status}`, "http", host, res.status)
+        const after = retryAfterMs(res)
+        if (after !== null) {
+          if (after > MAX_RETRY_AFTER_MS) break
+          wait = Math.max(wait, after)
+        }
+      } catch (err: any) {
+        if (init.signal?.aborted) throw err
+        lastError = timer.timedOut()
+          ? new UpstreamError(`${host}: timed out after ${policy.timeoutMs}ms`, "timeout", host)
+          : new UpstreamError(`${host}: ${err?.cause?.code || err?.message || "network error"}`, "network", host)
+      } finally {
+        timer.clear()
+      }
+      if (attempt < policy.retries) await sleep(wait, init.signal)
+    }
+  } catch (err) {
+    // Cancelled by the caller or turned away before reaching the host: no verdict on its health
+    breaker.release()
+    throw err
+  }
+
+  breaker.failure(lastError!.message)
+  recordUpstream(host, lastError!.status ? `http-${lastError!.status}` : lastError!.kind, Date.now() - started, false)
+  log.warn("http.failed", {
+    host,
+    kind: lastError!.kind,
+    status: lastError!.status,
+    error: lastError!.message,
+    circuit: breaker.snapshot().state,
+  })
+  throw lastError!
+}
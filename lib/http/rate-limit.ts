@@ -0,0 +1,46 @@
+// Token buckets for incoming requests, keyed by client IP. Each key holds up to `capacity` tokens and
+// regains `refillPerSec`; a request spends one, or `cost` when it does the work of several (capped at
+// the capacity, so any request can pass once the bucket is full). Buckets live in memory per server
+// instance, and the least recently used keys are dropped past `maxKeys` so a flood of addresses cannot
+// exhaust memory.
+
+export type RateLimitPolicy = { capacity: number; refillPerSec: number }
+
+export type RateLimitVerdict = { ok: boolean; remaining: number; retryAfterSec: number }
+
+export type RateLimiter = { take(key: string, now?: number, cost?: number): RateLimitVerdict }
+
+export function createRateLimiter(policy: RateLimitPolicy, maxKeys = 10_000): RateLimiter {
+  const buckets = new Map<string, { tokens: number; at: number }>()
+  return {
+    take(key, now = Date.now(), cost = 1) {
+      const spend = Math.min(Math.max(cost, 1), policy.capacity)
+      const prev = buckets.get(key)
+      const tokens = prev
+        ? Math.min(policy.capacity, prev.tokens + ((now - prev.at) / 1000) * policy.refillPerSec)
+        : policy.capacity
+      // Re-insert so Map order tracks recency
+      buckets.delete(key)
+      if (buckets.size >= maxKeys) buckets.delete(buckets.keys().next().value!)
+      if (tokens < spend) {
+        buckets.set(key, { tokens, at: now })
+        return { ok: false, remaining: 0, retryAfterSec: Math.ceil((spend - tokens) / policy.refillPerSec) }
+      }
+      buckets.set(key, { tokens: tokens - spend, at: now })
+      return { ok: true, remaining: Math.floor(tokens - spend), retryAfterSec: 0 }
+    },
+  }
+}
+
+// Proxies append to X-Forwarded-For, so only the entries our own proxies added can be trusted; anything
+// to their left came from the client. TRUSTED_PROXY_HOPS is how many proxies sit in front of the server.
+function trustedHops() {
+  const n = Number(process.env.TRUSTED_PROXY_HOPS)
+  return Number.isInteger(n) && n > 0 ? n : 1
+}
+
+// The address our outermost trusted proxy saw, else X-Real-IP
+export function clientIp(header: (name: string) => string | null, hops = trustedHops()): string {
+  const forwarded = header("x-forwarded-for")?.split(",").map((s) => s.trim()) ?? []
+  return forwarded[Math.max(forwarded.length - hops, 0)] || header("x-real-ip")?.trim() || "unknown"
+}
@@ -0,0 +1,46 @@
+// Request spacing for one upstream host: each call reserves the next free slot at least
+// `minIntervalMs` after the previous one and waits for it. Callers that would wait longer than
+// `maxWaitMs` are turned away instead of queueing without bound.
+
+export class ThrottleFullError extends Error {
+  constructor(readonly waitMs: number) {
+    super(`upstream queue full (next slot in ${waitMs}ms)`)
+  }
+}
+
+export type Throttle = {
+  // Resolves when the caller may send; rejects with ThrottleFullError or the signal's reason
+  wait(signal?: AbortSignal): Promise<void>
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason)
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+export function createThrottle(
+  { minIntervalMs, maxWaitMs }: { minIntervalMs: number; maxWaitMs: number },
+  now: () => number = Date.now,
+): Throttle {
+  let nextSlot = 0
+  return {
+    async wait(signal) {
+      if (minIntervalMs <= 0) return
+      const t = now()
+      const at = Math.max(t, nextSlot)
+      if (at - t > maxWaitMs) throw new ThrottleFullError(at - t)
+      nextSlot = at + minIntervalMs
+      if (at > t) await sleep(at - t, signal)
+    },
+  }
+}
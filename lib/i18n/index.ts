@@ -0,0 +1,54 @@
+// UI locales, Accept-Language matching and message lookup. Safe to import from server and client code.
+
+import { bn } from "./messages/bn"
+import { en, type MessageKey, type Messages } from "./messages/en"
+import { hi } from "./messages/hi"
+import { mr } from "./messages/mr"
+import { ta } from "./messages/ta"
+import { te } from "./messages/te"
+
+export type { MessageKey, Messages }
+
+export const LOCALES = ["en", "hi", "mr", "ta", "te", "bn"] as const
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = "en"
+// Cookie holding the user's explicit choice; it wins over Accept-Language
+export const LOCALE_COOKIE = "lang"
+
+// Shown in the switcher in their own script so users can find their language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+  mr: "मराठी",
+  ta: "தமிழ்",
+  te: "తెలుగు",
+  bn: "বাংলা",
+}
+
+const MESSAGES: Record<Locale, Messages> = { en, hi, mr, ta, te, bn }
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return !!value && (LOCALES as readonly string[]).includes(value)
+}
+
+// Pick the best supported locale from an Accept-Language header ("hi-IN,hi;q=0.9,en;q=0.8").
+export function matchAcceptLanguage(header: string | null | undefined): Locale {
+  if (!header) return DEFAULT_LOCALE
+  const ranked = header
+    .split(",")
+    .map((part, i) => {
+      const [tag, ...params] = part.trim().split(";")
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="))
+      return { lang: tag.trim().toLowerCase().split("-")[0], q: q ? Number(q.slice(2)) || 0 : 1, i }
+    })
+    .filter((r) => r.lang && r.q > 0)
+    .sort((a, b) => b.q - a.q || a.i - b.i)
+  return ranked.map((r) => r.lang).find(isLocale) ?? DEFAULT_LOCALE
+}
+
+export function translate(locale: Locale, key: MessageKey, vars?: Record<string, string | number>): string {
+  const text = MESSAGES[locale]?.[key] ?? en[key]
+  if (!vars) return text
+  return text.replace(/\{(\w+)\}/g, (m, name) => (name in vars ? String(vars[name]) : m))
+}
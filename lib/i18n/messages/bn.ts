@@ -0,0 +1,286 @@
+import type { Messages } from "./en"
+
+export const bn: Messages = {
+  "app.title": "আপনার কাছের সরকারি প্রকল্প",
+  "app.intro": "আপনার এলাকার প্রকল্প খুঁজতে ডিভাইসের অবস্থান অথবা আপনার বেছে নেওয়া রাজ্য ও জেলা ব্যবহার করে।",
+  "app.footer":
+    "তথ্য myScheme (ভারত সরকার) থেকে নেওয়া। ডিভাইসের অবস্থান ও উৎস সাইটের প্রাপ্যতার উপর নির্ভুলতা নির্ভর করতে পারে।",
+  "app.loading": "লোড হচ্ছে…",
+  "language.label": "ভাষা",
+
+  "common.back": "ফিরে যান",
+  "common.cancel": "বাতিল",
+
+  "softkeys.label": "সফটকি",
+  "softkeys.select": "বাছুন",
+  "softkeys.options": "বিকল্প",
+  "softkeys.close": "বন্ধ করুন",
+  "options.save": "প্রকল্প সংরক্ষণ",
+  "options.unsave": "সংরক্ষিত থেকে সরান",
+
+  "offline.title": "অফলাইন।",
+  "offline.body": "এই ডিভাইসে শেষবার লোড হওয়া প্রকল্প এবং আপনার সংরক্ষিত তালিকা দেখানো হচ্ছে।",
+
+  "location.title": "আপনার অবস্থান",
+  "location.retry": "আবার চেষ্টা করুন",
+  "location.retryLabel": "আবার অবস্থান নিন",
+  "location.requesting": "অবস্থান নেওয়া হচ্ছে…",
+  "location.unsupported": "এই ডিভাইসে অবস্থান পরিষেবা নেই।",
+  "location.denied": "অবস্থানের অনুমতি দেওয়া হয়নি।",
+  "location.unavailable": "আপনার অবস্থান পাওয়া যায়নি।",
+  "location.coords": "স্থানাঙ্ক: {lat}, {lon}",
+  "location.resolving": "রাজ্য/জেলা খোঁজা হচ্ছে…",
+  "location.resolveFailed": "আপনার অবস্থান থেকে রাজ্য নির্ধারণ করা যায়নি।",
+  "location.state": "রাজ্য:",
+  "location.district": "জেলা:",
+  "location.chosen": "(বেছে নেওয়া)",
+  "location.change": "এলাকা বদলান",
+  "location.choose": "রাজ্য/জেলা বেছে নিন",
+  "location.useGps": "GPS ব্যবহার করুন",
+
+  "schemes.title": "আপনার এলাকার প্রকল্প",
+  "schemes.savedCount": "সংরক্ষিত ({count})",
+  "schemes.openMyScheme": "myScheme খুলুন",
+  "schemes.openMySchemeLabel": "myScheme ওয়েবসাইট খুলুন",
+  "schemes.waiting": "আপনার রাজ্য লোড হওয়ার অপেক্ষা…",
+  "schemes.loading": "myScheme থেকে প্রকল্প আনা হচ্ছে…",
+  "schemes.error": "প্রকল্প আনা যায়নি। আবার চেষ্টা করুন।",
+  "schemes.offlineError": "এই এলাকার কোনো প্রকল্প এখনও ডিভাইসে নেই। আপনার সংরক্ষিত প্রকল্পগুলি পাওয়া যাবে।",
+  "schemes.updated": "{age} হালনাগাদ",
+  "schemes.save": "সংরক্ষণ",
+  "schemes.saved": "সংরক্ষিত ✓",
+  "schemes.empty": "এখন কোনো প্রকল্প পাওয়া যায়নি। উপরের লিঙ্ক থেকে সরাসরি myScheme-এ দেখতে পারেন।",
+  "schemes.showMore": "আরও দেখুন ({count} বাকি)",
+
+  "age.justNow": "এইমাত্র",
+  "age.minutes": "{n} মিনিট আগে",
+  "age.hours": "{n} ঘণ্টা আগে",
+  "age.days": "{n} দিন আগে",
+
+  "notes.curatedOnly": "শুধু বাছাই করা প্রকল্প দেখানো হচ্ছে। myScheme-এর সরাসরি ফলাফল এখন পাওয়া যাচ্ছে না।",
+  "notes.degraded": "এখন প্রকল্প আনা যায়নি। উপরের লিঙ্ক থেকে সরাসরি myScheme-এ দেখতে পারেন।",
+  "notes.unexpected": "তথ্য আনার সময় অপ্রত্যাশিত ত্রুটি হয়েছে।",
+  "notes.searchPartial": "myScheme এখন ধীর; সংরক্ষিত সূচি থেকে ফলাফল দেখানো হচ্ছে।",
+
+  "search.label": "প্রকল্প খুঁজুন",
+  "search.placeholder": "যেমন পেনশন, বৃত্তি",
+  "search.submit": "খুঁজুন",
+  "search.clear": "মুছুন",
+  "search.category": "বিভাগ",
+  "search.ministry": "মন্ত্রক",
+  "search.all": "সব",
+  "search.results": "{total}টি ফলাফল",
+  "search.noResults": "মিল থাকা কোনো প্রকল্প নেই। অন্য শব্দ বা বিভাগ চেষ্টা করুন।",
+  "search.loading": "খোঁজা হচ্ছে…",
+
+  "category.agriculture": "কৃষি",
+  "category.education": "শিক্ষা",
+  "category.employment": "কর্মসংস্থান ও দক্ষতা",
+  "category.energy": "শক্তি",
+  "category.finance": "ব্যাংকিং ও অর্থ",
+  "category.health": "স্বাস্থ্য",
+  "category.housing": "আবাসন",
+  "category.insurance": "বিমা",
+  "category.pension": "পেনশন",
+  "category.sanitation": "জল ও স্বচ্ছতা",
+  "category.women-child": "নারী ও শিশু",
+
+  "saved.title": "সংরক্ষিত প্রকল্প",
+  "saved.remove": "সরান",
+  "saved.empty": "এখনও কোনো প্রকল্প সংরক্ষণ করা হয়নি। প্রকল্প এই ডিভাইসে রাখতে “সংরক্ষণ” টিপুন।",
+
+  "deadline.opens": "{date} থেকে খুলবে",
+  "deadline.closesToday": "আজ বন্ধ হবে",
+  "deadline.closesTomorrow": "আগামীকাল বন্ধ হবে",
+  "deadline.closesIn": "{days} দিনের মধ্যে বন্ধ হবে",
+  "deadline.openUntil": "{date} পর্যন্ত খোলা",
+  "deadline.closed": "{date} তারিখে বন্ধ হয়েছে",
+  "reminder.label": "রিমাইন্ডার",
+  "reminder.off": "বন্ধ",
+  "reminder.onDay": "শেষ দিনে",
+  "reminder.daysBefore": "{days} দিন আগে",
+  "reminder.export": "শেষ তারিখগুলি ক্যালেন্ডারে যোগ করুন",
+  "reminder.blocked": "এই অ্যাপের বিজ্ঞপ্তি বন্ধ আছে। এর বদলে “শেষ তারিখগুলি ক্যালেন্ডারে যোগ করুন” ব্যবহার করুন।",
+  "reminder.notifyTitle": "প্রকল্পের শেষ তারিখ",
+
+  "document.aadhaar": "আধার কার্ড",
+  "document.bank": "ব্যাংক পাসবই / অ্যাকাউন্টের বিবরণ",
+  "document.income": "আয়ের শংসাপত্র",
+  "document.ration": "রেশন কার্ড",
+  "document.caste": "জাতি শংসাপত্র",
+  "document.residence": "বাসস্থান / ঠিকানার প্রমাণ",
+  "document.land": "জমির নথি",
+  "document.age": "জন্ম শংসাপত্র / বয়সের প্রমাণ",
+  "document.photo": "পাসপোর্ট সাইজের ছবি",
+  "document.mobile": "মোবাইল নম্বর",
+  "document.disability": "প্রতিবন্ধী শংসাপত্র (UDID)",
+  "document.voter-id": "ভোটার পরিচয়পত্র",
+  "document.pan": "প্যান কার্ড",
+  "document.bpl": "বিপিএল কার্ড / শংসাপত্র",
+  "checklist.title": "নথির তালিকা",
+  "checklist.for": "যেগুলির জন্য: {schemes}",
+  "checklist.neededBy": "প্রয়োজন: {schemes}",
+  "checklist.all": "সব",
+  "checklist.missing": "এগুলির নথির তালিকা পাওয়া যায়নি: {schemes}। প্রকল্পের পাতা দেখুন।",
+  "checklist.loading": "নথির তালিকা সংগ্রহ করা হচ্ছে…",
+  "checklist.pick": "অন্তর্ভুক্ত প্রকল্প",
+  "checklist.empty": "আগে প্রকল্প সংরক্ষণ করুন; তাদের নথি এখানে একসঙ্গে দেখানো হবে।",
+  "checklist.print": "প্রিন্ট করুন",
+  "checklist.sms": "SMS-এ পাঠান",
+  "checklist.smsCount": "{count}টি SMS",
+  "checklist.copy": "লেখা কপি করুন",
+  "checklist.copied": "কপি হয়েছে ✓",
+  "share.button": "তালিকা শেয়ার করুন",
+  "share.heading": "এই তালিকা শেয়ার করুন",
+  "share.title": "{region}-এর জন্য প্রকল্প",
+  "share.category": "বিভাগ: {category}",
+  "share.allCategories": "সব বিভাগ",
+  "share.empty": "এই মুহূর্তে এই এলাকার জন্য কোনো প্রকল্প পাওয়া যায়নি।",
+  "share.more": "+আরও {count}টি",
+  "share.fullList": "সম্পূর্ণ তালিকা:",
+  "share.qr": "এই তালিকা খুলতে স্ক্যান করুন",
+  "share.sms": "SMS পাঠান",
+  "share.smsCount": "{count}টি SMS-এ {schemes}টি প্রকল্প",
+  "share.copy": "লিঙ্ক কপি করুন",
+  "share.copied": "কপি হয়েছে ✓",
+  "share.native": "শেয়ার করুন…",
+  "share.loading": "লিঙ্ক তৈরি হচ্ছে…",
+  "share.openApp": "অ্যাপ খুলুন",
+
+  "changes.heading": "নতুন কী",
+  "changes.new": "নতুন",
+  "changes.added": "নতুন প্রকল্প",
+  "changes.removed": "সরানো হয়েছে",
+  "changes.modified": "হালনাগাদ",
+  "changes.feedTitle": "{region}-এর প্রকল্পে পরিবর্তন",
+  "changes.feed": "RSS ফিড",
+
+  "centres.button": "সহায়তা কেন্দ্র",
+  "centres.heading": "কোথায় আবেদন করবেন",
+  "centres.loading": "কেন্দ্র খোঁজা হচ্ছে…",
+  "centres.empty": "কাছাকাছি কোনো সহায়তা কেন্দ্র পাওয়া যায়নি।",
+  "centres.call": "কল করুন",
+  "centres.km": "{km} কিমি",
+  "centres.inDistrict": "{district}-এর কেন্দ্র",
+  "centres.kind.csc": "কমন সার্ভিস সেন্টার",
+  "centres.kind.bank": "ব্যাংক",
+  "centres.kind.post-office": "ডাকঘর",
+  "centres.kind.district-office": "জেলা অফিস",
+  "centres.helpline": "CSC হেল্পলাইন (টোল-ফ্রি)",
+  "centres.helplineNote": "কাছের কমন সার্ভিস সেন্টারের খোঁজ নিন।",
+  "centres.sample": "নমুনা তথ্য: শুধু কয়েকটি অফিস, অবস্থান আনুমানিক। যাওয়ার আগে যাচাই করুন।",
+
+  "export.link": "অনেক অঞ্চলের তালিকা রপ্তানি করুন",
+  "export.title": "প্রকল্প তালিকা রপ্তানি করুন",
+  "export.intro":
+    "NGO ও CSC পরিচালকদের জন্য: কয়েকটি জেলার প্রকল্প স্প্রেডশিট, ডেটা ফাইল বা ছাপার উপযোগী হ্যান্ডআউট হিসেবে ডাউনলোড করুন।",
+  "export.add": "অঞ্চল যোগ করুন",
+  "export.remove": "{region} সরান",
+  "export.none": "এখনও কোনো অঞ্চল যোগ করা হয়নি।",
+  "export.max": "সর্বোচ্চ {max}টি অঞ্চল।",
+  "export.format": "ফরম্যাট",
+  "export.format.csv": "স্প্রেডশিট (CSV)",
+  "export.format.json": "ডেটা (JSON)",
+  "export.format.html": "ছাপার উপযোগী হ্যান্ডআউট",
+  "export.category": "বিভাগ",
+  "export.download": "ডাউনলোড করুন",
+  "export.handout": "অঞ্চল অনুযায়ী সরকারি প্রকল্প",
+  "export.failed": "এই অঞ্চলের প্রকল্প এখন লোড করা যায়নি।",
+  "export.partial": "সরাসরি উৎস পাওয়া যায়নি; শুধু বাছাই করা প্রকল্প দেখানো হয়েছে।",
+  "export.generated":
+    "{date} তারিখে myScheme.gov.in ও বাছাই করা উৎস থেকে তৈরি। আবেদনের আগে সরকারি সাইটে বিস্তারিত যাচাই করুন।",
+
+  "picker.chooseState": "আপনার রাজ্য বেছে নিন",
+  "picker.districtIn": "{state}-এর জেলা",
+  "picker.searchState": "রাজ্য খুঁজুন",
+  "picker.searchDistrict": "জেলা খুঁজুন",
+  "picker.wholeState": "পুরো রাজ্য (জেলা বাদ দিন)",
+  "picker.states": "রাজ্য",
+  "picker.districts": "জেলা",
+  "picker.noMatches": "কোনো মিল নেই",
+
+  "detail.backLabel": "প্রকল্প তালিকায় ফিরুন",
+  "detail.loading": "প্রকল্পের বিবরণ লোড হচ্ছে…",
+  "detail.error": "বিবরণ এখানে লোড করা যায়নি। প্রকল্পটি myScheme-এ খুলতে পারেন।",
+  "detail.benefits": "সুবিধা",
+  "detail.eligibility": "যোগ্যতা",
+  "detail.documents": "প্রয়োজনীয় নথি",
+  "detail.application": "কীভাবে আবেদন করবেন",
+  "detail.faqs": "সাধারণ প্রশ্ন",
+  "detail.open": "myScheme-এ খুলুন",
+
+  "compare.add": "তুলনা করুন",
+  "compare.added": "✓ তুলনায় আছে",
+  "compare.selected": "তুলনার জন্য {max}টির মধ্যে {count}টি বাছাই করা হয়েছে",
+  "compare.button": "তুলনা করুন ({count})",
+  "compare.clear": "মুছুন",
+  "compare.title": "প্রকল্প তুলনা",
+  "compare.loading": "প্রকল্পের পাতা লোড হচ্ছে…",
+  "compare.unknown": "তথ্য নেই",
+  "compare.remove": "{title} সরান",
+  "compare.note":
+    "যেখানে পাওয়া যায় myScheme পাতা থেকে, নইলে বাছাই করা তথ্য থেকে। আবেদনের আগে সরকারি পাতা যাচাই করুন।",
+  "compare.benefit": "সুবিধা",
+  "compare.level": "স্তর",
+  "compare.level.central": "কেন্দ্রীয় সরকার",
+  "compare.level.state": "রাজ্য সরকার",
+  "compare.apply.online": "অনলাইন",
+  "compare.apply.offline": "অফিস, ব্যাংক বা CSC-তে",
+  "compare.apply.both": "অনলাইন বা অফিস/CSC-তে",
+  "compare.ageRange": "বয়স {min}–{max}",
+  "compare.ageMin": "বয়স {min}+",
+  "compare.ageMax": "বয়স {max} পর্যন্ত",
+  "compare.income": "পারিবারিক আয়: {band}",
+  "compare.anyOf": "এর যেকোনো একটি: {options}",
+
+  "eligibility.check": "যোগ্যতা যাচাই করুন",
+  "eligibility.edit": "উত্তর বদলান",
+  "eligibility.hide": "অযোগ্যগুলি লুকান",
+  "eligibility.form": "যোগ্যতার প্রশ্ন",
+  "eligibility.age": "বয়স",
+  "eligibility.gender": "লিঙ্গ",
+  "eligibility.occupation": "পেশা",
+  "eligibility.income": "পরিবারের বার্ষিক আয়",
+  "eligibility.caste": "জাতি বিভাগ",
+  "eligibility.disability": "প্রতিবন্ধী ব্যক্তি",
+  "eligibility.preferNot": "বলতে চাই না",
+  "eligibility.show": "ফলাফল দেখান",
+  "eligibility.clear": "মুছুন",
+  "eligibility.status.eligible": "যোগ্য",
+  "eligibility.status.maybe": "হয়তো",
+  "eligibility.status.not-eligible": "যোগ্য নন",
+  "eligibility.reason.onlyFor": "শুধুমাত্র {conditions}-এর জন্য",
+  "eligibility.reason.check": "যাচাই করুন: {conditions}",
+  "eligibility.reason.appearsToTarget": "সম্ভবত {conditions}-এর জন্য",
+  "eligibility.reason.matches": "মিলছে: {conditions}",
+  "eligibility.reason.noRules": "যোগ্যতার নিয়ম নথিভুক্ত নেই",
+  "eligibility.reason.noDetails": "যোগ্যতার তথ্য পাওয়া যায়নি",
+  "eligibility.cond.minAge": "বয়স {age}+",
+  "eligibility.cond.maxAge": "বয়স {age} পর্যন্ত",
+  "eligibility.cond.gender": "{genders} আবেদনকারী",
+  "eligibility.cond.income": "আয় {band} বা কম",
+  "eligibility.cond.anyIncome": "যেকোনো আয়",
+  "eligibility.cond.caste": "{castes} শ্রেণি",
+  "eligibility.cond.disability": "প্রতিবন্ধী ব্যক্তি",
+
+  "gender.female": "মহিলা",
+  "gender.male": "পুরুষ",
+  "gender.other": "অন্যান্য",
+  "occupation.farmer": "কৃষক",
+  "occupation.student": "ছাত্রছাত্রী",
+  "occupation.unorganised-worker": "অসংগঠিত শ্রমিক",
+  "occupation.self-employed": "স্বনির্ভর",
+  "occupation.salaried": "বেতনভোগী",
+  "occupation.unemployed": "বেকার",
+  "occupation.homemaker": "গৃহিণী",
+  "occupation.other": "অন্যান্য",
+  "income.below-1l": "₹1 লক্ষের কম",
+  "income.1l-2.5l": "₹1–2.5 লক্ষ",
+  "income.2.5l-5l": "₹2.5–5 লক্ষ",
+  "income.5l-8l": "₹5–8 লক্ষ",
+  "income.above-8l": "₹8 লক্ষের বেশি",
+  "caste.general": "সাধারণ",
+  "caste.obc": "ওবিসি",
+  "caste.sc": "তফসিলি জাতি",
+  "caste.st": "তফসিলি উপজাতি",
+}
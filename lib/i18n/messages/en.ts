@@ -0,0 +1,291 @@
+// English UI strings. Every other locale must provide the same keys (enforced by the `Messages` type).
+// `{name}` placeholders are filled in by `translate`.
+
+export const en = {
+  "app.title": "Government Schemes Near You",
+  "app.intro": "Uses your device location, or a state and district you choose, to find schemes for your region.",
+  "app.footer":
+    "Data fetched from myScheme (Government of India). Accuracy may vary based on device location and source site availability.",
+  "app.loading": "Loading…",
+  "language.label": "Language",
+
+  "common.back": "Back",
+  "common.cancel": "Cancel",
+
+  "softkeys.label": "Softkeys",
+  "softkeys.select": "Select",
+  "softkeys.options": "Options",
+  "softkeys.close": "Close",
+  "options.save": "Save scheme",
+  "options.unsave": "Remove from saved",
+
+  "offline.title": "Offline.",
+  "offline.body": "Showing the last schemes loaded on this device and your saved list.",
+
+  "location.title": "Your location",
+  "location.retry": "Retry",
+  "location.retryLabel": "Retry location",
+  "location.requesting": "Requesting location…",
+  "location.unsupported": "Geolocation not supported on this device.",
+  "location.denied": "Location permission was denied.",
+  "location.unavailable": "Unable to retrieve your location.",
+  "location.coords": "Coords: {lat}, {lon}",
+  "location.resolving": "Resolving state/district…",
+  "location.resolveFailed": "Could not resolve state from your location.",
+  "location.state": "State:",
+  "location.district": "District:",
+  "location.chosen": "(chosen)",
+  "location.change": "Change region",
+  "location.choose": "Choose state/district",
+  "location.useGps": "Use GPS",
+
+  "schemes.title": "Schemes for your region",
+  "schemes.savedCount": "Saved ({count})",
+  "schemes.openMyScheme": "Open myScheme",
+  "schemes.openMySchemeLabel": "Open myScheme website",
+  "schemes.waiting": "Waiting for your state to load…",
+  "schemes.loading": "Fetching schemes from myScheme…",
+  "schemes.error": "Could not fetch schemes. Please try again.",
+  "schemes.offlineError": "No schemes stored for this region yet. Your saved schemes are still available.",
+  "schemes.updated": "Updated {age}",
+  "schemes.save": "Save",
+  "schemes.saved": "Saved ✓",
+  "schemes.empty": "No schemes found right now. You can browse directly on myScheme above.",
+  "schemes.showMore": "Show more ({count} left)",
+
+  "age.justNow": "just now",
+  "age.minutes": "{n}m ago",
+  "age.hours": "{n}h ago",
+  "age.days": "{n}d ago",
+
+  "notes.curatedOnly": "Showing curated schemes only. Live results from myScheme are unavailable right now.",
+  "notes.degraded":
+    "Could not retrieve schemes programmatically right now. You can browse directly on myScheme using the link above.",
+  "notes.unexpected": "Unexpected error while fetching data.",
+  "notes.searchPartial": "myScheme is slow right now; showing results from the saved index.",
+
+  "search.label": "Search schemes",
+  "search.placeholder": "e.g. pension, scholarship",
+  "search.submit": "Search",
+  "search.clear": "Clear",
+  "search.category": "Category",
+  "search.ministry": "Ministry",
+  "search.all": "All",
+  "search.results": "{total} results",
+  "search.noResults": "No matching schemes. Try another word or category.",
+  "search.loading": "Searching…",
+
+  "category.agriculture": "Agriculture",
+  "category.education": "Education",
+  "category.employment": "Jobs & skills",
+  "category.energy": "Energy",
+  "category.finance": "Banking & finance",
+  "category.health": "Health",
+  "category.housing": "Housing",
+  "category.insurance": "Insurance",
+  "category.pension": "Pension",
+  "category.sanitation": "Water & sanitation",
+  "category.women-child": "Women & children",
+
+  "saved.title": "Saved schemes",
+  "saved.remove": "Remove",
+  "saved.empty": "No saved schemes yet. Use “Save” on a scheme to keep it on this device.",
+
+  "deadline.opens": "Opens {date}",
+  "deadline.closesToday": "Closes today",
+  "deadline.closesTomorrow": "Closes tomorrow",
+  "deadline.closesIn": "Closing in {days} days",
+  "deadline.openUntil": "Open until {date}",
+  "deadline.closed": "Closed on {date}",
+  "reminder.label": "Reminder",
+  "reminder.off": "Off",
+  "reminder.onDay": "On the last day",
+  "reminder.daysBefore": "{days} days before",
+  "reminder.export": "Add deadlines to calendar",
+  "reminder.blocked": "Notifications are off for this app. Use “Add deadlines to calendar” instead.",
+  "reminder.notifyTitle": "Scheme deadline",
+
+  "document.aadhaar": "Aadhaar card",
+  "document.bank": "Bank passbook / account details",
+  "document.income": "Income certificate",
+  "document.ration": "Ration card",
+  "document.caste": "Caste certificate",
+  "document.residence": "Residence / address proof",
+  "document.land": "Land records",
+  "document.age": "Birth certificate / age proof",
+  "document.photo": "Passport-size photographs",
+  "document.mobile": "Mobile number",
+  "document.disability": "Disability certificate (UDID)",
+  "document.voter-id": "Voter ID card",
+  "document.pan": "PAN card",
+  "document.bpl": "BPL card / certificate",
+  "checklist.title": "Document checklist",
+  "checklist.for": "For: {schemes}",
+  "checklist.neededBy": "Needed for: {schemes}",
+  "checklist.all": "all",
+  "checklist.missing": "No document list found for: {schemes}. Check the scheme page.",
+  "checklist.loading": "Collecting document lists…",
+  "checklist.pick": "Schemes to include",
+  "checklist.empty": "Save schemes first; their documents are combined here.",
+  "checklist.print": "Print",
+  "checklist.sms": "Send by SMS",
+  "checklist.smsCount": "{count} SMS",
+  "checklist.copy": "Copy text",
+  "checklist.copied": "Copied ✓",
+  "share.button": "Share list",
+  "share.heading": "Share this list",
+  "share.title": "Schemes for {region}",
+  "share.category": "Category: {category}",
+  "share.allCategories": "All categories",
+  "share.empty": "No schemes found for this region right now.",
+  "share.more": "+{count} more",
+  "share.fullList": "Full list:",
+  "share.qr": "Scan to open this list",
+  "share.sms": "Send SMS",
+  "share.smsCount": "{schemes} schemes in {count} SMS",
+  "share.copy": "Copy link",
+  "share.copied": "Copied ✓",
+  "share.native": "Share…",
+  "share.loading": "Preparing link…",
+  "share.openApp": "Open the app",
+
+  "changes.heading": "What's new",
+  "changes.new": "New",
+  "changes.added": "New scheme",
+  "changes.removed": "Removed",
+  "changes.modified": "Updated",
+  "changes.feedTitle": "Scheme changes for {region}",
+  "changes.feed": "RSS feed",
+
+  "centres.button": "Help centres",
+  "centres.heading": "Where to apply",
+  "centres.loading": "Finding centres…",
+  "centres.empty": "No help centres found nearby.",
+  "centres.call": "Call",
+  "centres.km": "{km} km",
+  "centres.inDistrict": "Centres in {district}",
+  "centres.kind.csc": "Common Service Centre",
+  "centres.kind.bank": "Bank",
+  "centres.kind.post-office": "Post office",
+  "centres.kind.district-office": "District office",
+  "centres.helpline": "CSC helpline (toll-free)",
+  "centres.helplineNote": "Ask for your nearest Common Service Centre.",
+  "centres.sample": "Sample data: only a few offices, locations approximate. Check before you travel.",
+
+  "export.link": "Export lists for many regions",
+  "export.title": "Export scheme lists",
+  "export.intro":
+    "For NGOs and CSC operators: download the schemes of several districts as a spreadsheet, a data file or a printable handout.",
+  "export.add": "Add region",
+  "export.remove": "Remove {region}",
+  "export.none": "No regions added yet.",
+  "export.max": "Up to {max} regions.",
+  "export.format": "Format",
+  "export.format.csv": "Spreadsheet (CSV)",
+  "export.format.json": "Data (JSON)",
+  "export.format.html": "Printable handout",
+  "export.category": "Category",
+  "export.download": "Download",
+  "export.handout": "Government schemes by region",
+  "export.failed": "Could not load schemes for this region right now.",
+  "export.partial": "Live sources were unavailable; only curated schemes are listed.",
+  "export.generated":
+    "Generated {date} from myScheme.gov.in and curated sources. Check details on the official site before applying.",
+
+  "picker.chooseState": "Choose your state",
+  "picker.districtIn": "District in {state}",
+  "picker.searchState": "Search state",
+  "picker.searchDistrict": "Search district",
+  "picker.wholeState": "Whole state (skip district)",
+  "picker.states": "States",
+  "picker.districts": "Districts",
+  "picker.noMatches": "No matches",
+
+  "detail.backLabel": "Back to scheme list",
+  "detail.loading": "Loading scheme details…",
+  "detail.error": "Could not load details here. You can open the scheme on myScheme instead.",
+  "detail.benefits": "Benefits",
+  "detail.eligibility": "Eligibility",
+  "detail.documents": "Documents required",
+  "detail.application": "How to apply",
+  "detail.faqs": "FAQs",
+  "detail.open": "Open on myScheme",
+
+  "compare.add": "Compare",
+  "compare.added": "✓ Comparing",
+  "compare.selected": "{count} of {max} chosen to compare",
+  "compare.button": "Compare ({count})",
+  "compare.clear": "Clear",
+  "compare.title": "Compare schemes",
+  "compare.loading": "Loading scheme pages…",
+  "compare.unknown": "Not on record",
+  "compare.remove": "Remove {title}",
+  "compare.note":
+    "From myScheme pages where available, otherwise from curated data. Check the official page before applying.",
+  "compare.benefit": "Benefit",
+  "compare.level": "Level",
+  "compare.level.central": "Central government",
+  "compare.level.state": "State government",
+  "compare.apply.online": "Online",
+  "compare.apply.offline": "At an office, bank or CSC",
+  "compare.apply.both": "Online or at an office/CSC",
+  "compare.ageRange": "Age {min}–{max}",
+  "compare.ageMin": "Age {min}+",
+  "compare.ageMax": "Age up to {max}",
+  "compare.income": "Family income: {band}",
+  "compare.anyOf": "Any of: {options}",
+
+  "eligibility.check": "Check eligibility",
+  "eligibility.edit": "Edit answers",
+  "eligibility.hide": "Hide not eligible",
+  "eligibility.form": "Eligibility questions",
+  "eligibility.age": "Age",
+  "eligibility.gender": "Gender",
+  "eligibility.occupation": "Occupation",
+  "eligibility.income": "Yearly family income",
+  "eligibility.caste": "Caste category",
+  "eligibility.disability": "Person with disability",
+  "eligibility.preferNot": "Prefer not to say",
+  "eligibility.show": "Show results",
+  "eligibility.clear": "Clear",
+  "eligibility.status.eligible": "Eligible",
+  "eligibility.status.maybe": "Maybe",
+  "eligibility.status.not-eligible": "Not eligible",
+  "eligibility.reason.onlyFor": "Only for {conditions}",
+  "eligibility.reason.check": "Check: {conditions}",
+  "eligibility.reason.appearsToTarget": "Appears to target {conditions}",
+  "eligibility.reason.matches": "Matches {conditions}",
+  "eligibility.reason.noRules": "No eligibility rules on record",
+  "eligibility.reason.noDetails": "No eligibility details available",
+  "eligibility.cond.minAge": "age {age}+",
+  "eligibility.cond.maxAge": "age up to {age}",
+  "eligibility.cond.gender": "{genders} applicants",
+  "eligibility.cond.income": "income {band} or less",
+  "eligibility.cond.anyIncome": "any income",
+  "eligibility.cond.caste": "{castes} category",
+  "eligibility.cond.disability": "persons with disability",
+
+  "gender.female": "Female",
+  "gender.male": "Male",
+  "gender.other": "Other",
+  "occupation.farmer": "Farmer",
+  "occupation.student": "Student",
+  "occupation.unorganised-worker": "Unorganised worker",
+  "occupation.self-employed": "Self-employed",
+  "occupation.salaried": "Salaried",
+  "occupation.unemployed": "Unemployed",
+  "occupation.homemaker": "Homemaker",
+  "occupation.other": "Other",
+  "income.below-1l": "Below ₹1 lakh",
+  "income.1l-2.5l": "₹1–2.5 lakh",
+  "income.2.5l-5l": "₹2.5–5 lakh",
+  "income.5l-8l": "₹5–8 lakh",
+  "income.above-8l": "Above ₹8 lakh",
+  "caste.general": "General",
+  "caste.obc": "OBC",
+  "caste.sc": "SC",
+  "caste.st": "ST",
+}
+
+export type MessageKey = keyof typeof en
+export type Messages = Record<MessageKey, string>
@@ -0,0 +1,285 @@
+import type { Messages } from "./en"
+
+export const hi: Messages = {
+  "app.title": "आपके आसपास की सरकारी योजनाएँ",
+  "app.intro": "आपके क्षेत्र की योजनाएँ खोजने के लिए डिवाइस की लोकेशन या आपके चुने हुए राज्य और ज़िले का उपयोग करता है।",
+  "app.footer":
+    "डेटा myScheme (भारत सरकार) से लिया गया है। सटीकता डिवाइस की लोकेशन और स्रोत साइट की उपलब्धता पर निर्भर कर सकती है।",
+  "app.loading": "लोड हो रहा है…",
+  "language.label": "भाषा",
+
+  "common.back": "वापस",
+  "common.cancel": "रद्द करें",
+
+  "softkeys.label": "सॉफ़्टकी",
+  "softkeys.select": "चुनें",
+  "softkeys.options": "विकल्प",
+  "softkeys.close": "बंद करें",
+  "options.save": "योजना सहेजें",
+  "options.unsave": "सहेजी गई सूची से हटाएँ",
+
+  "offline.title": "ऑफ़लाइन।",
+  "offline.body": "इस डिवाइस पर आख़िरी बार लोड की गई योजनाएँ और आपकी सहेजी गई सूची दिखाई जा रही है।",
+
+  "location.title": "आपकी लोकेशन",
+  "location.retry": "फिर कोशिश करें",
+  "location.retryLabel": "लोकेशन फिर से लें",
+  "location.requesting": "लोकेशन ली जा रही है…",
+  "location.unsupported": "इस डिवाइस पर लोकेशन उपलब्ध नहीं है।",
+  "location.denied": "लोकेशन की अनुमति नहीं दी गई।",
+  "location.unavailable": "आपकी लोकेशन नहीं मिल सकी।",
+  "location.coords": "निर्देशांक: {lat}, {lon}",
+  "location.resolving": "राज्य/ज़िला पता किया जा रहा है…",
+  "location.resolveFailed": "आपकी लोकेशन से राज्य पता नहीं चल सका।",
+  "location.state": "राज्य:",
+  "location.district": "ज़िला:",
+  "location.chosen": "(चुना गया)",
+  "location.change": "क्षेत्र बदलें",
+  "location.choose": "राज्य/ज़िला चुनें",
+  "location.useGps": "GPS का उपयोग करें",
+
+  "schemes.title": "आपके क्षेत्र की योजनाएँ",
+  "schemes.savedCount": "सहेजी गई ({count})",
+  "schemes.openMyScheme": "myScheme खोलें",
+  "schemes.openMySchemeLabel": "myScheme वेबसाइट खोलें",
+  "schemes.waiting": "आपका राज्य लोड होने की प्रतीक्षा है…",
+  "schemes.loading": "myScheme से योजनाएँ लाई जा रही हैं…",
+  "schemes.error": "योजनाएँ नहीं मिल सकीं। कृपया फिर से कोशिश करें।",
+  "schemes.offlineError": "इस क्षेत्र की कोई योजना अभी डिवाइस पर नहीं है। आपकी सहेजी गई योजनाएँ उपलब्ध हैं।",
+  "schemes.updated": "{age} अपडेट किया गया",
+  "schemes.save": "सहेजें",
+  "schemes.saved": "सहेजा गया ✓",
+  "schemes.empty": "अभी कोई योजना नहीं मिली। आप ऊपर दिए लिंक से सीधे myScheme पर देख सकते हैं।",
+  "schemes.showMore": "और दिखाएँ ({count} बाकी)",
+
+  "age.justNow": "अभी",
+  "age.minutes": "{n} मिनट पहले",
+  "age.hours": "{n} घंटे पहले",
+  "age.days": "{n} दिन पहले",
+
+  "notes.curatedOnly": "केवल चुनी हुई योजनाएँ दिखाई जा रही हैं। myScheme के ताज़ा परिणाम अभी उपलब्ध नहीं हैं।",
+  "notes.degraded": "अभी योजनाएँ प्राप्त नहीं हो सकीं। आप ऊपर दिए लिंक से सीधे myScheme पर देख सकते हैं।",
+  "notes.unexpected": "डेटा लाते समय अनपेक्षित त्रुटि हुई।",
+  "notes.searchPartial": "myScheme अभी धीमा है; सहेजे गए इंडेक्स से परिणाम दिखाए जा रहे हैं।",
+
+  "search.label": "योजनाएँ खोजें",
+  "search.placeholder": "जैसे पेंशन, छात्रवृत्ति",
+  "search.submit": "खोजें",
+  "search.clear": "साफ़ करें",
+  "search.category": "श्रेणी",
+  "search.ministry": "मंत्रालय",
+  "search.all": "सभी",
+  "search.results": "{total} परिणाम",
+  "search.noResults": "कोई मेल खाती योजना नहीं मिली। कोई और शब्द या श्रेणी आज़माएँ।",
+  "search.loading": "खोजा जा रहा है…",
+
+  "category.agriculture": "कृषि",
+  "category.education": "शिक्षा",
+  "category.employment": "रोज़गार और कौशल",
+  "category.energy": "ऊर्जा",
+  "category.finance": "बैंकिंग और वित्त",
+  "category.health": "स्वास्थ्य",
+  "category.housing": "आवास",
+  "category.insurance": "बीमा",
+  "category.pension": "पेंशन",
+  "category.sanitation": "पानी और स्वच्छता",
+  "category.women-child": "महिला और बाल",
+
+  "saved.title": "सहेजी गई योजनाएँ",
+  "saved.remove": "हटाएँ",
+  "saved.empty": "अभी कोई योजना सहेजी नहीं गई है। किसी योजना को इस डिवाइस पर रखने के लिए “सहेजें” दबाएँ।",
+
+  "deadline.opens": "{date} से खुलेगी",
+  "deadline.closesToday": "आज बंद होगी",
+  "deadline.closesTomorrow": "कल बंद होगी",
+  "deadline.closesIn": "{days} दिन में बंद होगी",
+  "deadline.openUntil": "{date} तक खुली",
+  "deadline.closed": "{date} को बंद हो गई",
+  "reminder.label": "रिमाइंडर",
+  "reminder.off": "बंद",
+  "reminder.onDay": "आख़िरी दिन",
+  "reminder.daysBefore": "{days} दिन पहले",
+  "reminder.export": "समय-सीमा कैलेंडर में जोड़ें",
+  "reminder.blocked": "इस ऐप के लिए सूचनाएँ बंद हैं। इसके बजाय “समय-सीमा कैलेंडर में जोड़ें” का उपयोग करें।",
+  "reminder.notifyTitle": "योजना की अंतिम तिथि",
+
+  "document.aadhaar": "आधार कार्ड",
+  "document.bank": "बैंक पासबुक / खाते का विवरण",
+  "document.income": "आय प्रमाण पत्र",
+  "document.ration": "राशन कार्ड",
+  "document.caste": "जाति प्रमाण पत्र",
+  "document.residence": "निवास / पते का प्रमाण",
+  "document.land": "भूमि रिकॉर्ड",
+  "document.age": "जन्म प्रमाण पत्र / आयु प्रमाण",
+  "document.photo": "पासपोर्ट आकार की फ़ोटो",
+  "document.mobile": "मोबाइल नंबर",
+  "document.disability": "दिव्यांगता प्रमाण पत्र (UDID)",
+  "document.voter-id": "मतदाता पहचान पत्र",
+  "document.pan": "पैन कार्ड",
+  "document.bpl": "बीपीएल कार्ड / प्रमाण पत्र",
+  "checklist.title": "दस्तावेज़ सूची",
+  "checklist.for": "इनके लिए: {schemes}",
+  "checklist.neededBy": "ज़रूरी: {schemes}",
+  "checklist.all": "सभी",
+  "checklist.missing": "इनकी दस्तावेज़ सूची नहीं मिली: {schemes}। योजना का पेज देखें।",
+  "checklist.loading": "दस्तावेज़ सूचियाँ जुटाई जा रही हैं…",
+  "checklist.pick": "शामिल योजनाएँ",
+  "checklist.empty": "पहले योजनाएँ सहेजें; उनके दस्तावेज़ यहाँ एक साथ दिखेंगे।",
+  "checklist.print": "प्रिंट करें",
+  "checklist.sms": "SMS से भेजें",
+  "checklist.smsCount": "{count} SMS",
+  "checklist.copy": "टेक्स्ट कॉपी करें",
+  "checklist.copied": "कॉपी हो गया ✓",
+  "share.button": "सूची साझा करें",
+  "share.heading": "यह सूची साझा करें",
+  "share.title": "{region} के लिए योजनाएँ",
+  "share.category": "श्रेणी: {category}",
+  "share.allCategories": "सभी श्रेणियाँ",
+  "share.empty": "अभी इस क्षेत्र के लिए कोई योजना नहीं मिली।",
+  "share.more": "+{count} और",
+  "share.fullList": "पूरी सूची:",
+  "share.qr": "यह सूची खोलने के लिए स्कैन करें",
+  "share.sms": "SMS भेजें",
+  "share.smsCount": "{count} SMS में {schemes} योजनाएँ",
+  "share.copy": "लिंक कॉपी करें",
+  "share.copied": "कॉपी हो गया ✓",
+  "share.native": "साझा करें…",
+  "share.loading": "लिंक तैयार हो रहा है…",
+  "share.openApp": "ऐप खोलें",
+
+  "changes.heading": "नया क्या है",
+  "changes.new": "नया",
+  "changes.added": "नई योजना",
+  "changes.removed": "हटाई गई",
+  "changes.modified": "अपडेट की गई",
+  "changes.feedTitle": "{region} के लिए योजनाओं में बदलाव",
+  "changes.feed": "RSS फ़ीड",
+
+  "centres.button": "सहायता केंद्र",
+  "centres.heading": "कहाँ आवेदन करें",
+  "centres.loading": "केंद्र खोजे जा रहे हैं…",
+  "centres.empty": "पास में कोई सहायता केंद्र नहीं मिला।",
+  "centres.call": "कॉल करें",
+  "centres.km": "{km} किमी",
+  "centres.inDistrict": "{district} के केंद्र",
+  "centres.kind.csc": "कॉमन सर्विस सेंटर",
+  "centres.kind.bank": "बैंक",
+  "centres.kind.post-office": "डाकघर",
+  "centres.kind.district-office": "ज़िला कार्यालय",
+  "centres.helpline": "CSC हेल्पलाइन (टोल-फ़्री)",
+  "centres.helplineNote": "अपने नज़दीकी कॉमन सर्विस सेंटर के बारे में पूछें।",
+  "centres.sample": "नमूना डेटा: केवल कुछ कार्यालय, स्थान अनुमानित। जाने से पहले पुष्टि करें।",
+
+  "export.link": "कई क्षेत्रों की सूचियाँ निर्यात करें",
+  "export.title": "योजना सूचियाँ निर्यात करें",
+  "export.intro":
+    "NGO और CSC संचालकों के लिए: कई ज़िलों की योजनाएँ स्प्रेडशीट, डेटा फ़ाइल या छापने योग्य पर्चे के रूप में डाउनलोड करें।",
+  "export.add": "क्षेत्र जोड़ें",
+  "export.remove": "{region} हटाएँ",
+  "export.none": "अभी कोई क्षेत्र नहीं जोड़ा गया।",
+  "export.max": "अधिकतम {max} क्षेत्र।",
+  "export.format": "फ़ॉर्मैट",
+  "export.format.csv": "स्प्रेडशीट (CSV)",
+  "export.format.json": "डेटा (JSON)",
+  "export.format.html": "छापने योग्य पर्चा",
+  "export.category": "श्रेणी",
+  "export.download": "डाउनलोड करें",
+  "export.handout": "क्षेत्र के अनुसार सरकारी योजनाएँ",
+  "export.failed": "इस क्षेत्र की योजनाएँ अभी लोड नहीं हो सकीं।",
+  "export.partial": "लाइव स्रोत उपलब्ध नहीं थे; केवल चुनी हुई योजनाएँ दी गई हैं।",
+  "export.generated":
+    "{date} को myScheme.gov.in और चुने हुए स्रोतों से बनाया गया। आवेदन से पहले आधिकारिक साइट पर विवरण जाँचें।",
+
+  "picker.chooseState": "अपना राज्य चुनें",
+  "picker.districtIn": "{state} में ज़िला",
+  "picker.searchState": "राज्य खोजें",
+  "picker.searchDistrict": "ज़िला खोजें",
+  "picker.wholeState": "पूरा राज्य (ज़िला छोड़ें)",
+  "picker.states": "राज्य",
+  "picker.districts": "ज़िले",
+  "picker.noMatches": "कोई मिलान नहीं",
+
+  "detail.backLabel": "योजना सूची पर वापस",
+  "detail.loading": "योजना का विवरण लोड हो रहा है…",
+  "detail.error": "विवरण यहाँ लोड नहीं हो सका। आप योजना को myScheme पर खोल सकते हैं।",
+  "detail.benefits": "लाभ",
+  "detail.eligibility": "पात्रता",
+  "detail.documents": "ज़रूरी दस्तावेज़",
+  "detail.application": "आवेदन कैसे करें",
+  "detail.faqs": "अक्सर पूछे जाने वाले प्रश्न",
+  "detail.open": "myScheme पर खोलें",
+
+  "compare.add": "तुलना करें",
+  "compare.added": "✓ तुलना में",
+  "compare.selected": "तुलना के लिए {max} में से {count} चुनी गईं",
+  "compare.button": "तुलना करें ({count})",
+  "compare.clear": "हटाएँ",
+  "compare.title": "योजनाओं की तुलना",
+  "compare.loading": "योजना पेज लोड हो रहे हैं…",
+  "compare.unknown": "जानकारी उपलब्ध नहीं",
+  "compare.remove": "{title} हटाएँ",
+  "compare.note": "जहाँ उपलब्ध हो myScheme पेज से, अन्यथा चुने हुए डेटा से। आवेदन से पहले आधिकारिक पेज जाँचें।",
+  "compare.benefit": "लाभ",
+  "compare.level": "स्तर",
+  "compare.level.central": "केंद्र सरकार",
+  "compare.level.state": "राज्य सरकार",
+  "compare.apply.online": "ऑनलाइन",
+  "compare.apply.offline": "कार्यालय, बैंक या CSC पर",
+  "compare.apply.both": "ऑनलाइन या कार्यालय/CSC पर",
+  "compare.ageRange": "आयु {min}–{max}",
+  "compare.ageMin": "आयु {min}+",
+  "compare.ageMax": "आयु {max} तक",
+  "compare.income": "पारिवारिक आय: {band}",
+  "compare.anyOf": "इनमें से कोई: {options}",
+
+  "eligibility.check": "पात्रता जाँचें",
+  "eligibility.edit": "उत्तर बदलें",
+  "eligibility.hide": "अपात्र योजनाएँ छिपाएँ",
+  "eligibility.form": "पात्रता प्रश्न",
+  "eligibility.age": "आयु",
+  "eligibility.gender": "लिंग",
+  "eligibility.occupation": "व्यवसाय",
+  "eligibility.income": "परिवार की सालाना आय",
+  "eligibility.caste": "जाति वर्ग",
+  "eligibility.disability": "दिव्यांग व्यक्ति",
+  "eligibility.preferNot": "बताना नहीं चाहते",
+  "eligibility.show": "परिणाम दिखाएँ",
+  "eligibility.clear": "साफ़ करें",
+  "eligibility.status.eligible": "पात्र",
+  "eligibility.status.maybe": "शायद",
+  "eligibility.status.not-eligible": "पात्र नहीं",
+  "eligibility.reason.onlyFor": "केवल {conditions} के लिए",
+  "eligibility.reason.check": "जाँचें: {conditions}",
+  "eligibility.reason.appearsToTarget": "संभवतः {conditions} के लिए",
+  "eligibility.reason.matches": "मेल खाता है: {conditions}",
+  "eligibility.reason.noRules": "पात्रता के नियम दर्ज नहीं हैं",
+  "eligibility.reason.noDetails": "पात्रता की जानकारी उपलब्ध नहीं है",
+  "eligibility.cond.minAge": "आयु {age}+",
+  "eligibility.cond.maxAge": "आयु {age} तक",
+  "eligibility.cond.gender": "{genders} आवेदक",
+  "eligibility.cond.income": "आय {band} या कम",
+  "eligibility.cond.anyIncome": "कोई भी आय",
+  "eligibility.cond.caste": "{castes} वर्ग",
+  "eligibility.cond.disability": "दिव्यांग व्यक्ति",
+
+  "gender.female": "महिला",
+  "gender.male": "पुरुष",
+  "gender.other": "अन्य",
+  "occupation.farmer": "किसान",
+  "occupation.student": "विद्यार्थी",
+  "occupation.unorganised-worker": "असंगठित श्रमिक",
+  "occupation.self-employed": "स्वरोज़गार",
+  "occupation.salaried": "वेतनभोगी",
+  "occupation.unemployed": "बेरोज़गार",
+  "occupation.homemaker": "गृहिणी",
+  "occupation.other": "अन्य",
+  "income.below-1l": "₹1 लाख से कम",
+  "income.1l-2.5l": "₹1–2.5 लाख",
+  "income.2.5l-5l": "₹2.5–5 लाख",
+  "income.5l-8l": "₹5–8 लाख",
+  "income.above-8l": "₹8 लाख से अधिक",
+  "caste.general": "सामान्य",
+  "caste.obc": "ओबीसी",
+  "caste.sc": "अनुसूचित जाति",
+  "caste.st": "अनुसूचित जनजाति",
+}
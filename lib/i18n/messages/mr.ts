@@ -0,0 +1,285 @@
+import type { Messages } from "./en"
+
+export const mr: Messages = {
+  "app.title": "तुमच्या जवळच्या सरकारी योजना",
+  "app.intro": "तुमच्या भागातील योजना शोधण्यासाठी डिव्हाइसचे स्थान किंवा तुम्ही निवडलेले राज्य आणि जिल्हा वापरते.",
+  "app.footer":
+    "माहिती myScheme (भारत सरकार) वरून घेतली आहे. अचूकता डिव्हाइसचे स्थान आणि स्रोत साइटच्या उपलब्धतेवर अवलंबून असू शकते.",
+  "app.loading": "लोड होत आहे…",
+  "language.label": "भाषा",
+
+  "common.back": "मागे",
+  "common.cancel": "रद्द करा",
+
+  "softkeys.label": "सॉफ्टकी",
+  "softkeys.select": "निवडा",
+  "softkeys.options": "पर्याय",
+  "softkeys.close": "बंद करा",
+  "options.save": "योजना जतन करा",
+  "options.unsave": "जतन यादीतून काढा",
+
+  "offline.title": "ऑफलाइन.",
+  "offline.body": "या डिव्हाइसवर शेवटच्या वेळी लोड झालेल्या योजना आणि तुमची जतन केलेली यादी दाखवत आहे.",
+
+  "location.title": "तुमचे स्थान",
+  "location.retry": "पुन्हा प्रयत्न करा",
+  "location.retryLabel": "स्थान पुन्हा मिळवा",
+  "location.requesting": "स्थान मिळवत आहे…",
+  "location.unsupported": "या डिव्हाइसवर स्थान सेवा उपलब्ध नाही.",
+  "location.denied": "स्थानाची परवानगी नाकारली गेली.",
+  "location.unavailable": "तुमचे स्थान मिळू शकले नाही.",
+  "location.coords": "निर्देशांक: {lat}, {lon}",
+  "location.resolving": "राज्य/जिल्हा शोधत आहे…",
+  "location.resolveFailed": "तुमच्या स्थानावरून राज्य ओळखता आले नाही.",
+  "location.state": "राज्य:",
+  "location.district": "जिल्हा:",
+  "location.chosen": "(निवडलेले)",
+  "location.change": "भाग बदला",
+  "location.choose": "राज्य/जिल्हा निवडा",
+  "location.useGps": "GPS वापरा",
+
+  "schemes.title": "तुमच्या भागातील योजना",
+  "schemes.savedCount": "जतन केलेल्या ({count})",
+  "schemes.openMyScheme": "myScheme उघडा",
+  "schemes.openMySchemeLabel": "myScheme संकेतस्थळ उघडा",
+  "schemes.waiting": "तुमचे राज्य लोड होण्याची वाट पाहत आहे…",
+  "schemes.loading": "myScheme वरून योजना आणत आहे…",
+  "schemes.error": "योजना मिळू शकल्या नाहीत. कृपया पुन्हा प्रयत्न करा.",
+  "schemes.offlineError": "या भागासाठी अजून कोणतीही योजना डिव्हाइसवर नाही. तुमच्या जतन केलेल्या योजना उपलब्ध आहेत.",
+  "schemes.updated": "{age} अद्ययावत केले",
+  "schemes.save": "जतन करा",
+  "schemes.saved": "जतन केले ✓",
+  "schemes.empty": "सध्या कोणतीही योजना सापडली नाही. वरील दुव्यावरून थेट myScheme वर पाहू शकता.",
+  "schemes.showMore": "आणखी दाखवा ({count} बाकी)",
+
+  "age.justNow": "आत्ताच",
+  "age.minutes": "{n} मिनिटांपूर्वी",
+  "age.hours": "{n} तासांपूर्वी",
+  "age.days": "{n} दिवसांपूर्वी",
+
+  "notes.curatedOnly": "फक्त निवडक योजना दाखवत आहे. myScheme चे ताजे निकाल सध्या उपलब्ध नाहीत.",
+  "notes.degraded": "सध्या योजना मिळवता आल्या नाहीत. वरील दुव्यावरून थेट myScheme वर पाहू शकता.",
+  "notes.unexpected": "माहिती आणताना अनपेक्षित त्रुटी आली.",
+  "notes.searchPartial": "myScheme सध्या मंद आहे; जतन केलेल्या निर्देशांकातील निकाल दाखवत आहोत.",
+
+  "search.label": "योजना शोधा",
+  "search.placeholder": "उदा. पेन्शन, शिष्यवृत्ती",
+  "search.submit": "शोधा",
+  "search.clear": "साफ करा",
+  "search.category": "वर्ग",
+  "search.ministry": "मंत्रालय",
+  "search.all": "सर्व",
+  "search.results": "{total} निकाल",
+  "search.noResults": "जुळणारी योजना सापडली नाही. दुसरा शब्द किंवा वर्ग वापरून पहा.",
+  "search.loading": "शोधत आहे…",
+
+  "category.agriculture": "शेती",
+  "category.education": "शिक्षण",
+  "category.employment": "रोजगार व कौशल्य",
+  "category.energy": "ऊर्जा",
+  "category.finance": "बँकिंग व वित्त",
+  "category.health": "आरोग्य",
+  "category.housing": "घरकुल",
+  "category.insurance": "विमा",
+  "category.pension": "पेन्शन",
+  "category.sanitation": "पाणी व स्वच्छता",
+  "category.women-child": "महिला व बालक",
+
+  "saved.title": "जतन केलेल्या योजना",
+  "saved.remove": "काढा",
+  "saved.empty": "अजून कोणतीही योजना जतन केलेली नाही. योजना या डिव्हाइसवर ठेवण्यासाठी “जतन करा” दाबा.",
+
+  "deadline.opens": "{date} पासून सुरू",
+  "deadline.closesToday": "आज बंद होईल",
+  "deadline.closesTomorrow": "उद्या बंद होईल",
+  "deadline.closesIn": "{days} दिवसांत बंद होईल",
+  "deadline.openUntil": "{date} पर्यंत सुरू",
+  "deadline.closed": "{date} रोजी बंद झाली",
+  "reminder.label": "स्मरणपत्र",
+  "reminder.off": "बंद",
+  "reminder.onDay": "शेवटच्या दिवशी",
+  "reminder.daysBefore": "{days} दिवस आधी",
+  "reminder.export": "अंतिम तारखा कॅलेंडरमध्ये जोडा",
+  "reminder.blocked": "या ॲपसाठी सूचना बंद आहेत. त्याऐवजी “अंतिम तारखा कॅलेंडरमध्ये जोडा” वापरा.",
+  "reminder.notifyTitle": "योजनेची अंतिम तारीख",
+
+  "document.aadhaar": "आधार कार्ड",
+  "document.bank": "बँक पासबुक / खात्याचा तपशील",
+  "document.income": "उत्पन्नाचा दाखला",
+  "document.ration": "शिधापत्रिका",
+  "document.caste": "जातीचा दाखला",
+  "document.residence": "रहिवासी / पत्त्याचा पुरावा",
+  "document.land": "जमिनीचे अभिलेख (७/१२)",
+  "document.age": "जन्म दाखला / वयाचा पुरावा",
+  "document.photo": "पासपोर्ट आकाराचे फोटो",
+  "document.mobile": "मोबाईल नंबर",
+  "document.disability": "दिव्यांगत्व प्रमाणपत्र (UDID)",
+  "document.voter-id": "मतदार ओळखपत्र",
+  "document.pan": "पॅन कार्ड",
+  "document.bpl": "बीपीएल कार्ड / दाखला",
+  "checklist.title": "कागदपत्रांची यादी",
+  "checklist.for": "यांसाठी: {schemes}",
+  "checklist.neededBy": "आवश्यक: {schemes}",
+  "checklist.all": "सर्व",
+  "checklist.missing": "यांची कागदपत्र यादी मिळाली नाही: {schemes}. योजनेचे पान पाहा.",
+  "checklist.loading": "कागदपत्रांच्या याद्या गोळा करत आहे…",
+  "checklist.pick": "समाविष्ट योजना",
+  "checklist.empty": "आधी योजना जतन करा; त्यांची कागदपत्रे येथे एकत्र दिसतील.",
+  "checklist.print": "प्रिंट करा",
+  "checklist.sms": "SMS ने पाठवा",
+  "checklist.smsCount": "{count} SMS",
+  "checklist.copy": "मजकूर कॉपी करा",
+  "checklist.copied": "कॉपी झाले ✓",
+  "share.button": "यादी शेअर करा",
+  "share.heading": "ही यादी शेअर करा",
+  "share.title": "{region} साठी योजना",
+  "share.category": "वर्ग: {category}",
+  "share.allCategories": "सर्व वर्ग",
+  "share.empty": "सध्या या भागासाठी कोणतीही योजना सापडली नाही.",
+  "share.more": "+{count} आणखी",
+  "share.fullList": "संपूर्ण यादी:",
+  "share.qr": "ही यादी उघडण्यासाठी स्कॅन करा",
+  "share.sms": "SMS पाठवा",
+  "share.smsCount": "{count} SMS मध्ये {schemes} योजना",
+  "share.copy": "लिंक कॉपी करा",
+  "share.copied": "कॉपी झाले ✓",
+  "share.native": "शेअर करा…",
+  "share.loading": "लिंक तयार होत आहे…",
+  "share.openApp": "ॲप उघडा",
+
+  "changes.heading": "नवीन काय",
+  "changes.new": "नवीन",
+  "changes.added": "नवी योजना",
+  "changes.removed": "काढली",
+  "changes.modified": "अद्ययावत",
+  "changes.feedTitle": "{region} साठी योजनांमधील बदल",
+  "changes.feed": "RSS फीड",
+
+  "centres.button": "मदत केंद्रे",
+  "centres.heading": "कुठे अर्ज करावा",
+  "centres.loading": "केंद्रे शोधत आहे…",
+  "centres.empty": "जवळपास कोणतेही मदत केंद्र सापडले नाही.",
+  "centres.call": "कॉल करा",
+  "centres.km": "{km} किमी",
+  "centres.inDistrict": "{district} मधील केंद्रे",
+  "centres.kind.csc": "सामाईक सेवा केंद्र",
+  "centres.kind.bank": "बँक",
+  "centres.kind.post-office": "टपाल कार्यालय",
+  "centres.kind.district-office": "जिल्हा कार्यालय",
+  "centres.helpline": "CSC हेल्पलाइन (टोल-फ्री)",
+  "centres.helplineNote": "जवळच्या सामाईक सेवा केंद्राबद्दल विचारा.",
+  "centres.sample": "नमुना माहिती: फक्त काही कार्यालये, ठिकाणे अंदाजे. जाण्यापूर्वी खात्री करा.",
+
+  "export.link": "अनेक प्रदेशांच्या याद्या निर्यात करा",
+  "export.title": "योजना याद्या निर्यात करा",
+  "export.intro":
+    "NGO आणि CSC चालकांसाठी: अनेक जिल्ह्यांच्या योजना स्प्रेडशीट, डेटा फाइल किंवा छापण्यायोग्य पत्रक म्हणून डाउनलोड करा.",
+  "export.add": "प्रदेश जोडा",
+  "export.remove": "{region} काढा",
+  "export.none": "अजून कोणताही प्रदेश जोडलेला नाही.",
+  "export.max": "जास्तीत जास्त {max} प्रदेश.",
+  "export.format": "स्वरूप",
+  "export.format.csv": "स्प्रेडशीट (CSV)",
+  "export.format.json": "डेटा (JSON)",
+  "export.format.html": "छापण्यायोग्य पत्रक",
+  "export.category": "श्रेणी",
+  "export.download": "डाउनलोड करा",
+  "export.handout": "प्रदेशानुसार सरकारी योजना",
+  "export.failed": "या प्रदेशाच्या योजना आत्ता लोड करता आल्या नाहीत.",
+  "export.partial": "थेट स्रोत उपलब्ध नव्हते; फक्त निवडक योजना दिल्या आहेत.",
+  "export.generated":
+    "{date} रोजी myScheme.gov.in आणि निवडक स्रोतांमधून तयार केले. अर्ज करण्यापूर्वी अधिकृत साइटवर तपशील तपासा.",
+
+  "picker.chooseState": "तुमचे राज्य निवडा",
+  "picker.districtIn": "{state} मधील जिल्हा",
+  "picker.searchState": "राज्य शोधा",
+  "picker.searchDistrict": "जिल्हा शोधा",
+  "picker.wholeState": "संपूर्ण राज्य (जिल्हा वगळा)",
+  "picker.states": "राज्ये",
+  "picker.districts": "जिल्हे",
+  "picker.noMatches": "काहीही जुळले नाही",
+
+  "detail.backLabel": "योजना यादीकडे परत",
+  "detail.loading": "योजनेची माहिती लोड होत आहे…",
+  "detail.error": "माहिती येथे लोड होऊ शकली नाही. तुम्ही योजना myScheme वर उघडू शकता.",
+  "detail.benefits": "लाभ",
+  "detail.eligibility": "पात्रता",
+  "detail.documents": "आवश्यक कागदपत्रे",
+  "detail.application": "अर्ज कसा करावा",
+  "detail.faqs": "वारंवार विचारले जाणारे प्रश्न",
+  "detail.open": "myScheme वर उघडा",
+
+  "compare.add": "तुलना करा",
+  "compare.added": "✓ तुलनेत",
+  "compare.selected": "तुलनेसाठी {max} पैकी {count} निवडल्या",
+  "compare.button": "तुलना करा ({count})",
+  "compare.clear": "काढा",
+  "compare.title": "योजनांची तुलना",
+  "compare.loading": "योजना पाने लोड होत आहेत…",
+  "compare.unknown": "माहिती उपलब्ध नाही",
+  "compare.remove": "{title} काढा",
+  "compare.note": "उपलब्ध असल्यास myScheme पानांवरून, नाहीतर निवडक माहितीवरून. अर्ज करण्यापूर्वी अधिकृत पान तपासा.",
+  "compare.benefit": "लाभ",
+  "compare.level": "स्तर",
+  "compare.level.central": "केंद्र सरकार",
+  "compare.level.state": "राज्य सरकार",
+  "compare.apply.online": "ऑनलाइन",
+  "compare.apply.offline": "कार्यालय, बँक किंवा CSC मध्ये",
+  "compare.apply.both": "ऑनलाइन किंवा कार्यालय/CSC मध्ये",
+  "compare.ageRange": "वय {min}–{max}",
+  "compare.ageMin": "वय {min}+",
+  "compare.ageMax": "वय {max} पर्यंत",
+  "compare.income": "कौटुंबिक उत्पन्न: {band}",
+  "compare.anyOf": "यापैकी कोणतेही: {options}",
+
+  "eligibility.check": "पात्रता तपासा",
+  "eligibility.edit": "उत्तरे बदला",
+  "eligibility.hide": "अपात्र योजना लपवा",
+  "eligibility.form": "पात्रता प्रश्न",
+  "eligibility.age": "वय",
+  "eligibility.gender": "लिंग",
+  "eligibility.occupation": "व्यवसाय",
+  "eligibility.income": "कुटुंबाचे वार्षिक उत्पन्न",
+  "eligibility.caste": "जात प्रवर्ग",
+  "eligibility.disability": "दिव्यांग व्यक्ती",
+  "eligibility.preferNot": "सांगू इच्छित नाही",
+  "eligibility.show": "निकाल दाखवा",
+  "eligibility.clear": "पुसून टाका",
+  "eligibility.status.eligible": "पात्र",
+  "eligibility.status.maybe": "कदाचित",
+  "eligibility.status.not-eligible": "अपात्र",
+  "eligibility.reason.onlyFor": "फक्त {conditions} साठी",
+  "eligibility.reason.check": "तपासा: {conditions}",
+  "eligibility.reason.appearsToTarget": "बहुधा {conditions} साठी",
+  "eligibility.reason.matches": "जुळते: {conditions}",
+  "eligibility.reason.noRules": "पात्रतेचे नियम नोंदवलेले नाहीत",
+  "eligibility.reason.noDetails": "पात्रतेची माहिती उपलब्ध नाही",
+  "eligibility.cond.minAge": "वय {age}+",
+  "eligibility.cond.maxAge": "वय {age} पर्यंत",
+  "eligibility.cond.gender": "{genders} अर्जदार",
+  "eligibility.cond.income": "उत्पन्न {band} किंवा कमी",
+  "eligibility.cond.anyIncome": "कोणतेही उत्पन्न",
+  "eligibility.cond.caste": "{castes} प्रवर्ग",
+  "eligibility.cond.disability": "दिव्यांग व्यक्ती",
+
+  "gender.female": "स्त्री",
+  "gender.male": "पुरुष",
+  "gender.other": "इतर",
+  "occupation.farmer": "शेतकरी",
+  "occupation.student": "विद्यार्थी",
+  "occupation.unorganised-worker": "असंघटित कामगार",
+  "occupation.self-employed": "स्वयंरोजगार",
+  "occupation.salaried": "पगारदार",
+  "occupation.unemployed": "बेरोजगार",
+  "occupation.homemaker": "गृहिणी",
+  "occupation.other": "इतर",
+  "income.below-1l": "₹1 लाखापेक्षा कमी",
+  "income.1l-2.5l": "₹1–2.5 लाख",
+  "income.2.5l-5l": "₹2.5–5 लाख",
+  "income.5l-8l": "₹5–8 लाख",
+  "income.above-8l": "₹8 लाखांपेक्षा जास्त",
+  "caste.general": "खुला",
+  "caste.obc": "इतर मागास वर्ग",
+  "caste.sc": "अनुसूचित जाती",
+  "caste.st": "अनुसूचित जमाती",
+}
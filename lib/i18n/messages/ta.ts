@@ -0,0 +1,287 @@
+import type { Messages } from "./en"
+
+export const ta: Messages = {
+  "app.title": "உங்கள் அருகிலுள்ள அரசுத் திட்டங்கள்",
+  "app.intro":
+    "உங்கள் பகுதிக்கான திட்டங்களைக் கண்டறிய சாதனத்தின் இருப்பிடத்தை அல்லது நீங்கள் தேர்ந்தெடுக்கும் மாநிலம் மற்றும் மாவட்டத்தைப் பயன்படுத்துகிறது.",
+  "app.footer":
+    "தரவு myScheme (இந்திய அரசு) தளத்திலிருந்து பெறப்படுகிறது. சாதன இருப்பிடம் மற்றும் மூலத் தளத்தின் கிடைப்பைப் பொறுத்து துல்லியம் மாறலாம்.",
+  "app.loading": "ஏற்றுகிறது…",
+  "language.label": "மொழி",
+
+  "common.back": "பின்செல்",
+  "common.cancel": "ரத்துசெய்",
+
+  "softkeys.label": "மென்விசைகள்",
+  "softkeys.select": "தேர்ந்தெடு",
+  "softkeys.options": "விருப்பங்கள்",
+  "softkeys.close": "மூடு",
+  "options.save": "திட்டத்தைச் சேமி",
+  "options.unsave": "சேமித்தவற்றிலிருந்து நீக்கு",
+
+  "offline.title": "இணைப்பு இல்லை.",
+  "offline.body": "இந்தச் சாதனத்தில் கடைசியாக ஏற்றப்பட்ட திட்டங்களும் நீங்கள் சேமித்த பட்டியலும் காட்டப்படுகின்றன.",
+
+  "location.title": "உங்கள் இருப்பிடம்",
+  "location.retry": "மீண்டும் முயல்க",
+  "location.retryLabel": "இருப்பிடத்தை மீண்டும் பெறு",
+  "location.requesting": "இருப்பிடத்தைப் பெறுகிறது…",
+  "location.unsupported": "இந்தச் சாதனத்தில் இருப்பிட வசதி இல்லை.",
+  "location.denied": "இருப்பிட அனுமதி மறுக்கப்பட்டது.",
+  "location.unavailable": "உங்கள் இருப்பிடத்தைப் பெற முடியவில்லை.",
+  "location.coords": "ஆயத்தொலைவுகள்: {lat}, {lon}",
+  "location.resolving": "மாநிலம்/மாவட்டம் கண்டறியப்படுகிறது…",
+  "location.resolveFailed": "உங்கள் இருப்பிடத்திலிருந்து மாநிலத்தைக் கண்டறிய முடியவில்லை.",
+  "location.state": "மாநிலம்:",
+  "location.district": "மாவட்டம்:",
+  "location.chosen": "(தேர்ந்தெடுத்தது)",
+  "location.change": "பகுதியை மாற்று",
+  "location.choose": "மாநிலம்/மாவட்டம் தேர்ந்தெடு",
+  "location.useGps": "GPS பயன்படுத்து",
+
+  "schemes.title": "உங்கள் பகுதிக்கான திட்டங்கள்",
+  "schemes.savedCount": "சேமித்தவை ({count})",
+  "schemes.openMyScheme": "myScheme திற",
+  "schemes.openMySchemeLabel": "myScheme இணையதளத்தைத் திற",
+  "schemes.waiting": "உங்கள் மாநிலம் ஏற்றப்படுவதற்குக் காத்திருக்கிறது…",
+  "schemes.loading": "myScheme இலிருந்து திட்டங்களைப் பெறுகிறது…",
+  "schemes.error": "திட்டங்களைப் பெற முடியவில்லை. மீண்டும் முயலவும்.",
+  "schemes.offlineError": "இந்தப் பகுதிக்கான திட்டங்கள் இன்னும் சேமிக்கப்படவில்லை. நீங்கள் சேமித்த திட்டங்கள் கிடைக்கின்றன.",
+  "schemes.updated": "{age} புதுப்பிக்கப்பட்டது",
+  "schemes.save": "சேமி",
+  "schemes.saved": "சேமிக்கப்பட்டது ✓",
+  "schemes.empty": "இப்போது திட்டங்கள் எதுவும் கிடைக்கவில்லை. மேலே உள்ள இணைப்பின் மூலம் நேரடியாக myScheme இல் பார்க்கலாம்.",
+  "schemes.showMore": "மேலும் காட்டு ({count} மீதம்)",
+
+  "age.justNow": "இப்போது",
+  "age.minutes": "{n} நிமி. முன்",
+  "age.hours": "{n} மணி. முன்",
+  "age.days": "{n} நாள் முன்",
+
+  "notes.curatedOnly": "தேர்ந்தெடுக்கப்பட்ட திட்டங்கள் மட்டும் காட்டப்படுகின்றன. myScheme நேரடி முடிவுகள் இப்போது கிடைக்கவில்லை.",
+  "notes.degraded": "இப்போது திட்டங்களைப் பெற முடியவில்லை. மேலே உள்ள இணைப்பின் மூலம் நேரடியாக myScheme இல் பார்க்கலாம்.",
+  "notes.unexpected": "தரவைப் பெறும்போது எதிர்பாராத பிழை ஏற்பட்டது.",
+  "notes.searchPartial": "myScheme இப்போது மெதுவாக உள்ளது; சேமித்த குறியீட்டிலிருந்து முடிவுகள் காட்டப்படுகின்றன.",
+
+  "search.label": "திட்டங்களைத் தேடு",
+  "search.placeholder": "எ.கா. ஓய்வூதியம், உதவித்தொகை",
+  "search.submit": "தேடு",
+  "search.clear": "அழி",
+  "search.category": "வகை",
+  "search.ministry": "அமைச்சகம்",
+  "search.all": "அனைத்தும்",
+  "search.results": "{total} முடிவுகள்",
+  "search.noResults": "பொருந்தும் திட்டம் இல்லை. வேறு சொல் அல்லது வகையை முயலவும்.",
+  "search.loading": "தேடுகிறது…",
+
+  "category.agriculture": "வேளாண்மை",
+  "category.education": "கல்வி",
+  "category.employment": "வேலை மற்றும் திறன்",
+  "category.energy": "ஆற்றல்",
+  "category.finance": "வங்கி மற்றும் நிதி",
+  "category.health": "சுகாதாரம்",
+  "category.housing": "வீட்டுவசதி",
+  "category.insurance": "காப்பீடு",
+  "category.pension": "ஓய்வூதியம்",
+  "category.sanitation": "குடிநீர் மற்றும் சுகாதாரம்",
+  "category.women-child": "பெண்கள் மற்றும் குழந்தைகள்",
+
+  "saved.title": "சேமித்த திட்டங்கள்",
+  "saved.remove": "நீக்கு",
+  "saved.empty": "இன்னும் எந்தத் திட்டமும் சேமிக்கப்படவில்லை. ஒரு திட்டத்தை இந்தச் சாதனத்தில் வைத்திருக்க “சேமி” அழுத்தவும்.",
+
+  "deadline.opens": "{date} அன்று திறக்கும்",
+  "deadline.closesToday": "இன்று முடிகிறது",
+  "deadline.closesTomorrow": "நாளை முடிகிறது",
+  "deadline.closesIn": "{days} நாட்களில் முடிகிறது",
+  "deadline.openUntil": "{date} வரை திறந்திருக்கும்",
+  "deadline.closed": "{date} அன்று முடிந்தது",
+  "reminder.label": "நினைவூட்டல்",
+  "reminder.off": "இல்லை",
+  "reminder.onDay": "கடைசி நாளில்",
+  "reminder.daysBefore": "{days} நாட்களுக்கு முன்",
+  "reminder.export": "கடைசி தேதிகளை நாட்காட்டியில் சேர்",
+  "reminder.blocked": "இந்த செயலிக்கு அறிவிப்புகள் முடக்கப்பட்டுள்ளன. பதிலாக “கடைசி தேதிகளை நாட்காட்டியில் சேர்” பயன்படுத்தவும்.",
+  "reminder.notifyTitle": "திட்டக் கடைசி தேதி",
+
+  "document.aadhaar": "ஆதார் அட்டை",
+  "document.bank": "வங்கி கணக்குப் புத்தகம் / கணக்கு விவரம்",
+  "document.income": "வருமானச் சான்றிதழ்",
+  "document.ration": "குடும்ப அட்டை",
+  "document.caste": "சாதிச் சான்றிதழ்",
+  "document.residence": "இருப்பிடம் / முகவரிச் சான்று",
+  "document.land": "நில ஆவணங்கள்",
+  "document.age": "பிறப்புச் சான்றிதழ் / வயதுச் சான்று",
+  "document.photo": "பாஸ்போர்ட் அளவு புகைப்படங்கள்",
+  "document.mobile": "கைபேசி எண்",
+  "document.disability": "மாற்றுத்திறனாளி சான்றிதழ் (UDID)",
+  "document.voter-id": "வாக்காளர் அடையாள அட்டை",
+  "document.pan": "பான் அட்டை",
+  "document.bpl": "வறுமைக் கோட்டுக்குக் கீழ் (BPL) அட்டை",
+  "checklist.title": "ஆவணப் பட்டியல்",
+  "checklist.for": "இவற்றுக்கு: {schemes}",
+  "checklist.neededBy": "தேவைப்படுவது: {schemes}",
+  "checklist.all": "அனைத்தும்",
+  "checklist.missing": "இவற்றுக்கு ஆவணப் பட்டியல் கிடைக்கவில்லை: {schemes}. திட்டப் பக்கத்தைப் பார்க்கவும்.",
+  "checklist.loading": "ஆவணப் பட்டியல்கள் சேகரிக்கப்படுகின்றன…",
+  "checklist.pick": "சேர்க்க வேண்டிய திட்டங்கள்",
+  "checklist.empty": "முதலில் திட்டங்களைச் சேமிக்கவும்; அவற்றின் ஆவணங்கள் இங்கே ஒன்றாகக் காட்டப்படும்.",
+  "checklist.print": "அச்சிடு",
+  "checklist.sms": "SMS ஆக அனுப்பு",
+  "checklist.smsCount": "{count} SMS",
+  "checklist.copy": "உரையை நகலெடு",
+  "checklist.copied": "நகலெடுக்கப்பட்டது ✓",
+  "share.button": "பட்டியலைப் பகிர்",
+  "share.heading": "இந்தப் பட்டியலைப் பகிரவும்",
+  "share.title": "{region} க்கான திட்டங்கள்",
+  "share.category": "வகை: {category}",
+  "share.allCategories": "அனைத்து வகைகளும்",
+  "share.empty": "இப்போது இந்தப் பகுதிக்கு திட்டங்கள் எதுவும் கிடைக்கவில்லை.",
+  "share.more": "+{count} மேலும்",
+  "share.fullList": "முழுப் பட்டியல்:",
+  "share.qr": "இந்தப் பட்டியலைத் திறக்க ஸ்கேன் செய்யவும்",
+  "share.sms": "SMS அனுப்பு",
+  "share.smsCount": "{count} SMS இல் {schemes} திட்டங்கள்",
+  "share.copy": "இணைப்பை நகலெடு",
+  "share.copied": "நகலெடுக்கப்பட்டது ✓",
+  "share.native": "பகிர்…",
+  "share.loading": "இணைப்பு தயாராகிறது…",
+  "share.openApp": "செயலியைத் திற",
+
+  "changes.heading": "புதியவை",
+  "changes.new": "புதியது",
+  "changes.added": "புதிய திட்டம்",
+  "changes.removed": "நீக்கப்பட்டது",
+  "changes.modified": "புதுப்பிக்கப்பட்டது",
+  "changes.feedTitle": "{region} திட்ட மாற்றங்கள்",
+  "changes.feed": "RSS ஊட்டம்",
+
+  "centres.button": "உதவி மையங்கள்",
+  "centres.heading": "எங்கு விண்ணப்பிப்பது",
+  "centres.loading": "மையங்களைத் தேடுகிறது…",
+  "centres.empty": "அருகில் உதவி மையம் எதுவும் இல்லை.",
+  "centres.call": "அழை",
+  "centres.km": "{km} கி.மீ",
+  "centres.inDistrict": "{district} மையங்கள்",
+  "centres.kind.csc": "பொது சேவை மையம்",
+  "centres.kind.bank": "வங்கி",
+  "centres.kind.post-office": "அஞ்சல் அலுவலகம்",
+  "centres.kind.district-office": "மாவட்ட அலுவலகம்",
+  "centres.helpline": "CSC உதவி எண் (கட்டணமில்லா)",
+  "centres.helplineNote": "அருகிலுள்ள பொது சேவை மையத்தைக் கேளுங்கள்.",
+  "centres.sample": "மாதிரித் தரவு: சில அலுவலகங்கள் மட்டும், இருப்பிடங்கள் தோராயமானவை. செல்லும் முன் சரிபார்க்கவும்.",
+
+  "export.link": "பல பகுதிகளின் பட்டியல்களை ஏற்றுமதி செய்",
+  "export.title": "திட்டப் பட்டியல்களை ஏற்றுமதி செய்",
+  "export.intro":
+    "NGO மற்றும் CSC இயக்குநர்களுக்கு: பல மாவட்டங்களின் திட்டங்களை விரிதாள், தரவுக் கோப்பு அல்லது அச்சிடக்கூடிய கையேடாகப் பதிவிறக்குங்கள்.",
+  "export.add": "பகுதியைச் சேர்",
+  "export.remove": "{region} நீக்கு",
+  "export.none": "இன்னும் பகுதி எதுவும் சேர்க்கப்படவில்லை.",
+  "export.max": "அதிகபட்சம் {max} பகுதிகள்.",
+  "export.format": "வடிவம்",
+  "export.format.csv": "விரிதாள் (CSV)",
+  "export.format.json": "தரவு (JSON)",
+  "export.format.html": "அச்சிடக்கூடிய கையேடு",
+  "export.category": "வகை",
+  "export.download": "பதிவிறக்கு",
+  "export.handout": "பகுதி வாரியான அரசுத் திட்டங்கள்",
+  "export.failed": "இந்தப் பகுதியின் திட்டங்களை இப்போது ஏற்ற முடியவில்லை.",
+  "export.partial": "நேரடி மூலங்கள் கிடைக்கவில்லை; தேர்ந்தெடுத்த திட்டங்கள் மட்டும் உள்ளன.",
+  "export.generated":
+    "{date} அன்று myScheme.gov.in மற்றும் தேர்ந்தெடுத்த மூலங்களிலிருந்து உருவாக்கப்பட்டது. விண்ணப்பிக்கும் முன் அதிகாரப்பூர்வ தளத்தில் விவரங்களைச் சரிபார்க்கவும்.",
+
+  "picker.chooseState": "உங்கள் மாநிலத்தைத் தேர்ந்தெடுக்கவும்",
+  "picker.districtIn": "{state} இல் மாவட்டம்",
+  "picker.searchState": "மாநிலத்தைத் தேடு",
+  "picker.searchDistrict": "மாவட்டத்தைத் தேடு",
+  "picker.wholeState": "முழு மாநிலம் (மாவட்டம் வேண்டாம்)",
+  "picker.states": "மாநிலங்கள்",
+  "picker.districts": "மாவட்டங்கள்",
+  "picker.noMatches": "பொருத்தம் இல்லை",
+
+  "detail.backLabel": "திட்டப் பட்டியலுக்குத் திரும்பு",
+  "detail.loading": "திட்ட விவரங்கள் ஏற்றப்படுகின்றன…",
+  "detail.error": "விவரங்களை இங்கே ஏற்ற முடியவில்லை. திட்டத்தை myScheme இல் திறக்கலாம்.",
+  "detail.benefits": "பலன்கள்",
+  "detail.eligibility": "தகுதி",
+  "detail.documents": "தேவையான ஆவணங்கள்",
+  "detail.application": "விண்ணப்பிக்கும் முறை",
+  "detail.faqs": "அடிக்கடி கேட்கப்படும் கேள்விகள்",
+  "detail.open": "myScheme இல் திற",
+
+  "compare.add": "ஒப்பிடு",
+  "compare.added": "✓ ஒப்பீட்டில்",
+  "compare.selected": "ஒப்பிட {max}-இல் {count} தேர்ந்தெடுக்கப்பட்டன",
+  "compare.button": "ஒப்பிடு ({count})",
+  "compare.clear": "அழி",
+  "compare.title": "திட்டங்களை ஒப்பிடுக",
+  "compare.loading": "திட்டப் பக்கங்கள் ஏற்றப்படுகின்றன…",
+  "compare.unknown": "தகவல் இல்லை",
+  "compare.remove": "{title} நீக்கு",
+  "compare.note":
+    "கிடைக்கும் இடங்களில் myScheme பக்கங்களிலிருந்து, இல்லையெனில் தேர்ந்தெடுத்த தரவிலிருந்து. விண்ணப்பிக்கும் முன் அதிகாரப்பூர்வ பக்கத்தைச் சரிபார்க்கவும்.",
+  "compare.benefit": "பலன்",
+  "compare.level": "நிலை",
+  "compare.level.central": "மத்திய அரசு",
+  "compare.level.state": "மாநில அரசு",
+  "compare.apply.online": "ஆன்லைன்",
+  "compare.apply.offline": "அலுவலகம், வங்கி அல்லது CSC-இல்",
+  "compare.apply.both": "ஆன்லைன் அல்லது அலுவலகம்/CSC-இல்",
+  "compare.ageRange": "வயது {min}–{max}",
+  "compare.ageMin": "வயது {min}+",
+  "compare.ageMax": "வயது {max} வரை",
+  "compare.income": "குடும்ப வருமானம்: {band}",
+  "compare.anyOf": "இவற்றில் ஏதேனும்: {options}",
+
+  "eligibility.check": "தகுதியைச் சரிபார்",
+  "eligibility.edit": "பதில்களை மாற்று",
+  "eligibility.hide": "தகுதியற்றவற்றை மறை",
+  "eligibility.form": "தகுதிக் கேள்விகள்",
+  "eligibility.age": "வயது",
+  "eligibility.gender": "பாலினம்",
+  "eligibility.occupation": "தொழில்",
+  "eligibility.income": "குடும்ப ஆண்டு வருமானம்",
+  "eligibility.caste": "சாதிப் பிரிவு",
+  "eligibility.disability": "மாற்றுத்திறனாளி",
+  "eligibility.preferNot": "சொல்ல விரும்பவில்லை",
+  "eligibility.show": "முடிவுகளைக் காட்டு",
+  "eligibility.clear": "அழி",
+  "eligibility.status.eligible": "தகுதி உண்டு",
+  "eligibility.status.maybe": "இருக்கலாம்",
+  "eligibility.status.not-eligible": "தகுதி இல்லை",
+  "eligibility.reason.onlyFor": "{conditions} மட்டும்",
+  "eligibility.reason.check": "சரிபார்க்கவும்: {conditions}",
+  "eligibility.reason.appearsToTarget": "{conditions} க்கானதாகத் தெரிகிறது",
+  "eligibility.reason.matches": "பொருந்துகிறது: {conditions}",
+  "eligibility.reason.noRules": "தகுதி விதிகள் பதிவில் இல்லை",
+  "eligibility.reason.noDetails": "தகுதி விவரங்கள் கிடைக்கவில்லை",
+  "eligibility.cond.minAge": "வயது {age}+",
+  "eligibility.cond.maxAge": "வயது {age} வரை",
+  "eligibility.cond.gender": "{genders} விண்ணப்பதாரர்கள்",
+  "eligibility.cond.income": "வருமானம் {band} அல்லது குறைவு",
+  "eligibility.cond.anyIncome": "எந்த வருமானமும்",
+  "eligibility.cond.caste": "{castes} பிரிவு",
+  "eligibility.cond.disability": "மாற்றுத்திறனாளிகள்",
+
+  "gender.female": "பெண்",
+  "gender.male": "ஆண்",
+  "gender.other": "மற்றவை",
+  "occupation.farmer": "விவசாயி",
+  "occupation.student": "மாணவர்",
+  "occupation.unorganised-worker": "அமைப்புசாரா தொழிலாளர்",
+  "occupation.self-employed": "சுயதொழில்",
+  "occupation.salaried": "ஊதியம் பெறுபவர்",
+  "occupation.unemployed": "வேலையில்லாதவர்",
+  "occupation.homemaker": "இல்லத்தரசி",
+  "occupation.other": "மற்றவை",
+  "income.below-1l": "₹1 லட்சத்துக்குக் கீழ்",
+  "income.1l-2.5l": "₹1–2.5 லட்சம்",
+  "income.2.5l-5l": "₹2.5–5 லட்சம்",
+  "income.5l-8l": "₹5–8 லட்சம்",
+  "income.above-8l": "₹8 லட்சத்துக்கு மேல்",
+  "caste.general": "பொதுப் பிரிவு",
+  "caste.obc": "பிற்படுத்தப்பட்டோர்",
+  "caste.sc": "ஆதிதிராவிடர் (SC)",
+  "caste.st": "பழங்குடியினர் (ST)",
+}
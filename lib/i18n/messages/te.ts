@@ -0,0 +1,286 @@
+import type { Messages } from "./en"
+
+export const te: Messages = {
+  "app.title": "మీ దగ్గర ఉన్న ప్రభుత్వ పథకాలు",
+  "app.intro": "మీ ప్రాంతానికి పథకాలను కనుగొనడానికి పరికరం లొకేషన్ లేదా మీరు ఎంచుకున్న రాష్ట్రం, జిల్లాను ఉపయోగిస్తుంది.",
+  "app.footer":
+    "సమాచారం myScheme (భారత ప్రభుత్వం) నుండి తీసుకోబడింది. పరికరం లొకేషన్ మరియు మూల సైట్ అందుబాటును బట్టి ఖచ్చితత్వం మారవచ్చు.",
+  "app.loading": "లోడ్ అవుతోంది…",
+  "language.label": "భాష",
+
+  "common.back": "వెనుకకు",
+  "common.cancel": "రద్దు చేయి",
+
+  "softkeys.label": "సాఫ్ట్‌కీలు",
+  "softkeys.select": "ఎంచుకో",
+  "softkeys.options": "ఎంపికలు",
+  "softkeys.close": "మూసివేయి",
+  "options.save": "పథకాన్ని సేవ్ చేయి",
+  "options.unsave": "సేవ్ చేసినవాటి నుండి తొలగించు",
+
+  "offline.title": "ఆఫ్‌లైన్.",
+  "offline.body": "ఈ పరికరంలో చివరిగా లోడ్ అయిన పథకాలు మరియు మీరు సేవ్ చేసిన జాబితా చూపబడుతున్నాయి.",
+
+  "location.title": "మీ లొకేషన్",
+  "location.retry": "మళ్ళీ ప్రయత్నించు",
+  "location.retryLabel": "లొకేషన్ మళ్ళీ పొందు",
+  "location.requesting": "లొకేషన్ పొందుతోంది…",
+  "location.unsupported": "ఈ పరికరంలో లొకేషన్ సదుపాయం లేదు.",
+  "location.denied": "లొకేషన్ అనుమతి నిరాకరించబడింది.",
+  "location.unavailable": "మీ లొకేషన్ పొందలేకపోయాము.",
+  "location.coords": "అక్షాంశ రేఖాంశాలు: {lat}, {lon}",
+  "location.resolving": "రాష్ట్రం/జిల్లా కనుగొంటోంది…",
+  "location.resolveFailed": "మీ లొకేషన్ నుండి రాష్ట్రాన్ని గుర్తించలేకపోయాము.",
+  "location.state": "రాష్ట్రం:",
+  "location.district": "జిల్లా:",
+  "location.chosen": "(ఎంచుకున్నది)",
+  "location.change": "ప్రాంతం మార్చు",
+  "location.choose": "రాష్ట్రం/జిల్లా ఎంచుకోండి",
+  "location.useGps": "GPS వాడు",
+
+  "schemes.title": "మీ ప్రాంతానికి పథకాలు",
+  "schemes.savedCount": "సేవ్ చేసినవి ({count})",
+  "schemes.openMyScheme": "myScheme తెరువు",
+  "schemes.openMySchemeLabel": "myScheme వెబ్‌సైట్ తెరువు",
+  "schemes.waiting": "మీ రాష్ట్రం లోడ్ అయ్యే వరకు వేచి ఉంది…",
+  "schemes.loading": "myScheme నుండి పథకాలు తెస్తోంది…",
+  "schemes.error": "పథకాలు పొందలేకపోయాము. దయచేసి మళ్ళీ ప్రయత్నించండి.",
+  "schemes.offlineError": "ఈ ప్రాంతానికి ఇంకా పథకాలు నిల్వ కాలేదు. మీరు సేవ్ చేసిన పథకాలు అందుబాటులో ఉన్నాయి.",
+  "schemes.updated": "{age} నవీకరించబడింది",
+  "schemes.save": "సేవ్ చేయి",
+  "schemes.saved": "సేవ్ అయింది ✓",
+  "schemes.empty": "ప్రస్తుతం పథకాలు ఏవీ దొరకలేదు. పైన ఉన్న లింక్ ద్వారా నేరుగా myScheme లో చూడవచ్చు.",
+  "schemes.showMore": "మరిన్ని చూపించు ({count} మిగిలాయి)",
+
+  "age.justNow": "ఇప్పుడే",
+  "age.minutes": "{n} ని. క్రితం",
+  "age.hours": "{n} గం. క్రితం",
+  "age.days": "{n} రోజుల క్రితం",
+
+  "notes.curatedOnly": "ఎంపిక చేసిన పథకాలు మాత్రమే చూపబడుతున్నాయి. myScheme తాజా ఫలితాలు ప్రస్తుతం అందుబాటులో లేవు.",
+  "notes.degraded": "ప్రస్తుతం పథకాలు పొందలేకపోయాము. పైన ఉన్న లింక్ ద్వారా నేరుగా myScheme లో చూడవచ్చు.",
+  "notes.unexpected": "సమాచారం తెస్తున్నప్పుడు ఊహించని లోపం జరిగింది.",
+  "notes.searchPartial": "myScheme ప్రస్తుతం నెమ్మదిగా ఉంది; సేవ్ చేసిన సూచిక నుండి ఫలితాలు చూపిస్తున్నాం.",
+
+  "search.label": "పథకాలను వెతకండి",
+  "search.placeholder": "ఉదా. పింఛను, స్కాలర్‌షిప్",
+  "search.submit": "వెతుకు",
+  "search.clear": "తుడిచివేయి",
+  "search.category": "వర్గం",
+  "search.ministry": "మంత్రిత్వ శాఖ",
+  "search.all": "అన్నీ",
+  "search.results": "{total} ఫలితాలు",
+  "search.noResults": "సరిపోయే పథకం లేదు. వేరే పదం లేదా వర్గం ప్రయత్నించండి.",
+  "search.loading": "వెతుకుతోంది…",
+
+  "category.agriculture": "వ్యవసాయం",
+  "category.education": "విద్య",
+  "category.employment": "ఉపాధి & నైపుణ్యం",
+  "category.energy": "శక్తి",
+  "category.finance": "బ్యాంకింగ్ & ఆర్థికం",
+  "category.health": "ఆరోగ్యం",
+  "category.housing": "గృహనిర్మాణం",
+  "category.insurance": "బీమా",
+  "category.pension": "పింఛను",
+  "category.sanitation": "నీరు & పారిశుద్ధ్యం",
+  "category.women-child": "మహిళలు & పిల్లలు",
+
+  "saved.title": "సేవ్ చేసిన పథకాలు",
+  "saved.remove": "తొలగించు",
+  "saved.empty": "ఇంకా ఏ పథకమూ సేవ్ చేయలేదు. పథకాన్ని ఈ పరికరంలో ఉంచడానికి “సేవ్ చేయి” నొక్కండి.",
+
+  "deadline.opens": "{date} న ప్రారంభం",
+  "deadline.closesToday": "ఈరోజు ముగుస్తుంది",
+  "deadline.closesTomorrow": "రేపు ముగుస్తుంది",
+  "deadline.closesIn": "{days} రోజుల్లో ముగుస్తుంది",
+  "deadline.openUntil": "{date} వరకు తెరిచి ఉంటుంది",
+  "deadline.closed": "{date} న ముగిసింది",
+  "reminder.label": "రిమైండర్",
+  "reminder.off": "వద్దు",
+  "reminder.onDay": "చివరి రోజున",
+  "reminder.daysBefore": "{days} రోజుల ముందు",
+  "reminder.export": "గడువులను క్యాలెండర్‌కు జోడించండి",
+  "reminder.blocked": "ఈ యాప్‌కు నోటిఫికేషన్లు ఆఫ్‌లో ఉన్నాయి. బదులుగా “గడువులను క్యాలెండర్‌కు జోడించండి” ఉపయోగించండి.",
+  "reminder.notifyTitle": "పథకం గడువు",
+
+  "document.aadhaar": "ఆధార్ కార్డు",
+  "document.bank": "బ్యాంక్ పాస్‌బుక్ / ఖాతా వివరాలు",
+  "document.income": "ఆదాయ ధృవీకరణ పత్రం",
+  "document.ration": "రేషన్ కార్డు",
+  "document.caste": "కుల ధృవీకరణ పత్రం",
+  "document.residence": "నివాస / చిరునామా రుజువు",
+  "document.land": "భూమి రికార్డులు",
+  "document.age": "జనన ధృవీకరణ పత్రం / వయస్సు రుజువు",
+  "document.photo": "పాస్‌పోర్ట్ సైజు ఫోటోలు",
+  "document.mobile": "మొబైల్ నంబర్",
+  "document.disability": "వైకల్య ధృవీకరణ పత్రం (UDID)",
+  "document.voter-id": "ఓటరు గుర్తింపు కార్డు",
+  "document.pan": "పాన్ కార్డు",
+  "document.bpl": "బీపీఎల్ కార్డు / ధృవీకరణ పత్రం",
+  "checklist.title": "పత్రాల జాబితా",
+  "checklist.for": "వీటి కోసం: {schemes}",
+  "checklist.neededBy": "అవసరమైనవి: {schemes}",
+  "checklist.all": "అన్నీ",
+  "checklist.missing": "వీటి పత్రాల జాబితా దొరకలేదు: {schemes}. పథకం పేజీ చూడండి.",
+  "checklist.loading": "పత్రాల జాబితాలు సేకరిస్తోంది…",
+  "checklist.pick": "చేర్చాల్సిన పథకాలు",
+  "checklist.empty": "ముందుగా పథకాలను సేవ్ చేయండి; వాటి పత్రాలు ఇక్కడ కలిపి చూపిస్తాం.",
+  "checklist.print": "ప్రింట్ చేయండి",
+  "checklist.sms": "SMS ద్వారా పంపండి",
+  "checklist.smsCount": "{count} SMS",
+  "checklist.copy": "టెక్స్ట్ కాపీ చేయండి",
+  "checklist.copied": "కాపీ అయింది ✓",
+  "share.button": "జాబితాను షేర్ చేయండి",
+  "share.heading": "ఈ జాబితాను షేర్ చేయండి",
+  "share.title": "{region} కోసం పథకాలు",
+  "share.category": "వర్గం: {category}",
+  "share.allCategories": "అన్ని వర్గాలు",
+  "share.empty": "ప్రస్తుతం ఈ ప్రాంతానికి పథకాలు ఏవీ కనిపించలేదు.",
+  "share.more": "+{count} మరిన్ని",
+  "share.fullList": "పూర్తి జాబితా:",
+  "share.qr": "ఈ జాబితాను తెరవడానికి స్కాన్ చేయండి",
+  "share.sms": "SMS పంపండి",
+  "share.smsCount": "{count} SMS లలో {schemes} పథకాలు",
+  "share.copy": "లింక్ కాపీ చేయండి",
+  "share.copied": "కాపీ అయింది ✓",
+  "share.native": "షేర్ చేయండి…",
+  "share.loading": "లింక్ సిద్ధమవుతోంది…",
+  "share.openApp": "యాప్ తెరవండి",
+
+  "changes.heading": "కొత్తవి",
+  "changes.new": "కొత్తది",
+  "changes.added": "కొత్త పథకం",
+  "changes.removed": "తొలగించబడింది",
+  "changes.modified": "నవీకరించబడింది",
+  "changes.feedTitle": "{region} పథకాల మార్పులు",
+  "changes.feed": "RSS ఫీడ్",
+
+  "centres.button": "సహాయ కేంద్రాలు",
+  "centres.heading": "ఎక్కడ దరఖాస్తు చేయాలి",
+  "centres.loading": "కేంద్రాలను వెతుకుతోంది…",
+  "centres.empty": "సమీపంలో సహాయ కేంద్రాలు కనబడలేదు.",
+  "centres.call": "కాల్ చేయండి",
+  "centres.km": "{km} కి.మీ",
+  "centres.inDistrict": "{district} లోని కేంద్రాలు",
+  "centres.kind.csc": "కామన్ సర్వీస్ సెంటర్",
+  "centres.kind.bank": "బ్యాంక్",
+  "centres.kind.post-office": "పోస్టాఫీసు",
+  "centres.kind.district-office": "జిల్లా కార్యాలయం",
+  "centres.helpline": "CSC హెల్ప్‌లైన్ (టోల్-ఫ్రీ)",
+  "centres.helplineNote": "మీకు సమీపంలోని కామన్ సర్వీస్ సెంటర్ గురించి అడగండి.",
+  "centres.sample": "నమూనా డేటా: కొన్ని కార్యాలయాలు మాత్రమే, స్థానాలు సుమారుగా. వెళ్లే ముందు నిర్ధారించుకోండి.",
+
+  "export.link": "అనేక ప్రాంతాల జాబితాలను ఎగుమతి చేయండి",
+  "export.title": "పథకాల జాబితాలను ఎగుమతి చేయండి",
+  "export.intro":
+    "NGOలు మరియు CSC నిర్వాహకుల కోసం: అనేక జిల్లాల పథకాలను స్ప్రెడ్‌షీట్, డేటా ఫైల్ లేదా ముద్రించదగిన కరపత్రంగా డౌన్‌లోడ్ చేయండి.",
+  "export.add": "ప్రాంతాన్ని జోడించండి",
+  "export.remove": "{region} తీసివేయండి",
+  "export.none": "ఇంకా ఏ ప్రాంతమూ జోడించలేదు.",
+  "export.max": "గరిష్ఠంగా {max} ప్రాంతాలు.",
+  "export.format": "ఫార్మాట్",
+  "export.format.csv": "స్ప్రెడ్‌షీట్ (CSV)",
+  "export.format.json": "డేటా (JSON)",
+  "export.format.html": "ముద్రించదగిన కరపత్రం",
+  "export.category": "వర్గం",
+  "export.download": "డౌన్‌లోడ్ చేయండి",
+  "export.handout": "ప్రాంతాల వారీగా ప్రభుత్వ పథకాలు",
+  "export.failed": "ఈ ప్రాంతపు పథకాలను ఇప్పుడు లోడ్ చేయలేకపోయాం.",
+  "export.partial": "ప్రత్యక్ష మూలాలు అందుబాటులో లేవు; ఎంపిక చేసిన పథకాలు మాత్రమే ఉన్నాయి.",
+  "export.generated":
+    "{date}న myScheme.gov.in మరియు ఎంపిక చేసిన మూలాల నుండి రూపొందించబడింది. దరఖాస్తు చేసే ముందు అధికారిక సైట్‌లో వివరాలు సరిచూసుకోండి.",
+
+  "picker.chooseState": "మీ రాష్ట్రాన్ని ఎంచుకోండి",
+  "picker.districtIn": "{state} లో జిల్లా",
+  "picker.searchState": "రాష్ట్రం వెతకండి",
+  "picker.searchDistrict": "జిల్లా వెతకండి",
+  "picker.wholeState": "మొత్తం రాష్ట్రం (జిల్లా వదిలేయి)",
+  "picker.states": "రాష్ట్రాలు",
+  "picker.districts": "జిల్లాలు",
+  "picker.noMatches": "సరిపోలినవి లేవు",
+
+  "detail.backLabel": "పథకాల జాబితాకు తిరిగి",
+  "detail.loading": "పథకం వివరాలు లోడ్ అవుతున్నాయి…",
+  "detail.error": "వివరాలు ఇక్కడ లోడ్ కాలేదు. పథకాన్ని myScheme లో తెరవవచ్చు.",
+  "detail.benefits": "ప్రయోజనాలు",
+  "detail.eligibility": "అర్హత",
+  "detail.documents": "అవసరమైన పత్రాలు",
+  "detail.application": "ఎలా దరఖాస్తు చేయాలి",
+  "detail.faqs": "తరచుగా అడిగే ప్రశ్నలు",
+  "detail.open": "myScheme లో తెరువు",
+
+  "compare.add": "పోల్చండి",
+  "compare.added": "✓ పోలికలో ఉంది",
+  "compare.selected": "పోల్చడానికి {max}లో {count} ఎంచుకున్నారు",
+  "compare.button": "పోల్చండి ({count})",
+  "compare.clear": "తొలగించండి",
+  "compare.title": "పథకాలను పోల్చండి",
+  "compare.loading": "పథకం పేజీలు లోడ్ అవుతున్నాయి…",
+  "compare.unknown": "సమాచారం లేదు",
+  "compare.remove": "{title} తీసివేయండి",
+  "compare.note":
+    "అందుబాటులో ఉంటే myScheme పేజీల నుండి, లేకపోతే ఎంపిక చేసిన డేటా నుండి. దరఖాస్తు చేసే ముందు అధికారిక పేజీని సరిచూసుకోండి.",
+  "compare.benefit": "ప్రయోజనం",
+  "compare.level": "స్థాయి",
+  "compare.level.central": "కేంద్ర ప్రభుత్వం",
+  "compare.level.state": "రాష్ట్ర ప్రభుత్వం",
+  "compare.apply.online": "ఆన్‌లైన్",
+  "compare.apply.offline": "కార్యాలయం, బ్యాంకు లేదా CSCలో",
+  "compare.apply.both": "ఆన్‌లైన్ లేదా కార్యాలయం/CSCలో",
+  "compare.ageRange": "వయస్సు {min}–{max}",
+  "compare.ageMin": "వయస్సు {min}+",
+  "compare.ageMax": "వయస్సు {max} వరకు",
+  "compare.income": "కుటుంబ ఆదాయం: {band}",
+  "compare.anyOf": "వీటిలో ఏదైనా: {options}",
+
+  "eligibility.check": "అర్హత తనిఖీ చేయి",
+  "eligibility.edit": "సమాధానాలు మార్చు",
+  "eligibility.hide": "అర్హత లేనివి దాచు",
+  "eligibility.form": "అర్హత ప్రశ్నలు",
+  "eligibility.age": "వయస్సు",
+  "eligibility.gender": "లింగం",
+  "eligibility.occupation": "వృత్తి",
+  "eligibility.income": "కుటుంబ వార్షిక ఆదాయం",
+  "eligibility.caste": "కుల వర్గం",
+  "eligibility.disability": "దివ్యాంగులు",
+  "eligibility.preferNot": "చెప్పదలచుకోలేదు",
+  "eligibility.show": "ఫలితాలు చూపు",
+  "eligibility.clear": "తుడిచివేయి",
+  "eligibility.status.eligible": "అర్హులు",
+  "eligibility.status.maybe": "కావచ్చు",
+  "eligibility.status.not-eligible": "అర్హులు కారు",
+  "eligibility.reason.onlyFor": "{conditions} కోసం మాత్రమే",
+  "eligibility.reason.check": "తనిఖీ చేయండి: {conditions}",
+  "eligibility.reason.appearsToTarget": "{conditions} కోసం అనిపిస్తుంది",
+  "eligibility.reason.matches": "సరిపోతుంది: {conditions}",
+  "eligibility.reason.noRules": "అర్హత నియమాలు నమోదు కాలేదు",
+  "eligibility.reason.noDetails": "అర్హత వివరాలు అందుబాటులో లేవు",
+  "eligibility.cond.minAge": "వయస్సు {age}+",
+  "eligibility.cond.maxAge": "వయస్సు {age} వరకు",
+  "eligibility.cond.gender": "{genders} దరఖాస్తుదారులు",
+  "eligibility.cond.income": "ఆదాయం {band} లేదా తక్కువ",
+  "eligibility.cond.anyIncome": "ఏ ఆదాయమైనా",
+  "eligibility.cond.caste": "{castes} వర్గం",
+  "eligibility.cond.disability": "దివ్యాంగులు",
+
+  "gender.female": "స్త్రీ",
+  "gender.male": "పురుషుడు",
+  "gender.other": "ఇతర",
+  "occupation.farmer": "రైతు",
+  "occupation.student": "విద్యార్థి",
+  "occupation.unorganised-worker": "అసంఘటిత కార్మికుడు",
+  "occupation.self-employed": "స్వయం ఉపాధి",
+  "occupation.salaried": "జీతం పొందేవారు",
+  "occupation.unemployed": "నిరుద్యోగి",
+  "occupation.homemaker": "గృహిణి",
+  "occupation.other": "ఇతర",
+  "income.below-1l": "₹1 లక్ష కంటే తక్కువ",
+  "income.1l-2.5l": "₹1–2.5 లక్షలు",
+  "income.2.5l-5l": "₹2.5–5 లక్షలు",
+  "income.5l-8l": "₹5–8 లక్షలు",
+  "income.above-8l": "₹8 లక్షల కంటే ఎక్కువ",
+  "caste.general": "జనరల్",
+  "caste.obc": "బీసీ",
+  "caste.sc": "ఎస్సీ",
+  "caste.st": "ఎస్టీ",
+}
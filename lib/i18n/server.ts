@@ -0,0 +1,10 @@
+// Request locale for server components: the saved cookie, else the browser's Accept-Language.
+
+import { cookies, headers } from "next/headers"
+import { isLocale, LOCALE_COOKIE, matchAcceptLanguage, type Locale } from "@/lib/i18n"
+
+export async function getLocale(): Promise<Locale> {
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value
+  if (isLocale(saved)) return saved
+  return matchAcceptLanguage((await headers()).get("accept-language"))
+}
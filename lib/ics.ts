@@ -0,0 +1,80 @@
+// iCalendar (RFC 5545) export of saved-scheme deadlines, for import into the phone's calendar app.
+// Each deadline is an all-day event on the closing date with an alarm the chosen days before it, so
+// the reminder fires even when the app is never opened again.
+
+import { addDays } from "@/lib/deadlines"
+
+export type CalendarDeadline = {
+  // Stable per scheme, so re-importing updates the event instead of duplicating it
+  uid: string
+  title: string
+  // Closing date, "YYYY-MM-DD"
+  date: string
+  url?: string
+  description?: string
+  // Alarm this many days before the closing date; no alarm when unset
+  remindDaysBefore?: number
+}
+
+const PRODID = "-//Schemes near you//Deadlines//EN"
+
+// TEXT values escape backslashes, separators and newlines
+function escapeText(text: string) {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+// Lines longer than 75 octets are folded with CRLF + space, never inside a multi-byte character
+function fold(line: string) {
+  const encoder = new TextEncoder()
+  const out: string[] = []
+  let current = ""
+  let octets = 0
+  for (const ch of line) {
+    const size = encoder.encode(ch).length
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > 75) {
+      out.push(current)
+      current = " "
+      octets = 1
+    }
+    current += ch
+    octets += size
+  }
+  out.push(current)
+  return out.join("\r\n")
+}
+
+const compactDate = (date: string) => date.replace(/-/g, "")
+
+function stamp(now: Date) {
+  return now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+export function deadlinesToIcs(deadlines: CalendarDeadline[], now = new Date()): string {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"]
+  for (const d of deadlines) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${d.uid}`,
+      `DTSTAMP:${stamp(now)}`,
+      `DTSTART;VALUE=DATE:${compactDate(d.date)}`,
+      `DTEND;VALUE=DATE:${compactDate(addDays(d.date, 1))}`,
+      `SUMMARY:${escapeText(d.title)}`,
+      "TRANSP:TRANSPARENT",
+    )
+    if (d.description) lines.push(`DESCRIPTION:${escapeText(d.description)}`)
+    if (d.url) lines.push(`URL:${d.url}`)
+    if (d.remindDaysBefore !== undefined) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(d.title)}`,
+        `TRIGGER:-P${d.remindDaysBefore}D`,
+        "END:VALARM",
+      )
+    }
+    lines.push("END:VEVENT")
+  }
+  lines.push("END:VCALENDAR")
+  return lines.map(fold).join("\r\n") + "\r\n"
+}
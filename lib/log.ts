@@ -0,0 +1,89 @@
+// Structured server logs: one JSON object per line on stdout (stderr for errors), carrying the ID of
+// the request that caused it. The middleware assigns X-Request-Id; `withRequest` makes it available to
+// everything the handler awaits, so provider and cache logs deep in the pipeline are tied to it too.
+// LOG_LEVEL (debug, info, warn, error) sets the minimum level written; the default is info.
+
+import { AsyncLocalStorage } from "node:async_hooks"
+import { randomUUID } from "node:crypto"
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+type RequestContext = { requestId: string; route: string }
+
+const context = new AsyncLocalStorage<RequestContext>()
+
+export const REQUEST_ID_HEADER = "x-request-id"
+
+// Set on responses served without the live sources (curated data only) because an upstream failed.
+// The body still answers, so the status stays 200; monitors watch this header or the request log.
+export const DEGRADED_HEADER = "x-upstream-degraded"
+
+function minLevel(): number {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined
+  return LEVELS[level ?? "info"] ?? LEVELS.info
+}
+
+function write(level: LogLevel, event: string, fields?: Record<string, unknown>) {
+  if (LEVELS[level] < minLevel()) return
+  const ctx = context.getStore()
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    event,
+    ...(ctx ? { requestId: ctx.requestId, route: ctx.route } : {}),
+    ...fields,
+  })
+  if (level === "error") console.error(line)
+  else console.log(line)
+}
+
+export const log = {
+  debug: (event: string, fields?: Record<string, unknown>) => write("debug", event, fields),
+  info: (event: string, fields?: Record<string, unknown>) => write("info", event, fields),
+  warn: (event: string, fields?: Record<string, unknown>) => write("warn", event, fields),
+  error: (event: string, fields?: Record<string, unknown>) => write("error", event, fields),
+}
+
+// Message and type of a caught value, for the `error` fields of a log line
+export function errorFields(err: unknown): { error: string; errorType?: string } {
+  if (err instanceof Error) return { error: err.message, errorType: err.constructor.name }
+  return { error: String(err) }
+}
+
+export function currentRequestId(): string | undefined {
+  return context.getStore()?.requestId
+}
+
+// Wrap a route handler: runs it with the request's ID in context, logs one "request" line per call
+// with status and duration, and turns an uncaught throw into a logged 500.
+export function withRequest<R extends Request, A extends unknown[]>(
+  route: string,
+  handler: (req: R, ...rest: A) => Promise<Response>,
+): (req: R, ...rest: A) => Promise<Response> {
+  return (req, ...rest) => {
+    const requestId = req.headers.get(REQUEST_ID_HEADER) || randomUUID()
+    return context.run({ requestId, route }, async () => {
+      const started = Date.now()
+      let res: Response
+      try {
+        res = await handler(req, ...rest)
+      } catch (err) {
+        log.error("request.failed", errorFields(err))
+        res = new Response(JSON.stringify({ error: "Internal error", requestId }), {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        })
+      }
+      log.info("request", {
+        method: req.method,
+        path: new URL(req.url).pathname,
+        status: res.status,
+        ...(res.headers.has(DEGRADED_HEADER) ? { degraded: true } : {}),
+        ms: Date.now() - started,
+      })
+      return res
+    })
+  }
+}
@@ -0,0 +1,88 @@
+// In-process metrics for /api/health: per scheme provider, how its recent runs ended and how long they
+// took; per upstream host, how recent requests fared. Kept in memory per server instance and reset on
+// restart; the last RECENT_SIZE events per name form the window that rates are computed over.
+
+import { processState } from "@/lib/process-state"
+
+export const RECENT_SIZE = 50
+
+type Event = { at: number; outcome: string; ms: number; ok: boolean }
+
+export type SeriesSummary = {
+  name: string
+  // Counts by outcome since the process started
+  totals: Record<string, number>
+  // Over the recent window
+  recent: number
+  successRate: number | null
+  p50Ms: number | null
+  p95Ms: number | null
+  last: { at: string; outcome: string; ms: number } | null
+}
+
+function createSeries() {
+  const totals = new Map<string, Map<string, number>>()
+  const recent = new Map<string, Event[]>()
+  return {
+    record(name: string, outcome: string, ms: number, ok: boolean, at = Date.now()) {
+      const counts = totals.get(name) ?? new Map<string, number>()
+      counts.set(outcome, (counts.get(outcome) ?? 0) + 1)
+      totals.set(name, counts)
+      const events = recent.get(name) ?? []
+      events.push({ at, outcome, ms, ok })
+      if (events.length > RECENT_SIZE) events.shift()
+      recent.set(name, events)
+    },
+    summary(): SeriesSummary[] {
+      return Array.from(totals.keys()).map((name) => summarize(name, totals.get(name)!, recent.get(name) ?? []))
+    },
+    reset() {
+      totals.clear()
+      recent.clear()
+    },
+  }
+}
+
+function percentile(sorted: number[], p: number) {
+  return sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))] : null
+}
+
+function summarize(name: string, totals: Map<string, number>, events: Event[]): SeriesSummary {
+  const ms = events.map((e) => e.ms).sort((a, b) => a - b)
+  const last = events.at(-1)
+  return {
+    name,
+    totals: Object.fromEntries(totals),
+    recent: events.length,
+    successRate: events.length ? events.filter((e) => e.ok).length / events.length : null,
+    p50Ms: percentile(ms, 50),
+    p95Ms: percentile(ms, 95),
+    last: last ? { at: new Date(last.at).toISOString(), outcome: last.outcome, ms: last.ms } : null,
+  }
+}
+
+const providers = processState("metrics.providers", createSeries)
+const upstreams = processState("metrics.upstreams", createSeries)
+
+// "empty" counts as a success: the provider worked, the region just has nothing
+export function recordProvider(provider: string, outcome: string, ms: number) {
+  if (outcome === "unhealthy") return
+  providers.record(provider, outcome, ms, outcome === "hit" || outcome === "empty")
+}
+
+export function recordUpstream(host: string, outcome: string, ms: number, ok: boolean) {
+  upstreams.record(host, outcome, ms, ok)
+}
+
+export function providerMetrics() {
+  return providers.summary()
+}
+
+export function upstreamMetrics() {
+  return upstreams.summary()
+}
+
+export function resetMetrics() {
+  providers.reset()
+  upstreams.reset()
+}
@@ -0,0 +1,14 @@
+// State shared by every route of this server process. Next.js bundles each route on its own, so a
+// module-level Map exists once per route bundle; keeping it on globalThis gives one per process, which
+// is what per-host limits, provider health and /api/health's metrics need.
+
+const STORE = Symbol.for("myscheme-locator.process-state")
+
+type Store = Map<string, unknown>
+
+export function processState<T>(key: string, create: () => T): T {
+  const g = globalThis as typeof globalThis & { [STORE]?: Store }
+  const store = (g[STORE] ??= new Map())
+  if (!store.has(key)) store.set(key, create())
+  return store.get(key) as T
+}
@@ -0,0 +1,8 @@
+// QR codes for share links, rendered on the server as SVG so feature phones only have to show an image.
+// Medium error correction survives a smudged screen or a cheap camera without making the code dense.
+
+import QRCode from "qrcode"
+
+export function qrSvg(text: string): Promise<string> {
+  return QRCode.toString(text, { type: "svg", errorCorrectionLevel: "M", margin: 2 })
+}
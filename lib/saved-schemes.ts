@@ -0,0 +1,74 @@
+// On-device list of saved schemes in IndexedDB, readable with no connectivity.
+
+const DB_NAME = "schemes-app"
+const DB_VERSION = 1
+const STORE = "saved"
+
+export type SavedScheme = {
+  href: string
+  title: string
+  description?: string
+  // Region the scheme was found for, shown in the saved list
+  region?: string
+  slug?: string
+  // Curated "documents required" lines, for the checklist; scraped schemes load theirs from the page
+  documents?: string[]
+  // Application window copied from the listing when saved, "YYYY-MM-DD"
+  openDate?: string
+  closeDate?: string
+  // Notify this many days before closeDate; no reminder when unset
+  remindDaysBefore?: number
+  // closeDate the last reminder was shown for, so each deadline notifies once
+  remindedFor?: string
+  savedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => {
+        const db = req.result
+        if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: "href" })
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => {
+        dbPromise = null
+        reject(req.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const req = fn(db.transaction(STORE, mode).objectStore(STORE))
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+      }),
+  )
+}
+
+export async function listSaved(): Promise<SavedScheme[]> {
+  const all = await run<SavedScheme[]>("readonly", (s) => s.getAll())
+  return all.sort((a, b) => b.savedAt - a.savedAt)
+}
+
+export function saveScheme(item: Omit<SavedScheme, "savedAt">): Promise<IDBValidKey> {
+  return run("readwrite", (s) => s.put({ ...item, savedAt: Date.now() }))
+}
+
+// Records are stored whole, so new optional fields need no schema upgrade
+export async function updateSaved(href: string, patch: Partial<Omit<SavedScheme, "href">>): Promise<void> {
+  const current = await run<SavedScheme | undefined>("readonly", (s) => s.get(href))
+  if (current) await run("readwrite", (s) => s.put({ ...current, ...patch }))
+}
+
+export function removeSaved(href: string): Promise<undefined> {
+  return run("readwrite", (s) => s.delete(href))
+}
@@ -0,0 +1,131 @@
+// Curated offline scheme catalog, keyed by state and gazetteer district ID.
+// The JSON files under data/catalog are parsed with zod when this module loads, so a malformed
+// entry fails `next build` instead of surfacing at request time.
+
+import { z } from "zod"
+import { EligibilityCriteriaSchema } from "@/lib/eligibility"
+import { findState, resolveRegion } from "@/lib/gazetteer"
+import { LOCALES, type Locale } from "@/lib/i18n"
+import central from "@/data/catalog/central.json"
+import karnataka from "@/data/catalog/states/karnataka.json"
+import maharashtra from "@/data/catalog/states/maharashtra.json"
+import tamilNadu from "@/data/catalog/states/tamil-nadu.json"
+import uttarPradesh from "@/data/catalog/states/uttar-pradesh.json"
+import { SCHEME_CATEGORIES } from "./categories"
+import { APPLY_MODES, IsoDateSchema, type SchemeLevel } from "./schema"
+import { absoluteUrl, MYSCHEME_ORIGIN } from "./slug"
+import type { SchemeItem } from "./types"
+
+export const CATALOG_CATEGORIES = SCHEME_CATEGORIES
+
+const CatalogEntrySchema = z.object({
+  // Stable across catalog versions; a district entry reusing an inherited ID overrides it locally.
+  id: z.string().regex(/^[a-z0-9]+(\.[a-z0-9-]+)+$/),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  category: z.enum(CATALOG_CATEGORIES),
+  ministry: z.string().min(1),
+  // Headline benefit in English, short enough for a comparison cell
+  benefit: z.string().min(1).optional(),
+  applyMode: z.enum(APPLY_MODES).optional(),
+  lastVerified: IsoDateSchema,
+  slug: z.string().optional(),
+  href: z.string().url().optional(),
+  eligibility: EligibilityCriteriaSchema.optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  beneficiaryTypes: z.array(z.string().min(1)).optional(),
+  // Application window, for schemes that only accept applications for part of the year
+  openDate: IsoDateSchema.optional(),
+  closeDate: IsoDateSchema.optional(),
+  // Documents required, in English; the checklist maps common ones to translated names
+  documents: z.array(z.string().min(1)).optional(),
+  // Title and description per UI language; untranslated languages fall back to the English fields
+  translations: z
+    .record(z.enum(LOCALES), z.object({ title: z.string().min(1), description: z.string().min(1) }))
+    .optional(),
+})
+
+const CentralCatalogSchema = z.object({
+  version: z.number().int().positive(),
+  level: z.literal("central"),
+  schemes: z.array(CatalogEntrySchema),
+})
+
+const StateCatalogSchema = z.object({
+  version: z.number().int().positive(),
+  level: z.literal("state"),
+  state: z.string().min(1),
+  schemes: z.array(CatalogEntrySchema),
+  // Keyed by gazetteer district ID, e.g. "27.nagpur", never by display name
+  districts: z.record(z.string().regex(/^\d+\.[a-z0-9-]+$/), z.array(CatalogEntrySchema)),
+})
+
+export type CatalogEntry = z.infer<typeof CatalogEntrySchema>
+
+const CENTRAL = CentralCatalogSchema.parse(central)
+const STATES = [maharashtra, karnataka, tamilNadu, uttarPradesh].map((s) => StateCatalogSchema.parse(s))
+
+// Combined version string, e.g. "central@1,Maharashtra@1"; changes whenever any file is bumped.
+export const CATALOG_VERSION = [
+  `central@${CENTRAL.version}`,
+  ...STATES.map((s) => `${s.state}@${s.version}`),
+].join(",")
+
+// Keyed by LGD state code; a state name or district ID the gazetteer does not know fails the build.
+const STATE_INDEX = new Map(
+  STATES.map((s) => {
+    const state = findState(s.state)
+    if (!state) throw new Error(`catalog: unknown state ${s.state}`)
+    const unknown = Object.keys(s.districts).filter((id) => !state.districts.some((d) => d.id === id))
+    if (unknown.length) throw new Error(`catalog: unknown districts in ${s.state}: ${unknown.join(", ")}`)
+    return [state.code, s]
+  }),
+)
+
+function toItem(entry: CatalogEntry, level: SchemeLevel, lang: Locale): SchemeItem {
+  const localized = lang === "en" ? undefined : entry.translations?.[lang]
+  const href =
+    entry.href ??
+    (entry.slug
+      ? `/schemes/${entry.slug}`
+      : `${MYSCHEME_ORIGIN}/search?q=${encodeURIComponent(entry.title)}`)
+  return {
+    id: entry.id,
+    source: "curated",
+    title: localized?.title ?? entry.title,
+    href,
+    canonicalUrl: absoluteUrl(href),
+    slug: entry.slug,
+    description: localized?.description ?? entry.description,
+    lang: localized ? lang : undefined,
+    level,
+    categories: [entry.category],
+    ministry: entry.ministry,
+    benefit: entry.benefit,
+    applyMode: entry.applyMode,
+    tags: entry.tags,
+    beneficiaryTypes: entry.beneficiaryTypes,
+    openDate: entry.openDate,
+    closeDate: entry.closeDate,
+    documents: entry.documents,
+    lastVerified: entry.lastVerified,
+    eligibility: entry.eligibility,
+    sourceUrl: MYSCHEME_ORIGIN,
+    score: 1,
+  }
+}
+
+// Central schemes, then the state's own, then district entries; more specific entries
+// replace inherited ones with the same ID.
+export function catalogFor(state: string, district: string, lang: Locale = "en"): SchemeItem[] {
+  const byId = new Map<string, { entry: CatalogEntry; level: SchemeLevel }>()
+  for (const entry of CENTRAL.schemes) byId.set(entry.id, { entry, level: "central" })
+  const region = resolveRegion(state, district)
+  const s = region && STATE_INDEX.get(region.stateCode)
+  if (s) {
+    for (const entry of s.schemes) byId.set(entry.id, { entry, level: "state" })
+    const d = region.districtCode ? s.districts[region.districtCode] : undefined
+    if (d) for (const entry of d) byId.set(entry.id, { entry, level: "state" })
+  }
+  return Array.from(byId.values()).map(({ entry, level }) => toItem(entry, level, lang))
+}
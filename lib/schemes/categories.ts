@@ -0,0 +1,43 @@
+// Scheme categories shared by the curated catalog, the search index and the client facet picker.
+// Kept free of server imports so client components can use it.
+
+export const SCHEME_CATEGORIES = [
+  "agriculture",
+  "education",
+  "employment",
+  "energy",
+  "finance",
+  "health",
+  "housing",
+  "insurance",
+  "pension",
+  "sanitation",
+  "women-child",
+] as const
+
+export type SchemeCategory = (typeof SCHEME_CATEGORIES)[number]
+
+// Keyword guesses for scraped listings, which carry no category. First match wins, so the more
+// specific rules (pension before insurance, insurance before health) come first.
+const CATEGORY_RULES: { re: RegExp; category: SchemeCategory }[] = [
+  { re: /\b(pensions?|old age|senior citizens?|elderly|widows?)\b/i, category: "pension" },
+  { re: /\b(insurance|bima|assurance)\b/i, category: "insurance" },
+  { re: /\b(farmers?|kisan|krishi|agricultur\w*|crops?|irrigation|horticulture|fisher\w*|livestock|dairy)\b/i, category: "agriculture" },
+  { re: /\b(scholarships?|students?|fellowships?|education|schools?|colleges?|tuition)\b/i, category: "education" },
+  { re: /\b(employment|jobs?|skill\w*|rozgar|apprentice\w*|livelihood)\b/i, category: "employment" },
+  { re: /\b(solar|electricity|energy|power|lpg|gas connections?|ujjwala)\b/i, category: "energy" },
+  { re: /\b(loans?|credit|mudra|entrepreneurs?|startups?|enterprises?|msme|banking|financial)\b/i, category: "finance" },
+  { re: /\b(health|hospital\w*|medical|treatment|arogya|ayushman)\b/i, category: "health" },
+  { re: /\b(housing|houses?|homes?|awas|shelter)\b/i, category: "housing" },
+  { re: /\b(sanitation|toilets?|swachh|drinking water)\b/i, category: "sanitation" },
+  { re: /\b(women|woman|girls?|mahila|daughters?|beti|kanya|maternity|mothers?|child(ren)?)\b/i, category: "women-child" },
+]
+
+export function inferCategory(text: string): SchemeCategory | undefined {
+  return CATEGORY_RULES.find((r) => r.re.test(text))?.category
+}
+
+// Every category a source's own label covers, e.g. "Banking, Financial Services and Insurance"
+export function categoriesOf(label: string): SchemeCategory[] {
+  return CATEGORY_RULES.filter((r) => r.re.test(label)).map((r) => r.category)
+}
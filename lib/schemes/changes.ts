@@ -0,0 +1,245 @@
+// Scheme change feed: a snapshot job (scripts/snapshot-changes.ts) records each tracked region's
+// listing as /api/schemes serves it and diffs it against the previous snapshot. Added, removed and
+// modified schemes are kept per region and served by /api/schemes/changes as JSON, RSS and Atom.
+//
+// Tracked regions come from CHANGE_FEED_REGIONS ("Maharashtra/Nagpur,Karnataka", names in any
+// spelling the gazetteer resolves) or the job's arguments. Snapshots are taken in English so wording
+// is compared like for like. The store is one JSON file (CHANGES_FILE, default .data/changes.json).
+
+import { createHash } from "node:crypto"
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { z } from "zod"
+import { resolveRegion } from "@/lib/gazetteer"
+import { DEFAULT_LOCALE } from "@/lib/i18n"
+import { errorFields, log } from "@/lib/log"
+import { canonicalHref } from "./normalize"
+import { getListing, upstreamFailed } from "./pipeline"
+import type { SchemeItem } from "./schema"
+
+// Changes kept per region, newest first
+export const MAX_CHANGES = 200
+
+// Fields whose change makes a scheme "modified"
+export const TRACKED_FIELDS = ["title", "description", "ministry", "openDate", "closeDate"] as const
+
+const SnapshotItemSchema = z.object({
+  href: z.string(),
+  title: z.string(),
+  slug: z.string().optional(),
+  description: z.string().optional(),
+  ministry: z.string().optional(),
+  openDate: z.string().optional(),
+  closeDate: z.string().optional(),
+})
+
+const ChangeSchema = z.object({
+  id: z.string(),
+  at: z.string(),
+  kind: z.enum(["added", "removed", "modified"]),
+  href: z.string(),
+  title: z.string(),
+  slug: z.string().optional(),
+  // For "modified": which of TRACKED_FIELDS differ
+  fields: z.array(z.enum(TRACKED_FIELDS)).optional(),
+})
+
+const RegionChangesSchema = z.object({
+  state: z.string(),
+  district: z.string(),
+  snapshotAt: z.string(),
+  items: z.array(SnapshotItemSchema),
+  changes: z.array(ChangeSchema),
+})
+
+const ChangesStoreSchema = z.object({
+  version: z.literal(1),
+  regions: z.record(RegionChangesSchema),
+})
+
+export type SnapshotItem = z.infer<typeof SnapshotItemSchema>
+export type SchemeChange = z.infer<typeof ChangeSchema>
+export type RegionChanges = z.infer<typeof RegionChangesSchema>
+export type ChangesStore = z.infer<typeof ChangesStoreSchema>
+
+const EMPTY_STORE: ChangesStore = { version: 1, regions: {} }
+
+export function regionKey(state: string, district: string) {
+  return district ? `${state}/${district}` : state
+}
+
+export function snapshotItems(items: SchemeItem[]): SnapshotItem[] {
+  const seen = new Set<string>()
+  const out: SnapshotItem[] = []
+  for (const item of items) {
+    const href = canonicalHref(item.href)
+    if (seen.has(href)) continue
+    seen.add(href)
+    out.push({
+      href,
+      title: item.title,
+      slug: item.slug,
+      description: item.description || undefined,
+      ministry: item.ministry,
+      openDate: item.openDate,
+      closeDate: item.closeDate,
+    })
+  }
+  return out
+}
+
+function changeId(at: string, kind: SchemeChange["kind"], href: string) {
+  return createHash("sha1").update(`${at}|${kind}|${href}`).digest("hex").slice(0, 16)
+}
+
+// What changed from one snapshot to the next: additions in listing order, then modifications, then
+// removals
+export function diffSnapshots(previous: SnapshotItem[], next: SnapshotItem[], at: string): SchemeChange[] {
+  const before = new Map(previous.map((i) => [i.href, i]))
+  const after = new Set(next.map((i) => i.href))
+  const change = (kind: SchemeChange["kind"], item: SnapshotItem, fields?: SchemeChange["fields"]): SchemeChange => ({
+    id: changeId(at, kind, item.href),
+    at,
+    kind,
+    href: item.href,
+    title: item.title,
+    slug: item.slug,
+    ...(fields ? { fields } : {}),
+  })
+
+  const added = next.filter((i) => !before.has(i.href)).map((i) => change("added", i))
+  const modified = next.flatMap((i) => {
+    const old = before.get(i.href)
+    if (!old) return []
+    const fields = TRACKED_FIELDS.filter((f) => (old[f] ?? "") !== (i[f] ?? ""))
+    return fields.length ? [change("modified", i, fields)] : []
+  })
+  const removed = previous.filter((i) => !after.has(i.href)).map((i) => change("removed", i))
+  return [...added, ...modified, ...removed]
+}
+
+// Record a new snapshot for a region. The first snapshot is the baseline and records no changes,
+// otherwise every scheme would show up as new.
+export function applySnapshot(
+  current: RegionChanges | undefined,
+  region: { state: string; district: string },
+  items: SnapshotItem[],
+  at: string,
+): { region: RegionChanges; changes: SchemeChange[] } {
+  const changes = current ? diffSnapshots(current.items, items, at) : []
+  return {
+    region: {
+      ...region,
+      snapshotAt: at,
+      items,
+      changes: [...changes, ...(current?.changes ?? [])].slice(0, MAX_CHANGES),
+    },
+    changes,
+  }
+}
+
+function storeFile() {
+  return path.resolve(process.cwd(), process.env.CHANGES_FILE || path.join(".data", "changes.json"))
+}
+
+let memo: { file: string; mtimeMs: number; store: ChangesStore } | null = null
+
+// Re-read only when the file changed; a missing file means nothing is tracked yet, an unreadable one
+// is logged and treated the same
+export async function loadChanges(): Promise<ChangesStore> {
+  const file = storeFile()
+  try {
+    const { mtimeMs } = await stat(file)
+    if (memo?.file === file && memo.mtimeMs === mtimeMs) return memo.store
+    const store = ChangesStoreSchema.parse(JSON.parse(await readFile(file, "utf8")))
+    memo = { file, mtimeMs, store }
+    return store
+  } catch (err: any) {
+    if (err?.code !== "ENOENT") log.error("changes.unreadable", { file, ...errorFields(err) })
+    return memo?.file === file ? memo.store : EMPTY_STORE
+  }
+}
+
+export async function changesFor(state: string, district: string): Promise<RegionChanges | null> {
+  return (await loadChanges()).regions[regionKey(state, district)] ?? null
+}
+
+// The store on disk cannot be read or does not validate, so writing over it would lose other regions
+export class ChangesStoreError extends Error {}
+
+// The store as it is on disk right now; unlike loadChanges, an unreadable file is an error
+async function readStore(file: string): Promise<ChangesStore> {
+  let text: string
+  try {
+    text = await readFile(file, "utf8")
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return EMPTY_STORE
+    throw new ChangesStoreError(`${file}: ${err?.message ?? "unreadable"}`)
+  }
+  try {
+    return ChangesStoreSchema.parse(JSON.parse(text))
+  } catch (err: any) {
+    throw new ChangesStoreError(`${file}: not a valid changes store (${err?.message ?? "invalid"})`)
+  }
+}
+
+let writes: Promise<unknown> = Promise.resolve()
+
+// Read-modify-write of one region, serialized, and written through a temporary file so the server
+// never reads a half-written store. `update` sees the region as stored on disk; a store that does not
+// parse rejects with ChangesStoreError and is left as it is.
+function updateRegion<T>(key: string, update: (current: RegionChanges | undefined) => T & { region: RegionChanges }) {
+  const next = writes.then(async () => {
+    const file = storeFile()
+    const current = await readStore(file)
+    const result = update(current.regions[key])
+    const store: ChangesStore = { version: 1, regions: { ...current.regions, [key]: result.region } }
+    await mkdir(path.dirname(file), { recursive: true })
+    const tmp = `${file}.${process.pid}.tmp`
+    await writeFile(tmp, `${JSON.stringify(store, null, 2)}\n`)
+    await rename(tmp, file)
+    memo = null
+    return result
+  })
+  writes = next.catch(() => undefined)
+  return next
+}
+
+export type SnapshotResult =
+  | { region: string; status: "baseline" | "recorded"; count: number; changes: SchemeChange[] }
+  | { region: string; status: "skipped"; reason: string }
+
+// Snapshot one region now. A listing the live sources failed to answer is skipped rather than
+// recorded, so an upstream outage does not show up as every scraped scheme being removed.
+export async function snapshotRegion(state: string, district: string): Promise<SnapshotResult> {
+  const key = regionKey(state, district)
+  const { value, items } = await getListing(state, district, DEFAULT_LOCALE)
+  if (upstreamFailed(value)) {
+    log.warn("changes.skipped", { region: key, reason: "upstream failed" })
+    return { region: key, status: "skipped", reason: "live sources failed" }
+  }
+  const at = new Date().toISOString()
+  const { region, changes, baseline } = await updateRegion(key, (current) => ({
+    ...applySnapshot(current, { state, district }, snapshotItems(items), at),
+    baseline: !current,
+  }))
+  log.info("changes.snapshot", { region: key, count: region.items.length, changes: changes.length })
+  return { region: key, status: baseline ? "baseline" : "recorded", count: region.items.length, changes }
+}
+
+// "Maharashtra/Nagpur,Karnataka" -> canonical regions; unknown entries are logged and left out
+export function trackedRegions(spec = process.env.CHANGE_FEED_REGIONS || ""): { state: string; district: string }[] {
+  return spec
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const [state, district = ""] = entry.split("/").map((s) => s.trim())
+      const match = resolveRegion(state, district)
+      if (!match || (district && !match.district)) {
+        log.warn("changes.unknown_region", { region: entry })
+        return []
+      }
+      return [{ state: match.state, district: match.district ?? "" }]
+    })
+}
@@ -0,0 +1,186 @@
+// Parse a myScheme scheme page (/schemes/<slug>) into structured sections.
+// Prefers the __NEXT_DATA__ payload and falls back to headings in the rendered HTML.
+
+import { load as loadHTML } from "cheerio"
+import { extractNextDataFromHtml, fetchText, localePrefix, mySchemeLocale, MYSCHEME_ORIGIN } from "./myscheme"
+
+export type SchemeFaq = { question: string; answer: string }
+
+export type SchemeDetail = {
+  slug: string
+  title: string
+  description?: string
+  url: string
+  benefits: string[]
+  eligibility: string[]
+  documents: string[]
+  application: string[]
+  faqs: SchemeFaq[]
+  // Set when the page was read in a language other than English
+  lang?: string
+}
+
+type ListSection = "benefits" | "eligibility" | "documents" | "application"
+
+// Key names (in __NEXT_DATA__) and heading texts (in HTML, English or Hindi) that identify each section.
+const SECTION_PATTERNS: Record<ListSection, RegExp> = {
+  benefits: /^(benefits?|लाभ)$/i,
+  eligibility: /^(eligibility(_?criteria)?|पात्रता)$/i,
+  documents: /^(documents?[_ ]?required|documents?|आवश्यक दस्तावेज़?)$/i,
+  application: /^(application[_ ]?process|how[_ ]?to[_ ]?apply|आवेदन प्रक्रिया)$/i,
+}
+const FAQ_PATTERN = /^(faqs?|frequently asked questions|अक्सर पूछे जाने वाले प्रश्न)$/i
+
+export function schemeUrl(slug: string, lang?: string | null) {
+  return `${MYSCHEME_ORIGIN}${localePrefix(lang)}/schemes/${slug}`
+}
+
+function clean(text: string) {
+  return text.replace(/\s+/g, " ").trim()
+}
+
+// Flatten rich-text JSON (strings, {text}, {children}, arrays) into one string per block.
+function richTextToLines(value: any): string[] {
+  if (value == null) return []
+  if (typeof value === "string") {
+    return value
+      .split(/\n+/)
+      .map(clean)
+      .filter(Boolean)
+  }
+  if (Array.isArray(value)) return value.flatMap(richTextToLines)
+  if (typeof value === "object") {
+    if (typeof value.text === "string" && !value.children) return richTextToLines(value.text)
+    if (Array.isArray(value.children)) {
+      // A block whose children are all leaves is one line; nested blocks (lists) expand further
+      const leaves = value.children.every((c: any) => c && typeof c === "object" && typeof c.text === "string")
+      if (leaves) {
+        const line = clean(value.children.map((c: any) => c.text).join(""))
+        return line ? [line] : []
+      }
+      return richTextToLines(value.children)
+    }
+    return Object.values(value).flatMap(richTextToLines)
+  }
+  return []
+}
+
+// Depth-first search for the first key matching `pattern` with a non-empty value.
+function findByKey(data: any, pattern: RegExp): any {
+  const visited = new Set<any>()
+  const stack: any[] = [data]
+  while (stack.length) {
+    const cur = stack.pop()
+    if (!cur || typeof cur !== "object" || visited.has(cur)) continue
+    visited.add(cur)
+    for (const k of Object.keys(cur)) {
+      const v = cur[k]
+      if (pattern.test(k) && v && (typeof v !== "object" || Object.keys(v).length)) return v
+      if (v && typeof v === "object") stack.push(v)
+    }
+  }
+  return undefined
+}
+
+function faqsFromJson(value: any): SchemeFaq[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map((f: any) => ({
+      question: clean(richTextToLines(f?.question ?? f?.q ?? f?.title).join(" ")),
+      answer: clean(richTextToLines(f?.answer ?? f?.a ?? f?.content).join(" ")),
+    }))
+    .filter((f) => f.question && f.answer)
+}
+
+function parseNextData(data: any, slug: string): SchemeDetail | null {
+  const title = clean(String(findByKey(data, /^(schemeName|scheme_name|title)$/) ?? ""))
+  if (!title) return null
+  const detail: SchemeDetail = {
+    slug,
+    title,
+    description: clean(richTextToLines(findByKey(data, /^(briefDescription|brief_description|description)$/)).join(" ")) || undefined,
+    url: schemeUrl(slug),
+    benefits: [],
+    eligibility: [],
+    documents: [],
+    application: [],
+    faqs: faqsFromJson(findByKey(data, /^faqs?$/i)),
+  }
+  for (const [section, pattern] of Object.entries(SECTION_PATTERNS) as [ListSection, RegExp][]) {
+    detail[section] = richTextToLines(findByKey(data, pattern))
+  }
+  return detail
+}
+
+function parseHtml(html: string, slug: string): SchemeDetail | null {
+  const $ = loadHTML(html)
+  const title = clean($("h1").first().text())
+  if (!title) return null
+  const detail: SchemeDetail = {
+    slug,
+    title,
+    description: clean($("h1").first().nextAll("p").first().text()) || undefined,
+    url: schemeUrl(slug),
+    benefits: [],
+    eligibility: [],
+    documents: [],
+    application: [],
+    faqs: [],
+  }
+
+  $("h2, h3, h4").each((_, el) => {
+    const heading = clean($(el).text())
+    const lines: string[] = []
+    const dts: string[] = []
+    // Collect content until the next heading of any level
+    let node = $(el).next()
+    while (node.length && !node.is("h1, h2, h3, h4")) {
+      const lis = node.is("li") ? node : node.find("li")
+      if (lis.length) {
+        lis.each((_, li) => {
+          lines.push(clean($(li).text()))
+        })
+      } else if (node.is("dt, summary, button")) {
+        dts.push(clean(node.text()))
+      } else if (clean(node.text())) {
+        lines.push(clean(node.text()))
+      }
+      node = node.next()
+    }
+
+    if (FAQ_PATTERN.test(heading)) {
+      // FAQ blocks are usually question/answer pairs in document order
+      const qs = dts.length ? dts : lines.filter((_, i) => i % 2 === 0)
+      const as = dts.length ? lines : lines.filter((_, i) => i % 2 === 1)
+      detail.faqs = qs.map((q, i) => ({ question: q, answer: as[i] ?? "" })).filter((f) => f.question && f.answer)
+      return
+    }
+    for (const [section, pattern] of Object.entries(SECTION_PATTERNS) as [ListSection, RegExp][]) {
+      if (pattern.test(heading) && !detail[section].length) detail[section] = lines.filter(Boolean)
+    }
+  })
+  return detail
+}
+
+export function hasSections(d: SchemeDetail) {
+  return Boolean(d.benefits.length || d.eligibility.length || d.documents.length || d.application.length || d.faqs.length)
+}
+
+export function parseSchemePage(html: string, slug: string): SchemeDetail | null {
+  const nextData = extractNextDataFromHtml(html)
+  const fromJson = nextData ? parseNextData(nextData, slug) : null
+  if (fromJson && hasSections(fromJson)) return fromJson
+  return parseHtml(html, slug) ?? fromJson
+}
+
+// Reads the localized page when myScheme publishes one, falling back to the English page.
+export async function fetchSchemeDetail(slug: string, lang?: string): Promise<SchemeDetail | null> {
+  const locale = mySchemeLocale(lang)
+  if (locale) {
+    // Not every scheme has a localized page; any failure here falls through to English
+    const html = await fetchText(schemeUrl(slug, locale)).catch(() => null)
+    const detail = html ? parseSchemePage(html, slug) : null
+    if (detail && hasSections(detail)) return { ...detail, url: schemeUrl(slug, locale), lang: locale }
+  }
+  return parseSchemePage(await fetchText(schemeUrl(slug)), slug)
+}
@@ -0,0 +1,193 @@
+// Helpers for reading public myscheme.gov.in pages (no private API).
+// This is best-effort and may need updates if site markup changes; `pnpm canary` reports when it does.
+
+import { requestBudgetMs, UpstreamError, upstreamFetch } from "@/lib/http/client"
+import { categoriesOf } from "./categories"
+import { normalizeItems, type SchemeCandidate } from "./normalize"
+import { replayDir, replayText } from "./replay"
+import { SCHEME_LEVELS, type SchemeLevel } from "./schema"
+import { MYSCHEME_ORIGIN } from "./slug"
+import type { SchemeItem } from "./types"
+
+export { MYSCHEME_ORIGIN }
+
+// Languages myScheme publishes pages in, under a path prefix (/hi/search, /hi/schemes/<slug>).
+// English pages have no prefix.
+export const MYSCHEME_LOCALES = ["hi"] as const
+
+export function mySchemeLocale(lang?: string | null): (typeof MYSCHEME_LOCALES)[number] | null {
+  return MYSCHEME_LOCALES.find((l) => l === lang) ?? null
+}
+
+export function localePrefix(lang?: string | null) {
+  const l = mySchemeLocale(lang)
+  return l ? `/${l}` : ""
+}
+
+// Build a myScheme search URL for graceful fallback and deep-linking.
+export function searchUrl(q: string, lang?: string | null) {
+  const u = new URL(`${MYSCHEME_ORIGIN}${localePrefix(lang)}/search`)
+  u.searchParams.set("q", q)
+  return u.toString()
+}
+
+// Extract Next.js buildId from homepage __NEXT_DATA__
+export async function getBuildId(): Promise<string | null> {
+  try {
+    const res = await upstreamFetch(`${MYSCHEME_ORIGIN}/`, {
+      headers: { Accept: "text/html,application/xhtml+xml", "Accept-Language": "en-US,en;q=0.9" },
+    })
+    if (!res.ok) return null
+    const html = await res.text()
+    const json = extractNextDataFromHtml(html)
+    return json?.buildId ?? null
+  } catch {
+    return null
+  }
+}
+
+// Pages fetched in the last 30 seconds, so providers parsing the same search page in turn share one
+// request instead of each loading it
+const RECENT_PAGE_MS = 30_000
+const recentPages = new Map<string, { at: number; html: Promise<string> }>()
+
+// A page was fetched but does not have the structure the parsers expect (markup changed, error page)
+export class PageParseError extends Error {}
+
+async function loadText(url: string, signal?: AbortSignal): Promise<string> {
+  const res = await upstreamFetch(url, {
+    headers: {
+      Accept: "text/html,application/xhtml+xml,application/json",
+      "Accept-Language": "en-US,en;q=0.9",
+    },
+    signal,
+  })
+  if (!res.ok) {
+    await res.body?.cancel()
+    const host = new URL(url).host
+    throw new UpstreamError(`${host}: HTTP ${res.status}`, "http", host, res.status)
+  }
+  return res.text()
+}
+
+// Providers that load a page with fetchText give it this long, so the client's retry can finish
+export const PAGE_TIMEOUT_MS = requestBudgetMs(new URL(MYSCHEME_ORIGIN).host)
+
+// Page text through the shared upstream client (rate limits, retries, circuit breaker). Rejects with
+// UpstreamError when the page could not be loaded, so callers can tell a failed fetch from an empty page.
+export async function fetchText(url: string, signal?: AbortSignal): Promise<string> {
+  // Saved pages stand in for the live site in replay mode (see ./replay)
+  const replay = replayDir()
+  if (replay) {
+    const text = await replayText(replay, url)
+    if (text === null) throw new UpstreamError(`replay: no fixture for ${url}`, "http", new URL(url).host, 404)
+    return text
+  }
+  const now = Date.now()
+  for (const [key, page] of recentPages) if (now - page.at > RECENT_PAGE_MS) recentPages.delete(key)
+  const recent = recentPages.get(url)
+  if (recent) return recent.html
+  const html = loadText(url, signal)
+  recentPages.set(url, { at: now, html })
+  // Failures are not shared; the next caller gets a fresh attempt
+  html.catch(() => recentPages.delete(url))
+  return html
+}
+
+// __NEXT_DATA__ JSON is embedded in a script tag; simple heuristic extraction
+export function extractNextDataFromHtml(html: string): any | null {
+  const m = html.match(/id="__NEXT_DATA__"[^>]*>([\s\S]*?)<\/script>/)
+  if (!m) return null
+  try {
+    return JSON.parse(m[1])
+  } catch {
+    return null
+  }
+}
+
+// Labels come as plain strings or as { label } / { name } objects
+function labelOf(value: any): string | undefined {
+  const text = typeof value === "string" ? value : value?.label || value?.name
+  return typeof text === "string" && text.trim() ? text.trim() : undefined
+}
+
+function labelsOf(value: any): string[] {
+  const list = Array.isArray(value) ? value : value ? [value] : []
+  return Array.from(new Set(list.map(labelOf).filter((l): l is string => Boolean(l))))
+}
+
+// ISO (2026-03-31, with or without a time) and Indian day-first (31/03/2026, 31-03-2026) dates
+export function isoDate(value: any): string | undefined {
+  const text = typeof value === "string" ? value.trim() : ""
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/)
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, "0")}-${dmy[1].padStart(2, "0")}`
+  return undefined
+}
+
+function levelOf(value: any): SchemeLevel | undefined {
+  const l = labelOf(value)?.toLowerCase()
+  return SCHEME_LEVELS.find((level) => level === l || `${level} government` === l)
+}
+
+// Scheme records name the scheme (title, name or myScheme's schemeName) and link to it
+function looksLikeScheme(obj: any) {
+  return Boolean((obj.title || obj.name || obj.schemeName) && (obj.slug || obj.path || obj.url))
+}
+
+function hrefOf(obj: any): string {
+  const link = (obj.slug || obj.path || obj.url || "").toString().trim()
+  if (link.startsWith("http")) return link
+  if (/^\/?schemes?\//.test(link)) return `/${link.replace(/^\/+/, "")}`
+  // myScheme's own records carry a bare slug; elsewhere a bare slug is a category or filter
+  if (obj.schemeName && /^[a-z0-9][a-z0-9-]*$/i.test(link)) return `/schemes/${link}`
+  return ""
+}
+
+// Raw candidates go through ./normalize: canonical links, no navigation entries, scored and deduped.
+// Optional fields are filled from whichever of the known key names the payload uses.
+export function collectSchemeItemsFromUnknownJson(data: any, sourceUrl: string): SchemeItem[] {
+  const items: SchemeCandidate[] = []
+  const visited = new Set<any>()
+  const stack: any[] = [data]
+
+  const pushItem = (obj: any) => {
+    const title = (obj.schemeName || obj.title || obj.name || "").toString().trim()
+    const href = hrefOf(obj)
+    if (!title || !href) return
+    const description =
+      (obj.description || obj.briefDescription || obj.excerpt || obj.summary || "").toString().trim() || undefined
+    const categories = Array.from(new Set(labelsOf(obj.schemeCategory ?? obj.categories ?? obj.category).flatMap(categoriesOf)))
+    const tags = labelsOf(obj.tags)
+    const beneficiaryTypes = labelsOf(obj.beneficiaryTypes ?? obj.beneficiaryType ?? obj.targetBeneficiaries)
+    items.push({
+      title,
+      href,
+      description,
+      sourceUrl,
+      level: levelOf(obj.level ?? obj.schemeLevel),
+      ministry: labelOf(obj.ministry ?? obj.nodalMinistryName ?? obj.ministryName ?? obj.nodalDepartmentName),
+      categories: categories.length ? categories : undefined,
+      tags: tags.length ? tags : undefined,
+      beneficiaryTypes: beneficiaryTypes.length ? beneficiaryTypes : undefined,
+      openDate: isoDate(obj.openDate ?? obj.schemeOpenDate ?? obj.startDate),
+      closeDate: isoDate(obj.closeDate ?? obj.schemeCloseDate ?? obj.endDate ?? obj.lastDate),
+    })
+  }
+
+  while (stack.length) {
+    const cur = stack.pop()
+    if (!cur || typeof cur !== "object" || visited.has(cur)) continue
+    visited.add(cur)
+    const children = Array.isArray(cur) ? cur : Object.values(cur)
+    for (const v of children) {
+      if (v && typeof v === "object") {
+        if (!Array.isArray(v) && looksLikeScheme(v)) pushItem(v)
+        stack.push(v)
+      }
+    }
+  }
+
+  return normalizeItems(items)
+}
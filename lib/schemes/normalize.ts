@@ -0,0 +1,163 @@
+// Cleanup for scraped scheme candidates: canonical links, navigation chrome filtering, a confidence
+// score per item and merging of near-duplicates. Both myScheme parsers and the provider merge use it.
+
+import { similarity } from "@/lib/gazetteer"
+import { absoluteUrl, isValidSlug } from "./slug"
+import type { SchemeItem } from "./types"
+
+// What a parser extracts before normalization; IDs and canonical URLs are assigned here
+export type SchemeCandidate = Omit<SchemeItem, "id" | "source" | "canonicalUrl"> &
+  Partial<Pick<SchemeItem, "id" | "source" | "canonicalUrl">>
+
+// Candidates scoring below this are dropped; a scheme page link with a plausible title passes alone.
+export const MIN_SCORE = 0.3
+
+const MYSCHEME_ORIGIN_RE = /^https?:\/\/(www\.)?myscheme\.gov\.in/i
+
+// Pages under /schemes that list or filter schemes rather than describe one
+const NON_SCHEME_SLUGS = new Set(["all", "search", "category", "categories", "state", "central", "page", "filter"])
+
+// Link texts of menus, pagers and call-to-action buttons, in English and Hindi
+const CHROME_TITLES = [
+  "home",
+  "about( us)?",
+  "faqs?",
+  "contact( us)?",
+  "log ?in",
+  "sign ?in",
+  "help",
+  "back",
+  "more",
+  "details",
+  "(read|know|learn) more",
+  "apply( now)?",
+  "(view|see|show|browse|explore) (all|more)( schemes)?",
+  "(all )?schemes",
+  "होम",
+  "और (देखें|पढ़ें)",
+  "(सभी )?योजना(एं|एँ)",
+]
+const CHROME_TITLE_RE = new RegExp(`^(${CHROME_TITLES.join("|")})$`, "i")
+
+// A malformed escape ("abc%zz") in a scraped link stays as written instead of failing the whole parse
+function decodeSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+// myScheme scheme pages become "/schemes/<slug>" whatever the host, language prefix, case, query or
+// trailing slash; other links only lose a trailing slash.
+export function canonicalHref(href: string): string {
+  const trimmed = href.trim()
+  const local = trimmed.replace(MYSCHEME_ORIGIN_RE, "")
+  if (!/^https?:/i.test(local)) {
+    const path = `/${local.split(/[?#]/)[0].replace(/\/{2,}/g, "/").replace(/^\/+|\/+$/g, "")}`
+    const m = path.match(/^(?:\/[a-z]{2})?\/schemes?(?:\/([^/]+))?$/i)
+    if (m) return m[1] ? `/schemes/${decodeSegment(m[1]).toLowerCase()}` : "/schemes"
+  }
+  return trimmed.replace(/([^/:])\/+($|[?#])/, "$1$2")
+}
+
+export function schemeSlugOf(href: string): string | null {
+  const m = canonicalHref(href).match(/^\/schemes\/([^/]+)$/)
+  // Anything but a well-formed slug (e.g. a malformed escape left undecoded) is not a scheme page
+  return m && isValidSlug(m[1]) && !NON_SCHEME_SLUGS.has(m[1]) ? m[1] : null
+}
+
+// Letters in any script count, so translated titles do not all collapse to the same key.
+// A trailing abbreviation in brackets ("... Nidhi (PM-KISAN)") is not part of the key; "(Urban)" is.
+export function titleKey(title: string) {
+  return title
+    .replace(/\s*[([][A-Z0-9][A-Z0-9 .&/-]{1,19}[)\]]\s*$/, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .trim()
+}
+
+export function isNavChrome(item: Pick<SchemeCandidate, "title" | "href">) {
+  const title = item.title.replace(/\s+/g, " ").trim()
+  if (title.length < 3 || CHROME_TITLE_RE.test(title.replace(/[\s.:›»→>]+$/, ""))) return true
+  const href = canonicalHref(item.href)
+  return href === "/schemes" || (href.startsWith("/schemes/") && !schemeSlugOf(href))
+}
+
+// Confidence in [0, 1] that a candidate is a real scheme listing, from what it carries.
+export function scoreItem(item: SchemeCandidate): number {
+  const words = item.title.trim().split(/\s+/).length
+  let score = 0
+  if (schemeSlugOf(item.href)) score += 0.4
+  if ((item.description?.length ?? 0) >= 20) score += 0.2
+  if (item.ministry) score += 0.15
+  if (item.tags?.length || item.categories?.length) score += 0.1
+  if (words >= 2 && words <= 25 && item.title.length <= 200) score += 0.15
+  return Math.round(score * 100) / 100
+}
+
+function sameScheme(a: SchemeCandidate, b: SchemeCandidate) {
+  if (a.href === b.href) return true
+  const ka = titleKey(a.title)
+  const kb = titleKey(b.title)
+  if (ka === kb) return true
+  // Near-identical titles ("Yojana" vs "Yojna", a dropped hyphen) only count when both are long enough
+  return Math.min(ka.length, kb.length) >= 12 && similarity(ka, kb) >= 0.92
+}
+
+// Curated entries outrank any scraped copy; scraped copies compete on score
+function rank(item: SchemeCandidate) {
+  return item.source === "curated" ? 2 : (item.score ?? 0)
+}
+
+// Merge duplicates in place of their first occurrence: the higher-ranked copy wins and gaps in it are
+// filled from the other, including a scheme page link where it only has a search link.
+export function dedupeItems<T extends SchemeCandidate>(items: T[]): T[] {
+  const out: T[] = []
+  for (const item of items) {
+    const i = out.findIndex((o) => sameScheme(o, item))
+    if (i < 0) {
+      out.push(item)
+      continue
+    }
+    const [best, other] = rank(item) > rank(out[i]) ? [item, out[i]] : [out[i], item]
+    const pageLink = !schemeSlugOf(best.href) && schemeSlugOf(other.href)
+    const merged: T = {
+      ...best,
+      href: pageLink ? other.href : best.href,
+      canonicalUrl: pageLink ? other.canonicalUrl : best.canonicalUrl,
+      slug: best.slug ?? other.slug,
+      description: best.description ?? other.description,
+      ministry: best.ministry ?? other.ministry,
+      level: best.level ?? other.level,
+      categories: best.categories?.length ? best.categories : other.categories,
+      tags: best.tags?.length ? best.tags : other.tags,
+      beneficiaryTypes: best.beneficiaryTypes?.length ? best.beneficiaryTypes : other.beneficiaryTypes,
+      openDate: best.openDate ?? other.openDate,
+      closeDate: best.closeDate ?? other.closeDate,
+      documents: best.documents?.length ? best.documents : other.documents,
+    }
+    out[i] = best.source === "curated" ? merged : { ...merged, score: scoreItem(merged) }
+  }
+  return out
+}
+
+// Canonicalize, drop chrome and weak candidates, score and dedupe a parser's raw output.
+export function normalizeItems(items: SchemeCandidate[]): SchemeItem[] {
+  const scored = items
+    .map((item) => ({ ...item, title: item.title.replace(/\s+/g, " ").trim(), href: canonicalHref(item.href) }))
+    .filter((item) => !isNavChrome(item))
+    .map((item): SchemeItem => {
+      const slug = schemeSlugOf(item.href) ?? undefined
+      return {
+        ...item,
+        id: slug ? `myscheme:${slug}` : `myscheme:${item.href}`,
+        source: "myscheme",
+        canonicalUrl: absoluteUrl(item.href),
+        slug,
+        score: scoreItem(item),
+      }
+    })
+    .filter((item) => item.score! >= MIN_SCORE)
+  return dedupeItems(scored)
+}
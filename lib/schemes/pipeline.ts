@@ -0,0 +1,131 @@
+// Scheme lookup for a region (optionally narrowed by a keyword): runs the providers, caches the
+// assembled response and feeds scraped listings into the search index.
+
+import { applyOverrides, overridesFor } from "@/lib/admin/overrides"
+import { cached, envSeconds } from "@/lib/cache"
+import { DEFAULT_LOCALE, translate, type Locale } from "@/lib/i18n"
+import { log } from "@/lib/log"
+import { CATALOG_VERSION } from "./catalog"
+import { searchUrl } from "./myscheme"
+import { runProviders } from "./providers"
+import { SCHEME_ITEM_VERSION, SchemeItemSchema } from "./schema"
+import { indexItems } from "./search"
+import { FAILED_OUTCOMES, type ProviderAttempt, type SchemeItem } from "./types"
+
+export type SchemesPayload = {
+  items: SchemeItem[]
+  sourceUrl: string
+  note?: string
+  provider: string | null
+  attempts: ProviderAttempt[]
+  catalogVersion?: string
+  lang: Locale
+}
+
+// Defaults: fresh for 6 hours, then served stale (while refreshing) for up to a week.
+const SCHEMES_CACHE = {
+  ttlMs: envSeconds("SCHEMES_CACHE_TTL", 6 * 60 * 60),
+  staleMs: envSeconds("SCHEMES_CACHE_STALE", 7 * 24 * 60 * 60),
+  // Only cache answers from a live provider; curated-only fallbacks should retry the live sources
+  shouldCache: (p: SchemesPayload) => p.provider !== null,
+}
+
+// Keyword results go stale faster than region listings and are only worth a day as a fallback.
+const KEYWORD_CACHE = {
+  ttlMs: envSeconds("SEARCH_CACHE_TTL", 60 * 60),
+  staleMs: envSeconds("SEARCH_CACHE_STALE", 24 * 60 * 60),
+  shouldCache: (p: SchemesPayload) => p.provider !== null,
+}
+
+function hrefOf(item: unknown): string | undefined {
+  return item && typeof item === "object" && "href" in item && typeof item.href === "string" ? item.href : undefined
+}
+
+// Items failing the schema are dropped (and logged) rather than failing the whole response.
+// Lives here rather than in ./schema, which client components import and must stay free of lib/log.
+export function validItems(items: unknown[]): SchemeItem[] {
+  const out: SchemeItem[] = []
+  for (const item of items) {
+    const parsed = SchemeItemSchema.safeParse(item)
+    if (parsed.success) out.push(parsed.data)
+    else log.warn("schema.item_dropped", { href: hrefOf(item), issue: parsed.error.issues[0]?.message })
+  }
+  return out
+}
+
+// Cache keys carry the item version, so entries cached in an older item shape are never served.
+export function regionKey(state: string, district: string) {
+  const norm = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim()
+  return `v${SCHEME_ITEM_VERSION}|${norm(state)}|${norm(district)}`
+}
+
+export async function resolveSchemes(
+  state: string,
+  district: string,
+  lang: Locale = DEFAULT_LOCALE,
+  keyword = "",
+): Promise<SchemesPayload> {
+  const region = district ? `${state} ${district}` : state
+  const query = keyword ? `${keyword} ${region}` : region
+  const sourceUrl = searchUrl(query, lang)
+
+  const { items, note, provider, attempts } = await runProviders({ state, district, query, lang })
+  log.info("schemes.resolved", { query, lang, provider, count: items.length })
+
+  if (items.length) {
+    return {
+      items,
+      sourceUrl,
+      note: note ?? (provider ? undefined : translate(lang, "notes.curatedOnly")),
+      provider,
+      attempts,
+      catalogVersion: CATALOG_VERSION,
+      lang,
+    }
+  }
+
+  // Graceful degradation
+  log.warn("schemes.degraded", { query, lang, outcomes: attempts.map((a) => `${a.provider}:${a.outcome}`) })
+  return {
+    items: [],
+    sourceUrl,
+    provider: null,
+    attempts,
+    note: translate(lang, "notes.degraded"),
+    lang,
+  }
+}
+
+// No live source answered and at least one of them failed, rather than finding nothing: the listing
+// is curated-only (or empty) because an upstream is broken
+export function upstreamFailed(payload: Pick<SchemesPayload, "provider" | "attempts">) {
+  return payload.provider === null && payload.attempts.some((a) => FAILED_OUTCOMES.includes(a.outcome))
+}
+
+// Cached results are re-indexed on every read so the index refills after a restart from the file cache.
+export async function getSchemes(state: string, district: string, lang: Locale = DEFAULT_LOCALE) {
+  const result = await cached("schemes", `${regionKey(state, district)}|${lang}`, SCHEMES_CACHE, () =>
+    resolveSchemes(state, district, lang),
+  )
+  indexItems(state, district, lang, result.value.items)
+  return result
+}
+
+// What users see for a region: the cached listing with operator overrides from /admin applied on top
+export async function getListing(state: string, district: string, lang: Locale = DEFAULT_LOCALE) {
+  const result = await getSchemes(state, district, lang)
+  const overrides = await overridesFor(state, district)
+  return { ...result, items: validItems(applyOverrides(result.value.items, overrides, { lang })) }
+}
+
+export async function getKeywordSchemes(
+  state: string,
+  district: string,
+  keyword: string,
+  lang: Locale = DEFAULT_LOCALE,
+) {
+  const key = `${regionKey(state, district)}|${lang}|${keyword.toLowerCase().replace(/\s+/g, " ").trim()}`
+  const result = await cached("scheme-search", key, KEYWORD_CACHE, () => resolveSchemes(state, district, lang, keyword))
+  indexItems(state, district, lang, result.value.items)
+  return result
+}
@@ -0,0 +1,15 @@
+// Provider: hand-curated offline catalog (see lib/schemes/catalog.ts), merged into every response.
+
+import { catalogFor } from "../catalog"
+import type { SchemeProvider } from "../types"
+
+export const curatedProvider: SchemeProvider = {
+  name: "curated",
+  priority: 0,
+  timeoutMs: 1000,
+  mode: "supplemental",
+  async search({ state, district, lang }) {
+    const items = catalogFor(state, district, lang)
+    return items.length ? { items } : null
+  },
+}
@@ -0,0 +1,47 @@
+// Provider: fall back to scheme anchors in the rendered myScheme search page.
+
+import { load as loadHTML } from "cheerio"
+import { fetchText, mySchemeLocale, PAGE_TIMEOUT_MS, searchUrl } from "../myscheme"
+import { normalizeItems, type SchemeCandidate } from "../normalize"
+import type { SchemeItem, SchemeProvider } from "../types"
+
+const SCHEME_LINKS = 'a[href*="/scheme"]'
+
+// Scheme anchors outside the page's menus. Raw candidates go through ../normalize: canonical links,
+// no "View all schemes"-style links, scored and deduped.
+export function parseSearchHtml(html: string, url: string): SchemeItem[] {
+  const $ = loadHTML(html)
+  const items: SchemeCandidate[] = []
+
+  $(SCHEME_LINKS).each((_, el) => {
+    if ($(el).closest("nav, header, footer, [role=navigation]").length) return
+    const rawHref = ($(el).attr("href") || "").trim()
+    if (!rawHref) return
+    const href = rawHref.startsWith("http") ? rawHref : `/${rawHref.replace(/^\/+/, "")}`
+    const title = ($(el).text() || "").replace(/\s+/g, " ").trim()
+    if (!title) return
+    let description = ""
+    // Only a card holding this one scheme describes it; a wrapper around many cards does not
+    const card = $(el).closest("article, li, div, section")
+    if (card.length && card.find(SCHEME_LINKS).length === 1) {
+      const para = card.find("p").first().text().replace(/\s+/g, " ").trim()
+      if (para && para.length > 20) description = para
+    }
+    items.push({ title, href, description: description || undefined, sourceUrl: url })
+  })
+
+  return normalizeItems(items)
+}
+
+export const htmlSearchProvider: SchemeProvider = {
+  name: "myscheme-html",
+  priority: 20,
+  timeoutMs: PAGE_TIMEOUT_MS,
+  async search({ query, lang }, signal) {
+    const url = searchUrl(query, lang)
+    const html = await fetchText(url, signal)
+    const locale = mySchemeLocale(lang)
+    const items = parseSearchHtml(html, url).map((i) => (locale ? { ...i, lang: locale } : i))
+    return items.length ? { items } : null
+  },
+}
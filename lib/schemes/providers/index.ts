@@ -0,0 +1,193 @@
+// Provider registry: runs scheme sources in priority order and tracks their health. Every attempt is
+// logged and counted in lib/metrics for /api/health.
+
+import { UpstreamError } from "@/lib/http/client"
+import { errorFields, log } from "@/lib/log"
+import { recordProvider } from "@/lib/metrics"
+import { processState } from "@/lib/process-state"
+import { PageParseError } from "../myscheme"
+import { dedupeItems } from "../normalize"
+import type {
+  ProviderAttempt,
+  ProviderOutcome,
+  ProviderResult,
+  SchemeItem,
+  SchemeProvider,
+  SchemeQuery,
+} from "../types"
+import { curatedProvider } from "./curated"
+import { htmlSearchProvider } from "./html-search"
+import { nextDataProvider } from "./next-data"
+
+// After this many consecutive failures a provider is skipped until the cooldown expires.
+const FAILURE_THRESHOLD = 3
+const COOLDOWN_MS = 60_000
+
+export type ProviderHealth = {
+  consecutiveFailures: number
+  // Last run that completed, with or without items
+  lastSuccessAt: number | null
+  // Last run that returned items
+  lastHitAt: number | null
+  lastFailureAt: number | null
+  lastError: string | null
+  disabledUntil: number
+}
+
+const providers: SchemeProvider[] = [curatedProvider, nextDataProvider, htmlSearchProvider]
+const health = processState("providers.health", () => new Map<string, ProviderHealth>())
+
+function healthOf(name: string): ProviderHealth {
+  let h = health.get(name)
+  if (!h) {
+    h = {
+      consecutiveFailures: 0,
+      lastSuccessAt: null,
+      lastHitAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      disabledUntil: 0,
+    }
+    health.set(name, h)
+  }
+  return h
+}
+
+export function registerProvider(provider: SchemeProvider) {
+  const i = providers.findIndex((p) => p.name === provider.name)
+  if (i >= 0) providers.splice(i, 1, provider)
+  else providers.push(provider)
+}
+
+export function listProviders() {
+  return sortedProviders().map((p) => ({
+    name: p.name,
+    priority: p.priority,
+    timeoutMs: p.timeoutMs,
+    mode: p.mode ?? "primary",
+    health: { ...healthOf(p.name) },
+  }))
+}
+
+function sortedProviders() {
+  return [...providers].sort((a, b) => a.priority - b.priority)
+}
+
+class ProviderTimeoutError extends Error {}
+
+function failureOutcome(err: unknown): ProviderOutcome {
+  if (err instanceof ProviderTimeoutError) return "timeout"
+  if (err instanceof UpstreamError) return err.kind === "timeout" ? "timeout" : "http-error"
+  if (err instanceof PageParseError) return "parse-error"
+  return "error"
+}
+
+function record(attempts: ProviderAttempt[], a: ProviderAttempt, err?: unknown) {
+  attempts.push(a)
+  recordProvider(a.provider, a.outcome, a.ms)
+  const fields = { provider: a.provider, outcome: a.outcome, ms: a.ms, count: a.count, reason: a.reason }
+  if (err) log.warn("provider.attempt", { ...fields, ...errorFields(err) })
+  else log.info("provider.attempt", fields)
+}
+
+async function runWithTimeout(provider: SchemeProvider, query: SchemeQuery): Promise<ProviderResult | null> {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort()
+      reject(new ProviderTimeoutError(`timed out after ${provider.timeoutMs}ms`))
+    }, provider.timeoutMs)
+  })
+  try {
+    return await Promise.race([provider.search(query, controller.signal), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export type ProviderRun = {
+  items: SchemeItem[]
+  note?: string
+  // The primary provider that answered, or null when only supplemental sources had items
+  provider: string | null
+  attempts: ProviderAttempt[]
+}
+
+async function attempt(
+  provider: SchemeProvider,
+  query: SchemeQuery,
+  attempts: ProviderAttempt[],
+): Promise<ProviderResult | null> {
+  const h = healthOf(provider.name)
+  if (h.disabledUntil > Date.now()) {
+    record(attempts, {
+      provider: provider.name,
+      outcome: "unhealthy",
+      ms: 0,
+      reason: `${h.consecutiveFailures} consecutive failures, last: ${h.lastError}`,
+    })
+    return null
+  }
+
+  const started = Date.now()
+  try {
+    const result = await runWithTimeout(provider, query)
+    const ms = Date.now() - started
+    h.consecutiveFailures = 0
+    h.lastSuccessAt = Date.now()
+    if (result?.items.length) {
+      h.lastHitAt = h.lastSuccessAt
+      record(attempts, { provider: provider.name, outcome: "hit", ms, count: result.items.length })
+      return result
+    }
+    record(attempts, { provider: provider.name, outcome: "empty", ms, count: 0, reason: "no items for query" })
+    return null
+  } catch (err: any) {
+    const ms = Date.now() - started
+    const reason = err?.message || "Unknown error"
+    h.consecutiveFailures += 1
+    h.lastFailureAt = Date.now()
+    h.lastError = reason
+    if (h.consecutiveFailures >= FAILURE_THRESHOLD) h.disabledUntil = Date.now() + COOLDOWN_MS
+    record(attempts, { provider: provider.name, outcome: failureOutcome(err), ms, reason }, err)
+    return null
+  }
+}
+
+// One entry per scheme across sources, at the position it first appeared. Where sources overlap the
+// higher-scored copy is kept, so curated entries (with their eligibility rules) win over scraped ones.
+function mergeItems(lists: SchemeItem[][]): SchemeItem[] {
+  return dedupeItems(lists.flat())
+}
+
+// Try each primary provider in turn until one returns items, then merge in every supplemental
+// provider's items. Every provider tried (or skipped) is recorded in `attempts` so responses can
+// explain why earlier sources did not answer.
+export async function runProviders(query: SchemeQuery): Promise<ProviderRun> {
+  const attempts: ProviderAttempt[] = []
+  const ordered = sortedProviders()
+
+  let answered: { name: string; result: ProviderResult } | null = null
+  for (const provider of ordered.filter((p) => p.mode !== "supplemental")) {
+    const result = await attempt(provider, query, attempts)
+    if (result) {
+      answered = { name: provider.name, result }
+      break
+    }
+  }
+
+  const extra: ProviderResult[] = []
+  for (const provider of ordered.filter((p) => p.mode === "supplemental")) {
+    const result = await attempt(provider, query, attempts)
+    if (result) extra.push(result)
+  }
+
+  const results = answered ? [answered.result, ...extra] : extra
+  return {
+    items: mergeItems(results.map((r) => r.items)),
+    note: results.find((r) => r.note)?.note,
+    provider: answered?.name ?? null,
+    attempts,
+  }
+}
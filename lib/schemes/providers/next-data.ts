@@ -0,0 +1,27 @@
+// Provider: parse __NEXT_DATA__ embedded in the myScheme search page (avoids /_next/data 500/403).
+
+import {
+  collectSchemeItemsFromUnknownJson,
+  extractNextDataFromHtml,
+  fetchText,
+  mySchemeLocale,
+  PAGE_TIMEOUT_MS,
+  PageParseError,
+  searchUrl,
+} from "../myscheme"
+import type { SchemeProvider } from "../types"
+
+export const nextDataProvider: SchemeProvider = {
+  name: "myscheme-next-data",
+  priority: 10,
+  timeoutMs: PAGE_TIMEOUT_MS,
+  async search({ query, lang }, signal) {
+    const url = searchUrl(query, lang)
+    const html = await fetchText(url, signal)
+    const nextData = extractNextDataFromHtml(html)
+    if (!nextData) throw new PageParseError("no __NEXT_DATA__ in search page")
+    const locale = mySchemeLocale(lang)
+    const items = collectSchemeItemsFromUnknownJson(nextData, url).map((i) => (locale ? { ...i, lang: locale } : i))
+    return items.length ? { items } : null
+  },
+}
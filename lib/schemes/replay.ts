@@ -0,0 +1,48 @@
+// Replay mode: answer myScheme page fetches from saved fixtures instead of the live site.
+// Set MYSCHEME_REPLAY to a fixture directory (e.g. tests/fixtures/myscheme) to develop and test
+// offline. The directory's manifest.json maps page URLs to files; an exact URL match wins, otherwise
+// a fixture with the same path answers, so every region's search replays the saved search page.
+
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { errorFields, log } from "@/lib/log"
+
+export type FixturePage = {
+  file: string
+  url: string
+  // search: a search results page; scheme: a /schemes/<slug> page
+  kind: "search" | "scheme"
+}
+
+export type FixtureManifest = { pages: FixturePage[] }
+
+export function replayDir(): string | null {
+  const dir = process.env.MYSCHEME_REPLAY
+  return dir ? path.resolve(process.cwd(), dir) : null
+}
+
+export async function loadManifest(dir: string): Promise<FixtureManifest> {
+  return JSON.parse(await readFile(path.join(dir, "manifest.json"), "utf8"))
+}
+
+export function findFixture(manifest: FixtureManifest, url: string): FixturePage | null {
+  const exact = manifest.pages.find((p) => p.url === url)
+  if (exact) return exact
+  const pathname = new URL(url).pathname
+  return manifest.pages.find((p) => new URL(p.url).pathname === pathname) ?? null
+}
+
+// Null for unknown pages, like a failed live fetch.
+export async function replayText(dir: string, url: string): Promise<string | null> {
+  try {
+    const page = findFixture(await loadManifest(dir), url)
+    if (!page) {
+      log.warn("replay.no_fixture", { url })
+      return null
+    }
+    return await readFile(path.join(dir, page.file), "utf8")
+  } catch (e: any) {
+    log.error("replay.unreadable", { dir, ...errorFields(e) })
+    return null
+  }
+}
@@ -0,0 +1,55 @@
+// The scheme listing model shared by the server (providers, catalog, API routes) and the client.
+// Kept free of server imports so client components can use it.
+
+import { z } from "zod"
+import { EligibilityCriteriaSchema } from "@/lib/eligibility"
+import { LOCALES } from "@/lib/i18n"
+import { SCHEME_CATEGORIES } from "./categories"
+
+// Bump when the item shape changes so cached responses in the old shape are not served.
+export const SCHEME_ITEM_VERSION = 4
+
+export const SCHEME_LEVELS = ["central", "state"] as const
+export const SCHEME_SOURCES = ["curated", "myscheme"] as const
+// How applications are made: on a portal, at an office/CSC/bank, or either
+export const APPLY_MODES = ["online", "offline", "both"] as const
+
+export type SchemeLevel = (typeof SCHEME_LEVELS)[number]
+export type ApplyMode = (typeof APPLY_MODES)[number]
+
+export const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+export const SchemeItemSchema = z.object({
+  // Catalog ID for curated entries; "myscheme:<slug>" (or the canonical URL) for scraped ones
+  id: z.string().min(1),
+  source: z.enum(SCHEME_SOURCES),
+  title: z.string().min(1),
+  // Site-relative ("/schemes/<slug>") for myScheme pages, absolute otherwise
+  href: z.string().min(1),
+  canonicalUrl: z.string().url(),
+  slug: z.string().optional(),
+  description: z.string().optional(),
+  sourceUrl: z.string().optional(),
+  level: z.enum(SCHEME_LEVELS).optional(),
+  // Nodal ministry, or the department for state schemes
+  ministry: z.string().optional(),
+  // Headline benefit in a few words ("₹6,000 a year"), from the curated catalog
+  benefit: z.string().optional(),
+  applyMode: z.enum(APPLY_MODES).optional(),
+  categories: z.array(z.enum(SCHEME_CATEGORIES)).optional(),
+  tags: z.array(z.string()).optional(),
+  // Who applies, as the source names them ("Individual", "Family", "Institution", ...)
+  beneficiaryTypes: z.array(z.string()).optional(),
+  openDate: IsoDateSchema.optional(),
+  closeDate: IsoDateSchema.optional(),
+  // Documents an applicant brings, as the source words them; see lib/documents for the checklist
+  documents: z.array(z.string()).optional(),
+  lastVerified: IsoDateSchema.optional(),
+  eligibility: EligibilityCriteriaSchema.optional(),
+  // Language of title/description when it is not English
+  lang: z.enum(LOCALES).optional(),
+  // Confidence (0-1) that a scraped item is a real scheme listing; curated entries are 1. See ./normalize
+  score: z.number().min(0).max(1).optional(),
+})
+
+export type SchemeItem = z.infer<typeof SchemeItemSchema>
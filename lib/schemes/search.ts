@@ -0,0 +1,194 @@
+// On-server search index over scheme listings.
+// Curated catalog entries are always searchable; items scraped from myScheme are added to the index
+// whenever a region lookup or keyword search returns them, so searches keep working from the index
+// when myScheme is slow or down. The index lives in process memory and refills as lookups run; it is
+// shared by every route, so /api/search finds what /api/schemes indexed.
+
+import type { Locale } from "@/lib/i18n"
+import { processState } from "@/lib/process-state"
+import { catalogFor } from "./catalog"
+import { inferCategory, type SchemeCategory } from "./categories"
+import type { SchemeItem } from "./types"
+
+type IndexedDoc = {
+  item: SchemeItem
+  state: string
+  // "" when the listing applies to the whole state
+  district: string
+  lang: Locale
+  seq: number
+}
+
+// Oldest entries are dropped first once the index is full
+const MAX_DOCS = 5000
+
+const index = processState("search.index", () => ({ docs: new Map<string, IndexedDoc>(), seq: 0 }))
+
+// Scraped listings without categories get a keyword guess so they show up under a category facet.
+function withCategories(item: SchemeItem): SchemeItem {
+  if (item.categories?.length) return item
+  const guess = inferCategory(`${item.title} ${item.description ?? ""}`)
+  return guess ? { ...item, categories: [guess] } : item
+}
+
+// Record scraped listings for a region. Curated entries are skipped: they are read from the catalog
+// at search time, already localized and with district overrides applied.
+export function indexItems(state: string, district: string, lang: Locale, items: SchemeItem[]) {
+  for (const item of items) {
+    if (item.source === "curated") continue
+    const key = `${state}|${district}|${lang}|${item.href}`
+    index.docs.delete(key)
+    index.docs.set(key, {
+      item: withCategories(item),
+      state,
+      district,
+      lang,
+      seq: index.seq++,
+    })
+  }
+  while (index.docs.size > MAX_DOCS) index.docs.delete(index.docs.keys().next().value!)
+}
+
+export function indexSize() {
+  return index.docs.size
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter((t) => t.length > 1)
+    .map((t) => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t))
+}
+
+// Everyday words (in stemmed form, as `tokenize` produces them) mapped to the vocabulary scheme titles
+// use. Expanded terms score lower than typed ones.
+const SYNONYMS: Record<string, string[]> = {
+  farmer: ["kisan", "krishi", "agriculture", "crop"],
+  scholarship: ["student", "education", "fellowship"],
+  pension: ["old", "senior", "elderly"],
+  loan: ["credit", "mudra"],
+  house: ["housing", "awas"],
+  home: ["housing", "awas"],
+  health: ["hospital", "medical", "arogya", "ayushman"],
+  women: ["mahila", "girl", "female"],
+  girl: ["kanya", "beti", "daughter"],
+  job: ["employment", "rozgar", "skill"],
+  insurance: ["bima"],
+  toilet: ["sanitation", "swachh"],
+}
+
+type Field = { tokens: string[]; weight: number }
+
+function fieldsOf(item: SchemeItem, english?: SchemeItem): Field[] {
+  const fields: Field[] = [
+    { tokens: tokenize(item.title), weight: 3 },
+    { tokens: tokenize([...(item.categories ?? []), ...(item.tags ?? []), item.ministry ?? ""].join(" ")), weight: 2 },
+    { tokens: tokenize(item.description ?? ""), weight: 1 },
+  ]
+  // Localized curated entries stay findable by their English names
+  if (english && english !== item) {
+    fields.push({ tokens: tokenize(english.title), weight: 2 }, { tokens: tokenize(english.description ?? ""), weight: 1 })
+  }
+  return fields
+}
+
+// Prefix match, so "scholar" finds "scholarships" while typing on a keypad
+function termScore(term: string, fields: Field[]) {
+  let best = 0
+  for (const f of fields) {
+    if (f.tokens.some((t) => t === term)) best = Math.max(best, f.weight)
+    else if (term.length >= 3 && f.tokens.some((t) => t.startsWith(term))) best = Math.max(best, f.weight * 0.6)
+  }
+  return best
+}
+
+export type FacetCount = { value: string; count: number }
+
+export type SearchParams = {
+  state: string
+  district: string
+  lang: Locale
+  q: string
+  category?: string
+  ministry?: string
+  page: number
+  pageSize: number
+}
+
+export type SearchResult = {
+  items: SchemeItem[]
+  total: number
+  page: number
+  pageSize: number
+  facets: { category: FacetCount[]; ministry: FacetCount[] }
+}
+
+function countBy(items: SchemeItem[], valuesOf: (item: SchemeItem) => string[]): FacetCount[] {
+  const counts = new Map<string, number>()
+  for (const i of items) {
+    for (const v of valuesOf(i)) counts.set(v, (counts.get(v) ?? 0) + 1)
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value),
+  )
+}
+
+// Keyword search within a region. Every typed term that matches adds to the score (OR semantics),
+// and items matching more of the typed terms rank first. An empty keyword lists everything in scope.
+// Facet counts are computed before the category/ministry filters so users can switch between them.
+export function searchIndex(params: SearchParams): SearchResult {
+  const { state, district, lang, q, category, ministry, page, pageSize } = params
+
+  const english = new Map(catalogFor(state, district, "en").map((i) => [i.id, i]))
+  const candidates: { item: SchemeItem; english?: SchemeItem; seq: number }[] = []
+  const seen = new Set<string>()
+  const add = (item: SchemeItem, order: number, en?: SchemeItem) => {
+    if (seen.has(item.href)) return
+    seen.add(item.href)
+    candidates.push({ item, english: en, seq: order })
+  }
+  // Live listings first, newest first, as in the region list
+  const docs = Array.from(index.docs.values())
+    .filter((d) => d.lang === lang && d.state === state && (d.district === "" || d.district === district))
+    .sort((a, b) => b.seq - a.seq)
+  docs.forEach((d, i) => add(d.item, i))
+  catalogFor(state, district, lang).forEach((item, i) => add(item, docs.length + i, english.get(item.id)))
+
+  const terms = Array.from(new Set(tokenize(q)))
+  const scored = candidates
+    .map((c) => {
+      if (!terms.length) return { ...c, matched: 0, score: 0 }
+      const fields = fieldsOf(c.item, c.english)
+      let matched = 0
+      let score = 0
+      for (const term of terms) {
+        let s = termScore(term, fields)
+        if (s) matched++
+        else s = Math.max(0, ...(SYNONYMS[term] ?? []).map((syn) => termScore(tokenize(syn)[0], fields) * 0.5))
+        score += s
+      }
+      return { ...c, matched, score }
+    })
+    .filter((c) => !terms.length || c.score > 0)
+    .sort((a, b) => b.matched - a.matched || b.score - a.score || a.seq - b.seq)
+
+  const inScope = scored.map((c) => c.item)
+  const filtered = inScope.filter(
+    (i) =>
+      (!category || (i.categories ?? []).includes(category as SchemeCategory)) && (!ministry || i.ministry === ministry),
+  )
+  const start = (page - 1) * pageSize
+  return {
+    items: filtered.slice(start, start + pageSize),
+    total: filtered.length,
+    page,
+    pageSize,
+    facets: {
+      category: countBy(inScope, (i) => i.categories ?? []),
+      ministry: countBy(inScope, (i) => (i.ministry ? [i.ministry] : [])),
+    },
+  }
+}
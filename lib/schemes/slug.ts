@@ -0,0 +1,21 @@
+// myScheme scheme pages live at /schemes/<slug> (or /<lang>/schemes/<slug>); search links and other
+// URLs have no slug.
+
+export const MYSCHEME_ORIGIN = "https://www.myscheme.gov.in"
+
+const SLUG_RE = /^[a-z0-9][a-z0-9-]*$/i
+
+export function isValidSlug(slug: string) {
+  return SLUG_RE.test(slug) && slug.length <= 120
+}
+
+export function slugFromHref(href: string): string | null {
+  const path = href.replace(/^https?:\/\/(www\.)?myscheme\.gov\.in/i, "")
+  const m = path.match(/^(?:\/[a-z]{2})?\/schemes\/([^/?#]+)\/?$/)
+  return m && isValidSlug(m[1]) ? m[1] : null
+}
+
+// Site-relative myScheme links made absolute; other URLs are returned as they are.
+export function absoluteUrl(href: string) {
+  return /^https?:\/\//i.test(href) ? href : `${MYSCHEME_ORIGIN}/${href.replace(/^\/+/, "")}`
+}
@@ -0,0 +1,47 @@
+// Shared server-side types for the scheme lookup pipeline.
+
+import type { Locale } from "@/lib/i18n"
+import type { SchemeItem } from "./schema"
+
+export type { SchemeItem }
+
+// What a provider is asked for: the resolved region, the free-text query built from it and the
+// language the user reads. Providers without content in that language answer in English.
+export type SchemeQuery = {
+  state: string
+  district: string
+  query: string
+  lang: Locale
+}
+
+export type ProviderResult = {
+  items: SchemeItem[]
+  note?: string
+}
+
+// A source of scheme listings (myScheme scraping, curated data, state portals, ...).
+// Primary providers run in ascending `priority` order and the first one that returns items answers
+// the request. Supplemental providers always run and their items are merged in after it.
+export interface SchemeProvider {
+  name: string
+  priority: number
+  timeoutMs: number
+  mode?: "primary" | "supplemental"
+  search(query: SchemeQuery, signal: AbortSignal): Promise<ProviderResult | null>
+}
+
+// hit: returned items; empty: ran fine but found nothing; http-error: the source could not be reached
+// or answered with an error status; parse-error: the page came back in a shape the parser does not
+// know; timeout / error: other failures; unhealthy: not run because the provider is cooling down
+// after repeated failures.
+export type ProviderOutcome = "hit" | "empty" | "http-error" | "parse-error" | "error" | "timeout" | "unhealthy"
+
+export const FAILED_OUTCOMES: ProviderOutcome[] = ["http-error", "parse-error", "error", "timeout", "unhealthy"]
+
+export type ProviderAttempt = {
+  provider: string
+  outcome: ProviderOutcome
+  ms: number
+  count?: number
+  reason?: string
+}
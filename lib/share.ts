@@ -0,0 +1,92 @@
+// Shareable region lists: permalinks (/r/<state>/<district>?cat=<category>) that render without
+// geolocation, short scheme links (/s/<slug>) and a plain-text SMS summary. Safe to import from
+// server and client code.
+
+import { resolveRegion } from "@/lib/gazetteer"
+import type { MessageKey } from "@/lib/i18n"
+import { SCHEME_CATEGORIES, type SchemeCategory } from "@/lib/schemes/categories"
+import type { SchemeItem } from "@/lib/schemes/schema"
+import { packSms } from "@/lib/sms"
+
+// Schemes listed in the SMS; the permalink at the end has the rest
+export const SMS_MAX_SCHEMES = 8
+
+type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string
+
+// "Tamil Nadu" -> "tamil-nadu", "Jammu & Kashmir" -> "jammu-and-kashmir"
+export function regionSlug(name: string) {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+}
+
+// Permalink segments back to a region; the resolver also accepts codes and old names ("/r/mh/nagpur").
+// Next has already decoded route params, so a literal "%" is just an unknown name.
+export function regionFromSlugs(state: string, district?: string) {
+  const unslug = (s: string) => s.replace(/-/g, " ")
+  return resolveRegion(unslug(state), district ? unslug(district) : null)
+}
+
+export function permalinkPath(state: string, district?: string | null, category?: SchemeCategory | null) {
+  const path = `/r/${regionSlug(state)}${district ? `/${regionSlug(district)}` : ""}`
+  return category ? `${path}?cat=${category}` : path
+}
+
+export function shortSchemePath(slug: string) {
+  return `/s/${slug}`
+}
+
+export function categoryParam(value: string | null | undefined): SchemeCategory | null {
+  return SCHEME_CATEGORIES.find((c) => c === value) ?? null
+}
+
+export function filterByCategory(items: SchemeItem[], category: SchemeCategory | null) {
+  return category ? items.filter((i) => i.categories?.includes(category)) : items
+}
+
+// Hosts our own proxies may name in X-Forwarded-Host, from the comma-separated TRUSTED_FORWARDED_HOSTS
+function trustedForwardedHosts() {
+  return (process.env.TRUSTED_FORWARDED_HOSTS ?? "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+// Public origin for absolute links: PUBLIC_BASE_URL when set, else the request's Host. X-Forwarded-Host
+// is client-controlled unless a proxy overwrites it, so it is only used when it names an allowed host.
+export function publicOrigin(header: (name: string) => string | null) {
+  if (process.env.PUBLIC_BASE_URL) return process.env.PUBLIC_BASE_URL.replace(/\/+$/, "")
+  const forwarded = header("x-forwarded-host")?.split(",")[0].trim().toLowerCase()
+  const trusted = forwarded && trustedForwardedHosts().includes(forwarded) ? forwarded : null
+  const host = trusted ?? header("host") ?? "localhost:3000"
+  const proto = header("x-forwarded-proto")?.split(",")[0] ?? (host.startsWith("localhost") ? "http" : "https")
+  return `${proto}://${host}`
+}
+
+// Numbered titles with short links, then the permalink; packed into standalone messages. Links drop the
+// scheme ("example.org/s/apy"), which phones still recognize, to keep each message short.
+export function shareSms({
+  region,
+  items,
+  origin,
+  permalink,
+  t,
+}: {
+  region: string
+  items: SchemeItem[]
+  origin: string
+  permalink: string
+  t: Translate
+}): string[] {
+  const host = origin.replace(/^https?:\/\//, "")
+  const lines = [`${t("share.title", { region })}:`]
+  items.slice(0, SMS_MAX_SCHEMES).forEach((item, i) => {
+    lines.push(`${i + 1}. ${item.title}${item.slug ? ` ${host}${shortSchemePath(item.slug)}` : ""}`)
+  })
+  if (items.length > SMS_MAX_SCHEMES) lines.push(t("share.more", { count: items.length - SMS_MAX_SCHEMES }))
+  lines.push(`${t("share.fullList")} ${host}${permalink}`)
+  return packSms(lines)
+}
@@ -0,0 +1,87 @@
+// SMS length rules: text in the GSM 7-bit alphabet fits 160 characters per message, anything else
+// (Devanagari, Tamil, ...) is sent as UCS-2 and fits 70. Longer texts are split into standalone
+// messages at line or word breaks, so each one reads on its own on a basic phone.
+
+export type SmsEncoding = "gsm7" | "ucs2"
+
+const GSM_BASIC = new Set(
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà",
+)
+// Sent as an escape plus the character, so each counts twice
+const GSM_EXTENDED = new Set("^{}\\[~]|€\f")
+
+export const SMS_LIMITS: Record<SmsEncoding, number> = { gsm7: 160, ucs2: 70 }
+
+export function smsEncoding(text: string): SmsEncoding {
+  for (const ch of text) if (!GSM_BASIC.has(ch) && !GSM_EXTENDED.has(ch)) return "ucs2"
+  return "gsm7"
+}
+
+// Length as the network counts it for the given encoding
+export function smsLength(text: string, encoding = smsEncoding(text)): number {
+  if (encoding === "ucs2") return text.length
+  let n = 0
+  for (const ch of text) n += GSM_EXTENDED.has(ch) ? 2 : 1
+  return n
+}
+
+// Longest prefix of `text` within `limit`, ending at a line break when that keeps at least half of the
+// message, else at a space
+function cut(text: string, limit: number, encoding: SmsEncoding): number {
+  let end = 0
+  let used = 0
+  for (const ch of text) {
+    const size = encoding === "ucs2" ? ch.length : GSM_EXTENDED.has(ch) ? 2 : 1
+    if (used + size > limit) break
+    used += size
+    end += ch.length
+  }
+  if (end >= text.length) return end
+  const window = text.slice(0, end)
+  const newline = window.lastIndexOf("\n")
+  if (newline >= window.length / 2) return newline
+  const space = Math.max(newline, window.lastIndexOf(" "))
+  // Break mid-word only when a single word fills the message
+  return space > 0 ? space : end
+}
+
+// Whole messages of at most one segment each. The encoding is decided for the whole text, so all
+// parts share the same per-message limit.
+export function splitSms(text: string, encoding = smsEncoding(text)): string[] {
+  const limit = SMS_LIMITS[encoding]
+  const parts: string[] = []
+  let rest = text.trim()
+  while (rest) {
+    const end = cut(rest, limit, encoding)
+    parts.push(rest.slice(0, end).trim())
+    rest = rest.slice(end).trim()
+  }
+  return parts.filter(Boolean)
+}
+
+// Like splitSms for lists: as many whole lines per message as fit, so no entry is split across two
+// messages unless it is longer than a message by itself.
+export function packSms(lines: string[]): string[] {
+  const encoding = smsEncoding(lines.join("\n"))
+  const limit = SMS_LIMITS[encoding]
+  const parts: string[] = []
+  let current = ""
+  for (const line of lines.map((l) => l.trim()).filter(Boolean)) {
+    const joined = current ? `${current}\n${line}` : line
+    if (smsLength(joined, encoding) <= limit) {
+      current = joined
+      continue
+    }
+    if (current) parts.push(current)
+    current = ""
+    if (smsLength(line, encoding) <= limit) {
+      current = line
+    } else {
+      const pieces = splitSms(line, encoding)
+      parts.push(...pieces.slice(0, -1))
+      current = pieces.at(-1) ?? ""
+    }
+  }
+  if (current) parts.push(current)
+  return parts
+}
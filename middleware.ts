@@ -0,0 +1,58 @@
+// Per-IP rate limits for routes that can reach upstream sites, so one misbehaving client cannot get
+// this server blocked by myScheme or Nominatim. Limits are per server instance.
+// Every request also gets an X-Request-Id (kept from a proxy when it set one), which the route logs
+// carry (lib/log.ts) and the response echoes, so a user's report can be matched to the server logs.
+
+import { NextResponse, type NextRequest } from "next/server"
+import { parseRegions } from "@/lib/gazetteer"
+import { clientIp, createRateLimiter, type RateLimitPolicy } from "@/lib/http/rate-limit"
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name])
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+const perMinute = (n: number): RateLimitPolicy => ({ capacity: n, refillPerSec: n / 60 })
+
+// Reverse geocoding is the scarcest upstream (one request per second for the whole server)
+const geoLimiter = createRateLimiter(perMinute(envNumber("RATE_LIMIT_GEO_PER_MINUTE", 10)))
+const defaultLimiter = createRateLimiter(perMinute(envNumber("RATE_LIMIT_PER_MINUTE", 60)))
+
+// Same header as REQUEST_ID_HEADER in lib/log.ts, which needs Node APIs the middleware runtime lacks
+const REQUEST_ID_HEADER = "x-request-id"
+const VALID_REQUEST_ID = /^[\w.:-]{1,100}$/
+
+// An export loads each distinct region it resolves, so it is charged like that many requests; repeats
+// and unknown entries load nothing
+function cost(req: NextRequest) {
+  if (req.nextUrl.pathname !== "/api/export") return 1
+  return Math.max(parseRegions(req.nextUrl.searchParams.getAll("region")).regions.length, 1)
+}
+
+export function middleware(req: NextRequest) {
+  const incoming = req.headers.get(REQUEST_ID_HEADER)
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID()
+
+  const limiter = req.nextUrl.pathname.startsWith("/api/geo") ? geoLimiter : defaultLimiter
+  const verdict = limiter.take(clientIp((name) => req.headers.get(name)), Date.now(), cost(req))
+  if (!verdict.ok) {
+    return new NextResponse(JSON.stringify({ error: "Too many requests, please slow down", requestId }), {
+      status: 429,
+      headers: {
+        "Content-Type": "application/json",
+        "Retry-After": String(verdict.retryAfterSec),
+        [REQUEST_ID_HEADER]: requestId,
+      },
+    })
+  }
+
+  const headers = new Headers(req.headers)
+  headers.set(REQUEST_ID_HEADER, requestId)
+  const res = NextResponse.next({ request: { headers } })
+  res.headers.set(REQUEST_ID_HEADER, requestId)
+  return res
+}
+
+export const config = {
+  matcher: ["/api/:path*", "/r/:path*"],
+}
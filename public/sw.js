@@ -0,0 +1,122 @@
+// Service worker: offline shell plus the last good /api responses for the user's region.
+// Bump VERSION when the caching strategy changes; old caches are dropped on activate.
+
+const VERSION = "v2"
+const SHELL_CACHE = `shell-${VERSION}`
+const API_CACHE = `api-${VERSION}`
+const STATIC_CACHE = `static-${VERSION}`
+
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/placeholder-logo.png", "/placeholder-logo.svg"]
+
+// API responses kept for offline use, oldest dropped first (e.g. the last few regions' listings,
+// details and geo lookups); the "last" entries below are kept on top of these
+const MAX_API_ENTRIES = 40
+
+// Geo lookups use slightly different coordinates on every fix, so the most recent response per
+// endpoint is also kept under a fixed key and served when the exact URL was never cached.
+const LAST_KEYS = {
+  "/api/geo": "/__last__/api/geo",
+  "/api/schemes": "/__last__/api/schemes",
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  const keep = new Set([SHELL_CACHE, API_CACHE, STATIC_CACHE])
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => !keep.has(k)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+function markOffline(response) {
+  const headers = new Headers(response.headers)
+  headers.set("X-Served-From", "sw-cache")
+  return response.blob().then((body) => new Response(body, { status: response.status, headers }))
+}
+
+// Network first; successful responses refresh the cache, failures fall back to it.
+async function networkFirstApi(request) {
+  const url = new URL(request.url)
+  const lastKey = LAST_KEYS[url.pathname]
+  const cache = await caches.open(API_CACHE)
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      await cache.put(request, response.clone())
+      if (lastKey) await cache.put(lastKey, response.clone())
+      await trimApiCache(cache)
+    }
+    return response
+  } catch (err) {
+    const hit = (await cache.match(request)) || (lastKey && (await cache.match(lastKey)))
+    if (hit) return markOffline(hit)
+    throw err
+  }
+}
+
+// Cache.keys() lists entries in the order they were last written, so the front is the oldest
+async function trimApiCache(cache) {
+  const keys = (await cache.keys()).filter((k) => !new URL(k.url).pathname.startsWith("/__last__/"))
+  await Promise.all(keys.slice(0, Math.max(keys.length - MAX_API_ENTRIES, 0)).map((k) => cache.delete(k)))
+}
+
+// Only the home page refreshes the offline shell; other pages (/admin, /export, shared lists) must not
+// replace what an offline start shows
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  try {
+    const response = await fetch(request)
+    if (response.ok && new URL(request.url).pathname === "/") await cache.put("/", response.clone())
+    return response
+  } catch (err) {
+    const hit = (await cache.match(request)) || (await cache.match("/"))
+    if (hit) return hit
+    throw err
+  }
+}
+
+// Next.js build assets are content-hashed, so a cached copy never goes stale.
+async function cacheFirst(request) {
+  const cache = await caches.open(STATIC_CACHE)
+  const hit = await cache.match(request)
+  if (hit) return hit
+  const response = await fetch(request)
+  if (response.ok) await cache.put(request, response.clone())
+  return response
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  if (url.pathname.startsWith("/api/schemes") || url.pathname === "/api/geo") {
+    event.respondWith(networkFirstApi(request))
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request))
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request))
+  }
+})
+
+// Deadline reminders are shown from the page through this worker; tapping one brings the app forward.
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => new URL(w.url).origin === self.location.origin)
+      return open ? open.focus() : self.clients.openWindow("/")
+    }),
+  )
+})
@@ -0,0 +1,103 @@
+// Markup-drift canary: fetch the live myScheme pages listed in the fixture manifest, run the same
+// parsers the app uses, and compare the yield with the saved fixtures.
+//
+// Usage: pnpm canary [--replay] [--record] [--threshold=0.5] [--fixtures=tests/fixtures/myscheme]
+//
+//   --replay     parse the fixtures instead of the live site (checks the parsers offline)
+//   --record     overwrite each fixture with the live page after reporting
+//   --threshold  report a drop when a parser yields less than this share of the fixture's count
+//
+// Exits with 1 when any page could not be fetched or any parser's yield dropped, so it can run on a
+// schedule. Live search results differ from the recorded ones over time; the listed missing links are
+// informational, only the counts decide.
+
+import { readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { parseSchemePage } from "@/lib/schemes/detail"
+import { collectSchemeItemsFromUnknownJson, extractNextDataFromHtml, fetchText } from "@/lib/schemes/myscheme"
+import { parseSearchHtml } from "@/lib/schemes/providers/html-search"
+import { loadManifest, type FixturePage } from "@/lib/schemes/replay"
+
+type Yield = { counts: Record<string, number>; keys: string[] }
+
+function arg(name: string) {
+  const hit = process.argv.find((a) => a === `--${name}` || a.startsWith(`--${name}=`))
+  if (!hit) return null
+  return hit.includes("=") ? hit.slice(hit.indexOf("=") + 1) : ""
+}
+
+// What each parser extracts from a page: item counts per parser and the keys used to list differences
+function measure(page: FixturePage, html: string): Yield {
+  if (page.kind === "scheme") {
+    const detail = parseSchemePage(html, new URL(page.url).pathname.split("/").pop() || "")
+    const sections = detail
+      ? {
+          benefits: detail.benefits,
+          eligibility: detail.eligibility,
+          documents: detail.documents,
+          application: detail.application,
+        }
+      : {}
+    const counts: Record<string, number> = { title: detail?.title ? 1 : 0, faqs: detail?.faqs.length ?? 0 }
+    for (const [k, v] of Object.entries(sections)) counts[k] = v.length
+    return { counts, keys: Object.entries(sections).flatMap(([k, v]) => (v.length ? [k] : [])) }
+  }
+  const nextData = extractNextDataFromHtml(html)
+  const fromJson = nextData ? collectSchemeItemsFromUnknownJson(nextData, page.url) : []
+  const fromHtml = parseSearchHtml(html, page.url)
+  return {
+    counts: { "next-data": fromJson.length, html: fromHtml.length },
+    keys: Array.from(new Set([...fromJson, ...fromHtml].map((i) => i.href))),
+  }
+}
+
+async function main() {
+  const dir = path.resolve(process.cwd(), arg("fixtures") || "tests/fixtures/myscheme")
+  const threshold = Number(arg("threshold") || 0.5)
+  const replay = arg("replay") !== null
+  const record = arg("record") !== null
+  if (replay && record) throw new Error("--replay and --record cannot be combined")
+  // The canary must reach the live site even when the shell has replay mode switched on
+  delete process.env.MYSCHEME_REPLAY
+
+  const manifest = await loadManifest(dir)
+  let failures = 0
+
+  for (const page of manifest.pages) {
+    const file = path.join(dir, page.file)
+    const saved = await readFile(file, "utf8")
+    const live = replay ? saved : await fetchText(page.url).catch(() => null)
+    console.log(`\n${page.file}  ${page.url}`)
+    if (!live) {
+      console.log("  FETCH FAILED")
+      failures++
+      continue
+    }
+
+    const before = measure(page, saved)
+    const after = measure(page, live)
+    for (const [name, expected] of Object.entries(before.counts)) {
+      const got = after.counts[name] ?? 0
+      const dropped = expected > 0 && got < expected * threshold
+      if (dropped) failures++
+      console.log(`  ${dropped ? "DROP" : "ok  "}  ${name.padEnd(12)} fixture ${String(expected).padStart(3)}  now ${got}`)
+    }
+    const missing = before.keys.filter((k) => !after.keys.includes(k))
+    if (missing.length) {
+      console.log(`  missing: ${missing.slice(0, 5).join(", ")}${missing.length > 5 ? ` (+${missing.length - 5})` : ""}`)
+    }
+
+    if (record) {
+      await writeFile(file, live)
+      console.log("  recorded")
+    }
+  }
+
+  console.log(failures ? `\n${failures} problem(s) found` : "\nNo yield drops")
+  process.exitCode = failures ? 1 : 0
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exitCode = 1
+})
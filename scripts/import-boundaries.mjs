@@ -0,0 +1,163 @@
+// Build data/regions/boundaries.json (offline reverse geocoding, see lib/boundaries.ts) from state and/or
+// district boundary GeoJSON files.
+//
+// Usage: node scripts/import-boundaries.mjs [--tolerance=<degrees>] [--source=<attribution>] <boundaries.geojson>...
+//
+// Any FeatureCollection of Polygons/MultiPolygons works, e.g. the DataMeet or geoBoundaries district
+// (IND ADM2) files, or state (ADM1) outlines such as the geojson-india npm package. A feature with a
+// district name becomes that district; one with only a state name becomes the state's outline, which
+// answers where no district does. State and district names are read from common property names (st_nm,
+// district, NAME_1/NAME_2, ...) and matched against the gazetteer by LGD code, name or alias; features
+// that match nothing are listed so aliases can be added. Rings are simplified (Douglas-Peucker, default
+// 0.005 degrees, roughly 500m) and rounded to 3 decimals to keep the bundle small.
+
+import { readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+
+const GAZETTEER = path.join(process.cwd(), "data/regions/india.json")
+const OUTPUT = path.join(process.cwd(), "data/regions/boundaries.json")
+
+const STATE_PROPS = ["st_nm", "ST_NM", "state", "STATE", "state_name", "STATE_NAME", "NAME_1", "stname"]
+const DISTRICT_PROPS = ["district", "DISTRICT", "dtname", "DTNAME", "district_name", "NAME_2", "shapeName"]
+const DISTRICT_CODE_PROPS = ["lgd_district_code", "lgd_districtcode", "dt_code", "DT_CODE", "LGD_CODE"]
+
+// Mirrors normalizeName() in lib/gazetteer.ts
+function normalizeName(input) {
+  return input
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}\p{M}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+const namesOf = (entry) => [entry.name, ...(entry.aliases ?? []), ...(entry.local ?? [])].map(normalizeName)
+
+function prop(properties, keys) {
+  for (const k of keys) {
+    const v = properties?.[k]
+    if (v !== undefined && v !== null && String(v).trim()) return String(v).trim()
+  }
+  return null
+}
+
+function perpendicular([x, y], [x1, y1], [x2, y2]) {
+  const dx = x2 - x1
+  const dy = y2 - y1
+  if (!dx && !dy) return Math.hypot(x - x1, y - y1)
+  return Math.abs(dy * x - dx * y + x2 * y1 - y2 * x1) / Math.hypot(dx, dy)
+}
+
+function simplify(points, tolerance) {
+  if (points.length < 3) return points
+  let index = 0
+  let max = 0
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = perpendicular(points[i], points[0], points[points.length - 1])
+    if (d > max) {
+      max = d
+      index = i
+    }
+  }
+  if (max <= tolerance) return [points[0], points[points.length - 1]]
+  const left = simplify(points.slice(0, index + 1), tolerance)
+  return [...left.slice(0, -1), ...simplify(points.slice(index), tolerance)]
+}
+
+const round = (n) => Math.round(n * 1000) / 1000
+
+// Closed ring, simplified and rounded; null once it has collapsed below a triangle
+function simplifyRing(ring, tolerance) {
+  const points = simplify(ring, tolerance).map(([lon, lat]) => [round(lon), round(lat)])
+  const deduped = points.filter((p, i) => i === 0 || p[0] !== points[i - 1][0] || p[1] !== points[i - 1][1])
+  return deduped.length >= 4 ? deduped : null
+}
+
+function polygonsOf(geometry, tolerance) {
+  const raw =
+    geometry?.type === "Polygon" ? [geometry.coordinates] : geometry?.type === "MultiPolygon" ? geometry.coordinates : []
+  return raw
+    .map((rings) => {
+      const [outline, ...holes] = rings.map((r) => simplifyRing(r, tolerance))
+      return outline ? [outline, ...holes.filter(Boolean)] : null
+    })
+    .filter(Boolean)
+}
+
+// One feature per line, like the checked-in sample
+function format(data) {
+  const { features, ...head } = data
+  const lines = ["{"]
+  for (const [k, v] of Object.entries(head)) lines.push(`  ${JSON.stringify(k)}: ${JSON.stringify(v)},`)
+  lines.push('  "features": [')
+  features.forEach((f, i) => {
+    const json = JSON.stringify(f).replace(/,(?=["[\d-])/g, ", ").replace(/":/g, '": ')
+    lines.push(`    ${json}${i < features.length - 1 ? "," : ""}`)
+  })
+  lines.push("  ]", "}")
+  return lines.join("\n") + "\n"
+}
+
+const args = process.argv.slice(2)
+const files = args.filter((a) => !a.startsWith("--"))
+const option = (name) => args.find((a) => a.startsWith(`--${name}=`))?.slice(name.length + 3)
+const tolerance = Number(option("tolerance") ?? 0.005)
+if (!files.length || !Number.isFinite(tolerance)) {
+  console.error("Usage: node scripts/import-boundaries.mjs [--tolerance=<degrees>] [--source=<attribution>] <file>...")
+  process.exit(1)
+}
+
+const gazetteer = JSON.parse(readFileSync(GAZETTEER, "utf8"))
+const byId = new Map()
+const unmatched = []
+
+const stateNamed = (name) => gazetteer.states.filter((s) => namesOf(s).includes(normalizeName(name)) || s.abbr === name)
+
+for (const file of files) {
+  const geojson = JSON.parse(readFileSync(file, "utf8"))
+  for (const feature of geojson.features ?? []) {
+    const p = feature.properties ?? {}
+    const stateName = prop(p, STATE_PROPS) ?? (prop(p, DISTRICT_PROPS) ? null : prop(p, ["name", "NAME"]))
+    const districtName = prop(p, DISTRICT_PROPS)
+    const code = prop(p, DISTRICT_CODE_PROPS)
+    let id = code ? gazetteer.states.flatMap((s) => s.districts).find((d) => d.lgd === code)?.id : undefined
+    if (!id && districtName) {
+      const key = normalizeName(districtName)
+      const states = stateName ? stateNamed(stateName) : gazetteer.states
+      const candidates = states.flatMap((s) => s.districts).filter((d) => namesOf(d).includes(key))
+      // A bare district name shared by two states is ambiguous without the state
+      if (candidates.length === 1) id = candidates[0].id
+    } else if (!id && stateName) {
+      const states = stateNamed(stateName)
+      if (states.length === 1) id = states[0].code
+    }
+    if (!id) {
+      unmatched.push(`${stateName ?? "?"} / ${districtName ?? code ?? "?"}`)
+      continue
+    }
+    const polygons = polygonsOf(feature.geometry, tolerance)
+    if (!polygons.length) continue
+    byId.set(id, [...(byId.get(id) ?? []), ...polygons])
+  }
+}
+
+const total = gazetteer.states.reduce((n, s) => n + s.districts.length, 0)
+const features = Array.from(byId, ([id, polygons]) => ({ id, polygons })).sort((a, b) => a.id.localeCompare(b.id))
+const districts = features.filter((f) => f.id.includes(".")).length
+const states = features.length - districts
+writeFileSync(
+  OUTPUT,
+  format({
+    version: 2,
+    coverage: districts === total ? "full" : districts ? "partial" : "states",
+    source: `${option("source") ?? files.map((f) => path.basename(f)).join(", ")}, simplified to ${tolerance} degrees`,
+    features,
+  }),
+)
+console.log(
+  `Wrote ${districts} of ${total} gazetteer districts and ${states} of ${gazetteer.states.length} states ` +
+    `to ${path.relative(process.cwd(), OUTPUT)}.`,
+)
+if (unmatched.length) console.log(`Unmatched (add aliases and re-run):\n  ${unmatched.join("\n  ")}`)
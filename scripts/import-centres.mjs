@@ -0,0 +1,183 @@
+// Build a help-centre dataset for /api/centres (see lib/centres.ts) from a CSV file, replacing the
+// bundled sample or writing a file for CENTRES_FILE.
+//
+// Usage: node scripts/import-centres.mjs <centres.csv> [--kind=post-office] [--source=text] [--out=path] [--merge]
+//
+//   --kind   kind for every row (csc, bank, post-office, district-office) when the CSV has no kind column
+//   --out    output file; defaults to data/centres/centres.json
+//   --source attribution recorded in the output; defaults to the CSV file name
+//   --merge  keep the output file's centres of other kinds, so several sources can be imported in turn
+//
+// Column names are detected case-insensitively: name/officename, kind, lat/latitude,
+// lon/lng/longitude, state/statename, district/districtname, address, pincode and phone/contact. The
+// India Post pincode directory on data.gov.in works as is. Rows without usable coordinates or a
+// district the gazetteer knows are skipped and counted. Phone numbers are copied only when the source
+// has them.
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+
+const GAZETTEER = path.join(process.cwd(), "data/regions/india.json")
+const DEFAULT_OUTPUT = path.join(process.cwd(), "data/centres/centres.json")
+const KINDS = ["csc", "bank", "post-office", "district-office"]
+// India's bounding box, generously; points outside it are typos in the source
+const INDIA = { minLat: 6, maxLat: 38, minLon: 68, maxLon: 98 }
+
+const COLUMNS = {
+  name: ["name", "officename", "office_name", "centre_name", "branch"],
+  kind: ["kind", "type"],
+  lat: ["lat", "latitude"],
+  lon: ["lon", "lng", "long", "longitude"],
+  state: ["state", "statename", "state_name"],
+  district: ["district", "districtname", "district_name"],
+  address: ["address"],
+  pincode: ["pincode", "pin"],
+  phone: ["phone", "contact", "telephone", "phone_number"],
+}
+
+// Mirrors normalizeName() in lib/gazetteer.ts
+function normalizeName(input) {
+  return input
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}\p{M}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+const namesOf = (entry) => [entry.name, ...(entry.aliases ?? []), ...(entry.local ?? [])].map(normalizeName)
+const slug = (s) => normalizeName(s).replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "centre"
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(text) {
+  const rows = []
+  let row = []
+  let field = ""
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') quoted = false
+      else field += ch
+    } else if (ch === '"') quoted = true
+    else if (ch === ",") {
+      row.push(field)
+      field = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      if (row.some((f) => f.trim())) rows.push(row)
+      row = []
+      field = ""
+    } else field += ch
+  }
+  row.push(field)
+  if (row.some((f) => f.trim())) rows.push(row)
+  return rows
+}
+
+function arg(name) {
+  const hit = process.argv.find((a) => a === `--${name}` || a.startsWith(`--${name}=`))
+  if (!hit) return null
+  return hit.includes("=") ? hit.slice(hit.indexOf("=") + 1) : ""
+}
+
+const file = process.argv.slice(2).find((a) => !a.startsWith("--"))
+const fixedKind = arg("kind")
+const output = path.resolve(process.cwd(), arg("out") || DEFAULT_OUTPUT)
+if (!file || (fixedKind !== null && !KINDS.includes(fixedKind))) {
+  console.error(
+    `Usage: node scripts/import-centres.mjs <centres.csv> [--kind=${KINDS.join("|")}] [--source=text] [--out=path] [--merge]`,
+  )
+  process.exit(1)
+}
+
+const gazetteer = JSON.parse(readFileSync(GAZETTEER, "utf8"))
+const [header, ...rows] = parseCsv(readFileSync(file, "utf8").replace(/^\uFEFF/, ""))
+const columns = Object.fromEntries(
+  Object.entries(COLUMNS).map(([key, names]) => [key, header.findIndex((h) => names.includes(h.trim().toLowerCase()))]),
+)
+const cell = (row, key) => (columns[key] >= 0 ? (row[columns[key]] ?? "").trim() : "")
+
+function districtFor(stateName, districtName) {
+  if (!districtName) return null
+  const key = normalizeName(districtName)
+  const states = stateName
+    ? gazetteer.states.filter((s) => namesOf(s).includes(normalizeName(stateName)))
+    : gazetteer.states
+  const candidates = states.flatMap((s) => s.districts).filter((d) => namesOf(d).includes(key))
+  // A bare district name shared by two states is ambiguous without the state
+  return candidates.length === 1 ? candidates[0] : null
+}
+
+const centres = []
+const ids = new Set()
+const skipped = { "without a name": 0, "without usable coordinates": 0, "in no known district": 0, "of no known kind": 0 }
+
+for (const row of rows) {
+  const kind = fixedKind ?? cell(row, "kind").toLowerCase()
+  if (!KINDS.includes(kind)) {
+    skipped["of no known kind"]++
+    continue
+  }
+  const name = cell(row, "name")
+  if (!name) {
+    skipped["without a name"]++
+    continue
+  }
+  const lat = Number(cell(row, "lat"))
+  const lon = Number(cell(row, "lon"))
+  // Directory rows often carry "NA" or 0,0 for unknown locations, and now and then a mistyped digit
+  const inIndia = lat >= INDIA.minLat && lat <= INDIA.maxLat && lon >= INDIA.minLon && lon <= INDIA.maxLon
+  if (!cell(row, "lat") || !inIndia) {
+    skipped["without usable coordinates"]++
+    continue
+  }
+  const district = districtFor(cell(row, "state"), cell(row, "district"))
+  if (!district) {
+    skipped["in no known district"]++
+    continue
+  }
+  let id = `${district.id}.${kind}.${slug(name)}`
+  for (let n = 2; ids.has(id); n++) id = `${district.id}.${kind}.${slug(name)}-${n}`
+  ids.add(id)
+  const address = [cell(row, "address"), cell(row, "pincode")].filter(Boolean).join(" ")
+  const phone = cell(row, "phone")
+  centres.push({
+    id,
+    kind,
+    name,
+    ...(address ? { address } : {}),
+    district: district.id,
+    lat: Math.round(lat * 1e5) / 1e5,
+    lon: Math.round(lon * 1e5) / 1e5,
+    ...(phone ? { phone } : {}),
+  })
+}
+
+const imported = new Set(centres.map((c) => c.kind))
+const previous = arg("merge") !== null && existsSync(output) ? JSON.parse(readFileSync(output, "utf8")) : null
+const kept = previous?.coverage === "imported" ? previous.centres.filter((c) => !imported.has(c.kind)) : []
+const all = [...kept, ...centres].sort((a, b) => a.id.localeCompare(b.id))
+
+const source = [previous?.coverage === "imported" ? previous.source : null, arg("source") || path.basename(file)].filter(Boolean)
+// One centre per line, like the checked-in sample
+const lines = [
+  "{",
+  '  "version": 1,',
+  '  "coverage": "imported",',
+  `  "source": ${JSON.stringify(source.join("; "))},`,
+  '  "centres": [',
+  ...all.map((c, i) => `    ${JSON.stringify(c)}${i < all.length - 1 ? "," : ""}`),
+  "  ]",
+  "}",
+]
+writeFileSync(output, lines.join("\n") + "\n")
+console.log(`Wrote ${all.length} centres (${centres.length} from ${path.basename(file)}) to ${path.relative(process.cwd(), output)}.`)
+const dropped = Object.entries(skipped).filter(([, n]) => n)
+if (dropped.length) console.log(`Skipped rows: ${dropped.map(([why, n]) => `${n} ${why}`).join(", ")}`)
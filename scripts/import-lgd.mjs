@@ -0,0 +1,128 @@
+// Fill LGD district codes (and local-script names) into data/regions/india.json from an LGD export.
+//
+// Usage: node scripts/import-lgd.mjs <districts.csv>
+//
+// The CSV is the "All Districts" download from https://lgdirectory.gov.in. Columns are found by header
+// name, so minor layout changes between exports are tolerated. Districts are matched within their state
+// by name or alias; rows that match nothing are listed so the gazetteer aliases can be extended. The file
+// is only written once every district has both its LGD code and a local-script name, so the gazetteer
+// never ships half imported (tests/gazetteer.test.ts checks the same).
+
+import { readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+
+const GAZETTEER = path.join(process.cwd(), "data/regions/india.json")
+
+function parseCsv(text) {
+  const rows = []
+  let row = []
+  let field = ""
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (c === '"') quoted = false
+      else field += c
+    } else if (c === '"') quoted = true
+    else if (c === ",") {
+      row.push(field)
+      field = ""
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else field += c
+  }
+  if (field || row.length) rows.push([...row, field])
+  return rows.filter((r) => r.some((f) => f.trim()))
+}
+
+// Mirrors normalizeName() in lib/gazetteer.ts
+function normalizeName(input) {
+  return input
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}\p{M}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// Same layout as the checked-in file: state fields on their own lines, one district per line.
+function format(gazetteer) {
+  const lines = ["{", `  "version": ${gazetteer.version},`, `  "lgdSource": ${JSON.stringify(gazetteer.lgdSource)},`, '  "states": [']
+  gazetteer.states.forEach((state, i) => {
+    const { districts, ...head } = state
+    lines.push("    {")
+    for (const [k, v] of Object.entries(head)) lines.push(`      ${JSON.stringify(k)}: ${JSON.stringify(v).replace(/","/g, '", "')},`)
+    lines.push('      "districts": [')
+    districts.forEach((d, j) => {
+      const json = JSON.stringify(d).replace(/","/g, '", "').replace(/":/g, '": ').replace(/,"/g, ', "')
+      lines.push(`        ${json}${j < districts.length - 1 ? "," : ""}`)
+    })
+    lines.push("      ]")
+    lines.push(`    }${i < gazetteer.states.length - 1 ? "," : ""}`)
+  })
+  lines.push("  ]", "}")
+  return lines.join("\n") + "\n"
+}
+
+const file = process.argv[2]
+if (!file) {
+  console.error("Usage: node scripts/import-lgd.mjs <districts.csv>")
+  process.exit(1)
+}
+
+const [header, ...rows] = parseCsv(readFileSync(file, "utf8"))
+const col = (re) => header.findIndex((h) => re.test(h))
+const cols = {
+  stateCode: col(/state\s*code/i),
+  districtCode: col(/district\s*code/i),
+  name: col(/district\s*name.*english/i),
+  local: col(/district\s*name.*local/i),
+}
+if (cols.stateCode < 0 || cols.districtCode < 0 || cols.name < 0) {
+  console.error("Could not find State Code / District Code / District Name (In English) columns in", file)
+  process.exit(1)
+}
+
+const gazetteer = JSON.parse(readFileSync(GAZETTEER, "utf8"))
+const byState = new Map(gazetteer.states.map((s) => [s.code, s]))
+let matched = 0
+const unmatched = []
+
+for (const r of rows) {
+  const state = byState.get(r[cols.stateCode].trim())
+  const name = r[cols.name].trim()
+  const key = normalizeName(name)
+  const district = state?.districts.find((d) => [d.name, ...(d.aliases ?? [])].some((n) => normalizeName(n) === key))
+  if (!district) {
+    unmatched.push(`${r[cols.stateCode]} ${name}`)
+    continue
+  }
+  district.lgd = r[cols.districtCode].trim()
+  const local = cols.local >= 0 ? r[cols.local].trim() : ""
+  if (local && !(district.local ?? []).includes(local)) district.local = [...(district.local ?? []), local]
+  matched++
+}
+
+console.log(`Matched ${matched} of ${rows.length} LGD districts.`)
+if (unmatched.length) console.log(`Unmatched (add aliases and re-run):\n  ${unmatched.join("\n  ")}`)
+
+const incomplete = gazetteer.states.flatMap((s) =>
+  s.districts
+    .filter((d) => !d.lgd || !d.local?.length)
+    .map((d) => `${d.id}${d.lgd ? "" : " (no code)"}${d.local?.length ? "" : " (no local name)"}`),
+)
+if (incomplete.length) {
+  console.error(`Not written: ${incomplete.length} districts are still incomplete:\n  ${incomplete.join("\n  ")}`)
+  process.exit(1)
+}
+gazetteer.lgdSource = path.basename(file)
+writeFileSync(GAZETTEER, format(gazetteer))
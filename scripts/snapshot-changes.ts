@@ -0,0 +1,64 @@
+// Change-feed snapshot job: snapshot each tracked region's scheme listing and record what changed
+// since the last run (see lib/schemes/changes.ts). Run it from cron, or keep it running with --every.
+//
+// Usage: pnpm changes [--every=<minutes>] [region ...]
+//
+//   region   "Maharashtra/Nagpur" or "Karnataka"; defaults to CHANGE_FEED_REGIONS
+//   --every  snapshot again every this many minutes instead of exiting after one pass
+//
+// Exits with 1 when a region could not be snapshotted (after a single pass), so cron can report it.
+
+import { setTimeout as sleep } from "node:timers/promises"
+import { errorFields, log } from "@/lib/log"
+import { snapshotRegion, trackedRegions } from "@/lib/schemes/changes"
+
+function arg(name: string) {
+  const hit = process.argv.find((a) => a.startsWith(`--${name}=`))
+  return hit ? hit.slice(hit.indexOf("=") + 1) : null
+}
+
+async function pass(regions: { state: string; district: string }[]) {
+  let failed = 0
+  // One region at a time: the upstream limits are per host anyway, and this keeps the job gentle
+  for (const { state, district } of regions) {
+    try {
+      const result = await snapshotRegion(state, district)
+      if (result.status === "skipped") failed++
+      else if (result.changes.length) {
+        const counts = { added: 0, removed: 0, modified: 0 }
+        for (const c of result.changes) counts[c.kind]++
+        console.log(`${result.region}: +${counts.added} -${counts.removed} ~${counts.modified}`)
+      } else {
+        console.log(`${result.region}: ${result.status === "baseline" ? "baseline recorded" : "no changes"}`)
+      }
+    } catch (err) {
+      failed++
+      log.error("changes.snapshot_failed", { region: district ? `${state}/${district}` : state, ...errorFields(err) })
+    }
+  }
+  return failed
+}
+
+async function main() {
+  const positional = process.argv.slice(2).filter((a) => !a.startsWith("--"))
+  const regions = trackedRegions(positional.length ? positional.join(",") : undefined)
+  if (!regions.length) {
+    console.error("No regions to snapshot: pass them as arguments or set CHANGE_FEED_REGIONS.")
+    process.exitCode = 1
+    return
+  }
+  const every = Number(arg("every"))
+  if (!(every > 0)) {
+    process.exitCode = (await pass(regions)) ? 1 : 0
+    return
+  }
+  for (;;) {
+    await pass(regions)
+    await sleep(every * 60_000)
+  }
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exitCode = 1
+})
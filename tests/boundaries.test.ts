@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import { boundaryIndex, createBoundaryIndex, locateRegion, pointInPolygon } from "@/lib/boundaries"
+
+const square = (x: number, y: number, size: number) => [
+  [x, y],
+  [x + size, y],
+  [x + size, y + size],
+  [x, y + size],
+  [x, y],
+]
+
+describe("pointInPolygon", () => {
+  it("excludes holes", () => {
+    const polygon = [square(0, 0, 10), square(4, 4, 2)]
+    expect(pointInPolygon(1, 1, polygon)).toBe(true)
+    expect(pointInPolygon(5, 5, polygon)).toBe(false)
+    expect(pointInPolygon(11, 5, polygon)).toBe(false)
+  })
+})
+
+describe("createBoundaryIndex", () => {
+  const index = createBoundaryIndex({
+    version: 1,
+    coverage: "partial",
+    source: "test",
+    features: [
+      { id: "a", polygons: [[square(70, 20, 1.2)]] },
+      // Two parts, one of them inside the other's grid cells
+      { id: "b", polygons: [[square(71.2, 20, 1)], [square(75, 25, 0.1)]] },
+      // A state outline around both; districts win where they cover the point
+      { id: "s", polygons: [[square(69, 19, 8)]] },
+    ],
+  })
+
+  it("finds the district containing a point, across cell and part boundaries", () => {
+    expect(index.locate(20.5, 70.1)).toBe("a")
+    expect(index.locate(20.5, 71.1)).toBe("a")
+    expect(index.locate(20.5, 71.3)).toBe("b")
+    expect(index.locate(25.05, 75.05)).toBe("b")
+    expect(index.locate(22, 74)).toBe("s")
+    expect(index.locate(30, 80)).toBeNull()
+  })
+})
+
+describe("bundled boundaries", () => {
+  it("place state and UT capitals in their state", () => {
+    expect(boundaryIndex().coverage).toBe("states")
+    const capitals: [number, number, string][] = [
+      [21.15, 79.09, "Maharashtra"],
+      [19.08, 72.88, "Maharashtra"],
+      [28.61, 77.21, "Delhi"],
+      [30.73, 76.78, "Chandigarh"],
+      [17.39, 78.49, "Telangana"],
+      [16.51, 80.52, "Andhra Pradesh"],
+      [13.08, 80.27, "Tamil Nadu"],
+      [11.94, 79.81, "Puducherry"],
+      [12.97, 77.59, "Karnataka"],
+      [8.52, 76.94, "Kerala"],
+      [15.49, 73.83, "Goa"],
+      [22.57, 88.36, "West Bengal"],
+      [26.14, 91.74, "Assam"],
+      [25.57, 91.88, "Meghalaya"],
+      [27.33, 88.61, "Sikkim"],
+      [23.83, 91.28, "Tripura"],
+      [34.08, 74.8, "Jammu & Kashmir"],
+      [34.16, 77.58, "Ladakh"],
+      [26.91, 75.79, "Rajasthan"],
+      [23.26, 77.41, "Madhya Pradesh"],
+      [26.85, 80.95, "Uttar Pradesh"],
+      [25.59, 85.14, "Bihar"],
+      [20.27, 85.84, "Odisha"],
+      [20.27, 73.01, "Dadra & Nagar Haveli and Daman & Diu"],
+      [11.67, 92.74, "Andaman & Nicobar Islands"],
+    ]
+    for (const [lat, lon, state] of capitals) {
+      expect(locateRegion(lat, lon), state).toMatchObject({ state, district: null, districtCode: null })
+    }
+    // Arabian Sea
+    expect(locateRegion(15, 70)).toBeNull()
+  })
+})
@@ -0,0 +1,91 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { centreIndex, createCentreIndex, CSC_HELPLINE, haversineKm, parseKinds, type CentreData } from "@/lib/centres"
+
+const NAGPUR = { lat: 21.146, lon: 79.088 }
+
+const data: CentreData = {
+  version: 1,
+  coverage: "imported",
+  source: "test",
+  centres: [
+    { id: "far", kind: "csc", name: "Wardha CSC", district: "27.wardha", lat: 20.745, lon: 78.602 },
+    { id: "near", kind: "csc", name: "Sitabuldi CSC", district: "27.nagpur", lat: 21.142, lon: 79.083, phone: "0712-000" },
+    { id: "po", kind: "post-office", name: "Nagpur GPO", district: "27.nagpur", lat: 21.153, lon: 79.074 },
+    { id: "bank", kind: "bank", name: "Civil Lines branch", district: "27.nagpur", lat: 21.16, lon: 79.07 },
+  ],
+}
+
+describe("haversineKm", () => {
+  it("measures great-circle distance", () => {
+    // Nagpur to Mumbai is about 680km as the crow flies
+    expect(haversineKm(NAGPUR, { lat: 18.94, lon: 72.836 })).toBeGreaterThan(660)
+    expect(haversineKm(NAGPUR, { lat: 18.94, lon: 72.836 })).toBeLessThan(700)
+    expect(haversineKm(NAGPUR, NAGPUR)).toBe(0)
+  })
+})
+
+describe("createCentreIndex", () => {
+  const index = createCentreIndex(data)
+
+  it("sorts centres within the radius by distance", () => {
+    const near = index.nearest(NAGPUR, { limit: 10, maxKm: 20 })
+    expect(near.map((c) => c.id)).toEqual(["near", "po", "bank"])
+    expect(near[0].distanceKm).toBeLessThan(1)
+    expect(index.nearest(NAGPUR, { limit: 10, maxKm: 100 }).at(-1)?.id).toBe("far")
+    expect(index.nearest(NAGPUR, { limit: 1, maxKm: 100 })).toHaveLength(1)
+  })
+
+  it("filters by kind", () => {
+    expect(index.nearest(NAGPUR, { kinds: ["bank", "post-office"], limit: 10, maxKm: 100 }).map((c) => c.id)).toEqual([
+      "po",
+      "bank",
+    ])
+    expect(parseKinds("csc, bank")).toEqual(["csc", "bank"])
+    expect(parseKinds("csc,atm")).toBeNull()
+    expect(parseKinds(null)).toEqual([])
+  })
+
+  it("lists a district's centres by kind when there are no coordinates", () => {
+    const list = index.inDistrict("27.nagpur", { limit: 10 })
+    expect(list.map((c) => c.id)).toEqual(["near", "bank", "po"])
+    expect(list.every((c) => c.distanceKm === null)).toBe(true)
+  })
+})
+
+describe("centreIndex", () => {
+  let dir: string | null = null
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    if (dir) await rm(dir, { recursive: true, force: true })
+    dir = null
+  })
+
+  it("serves the bundled head post offices without phone numbers it cannot vouch for", async () => {
+    const index = await centreIndex()
+    expect(index.coverage).toBe("imported")
+    const nagpur = index.inDistrict("27.nagpur", { limit: 10 })
+    expect(nagpur.map((c) => c.name)).toEqual(["Kamthi H.O", "Nagpur City H.O", "Nagpur GPO"])
+    expect(index.nearest({ lat: 13.082, lon: 80.27 }, { limit: 10, maxKm: 10 }).length).toBeGreaterThan(3)
+    expect(nagpur.every((c) => c.kind === "post-office" && c.phone === undefined)).toBe(true)
+    expect(CSC_HELPLINE).toBe("1800-121-3468")
+  })
+
+  it("reads CENTRES_FILE and falls back to the bundled data when it is invalid", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "centres-"))
+    const file = path.join(dir, "centres.json")
+    await writeFile(file, JSON.stringify(data))
+    vi.stubEnv("CENTRES_FILE", file)
+    expect((await centreIndex()).nearest(NAGPUR, { limit: 1, maxKm: 5 })[0].id).toBe("near")
+
+    const other = path.join(dir, "broken.json")
+    await writeFile(other, JSON.stringify({ ...data, centres: [{ id: "x" }] }))
+    vi.stubEnv("CENTRES_FILE", other)
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    expect((await centreIndex()).inDistrict("27.nagpur", { limit: 10 }).map((c) => c.id)).not.toContain("near")
+  })
+})
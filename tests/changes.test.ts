@@ -0,0 +1,131 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { atomFeed, rssFeed, type Feed } from "@/lib/feed"
+import {
+  applySnapshot,
+  ChangesStoreError,
+  diffSnapshots,
+  MAX_CHANGES,
+  snapshotItems,
+  snapshotRegion,
+  trackedRegions,
+} from "@/lib/schemes/changes"
+import { catalogFor } from "@/lib/schemes/catalog"
+
+const getListing = vi.hoisted(() => vi.fn())
+vi.mock("@/lib/schemes/pipeline", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/schemes/pipeline")>()),
+  getListing,
+}))
+
+const snapshot = snapshotItems(catalogFor("Maharashtra", "Nagpur"))
+const region = { state: "Maharashtra", district: "Nagpur" }
+
+describe("diffSnapshots", () => {
+  it("finds added, modified and removed schemes", () => {
+    const [first, second, ...rest] = snapshot
+    const next = [{ href: "/schemes/new-one", title: "New One" }, { ...second, closeDate: "2030-01-31" }, ...rest]
+    const changes = diffSnapshots(snapshot, next, "2026-01-01T00:00:00.000Z")
+    expect(changes.map((c) => [c.kind, c.href])).toEqual([
+      ["added", "/schemes/new-one"],
+      ["modified", second.href],
+      ["removed", first.href],
+    ])
+    expect(changes[1].fields).toEqual(["closeDate"])
+    expect(diffSnapshots(snapshot, snapshot, "2026-01-01T00:00:00.000Z")).toEqual([])
+  })
+})
+
+describe("applySnapshot", () => {
+  it("records a baseline first, then changes newest first", () => {
+    const baseline = applySnapshot(undefined, region, snapshot, "2026-01-01T00:00:00.000Z")
+    expect(baseline.changes).toEqual([])
+    expect(baseline.region.items).toHaveLength(snapshot.length)
+
+    const withNew = [...snapshot, { href: "/schemes/a", title: "A" }]
+    const first = applySnapshot(baseline.region, region, withNew, "2026-01-02T00:00:00.000Z")
+    const second = applySnapshot(first.region, region, snapshot, "2026-01-03T00:00:00.000Z")
+    expect(second.region.changes.map((c) => [c.kind, c.at.slice(0, 10)])).toEqual([
+      ["removed", "2026-01-03"],
+      ["added", "2026-01-02"],
+    ])
+  })
+
+  it("keeps at most MAX_CHANGES per region", () => {
+    let current = applySnapshot(undefined, region, [], "2026-01-01T00:00:00.000Z").region
+    for (let i = 0; i < 3; i++) {
+      const items = Array.from({ length: MAX_CHANGES }, (_, n) => ({ href: `/schemes/s${i}-${n}`, title: `S${n}` }))
+      current = applySnapshot(current, region, items, `2026-01-0${i + 2}T00:00:00.000Z`).region
+    }
+    expect(current.changes).toHaveLength(MAX_CHANGES)
+    expect(current.changes[0].at).toBe("2026-01-04T00:00:00.000Z")
+  })
+})
+
+describe("snapshotRegion", () => {
+  let dir: string
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "changes-"))
+    process.env.CHANGES_FILE = path.join(dir, "changes.json")
+    const items = catalogFor("Maharashtra", "Nagpur")
+    const attempts = [{ provider: "myscheme", outcome: "hit", ms: 10, count: items.length }]
+    getListing.mockResolvedValue({ value: { items, provider: "myscheme", attempts }, items })
+  })
+  afterEach(async () => {
+    delete process.env.CHANGES_FILE
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it("diffs against the stored snapshot", async () => {
+    expect(await snapshotRegion("Maharashtra", "Nagpur")).toMatchObject({ status: "baseline", changes: [] })
+    expect(await snapshotRegion("Maharashtra", "Nagpur")).toMatchObject({ status: "recorded", changes: [] })
+  })
+
+  it("fails instead of overwriting a store that does not parse", async () => {
+    const corrupt = JSON.stringify({ version: 1, regions: { Karnataka: { items: "lost?" } } })
+    await writeFile(process.env.CHANGES_FILE!, corrupt)
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    await expect(snapshotRegion("Maharashtra", "Nagpur")).rejects.toBeInstanceOf(ChangesStoreError)
+    expect(await readFile(process.env.CHANGES_FILE!, "utf8")).toBe(corrupt)
+    vi.restoreAllMocks()
+  })
+})
+
+describe("trackedRegions", () => {
+  it("resolves names and codes and drops unknown regions", () => {
+    expect(trackedRegions("MH/nagpur, Karnataka ,Atlantis")).toEqual([
+      { state: "Maharashtra", district: "Nagpur" },
+      { state: "Karnataka", district: "" },
+    ])
+  })
+})
+
+describe("feeds", () => {
+  const feed: Feed = {
+    id: "https://example.org/api/schemes/changes?state=Maharashtra",
+    title: "Scheme changes for Nagpur, Maharashtra",
+    link: "https://example.org/r/maharashtra/nagpur",
+    self: "https://example.org/api/schemes/changes?state=Maharashtra&format=atom",
+    updated: "2026-01-02T00:00:00.000Z",
+    lang: "en",
+    entries: [
+      {
+        id: "https://example.org/api/schemes/changes?state=Maharashtra#1",
+        title: "New scheme: Tools & <Seeds>",
+        link: "https://www.myscheme.gov.in/schemes/tools",
+        updated: "2026-01-02T00:00:00.000Z",
+      },
+    ],
+  }
+
+  it("escapes text in Atom and RSS", () => {
+    const atom = atomFeed(feed)
+    expect(atom).toContain("<title>New scheme: Tools &amp; &lt;Seeds&gt;</title>")
+    expect(atom).toContain('href="https://example.org/api/schemes/changes?state=Maharashtra&amp;format=atom"')
+    const rss = rssFeed(feed)
+    expect(rss).toContain("<pubDate>Fri, 02 Jan 2026 00:00:00 GMT</pubDate>")
+    expect(rss).not.toMatch(/&(?!amp;|lt;|gt;|quot;|apos;)/)
+  })
+})
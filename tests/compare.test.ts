@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { applicationMode, benefitAmount, compareRows, criteriaLines } from "@/lib/compare"
+import { translate, type MessageKey } from "@/lib/i18n"
+import { catalogFor } from "@/lib/schemes/catalog"
+import { parseSchemePage } from "@/lib/schemes/detail"
+import { fixture } from "./helpers"
+
+const t = (key: MessageKey, vars?: Record<string, string | number>) => translate("en", key, vars)
+const nagpur = catalogFor("Maharashtra", "Nagpur")
+const byId = (id: string) => nagpur.find((i) => i.id === id)!
+
+describe("benefitAmount", () => {
+  it("prefers the line naming an amount", () => {
+    expect(benefitAmount(["Financial help for students.", "Rs. 12,000 a year for hostel fees."])).toBe(
+      "Rs. 12,000 a year for hostel fees.",
+    )
+    expect(benefitAmount(["Free training."])).toBe("Free training.")
+    expect(benefitAmount([])).toBeNull()
+  })
+})
+
+describe("applicationMode", () => {
+  it("tells online, offline and both apart", () => {
+    expect(applicationMode(["Register on the PM-KISAN portal."])).toBe("online")
+    expect(applicationMode(["Visit the nearest CSC with your documents."])).toBe("offline")
+    expect(applicationMode(["Apply online, or visit the bank branch."])).toBe("both")
+    expect(applicationMode(["Contact the helpline."])).toBeNull()
+  })
+})
+
+describe("criteriaLines", () => {
+  it("puts curated criteria into words", () => {
+    expect(criteriaLines({ minAge: 21, maxAge: 65, genders: ["female"], maxIncomeBand: "2.5l-5l" }, t)).toEqual([
+      "Age 21–65",
+      "Female",
+      "Family income: ₹2.5–5 lakh",
+    ])
+    expect(criteriaLines({ anyOf: [{ genders: ["female"] }, { castes: ["sc", "st"] }] }, t)).toEqual([
+      "Any of: Female; SC / ST",
+    ])
+  })
+})
+
+describe("compareRows", () => {
+  it("aligns curated schemes row by row", () => {
+    const rows = compareRows([{ item: byId("central.ab-pmjay") }, { item: byId("mh.mjpjay") }], t)
+    expect(rows.map((r) => r.id)).toEqual(["benefit", "eligibility", "documents", "level", "apply"])
+    const row = (id: string) => rows.find((r) => r.id === id)!.cells
+    expect(row("benefit")[0][0]).toMatch(/₹5 lakh/)
+    expect(row("level")).toEqual([["Central government"], ["State government"]])
+    expect(row("apply")).toEqual([["Online or at an office/CSC"], ["At an office, bank or CSC"]])
+  })
+
+  it("fills cells from the scheme page when there is one", () => {
+    const detail = parseSchemePage(fixture("scheme-apy.html"), "apy")
+    const item = { ...byId("central.apy"), benefit: undefined, applyMode: undefined, documents: undefined }
+    const [benefit, eligibility, documents, , apply] = compareRows([{ item, detail }, { item: byId("mh.mjpjay") }], t)
+    expect(benefit.cells[0]).toEqual(["Guaranteed minimum monthly pension of ₹1,000 to ₹5,000 from the age of 60."])
+    expect(eligibility.cells[0]).toHaveLength(3)
+    expect(documents.cells[0]).toEqual(["Aadhaar card", "Savings bank account passbook", "Mobile number"])
+    expect(apply.cells[0]).toEqual(["At an office, bank or CSC"])
+  })
+
+  it("prefers the page's benefit text to the curated English headline", () => {
+    const detail = parseSchemePage(fixture("scheme-apy.html"), "apy")
+    const item = { ...byId("central.apy"), benefit: "Pension of ₹1,000–5,000 a month" }
+    const [withPage] = compareRows([{ item, detail }, { item: byId("mh.mjpjay") }], t)
+    expect(withPage.cells[0]).toEqual(["Guaranteed minimum monthly pension of ₹1,000 to ₹5,000 from the age of 60."])
+    const [curated] = compareRows([{ item, detail: { ...detail!, benefits: [] } }, { item: byId("mh.mjpjay") }], t)
+    expect(curated.cells[0]).toEqual(["Pension of ₹1,000–5,000 a month"])
+  })
+})
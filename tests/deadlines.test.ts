@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+import { closingWithin, daysBetween, deadlineState, reminderDue, todayIso } from "@/lib/deadlines"
+import { deadlinesToIcs } from "@/lib/ics"
+
+describe("deadlineState", () => {
+  const today = "2026-10-19"
+
+  it("counts calendar days across month and year ends", () => {
+    expect(daysBetween(today, "2026-11-30")).toBe(42)
+    expect(daysBetween("2026-12-31", "2027-01-01")).toBe(1)
+    expect(daysBetween(today, "2026-10-18")).toBe(-1)
+  })
+
+  it("reports windows that close soon, later, or have closed", () => {
+    expect(deadlineState({ closeDate: "2026-10-19" }, today)).toEqual({ kind: "closing", days: 0, date: "2026-10-19" })
+    expect(deadlineState({ closeDate: "2026-11-18" }, today)?.kind).toBe("closing")
+    expect(deadlineState({ closeDate: "2026-11-19" }, today)?.kind).toBe("open")
+    expect(deadlineState({ closeDate: "2026-10-01" }, today)?.kind).toBe("closed")
+    expect(deadlineState({}, today)).toBeNull()
+  })
+
+  it("reports the opening day of a window that has not opened", () => {
+    expect(deadlineState({ openDate: "2026-11-01", closeDate: "2026-11-10" }, today)).toEqual({
+      kind: "opens",
+      days: 13,
+      date: "2026-11-01",
+    })
+  })
+
+  it("lists open schemes closing within the range, soonest first", () => {
+    const items = [
+      { title: "a", closeDate: "2026-11-10" },
+      { title: "b" },
+      { title: "c", closeDate: "2026-10-25" },
+      { title: "d", closeDate: "2026-10-01" },
+      { title: "e", openDate: "2026-10-30", closeDate: "2026-11-05" },
+      { title: "f", closeDate: "2027-03-31" },
+    ]
+    expect(closingWithin(items, today, 30).map((i) => i.title)).toEqual(["c", "a"])
+  })
+
+  it("makes reminders due from the chosen day until the window closes", () => {
+    expect(reminderDue("2026-10-26", 7, today)).toBe(true)
+    expect(reminderDue("2026-10-27", 7, today)).toBe(false)
+    expect(reminderDue("2026-10-18", 7, today)).toBe(false)
+  })
+
+  it("takes today's date in the requested time zone", () => {
+    // 20:00 UTC is already the next day in India
+    const now = new Date("2026-10-19T20:00:00Z")
+    expect(todayIso("Asia/Kolkata", now)).toBe("2026-10-20")
+    expect(todayIso("UTC", now)).toBe("2026-10-19")
+  })
+})
+
+describe("deadlinesToIcs", () => {
+  const ics = deadlinesToIcs(
+    [
+      {
+        uid: "saved:/schemes/mmlby",
+        title: "Mukhyamantri Majhi Ladki Bahin Yojana, Maharashtra; phase 2",
+        date: "2026-11-30",
+        url: "https://www.myscheme.gov.in/schemes/mmlby",
+        remindDaysBefore: 7,
+      },
+      { uid: "saved:/schemes/apy", title: "अटल पेंशन योजना ".repeat(6).trim(), date: "2026-12-31" },
+    ],
+    new Date("2026-10-19T10:30:00.000Z"),
+  )
+  const lines = ics.split("\r\n")
+
+  it("writes an all-day event on the closing date with an alarm before it", () => {
+    expect(lines[0]).toBe("BEGIN:VCALENDAR")
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261130")
+    expect(lines).toContain("DTEND;VALUE=DATE:20261201")
+    expect(lines).toContain("DTSTAMP:20261019T103000Z")
+    expect(lines).toContain("TRIGGER:-P7D")
+    expect(lines).toContain("DTEND;VALUE=DATE:20270101")
+    expect(ics.match(/BEGIN:VALARM/g)).toHaveLength(1)
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true)
+  })
+
+  it("escapes separators and folds long lines at 75 octets", () => {
+    expect(ics).toContain("SUMMARY:Mukhyamantri Majhi Ladki Bahin Yojana\\, Maharashtra\\; phase 2")
+    for (const line of lines) expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    const unfolded = ics.replace(/\r\n /g, "")
+    expect(unfolded).toContain(`SUMMARY:${"अटल पेंशन योजना ".repeat(6).trim()}`)
+  })
+})
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { parseSchemePage } from "@/lib/schemes/detail"
+import { fixture } from "./helpers"
+
+describe("parseSchemePage", () => {
+  it("reads sections from __NEXT_DATA__", () => {
+    const detail = parseSchemePage(fixture("scheme-apy.html"), "apy")
+    expect(detail).toMatchObject({ slug: "apy", title: "Atal Pension Yojana" })
+    expect(detail?.benefits).toHaveLength(2)
+    expect(detail?.eligibility).toHaveLength(3)
+    expect(detail?.documents).toEqual(["Aadhaar card", "Savings bank account passbook", "Mobile number"])
+    expect(detail?.application).toHaveLength(2)
+    expect(detail?.faqs).toHaveLength(1)
+  })
+
+  it("falls back to headings in the HTML without __NEXT_DATA__", () => {
+    const html = fixture("scheme-apy.html").replace(/<script id="__NEXT_DATA__"[\s\S]*?<\/script>/, "")
+    const fromHtml = parseSchemePage(html, "apy")
+    const fromJson = parseSchemePage(fixture("scheme-apy.html"), "apy")
+    expect(fromHtml).toEqual(fromJson)
+  })
+})
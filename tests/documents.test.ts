@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import { buildChecklist, checklistSms, checklistText, documentKinds } from "@/lib/documents"
+import { translate, type MessageKey } from "@/lib/i18n"
+import { catalogFor } from "@/lib/schemes/catalog"
+import { parseSchemePage } from "@/lib/schemes/detail"
+import { smsEncoding, smsLength, splitSms } from "@/lib/sms"
+import { fixture } from "./helpers"
+
+const en = (key: MessageKey, vars?: Record<string, string | number>) => translate("en", key, vars)
+const hi = (key: MessageKey, vars?: Record<string, string | number>) => translate("hi", key, vars)
+
+describe("documentKinds", () => {
+  it("recognizes common documents in English and Hindi", () => {
+    expect(documentKinds("Aadhaar Card")).toEqual(["aadhaar"])
+    expect(documentKinds("आधार कार्ड")).toEqual(["aadhaar"])
+    expect(documentKinds("Copy of Aadhaar card and bank passbook")).toEqual(["aadhaar", "bank"])
+    expect(documentKinds("Land ownership records (7/12 extract)")).toEqual(["land"])
+  })
+
+  it("leaves lines offering alternatives as they are", () => {
+    expect(documentKinds("Identity proof: Aadhaar card / Voter ID")).toEqual([])
+    expect(documentKinds("Aadhaar card or Voter ID card")).toEqual([])
+  })
+})
+
+describe("buildChecklist", () => {
+  const apy = parseSchemePage(fixture("scheme-apy.html"), "apy")!
+  const curated = catalogFor("Maharashtra", "Nagpur")
+  const pmKisan = curated.find((i) => i.id === "central.pm-kisan")!
+  const checklist = buildChecklist([
+    { id: "apy", title: "Atal Pension Yojana", documents: apy.documents },
+    { id: pmKisan.id, title: pmKisan.title, documents: pmKisan.documents ?? [] },
+    { id: "local", title: "District scheme", documents: ["Aadhar card", "Self-declaration form"] },
+    { id: "none", title: "Scheme without a list", documents: [] },
+  ])
+
+  it("merges documents across schemes and lists who needs each", () => {
+    const aadhaar = checklist.entries[0]
+    expect(aadhaar).toMatchObject({ kind: "aadhaar", schemes: ["apy", "central.pm-kisan", "local"] })
+    expect(checklist.entries.find((e) => e.kind === "bank")?.schemes).toEqual(["apy", "central.pm-kisan"])
+    expect(checklist.entries.filter((e) => e.kind === "aadhaar")).toHaveLength(1)
+    // Documents outside the known kinds keep their wording and come last
+    expect(checklist.entries.at(-1)).toMatchObject({ kind: null, text: "Self-declaration form", schemes: ["local"] })
+    expect(checklist.missing).toEqual([{ id: "none", title: "Scheme without a list" }])
+  })
+
+  it("exports printable text with translated document names", () => {
+    const text = checklistText(checklist, hi)
+    expect(text).toContain("[ ] आधार कार्ड")
+    expect(checklistText(checklist, en)).toContain("Needed for: Atal Pension Yojana, PM-KISAN Samman Nidhi")
+  })
+
+  it("exports SMS messages that each fit one segment", () => {
+    for (const t of [en, hi]) {
+      const parts = checklistSms(checklist, t)
+      expect(parts.length).toBeGreaterThan(0)
+      for (const part of parts) expect(smsLength(part)).toBeLessThanOrEqual(smsEncoding(part) === "gsm7" ? 160 : 70)
+    }
+    expect(checklistSms(checklist, en)[0]).toMatch(/^Document checklist:\nA Atal Pension Yojana\n/)
+  })
+})
+
+describe("splitSms", () => {
+  it("uses 160 characters for GSM text and 70 for other scripts", () => {
+    expect(smsEncoding("Aadhaar card, bank passbook")).toBe("gsm7")
+    expect(smsEncoding("आधार कार्ड")).toBe("ucs2")
+    expect(smsLength("{x}")).toBe(5)
+    expect(splitSms("word ".repeat(40))).toHaveLength(2)
+    expect(splitSms("शब्द ".repeat(20))).toHaveLength(2)
+  })
+
+  it("breaks at spaces and never drops text", () => {
+    const text = Array.from({ length: 30 }, (_, i) => `item${i}`).join(" ")
+    const parts = splitSms(text)
+    expect(parts.join(" ")).toBe(text)
+    for (const part of parts) expect(part).not.toMatch(/^\s|\s$/)
+  })
+})
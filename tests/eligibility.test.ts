@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { assessCriteria, assessItem, reasonText } from "@/lib/eligibility"
+import { translate, type MessageKey } from "@/lib/i18n"
+
+const en = (key: MessageKey, vars?: Record<string, string | number>) => translate("en", key, vars)
+const hi = (key: MessageKey, vars?: Record<string, string | number>) => translate("hi", key, vars)
+
+describe("eligibility reasons", () => {
+  const criteria = { maxAge: 40, occupations: ["farmer" as const], maxIncomeBand: "2.5l-5l" as const }
+
+  it("names the conditions behind each verdict as data", () => {
+    expect(assessCriteria(criteria, { age: 50 }, "curated")).toEqual({
+      status: "not-eligible",
+      reason: { code: "only-for", conditions: [{ kind: "max-age", age: 40 }] },
+      source: "curated",
+    })
+    expect(assessCriteria(criteria, { age: 30, occupation: "farmer" }, "curated").reason).toEqual({
+      code: "check",
+      conditions: [{ kind: "income", maxBand: "2.5l-5l" }],
+    })
+    expect(assessItem({ title: "Road repair" }, {}).reason).toEqual({ code: "no-details" })
+  })
+
+  it("never rules a scheme out on keywords alone", () => {
+    const item = { title: "Stand-Up India", description: "Bank loans for women and SC/ST entrepreneurs" }
+    expect(assessItem(item, { gender: "male", caste: "general" })).toEqual({
+      status: "maybe",
+      reason: { code: "appears-to-target", conditions: [{ kind: "gender", genders: ["female"] }] },
+      source: "inferred",
+    })
+    expect(assessCriteria({ genders: ["female"] }, { gender: "male" }, "curated").status).toBe("not-eligible")
+  })
+
+  it("words them in the reader's language", () => {
+    const verdict = assessCriteria(criteria, { age: 30, occupation: "farmer", incomeBand: "below-1l" }, "curated")
+    expect(reasonText(verdict.reason, en)).toBe("Matches age up to 40, Farmer, income ₹2.5–5 lakh or less")
+    expect(reasonText(verdict.reason, hi)).toBe("मेल खाता है: आयु 40 तक, किसान, आय ₹2.5–5 लाख या कम")
+    expect(reasonText({ code: "no-rules" }, hi)).toBe("पात्रता के नियम दर्ज नहीं हैं")
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest"
+import { collectRegions, exportCsv, exportHtml, exportJson, mapWithConcurrency } from "@/lib/export"
+import { translate, type MessageKey } from "@/lib/i18n"
+import { catalogFor } from "@/lib/schemes/catalog"
+import type { getListing } from "@/lib/schemes/pipeline"
+import type { SchemeItem } from "@/lib/schemes/schema"
+
+const t = (key: MessageKey, vars?: Record<string, string | number>) => translate("en", key, vars)
+
+const item = (over: Partial<SchemeItem> = {}): SchemeItem => ({
+  id: "x",
+  source: "myscheme",
+  title: "Scheme",
+  href: "/schemes/x",
+  canonicalUrl: "https://www.myscheme.gov.in/schemes/x",
+  ...over,
+})
+
+// A stand-in for getListing: the curated catalog as if a live provider answered
+const listing = (fail: string[] = []) =>
+  (async (state: string, district: string) => {
+    if (fail.includes(district)) throw new Error("boom")
+    const items = catalogFor(state, district)
+    return { value: { provider: "myscheme", attempts: [] }, items, storedAt: 0, ageMs: 0, stale: false }
+  }) as unknown as typeof getListing
+
+describe("mapWithConcurrency", () => {
+  it("keeps order and never runs more than the limit at once", async () => {
+    let running = 0
+    let peak = 0
+    const out = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (n) => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise((r) => setTimeout(r, n))
+      running--
+      return n * 10
+    })
+    expect(out).toEqual([50, 10, 40, 20, 30])
+    expect(peak).toBe(2)
+    expect(await mapWithConcurrency([], 3, async (n) => n)).toEqual([])
+  })
+})
+
+describe("collectRegions", () => {
+  it("marks a region that throws as failed and filters by category", async () => {
+    const regions = [
+      { state: "Maharashtra", district: "Nagpur" },
+      { state: "Maharashtra", district: "Pune" },
+    ]
+    const results = await collectRegions(regions, "en", { load: listing(["Pune"]), category: "health" })
+    expect(results.map((r) => r.status)).toEqual(["ok", "failed"])
+    expect(results[0].items.length).toBeGreaterThan(0)
+    expect(results[0].items.every((i) => i.categories?.includes("health"))).toBe(true)
+  })
+})
+
+describe("exportCsv", () => {
+  it("quotes fields, neutralises formulas and starts with a BOM", () => {
+    const csv = exportCsv(
+      [
+        {
+          state: "Maharashtra",
+          district: "Nagpur",
+          status: "ok",
+          items: [item({ title: 'Say "hi", now', description: "=HYPERLINK(1)\nmore", categories: ["health", "pension"] })],
+        },
+      ],
+      t,
+    )
+    expect(csv.startsWith("\uFEFFstate,district,title,")).toBe(true)
+    const row = csv.split("\r\n")[1]
+    expect(row).toBe(
+      `Maharashtra,Nagpur,"Say ""hi"", now",'=HYPERLINK(1) more,Health; Pension,,,,,https://www.myscheme.gov.in/schemes/x`,
+    )
+  })
+})
+
+describe("exportJson and exportHtml", () => {
+  const regions = [
+    { state: "Maharashtra", district: "Nagpur", status: "ok" as const, items: [item({ title: "<b>A</b>" })] },
+    { state: "Karnataka", district: null, status: "failed" as const, items: [] },
+  ]
+
+  it("lists each region with its status and schemes", () => {
+    const json = exportJson(regions, { lang: "en", generatedAt: "2026-01-01T00:00:00.000Z" })
+    expect(json.regions.map((r) => [r.state, r.status, r.count])).toEqual([
+      ["Maharashtra", "ok", 1],
+      ["Karnataka", "failed", 0],
+    ])
+    expect(json.regions[0].schemes[0].url).toBe("https://www.myscheme.gov.in/schemes/x")
+  })
+
+  it("escapes text and prints links and failures", () => {
+    const html = exportHtml(regions, t, { lang: "en", generatedAt: "2026-01-01T00:00:00.000Z" })
+    expect(html).toContain("&lt;b&gt;A&lt;/b&gt;")
+    expect(html).not.toContain("<b>A</b>")
+    expect(html).toContain("https://www.myscheme.gov.in/schemes/x")
+    expect(html).toContain(t("share.title", { region: "Nagpur, Maharashtra" }))
+    expect(html).toContain(t("export.failed"))
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { LGD_SOURCE, parseRegions, resolveRegion, STATES } from "@/lib/gazetteer"
+
+const districts = STATES.flatMap((s) => s.districts.map((d) => ({ ...d, stateCode: s.code })))
+
+describe("gazetteer data", () => {
+  it("gives every state a local-script name and every district a unique ID under its state", () => {
+    expect(STATES.filter((s) => !s.local?.length).map((s) => s.name)).toEqual([])
+    expect(new Set(districts.map((d) => d.id)).size).toBe(districts.length)
+    expect(districts.filter((d) => !d.id.startsWith(`${d.stateCode}.`)).map((d) => d.id)).toEqual([])
+  })
+
+  // Codes and local names come in together from scripts/import-lgd.mjs, for every district or none.
+  // Reported as skipped, not passed, until the import has been run and committed.
+  it.skipIf(!LGD_SOURCE)("carries an LGD code and a local-script name for every district", () => {
+    expect(districts.filter((d) => !/^\d+$/.test(d.lgd ?? "")).map((d) => d.id)).toEqual([])
+    expect(new Set(districts.map((d) => d.lgd)).size).toBe(districts.length)
+    expect(districts.filter((d) => !d.local?.length).map((d) => d.id)).toEqual([])
+  })
+
+  it.runIf(!LGD_SOURCE)("carries no LGD codes before the import", () => {
+    expect(districts.filter((d) => d.lgd).map((d) => d.id)).toEqual([])
+  })
+
+  it("resolves every district by its local names", () => {
+    for (const d of districts.filter((d) => d.local?.length)) {
+      for (const name of d.local!) expect(resolveRegion(d.stateCode, name)?.districtCode, name).toBe(d.id)
+    }
+  })
+})
+
+describe("parseRegions", () => {
+  it("resolves spellings, de-duplicates and reports unknown entries", () => {
+    const { regions, unknown } = parseRegions(["maharashtra/nagpur,Karnataka", "MH/Nagpur", "Atlantis", "Karnataka/Nowhere"])
+    expect(regions).toEqual([
+      { state: "Maharashtra", district: "Nagpur" },
+      { state: "Karnataka", district: null },
+    ])
+    expect(unknown).toEqual(["Atlantis", "Karnataka/Nowhere"])
+  })
+})
@@ -0,0 +1,8 @@
+import { readFileSync } from "node:fs"
+import path from "node:path"
+
+export const FIXTURE_DIR = path.join(__dirname, "fixtures/myscheme")
+
+export function fixture(name: string) {
+  return readFileSync(path.join(FIXTURE_DIR, name), "utf8")
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+import { parseSearchHtml } from "@/lib/schemes/providers/html-search"
+import { fixture } from "./helpers"
+
+describe("parseSearchHtml", () => {
+  it("collects scheme anchors once each, skipping menus and view-all links", () => {
+    const items = parseSearchHtml(fixture("search-en.html"), "u")
+    expect(items.map((i) => i.href)).toEqual([
+      "/schemes/pm-kisan",
+      "/schemes/nsmny",
+      "/schemes/mjpjay",
+      "/schemes/apy",
+      "/schemes/pmay-g",
+    ])
+    expect(items.map((i) => i.title)).toContain("Mahatma Jyotirao Phule Jan Arogya Yojana")
+  })
+
+  it("takes the description from the enclosing card and ignores short paragraphs", () => {
+    const byHref = new Map(parseSearchHtml(fixture("search-en.html"), "u").map((i) => [i.href, i]))
+    expect(byHref.get("/schemes/pm-kisan")?.description).toMatch(/^Income support of ₹6,000/)
+    expect(byHref.get("/schemes/apy")?.description).toBeUndefined()
+  })
+
+  it("drops the language prefix of localized links", () => {
+    const items = parseSearchHtml(fixture("search-hi.html"), "u")
+    expect(items.map((i) => i.href)).toEqual(["/schemes/pm-kisan", "/schemes/apy"])
+    expect(items[1].description).toMatch(/^असंगठित/)
+  })
+
+  it("reads client-rendered result lists", () => {
+    const items = parseSearchHtml(fixture("search-client-rendered.html"), "u")
+    expect(items).toHaveLength(3)
+    expect(items.every((i) => i.description && i.sourceUrl === "u")).toBe(true)
+  })
+})
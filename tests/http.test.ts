@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createCircuitBreaker } from "@/lib/http/breaker"
+import { requestBudgetMs, UpstreamError, upstreamFetch, USER_AGENT } from "@/lib/http/client"
+import { clientIp, createRateLimiter } from "@/lib/http/rate-limit"
+import { createThrottle, ThrottleFullError } from "@/lib/http/throttle"
+import { htmlSearchProvider } from "@/lib/schemes/providers/html-search"
+import { nextDataProvider } from "@/lib/schemes/providers/next-data"
+
+describe("createCircuitBreaker", () => {
+  it("opens after repeated failures and lets one trial through after the cooldown", () => {
+    const breaker = createCircuitBreaker({ threshold: 2, cooldownMs: 1000 })
+    breaker.failure("boom", 0)
+    expect(breaker.allow(0)).toBe(true)
+    breaker.failure("boom", 10)
+    expect(breaker.snapshot(10)).toMatchObject({ state: "open", consecutiveFailures: 2, lastError: "boom" })
+    expect(breaker.allow(500)).toBe(false)
+
+    expect(breaker.allow(1010)).toBe(true)
+    expect(breaker.allow(1010)).toBe(false)
+    breaker.failure("still down", 1020)
+    expect(breaker.allow(1500)).toBe(false)
+
+    expect(breaker.allow(2100)).toBe(true)
+    breaker.success()
+    expect(breaker.snapshot(2100).state).toBe("closed")
+  })
+})
+
+describe("createThrottle", () => {
+  afterEach(() => vi.useRealTimers())
+
+  it("spaces callers out and turns them away when the queue is too long", async () => {
+    vi.useFakeTimers()
+    const throttle = createThrottle({ minIntervalMs: 1000, maxWaitMs: 1500 }, () => Date.now())
+    const sent: number[] = []
+    const start = Date.now()
+    const calls = [throttle.wait(), throttle.wait()].map((p) => p.then(() => sent.push(Date.now() - start)))
+    await expect(throttle.wait()).rejects.toBeInstanceOf(ThrottleFullError)
+    await vi.runAllTimersAsync()
+    await Promise.all(calls)
+    expect(sent).toEqual([0, 1000])
+  })
+})
+
+describe("createRateLimiter", () => {
+  it("allows bursts up to capacity, then refills over time", () => {
+    const limiter = createRateLimiter({ capacity: 2, refillPerSec: 1 })
+    expect(limiter.take("a", 0).ok).toBe(true)
+    expect(limiter.take("a", 0).ok).toBe(true)
+    expect(limiter.take("a", 0)).toMatchObject({ ok: false, retryAfterSec: 1 })
+    expect(limiter.take("b", 0).ok).toBe(true)
+    expect(limiter.take("a", 1000).ok).toBe(true)
+  })
+
+  it("charges costly requests several tokens, capped at the capacity", () => {
+    const limiter = createRateLimiter({ capacity: 10, refillPerSec: 1 })
+    expect(limiter.take("a", 0, 8)).toMatchObject({ ok: true, remaining: 2 })
+    expect(limiter.take("a", 0, 3)).toMatchObject({ ok: false, retryAfterSec: 1 })
+    expect(limiter.take("a", 0, 2).ok).toBe(true)
+    expect(limiter.take("b", 0, 50)).toMatchObject({ ok: true, remaining: 0 })
+  })
+
+  it("forgets the least recently seen clients past the key limit", () => {
+    const limiter = createRateLimiter({ capacity: 1, refillPerSec: 0.001 }, 2)
+    limiter.take("a", 0)
+    limiter.take("b", 0)
+    limiter.take("c", 0)
+    expect(limiter.take("a", 0).ok).toBe(true)
+    expect(limiter.take("c", 0).ok).toBe(false)
+  })
+
+  it("reads the client address from proxy headers", () => {
+    const headers: Record<string, string> = { "x-forwarded-for": "203.0.113.7, 10.0.0.1" }
+    expect(clientIp((h) => headers[h] ?? null)).toBe("10.0.0.1")
+    expect(clientIp((h) => headers[h] ?? null, 2)).toBe("203.0.113.7")
+    expect(clientIp((h) => (h === "x-real-ip" ? "198.51.100.4" : null))).toBe("198.51.100.4")
+    expect(clientIp(() => null)).toBe("unknown")
+  })
+
+  it("keys on the proxy-added address, so a spoofed header does not reset the budget", () => {
+    const limiter = createRateLimiter({ capacity: 1, refillPerSec: 0.001 })
+    const from = (spoofed: string) => clientIp((h) => (h === "x-forwarded-for" ? `${spoofed}, 198.51.100.9` : null))
+    expect(limiter.take(from("1.1.1.1"), 0).ok).toBe(true)
+    expect(limiter.take(from("2.2.2.2"), 0).ok).toBe(false)
+  })
+})
+
+describe("upstreamFetch", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it("retries transient errors and sends an identifying User-Agent", async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("busy", { status: 503 }))
+      .mockResolvedValueOnce(new Response("ok", { status: 200 }))
+    vi.stubGlobal("fetch", fetchMock)
+    const pending = upstreamFetch("https://retry.example.test/page")
+    await vi.runAllTimersAsync()
+    expect(await (await pending).text()).toBe("ok")
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(fetchMock.mock.calls[0][1].headers["User-Agent"]).toBe(USER_AGENT)
+    expect(USER_AGENT).not.toMatch(/Mozilla|KaiOS/)
+  })
+
+  it("fails fast once the host's circuit is open", async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi.fn(async () => new Response("down", { status: 500 }))
+    vi.stubGlobal("fetch", fetchMock)
+    for (let i = 0; i < 5; i++) {
+      const pending = upstreamFetch("https://down.example.test/").catch((err) => err)
+      await vi.runAllTimersAsync()
+      expect(await pending).toMatchObject({ kind: "http", status: 500 })
+    }
+    const calls = fetchMock.mock.calls.length
+    const err = await upstreamFetch("https://down.example.test/").catch((e) => e)
+    expect(err).toBeInstanceOf(UpstreamError)
+    expect(err.kind).toBe("circuit-open")
+    expect(fetchMock.mock.calls.length).toBe(calls)
+  })
+
+  it("passes client errors through without retrying", async () => {
+    const fetchMock = vi.fn(async () => new Response("missing", { status: 404 }))
+    vi.stubGlobal("fetch", fetchMock)
+    expect((await upstreamFetch("https://gone.example.test/x")).status).toBe(404)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("finishes its retry within the budget the myScheme providers allow", async () => {
+    vi.useFakeTimers()
+    const hang = (_: string, init: RequestInit) =>
+      new Promise<Response>((_, reject) => init.signal!.addEventListener("abort", () => reject(new Error("aborted"))))
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("busy", { status: 429, headers: { "retry-after": "2" } }))
+      .mockImplementationOnce(hang)
+    vi.stubGlobal("fetch", fetchMock)
+    const start = Date.now()
+    const pending = upstreamFetch("https://www.myscheme.gov.in/search").catch((err) => err)
+    await vi.runAllTimersAsync()
+    expect(await pending).toMatchObject({ kind: "timeout" })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    const budget = requestBudgetMs("www.myscheme.gov.in")
+    expect(Date.now() - start).toBeLessThanOrEqual(budget)
+    expect(nextDataProvider.timeoutMs).toBeGreaterThanOrEqual(budget)
+    expect(htmlSearchProvider.timeoutMs).toBeGreaterThanOrEqual(budget)
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest"
+import { collectSchemeItemsFromUnknownJson, extractNextDataFromHtml } from "@/lib/schemes/myscheme"
+import { validItems } from "@/lib/schemes/pipeline"
+import { fixture } from "./helpers"
+
+const URL_EN = "https://www.myscheme.gov.in/search?q=Maharashtra+Nagpur"
+
+describe("extractNextDataFromHtml", () => {
+  it("parses the embedded __NEXT_DATA__ payload", () => {
+    const data = extractNextDataFromHtml(fixture("search-en.html"))
+    expect(data.page).toBe("/search")
+    expect(data.buildId).toBe("fixture")
+    expect(data.props.pageProps.searchResults.hits).toHaveLength(8)
+  })
+
+  it("finds the script whatever the attribute order", () => {
+    const html = '<script type="application/json" id="__NEXT_DATA__" nonce="x">{"page":"/"}</script>'
+    expect(extractNextDataFromHtml(html)).toEqual({ page: "/" })
+  })
+
+  it("returns null without a payload", () => {
+    expect(extractNextDataFromHtml("<html><body><p>Maintenance</p></body></html>")).toBeNull()
+  })
+
+  it("returns null for a truncated payload", () => {
+    expect(extractNextDataFromHtml(fixture("search-broken-next-data.html"))).toBeNull()
+  })
+})
+
+describe("collectSchemeItemsFromUnknownJson", () => {
+  it("collects scheme hits once each and skips navigation, filter and view-all entries", () => {
+    const items = collectSchemeItemsFromUnknownJson(extractNextDataFromHtml(fixture("search-en.html")), URL_EN)
+    expect(items.map((i) => i.href)).toEqual([
+      "/schemes/pm-kisan",
+      "/schemes/nsmny",
+      "/schemes/mjpjay",
+      "/schemes/apy",
+      "/schemes/pmay-g",
+      "/schemes/mmlby",
+    ])
+    expect(items.every((i) => i.sourceUrl === URL_EN)).toBe(true)
+  })
+
+  it("reads title or name and description, excerpt or summary", () => {
+    const items = collectSchemeItemsFromUnknownJson(extractNextDataFromHtml(fixture("search-en.html")), URL_EN)
+    const byHref = new Map(items.map((i) => [i.href, i]))
+    expect(byHref.get("/schemes/nsmny")?.description).toMatch(/^Additional ₹6,000/)
+    expect(byHref.get("/schemes/mjpjay")).toMatchObject({
+      title: "Mahatma Jyotirao Phule Jan Arogya Yojana",
+      description: expect.stringMatching(/^Cashless treatment/),
+    })
+    expect(byHref.get("/schemes/apy")?.description).toBeUndefined()
+  })
+
+  it("reads ministry and tags and scores each item", () => {
+    const items = collectSchemeItemsFromUnknownJson(extractNextDataFromHtml(fixture("search-en.html")), URL_EN)
+    expect(items[0]).toMatchObject({
+      ministry: "Ministry of Agriculture and Farmers Welfare",
+      tags: ["Farmer", "Income Support"],
+      score: 1,
+    })
+    expect(items.find((i) => i.href === "/schemes/apy")?.score).toBe(0.55)
+  })
+
+  it("fills the rich fields from myScheme search records", () => {
+    const items = collectSchemeItemsFromUnknownJson(extractNextDataFromHtml(fixture("search-en.html")), URL_EN)
+    expect(items.find((i) => i.slug === "mmlby")).toEqual({
+      id: "myscheme:mmlby",
+      source: "myscheme",
+      title: "Mukhyamantri Majhi Ladki Bahin Yojana",
+      href: "/schemes/mmlby",
+      canonicalUrl: "https://www.myscheme.gov.in/schemes/mmlby",
+      slug: "mmlby",
+      description: "Monthly financial assistance of ₹1,500 to women aged 21 to 65 in Maharashtra.",
+      sourceUrl: URL_EN,
+      level: "state",
+      ministry: "Women and Child Development Department",
+      categories: ["women-child"],
+      tags: ["Women", "Financial Assistance", "DBT"],
+      beneficiaryTypes: ["Individual"],
+      openDate: "2024-07-01",
+      closeDate: "2026-11-30",
+      score: 1,
+    })
+  })
+
+  it("produces items that pass the shared schema", () => {
+    const items = collectSchemeItemsFromUnknownJson(extractNextDataFromHtml(fixture("search-en.html")), URL_EN)
+    expect(validItems(items)).toEqual(items)
+  })
+
+  it("keeps non-Latin titles", () => {
+    const items = collectSchemeItemsFromUnknownJson(extractNextDataFromHtml(fixture("search-hi.html")), "u")
+    expect(items.map((i) => i.title)).toEqual(["प्रधानमंत्री किसान सम्मान निधि", "अटल पेंशन योजना"])
+  })
+
+  it("finds nothing when results are rendered on the client", () => {
+    const data = extractNextDataFromHtml(fixture("search-client-rendered.html"))
+    expect(collectSchemeItemsFromUnknownJson(data, "u")).toEqual([])
+  })
+
+  it("dedupes by href and survives cycles", () => {
+    const hit = { title: "PM-KISAN Scheme", slug: "/schemes/pm-kisan" }
+    const data: any = { a: [hit, { ...hit, title: "PM Kisan Yojana" }], b: { hit } }
+    data.b.self = data
+    const items = collectSchemeItemsFromUnknownJson(data, "u")
+    expect(items).toHaveLength(1)
+    expect(items[0].href).toBe("/schemes/pm-kisan")
+  })
+})
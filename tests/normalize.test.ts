@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest"
+import { canonicalHref, dedupeItems, isNavChrome, normalizeItems, scoreItem, titleKey } from "@/lib/schemes/normalize"
+
+describe("canonicalHref", () => {
+  it.each([
+    ["https://www.myscheme.gov.in/schemes/pm-kisan", "/schemes/pm-kisan"],
+    ["http://myscheme.gov.in/schemes/PM-Kisan/", "/schemes/pm-kisan"],
+    ["schemes/pm-kisan?ref=search#top", "/schemes/pm-kisan"],
+    ["/hi/schemes/pm-kisan", "/schemes/pm-kisan"],
+    ["//schemes//pm-kisan", "/schemes/pm-kisan"],
+    ["/scheme/pm-kisan", "/schemes/pm-kisan"],
+    ["/schemes/?page=2", "/schemes"],
+    ["https://www.myscheme.gov.in/search?q=Goa", "https://www.myscheme.gov.in/search?q=Goa"],
+    ["https://pmkisan.gov.in/", "https://pmkisan.gov.in"],
+    ["/schemes/abc%zz", "/schemes/abc%zz"],
+  ])("%s -> %s", (href, expected) => {
+    expect(canonicalHref(href)).toBe(expected)
+  })
+})
+
+describe("isNavChrome", () => {
+  it.each(["View all schemes", "Read more", "Apply Now", "Home", "सभी योजनाएँ", "›"])("drops %s", (title) => {
+    expect(isNavChrome({ title, href: "/schemes/x-y" })).toBe(true)
+  })
+
+  it("drops listing pages under /schemes", () => {
+    expect(isNavChrome({ title: "Central schemes", href: "/schemes/central" })).toBe(true)
+    expect(isNavChrome({ title: "Atal Pension Yojana", href: "/schemes/apy" })).toBe(false)
+  })
+})
+
+describe("scoreItem", () => {
+  it("adds up the signals an item carries", () => {
+    expect(scoreItem({ title: "Atal Pension Yojana", href: "/schemes/apy" })).toBe(0.55)
+    expect(
+      scoreItem({
+        title: "Atal Pension Yojana",
+        href: "/schemes/apy",
+        description: "Voluntary pension scheme for unorganised workers.",
+        ministry: "Ministry of Finance",
+        tags: ["Pension"],
+      }),
+    ).toBe(1)
+    expect(scoreItem({ title: "Portal", href: "https://example.gov.in" })).toBe(0)
+  })
+})
+
+describe("dedupe", () => {
+  it("ignores a trailing abbreviation but not a qualifier", () => {
+    expect(titleKey("Pradhan Mantri Kisan Samman Nidhi (PM-KISAN)")).toBe("pradhan mantri kisan samman nidhi")
+    expect(titleKey("Pradhan Mantri Awas Yojana (Urban)")).toBe("pradhan mantri awas yojana urban")
+  })
+
+  it("merges near-identical titles into the better-scored copy at the first position", () => {
+    const items = dedupeItems([
+      { title: "Pradhan Mantri Awaas Yojana - Gramin", href: "/schemes/pmayg", score: 0.55 },
+      { title: "Other scheme title", href: "/schemes/other", score: 0.55 },
+      {
+        title: "Pradhan Mantri Awas Yojana Gramin",
+        href: "/schemes/pmay-g",
+        description: "Assistance for building a pucca house.",
+        score: 0.75,
+      },
+    ])
+    expect(items.map((i) => i.href)).toEqual(["/schemes/pmay-g", "/schemes/other"])
+  })
+
+  it("keeps curated entries over equally scored scraped copies of the same scheme", () => {
+    const curated = {
+      id: "central.apy",
+      source: "curated" as const,
+      title: "Atal Pension Yojana",
+      href: "/schemes/apy",
+      score: 1,
+    }
+    const scraped = { title: "Atal Pension Yojana", href: "/schemes/apy", description: "Scraped text here.", score: 1 }
+    expect(dedupeItems([scraped, curated])).toEqual([{ ...curated, description: "Scraped text here." }])
+  })
+
+  it("keeps a scheme page link over a curated search link", () => {
+    const title = "Namo Shetkari Mahasanman Nidhi Yojana"
+    const curated = { id: "mh.nsmny", source: "curated" as const, title, href: "/search?q=Namo", score: 1 }
+    const scraped = { title, href: "/schemes/nsmny", score: 0.55 }
+    expect(dedupeItems([curated, scraped])[0]).toMatchObject({ id: "mh.nsmny", href: "/schemes/nsmny" })
+  })
+
+  it("drops weak candidates", () => {
+    const items = normalizeItems([
+      { title: "Atal Pension Yojana", href: "https://www.myscheme.gov.in/schemes/apy/" },
+      { title: "State portal", href: "https://example.gov.in/" },
+    ])
+    expect(items).toEqual([
+      {
+        id: "myscheme:apy",
+        source: "myscheme",
+        title: "Atal Pension Yojana",
+        href: "/schemes/apy",
+        canonicalUrl: "https://www.myscheme.gov.in/schemes/apy",
+        slug: "apy",
+        score: 0.55,
+      },
+    ])
+  })
+
+  it("skips a malformed link instead of failing the parse", () => {
+    const items = normalizeItems([
+      { title: "Broken Link Yojana", href: "/schemes/abc%zz" },
+      { title: "Atal Pension Yojana", href: "/schemes/apy" },
+    ])
+    expect(items.map((i) => i.href)).toEqual(["/schemes/apy"])
+  })
+})
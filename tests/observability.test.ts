@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { healthStatus, type ProviderInfo } from "@/lib/health"
+import { UpstreamError } from "@/lib/http/client"
+import { currentRequestId, log, withRequest } from "@/lib/log"
+import { providerMetrics, recordProvider, resetMetrics } from "@/lib/metrics"
+import { upstreamFailed } from "@/lib/schemes/pipeline"
+import { PageParseError } from "@/lib/schemes/myscheme"
+import { registerProvider, runProviders } from "@/lib/schemes/providers"
+
+const QUERY = { state: "Maharashtra", district: "Nagpur", query: "Maharashtra Nagpur", lang: "en" } as const
+
+describe("metrics", () => {
+  beforeEach(() => resetMetrics())
+
+  it("summarizes outcomes, success rate and timings per provider", () => {
+    recordProvider("a", "hit", 100)
+    recordProvider("a", "empty", 300)
+    recordProvider("a", "http-error", 200)
+    recordProvider("a", "unhealthy", 0)
+    const [a] = providerMetrics()
+    expect(a).toMatchObject({
+      name: "a",
+      totals: { hit: 1, empty: 1, "http-error": 1 },
+      recent: 3,
+      p50Ms: 200,
+      p95Ms: 300,
+      last: { outcome: "http-error", ms: 200 },
+    })
+    expect(a.successRate).toBeCloseTo(2 / 3)
+  })
+})
+
+describe("runProviders outcomes", () => {
+  beforeEach(() => resetMetrics())
+
+  it("tells HTTP errors from pages it could not parse", async () => {
+    registerProvider({
+      name: "myscheme-next-data",
+      priority: 10,
+      timeoutMs: 1000,
+      search: async () => {
+        throw new PageParseError("no __NEXT_DATA__ in page")
+      },
+    })
+    registerProvider({
+      name: "myscheme-html",
+      priority: 20,
+      timeoutMs: 1000,
+      search: async () => {
+        throw new UpstreamError("www.myscheme.gov.in: HTTP 503", "http", "www.myscheme.gov.in", 503)
+      },
+    })
+    const run = await runProviders(QUERY)
+    expect(run.attempts.map((a) => [a.provider, a.outcome])).toEqual([
+      ["myscheme-next-data", "parse-error"],
+      ["myscheme-html", "http-error"],
+      ["curated", "hit"],
+    ])
+    // Curated items still answer, but the live sources failed
+    expect(run.items.length).toBeGreaterThan(0)
+    expect(upstreamFailed(run)).toBe(true)
+    expect(providerMetrics().find((m) => m.name === "myscheme-html")?.totals).toEqual({ "http-error": 1 })
+  })
+})
+
+describe("withRequest", () => {
+  afterEach(() => vi.restoreAllMocks())
+
+  it("keeps the request ID for everything the handler awaits and logs JSON lines", async () => {
+    const lines: string[] = []
+    vi.spyOn(console, "log").mockImplementation((line) => lines.push(line))
+    const handler = withRequest("/api/test", async () => {
+      await Promise.resolve()
+      log.info("inner", { n: 1 })
+      return new Response(currentRequestId(), { status: 200 })
+    })
+    const res = await handler(new Request("http://localhost/api/test", { headers: { "x-request-id": "req-1" } }))
+    expect(await res.text()).toBe("req-1")
+    const [inner, request] = lines.map((l) => JSON.parse(l))
+    expect(inner).toMatchObject({ level: "info", event: "inner", requestId: "req-1", route: "/api/test", n: 1 })
+    expect(request).toMatchObject({ event: "request", method: "GET", path: "/api/test", status: 200, requestId: "req-1" })
+  })
+
+  it("turns a throw into a logged 500 carrying the request ID", async () => {
+    const errors: string[] = []
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation((line) => errors.push(line))
+    const handler = withRequest("/api/test", async () => {
+      throw new TypeError("boom")
+    })
+    const res = await handler(new Request("http://localhost/api/test"))
+    expect(res.status).toBe(500)
+    const body = await res.json()
+    expect(body.requestId).toMatch(/^[0-9a-f-]{36}$/)
+    expect(JSON.parse(errors[0])).toMatchObject({ event: "request.failed", error: "boom", errorType: "TypeError" })
+  })
+})
+
+describe("healthStatus", () => {
+  const provider = (name: string, disabledUntil = 0): ProviderInfo => ({
+    name,
+    mode: "primary",
+    health: {
+      consecutiveFailures: 0,
+      lastSuccessAt: null,
+      lastHitAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      disabledUntil,
+    },
+  })
+  const series = (name: string, successRate: number, recent = 10) => ({
+    name,
+    totals: {},
+    recent,
+    successRate,
+    p50Ms: 100,
+    p95Ms: 200,
+    last: null,
+  })
+  const closed = { state: "closed" as const, consecutiveFailures: 0, openedAt: null, lastError: null }
+
+  it("is down only when every live source is failing", () => {
+    const providers = [provider("a"), provider("b", Date.now() + 60_000)]
+    const upstreams = [{ host: "www.myscheme.gov.in", breaker: closed }]
+    expect(healthStatus({ providers, providerMetrics: [series("a", 0)], upstreams }).status).toBe("down")
+    expect(healthStatus({ providers, providerMetrics: [series("a", 0.9)], upstreams }).status).toBe("degraded")
+    expect(healthStatus({ providers: [provider("a")], providerMetrics: [series("a", 0.9)], upstreams }).status).toBe(
+      "ok",
+    )
+    // Too few runs to call it failing
+    expect(healthStatus({ providers, providerMetrics: [series("a", 0, 1)], upstreams }).status).toBe("degraded")
+  })
+
+  it("reports a tripped breaker or failed probe as degraded", () => {
+    const providers = [provider("a")]
+    const metrics = [series("a", 1)]
+    const open = { ...closed, state: "open" as const }
+    expect(healthStatus({ providers, providerMetrics: metrics, upstreams: [{ host: "x", breaker: open }] }).status).toBe(
+      "degraded",
+    )
+    const probes = [{ host: "x", ok: false, status: 503, ms: 10 }]
+    expect(healthStatus({ providers, providerMetrics: metrics, upstreams: [], probes }).status).toBe("degraded")
+  })
+})
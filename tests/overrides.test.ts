@@ -0,0 +1,123 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { createSession, verifySession } from "@/lib/admin/auth"
+import {
+  applyOverrides,
+  EMPTY_SCOPE,
+  loadOverrides,
+  OverridesStoreError,
+  overridesFor,
+  saveScope,
+  scopesFor,
+  type ScopeOverrides,
+} from "@/lib/admin/overrides"
+import { catalogFor } from "@/lib/schemes/catalog"
+
+const items = catalogFor("Maharashtra", "Nagpur")
+const [first, second] = items
+// Pinned below by its full myScheme URL, so it needs a scheme page link
+const third = items.filter((i) => i.slug)[2]
+
+describe("applyOverrides", () => {
+  it("hides, edits and pins items by canonical href", () => {
+    const overrides: ScopeOverrides = {
+      ...EMPTY_SCOPE,
+      hidden: [first.href],
+      // Pasted as a full URL with a trailing slash; still matches the scraped "/schemes/<slug>"
+      pinned: [`https://www.myscheme.gov.in${third.href}/`],
+      edits: { [second.href]: { en: { description: "Fixed description" } } },
+    }
+    const out = applyOverrides(items, overrides, { lang: "en" })
+    expect(out.map((i) => i.href)).not.toContain(first.href)
+    expect(out[0].href).toBe(third.href)
+    expect(out.find((i) => i.href === second.href)?.description).toBe("Fixed description")
+    expect(out).toHaveLength(items.length - 1)
+  })
+
+  it("applies text edits only in the language they were made in", () => {
+    const overrides = { ...EMPTY_SCOPE, edits: { [first.href]: { en: { title: "New title" } } } }
+    expect(applyOverrides(items, overrides, { lang: "hi" })[0].title).toBe(first.title)
+  })
+
+  it("lists operator entries first and leaves them out of search pages", () => {
+    const overrides: ScopeOverrides = {
+      ...EMPTY_SCOPE,
+      entries: [
+        {
+          id: "admin.district-camp",
+          title: "District enrolment camp",
+          description: "Help desk for scheme applications at the collector office.",
+          category: "employment",
+          lastVerified: "2026-10-01",
+        },
+      ],
+    }
+    const out = applyOverrides(items, overrides, { lang: "en" })
+    expect(out[0]).toMatchObject({ id: "admin.district-camp", source: "curated" })
+    expect(applyOverrides(items, overrides, { lang: "en", withEntries: false })).toHaveLength(items.length)
+  })
+
+  it("sees the global, state and district scopes for a district", () => {
+    expect(scopesFor("Maharashtra", "Nagpur")).toEqual(["*", "Maharashtra", "Maharashtra/Nagpur"])
+    expect(scopesFor("Maharashtra", "")).toEqual(["*", "Maharashtra"])
+  })
+})
+
+describe("overrides store", () => {
+  let dir: string
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "overrides-"))
+    process.env.OVERRIDES_FILE = path.join(dir, "overrides.json")
+  })
+  afterEach(async () => {
+    delete process.env.OVERRIDES_FILE
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it("persists scopes and merges them for a region", async () => {
+    await saveScope("Maharashtra", { ...EMPTY_SCOPE, hidden: [first.href] })
+    await saveScope("Maharashtra/Nagpur", { ...EMPTY_SCOPE, pinned: [second.href] })
+    const saved = JSON.parse(await readFile(process.env.OVERRIDES_FILE!, "utf8"))
+    expect(Object.keys(saved.scopes)).toEqual(["Maharashtra", "Maharashtra/Nagpur"])
+    const merged = await overridesFor("Maharashtra", "Nagpur")
+    expect(merged.hidden).toEqual([first.href])
+    expect(merged.pinned).toEqual([second.href])
+    expect((await overridesFor("Maharashtra", "Pune")).pinned).toEqual([])
+  })
+
+  it("treats an invalid store as empty instead of failing", async () => {
+    await writeFile(process.env.OVERRIDES_FILE!, JSON.stringify({ version: 1, scopes: { "*": { hidden: 3 } } }))
+    expect((await loadOverrides()).scopes).toEqual({})
+  })
+
+  it("refuses to save over a store that does not parse", async () => {
+    const corrupt = JSON.stringify({ version: 1, scopes: { "*": { hidden: 3 }, Maharashtra: EMPTY_SCOPE } })
+    await writeFile(process.env.OVERRIDES_FILE!, corrupt)
+    await expect(saveScope("Karnataka", { ...EMPTY_SCOPE, hidden: [first.href] })).rejects.toBeInstanceOf(
+      OverridesStoreError,
+    )
+    expect(await readFile(process.env.OVERRIDES_FILE!, "utf8")).toBe(corrupt)
+  })
+})
+
+describe("admin sessions", () => {
+  beforeEach(() => {
+    process.env.ADMIN_PASSWORD = "correct horse"
+  })
+  afterEach(() => {
+    delete process.env.ADMIN_PASSWORD
+  })
+
+  it("accepts its own unexpired tokens only", () => {
+    const now = Date.parse("2026-10-19T10:00:00Z")
+    const token = createSession(now)
+    expect(verifySession(token, now + 1000)).toBe(true)
+    expect(verifySession(token, now + 13 * 60 * 60 * 1000)).toBe(false)
+    const [expires] = token.split(".")
+    expect(verifySession(`${Number(expires) + 1}.${token.split(".")[1]}`, now)).toBe(false)
+    process.env.ADMIN_PASSWORD = "another"
+    expect(verifySession(token, now + 1000)).toBe(false)
+  })
+})
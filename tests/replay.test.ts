@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { fetchText } from "@/lib/schemes/myscheme"
+import { htmlSearchProvider } from "@/lib/schemes/providers/html-search"
+import { nextDataProvider } from "@/lib/schemes/providers/next-data"
+import { findFixture, loadManifest } from "@/lib/schemes/replay"
+import { FIXTURE_DIR, fixture } from "./helpers"
+
+describe("findFixture", () => {
+  it("prefers an exact URL and falls back to the same path", async () => {
+    const manifest = await loadManifest(FIXTURE_DIR)
+    const find = (url: string) => findFixture(manifest, url)?.file
+    expect(find("https://www.myscheme.gov.in/search?q=Karnataka+Mysuru")).toBe("search-client-rendered.html")
+    expect(find("https://www.myscheme.gov.in/search?q=Goa")).toBe("search-en.html")
+    expect(find("https://www.myscheme.gov.in/hi/search?q=Goa")).toBe("search-hi.html")
+    expect(find("https://www.myscheme.gov.in/schemes/unknown")).toBeUndefined()
+  })
+})
+
+describe("replay mode", () => {
+  beforeEach(() => {
+    vi.stubEnv("MYSCHEME_REPLAY", FIXTURE_DIR)
+    vi.spyOn(console, "log").mockImplementation(() => {})
+  })
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it("serves fixtures instead of the live site", async () => {
+    const live = vi.spyOn(globalThis, "fetch")
+    expect(await fetchText("https://www.myscheme.gov.in/schemes/apy")).toBe(fixture("scheme-apy.html"))
+    // Unknown pages fail like a 404 from the live site
+    await expect(fetchText("https://www.myscheme.gov.in/schemes/unknown")).rejects.toMatchObject({ status: 404 })
+    expect(live).not.toHaveBeenCalled()
+  })
+
+  it("feeds the providers", async () => {
+    const query = { state: "Maharashtra", district: "Nagpur", query: "Maharashtra Nagpur", lang: "en" as const }
+    const signal = new AbortController().signal
+    expect((await nextDataProvider.search(query, signal))?.items).toHaveLength(6)
+    expect((await htmlSearchProvider.search(query, signal))?.items).toHaveLength(5)
+  })
+})
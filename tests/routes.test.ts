@@ -0,0 +1,161 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { GET as centres } from "@/app/api/centres/route"
+import { GET as geo } from "@/app/api/geo/route"
+import { GET as detail } from "@/app/api/schemes/[slug]/route"
+import { GET as schemes } from "@/app/api/schemes/route"
+import { STATES } from "@/lib/gazetteer"
+import { UpstreamError } from "@/lib/http/client"
+import { DEGRADED_HEADER } from "@/lib/log"
+import { catalogFor } from "@/lib/schemes/catalog"
+import { middleware } from "@/middleware"
+
+const fetchSchemeDetail = vi.hoisted(() => vi.fn())
+vi.mock("@/lib/schemes/detail", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/schemes/detail")>()),
+  fetchSchemeDetail,
+}))
+
+const upstreamFetch = vi.hoisted(() => vi.fn())
+vi.mock("@/lib/http/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/http/client")>()),
+  upstreamFetch,
+}))
+
+const pipeline = vi.hoisted(() => ({ getListing: vi.fn() }))
+vi.mock("@/lib/schemes/pipeline", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/schemes/pipeline")>()),
+  getListing: pipeline.getListing,
+}))
+
+const request = (path: string) => new NextRequest(new URL(path, "http://localhost"))
+
+// The listing as it comes back when myScheme answered, or failed and only curated schemes are left
+function listing(provider: string | null) {
+  const items = catalogFor("Maharashtra", "Nagpur")
+  const attempts = [{ provider: "myscheme", outcome: provider ? "hit" : "timeout", ms: 10, count: provider ? 5 : 0 }]
+  return { value: { items, provider, attempts, sourceUrl: "", lang: "en" }, items, storedAt: 0, ageMs: 0, stale: false }
+}
+
+describe("/api/schemes", () => {
+  beforeEach(() => pipeline.getListing.mockReset())
+
+  it("flags a curated-only listing after an upstream failure", async () => {
+    pipeline.getListing.mockResolvedValue(listing(null))
+    const res = await schemes(request("/api/schemes?state=Maharashtra&district=Nagpur"))
+    const body = await res.json()
+    expect(res.status).toBe(200)
+    expect(res.headers.get(DEGRADED_HEADER)).toBe("1")
+    expect(body.degraded).toBe(true)
+    expect(body.items.length).toBeGreaterThan(0)
+  })
+
+  it("does not flag a live listing", async () => {
+    pipeline.getListing.mockResolvedValue(listing("myscheme"))
+    const res = await schemes(request("/api/schemes?state=Maharashtra&district=Nagpur"))
+    expect(res.headers.get(DEGRADED_HEADER)).toBeNull()
+    expect((await res.json()).degraded).toBe(false)
+  })
+})
+
+describe("middleware", () => {
+  const from = (path: string, ip: string) =>
+    middleware(new NextRequest(new URL(path, "http://localhost"), { headers: { "x-real-ip": ip } }))
+
+  it("charges an export once per distinct region it lists", () => {
+    const maharashtra = STATES.find((s) => s.name === "Maharashtra")!
+    const regions = maharashtra.districts.slice(0, 25).map((d) => `region=${encodeURIComponent(`27/${d.id}`)}`).join("&")
+    const repeated = Array.from({ length: 60 }, () => "region=MH/Nagpur,Maharashtra/nagpur,Atlantis")
+      .join("&")
+    for (let i = 0; i < 5; i++) expect(from(`/api/export?${repeated}`, "192.0.2.10").status).toBe(200)
+    expect(from(`/api/export?${regions}`, "192.0.2.10").status).toBe(200)
+    expect(from(`/api/export?${regions}`, "192.0.2.10").status).toBe(200)
+    expect(from(`/api/export?${regions}`, "192.0.2.10").status).toBe(429)
+    expect(from("/api/schemes?state=Maharashtra", "192.0.2.10").status).toBe(200)
+    expect(from(`/api/export?${regions}`, "192.0.2.11").status).toBe(200)
+  })
+})
+
+describe("/api/centres", () => {
+  let dir: string | null = null
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    if (dir) await rm(dir, { recursive: true, force: true })
+    dir = null
+  })
+
+  it("lists the bundled head post offices with the CSC helpline to call", async () => {
+    const body = await (await centres(request("/api/centres?lat=21.1524&lon=79.0693&radius=1"))).json()
+    expect(body.coverage).toBe("imported")
+    expect(body.centres[0]).toMatchObject({ kind: "post-office", name: "Nagpur GPO", distanceKm: 0 })
+    expect(body.helplines).toEqual([{ kind: "csc", phone: "1800-121-3468" }])
+  })
+
+  it("passes on a centre's own phone number for the call action", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "centres-"))
+    const file = path.join(dir, "centres.json")
+    const csc = { id: "27.nagpur.csc.sitabuldi", kind: "csc", name: "Sitabuldi CSC", district: "27.nagpur" }
+    const centre = { ...csc, lat: 21.142, lon: 79.083, phone: "0712-2000000" }
+    await writeFile(file, JSON.stringify({ version: 1, coverage: "imported", source: "test", centres: [centre] }))
+    vi.stubEnv("CENTRES_FILE", file)
+    const body = await (await centres(request("/api/centres?state=Maharashtra&district=Nagpur&kind=csc"))).json()
+    expect(body.mode).toBe("district")
+    expect(body.centres).toEqual([expect.objectContaining({ ...csc, phone: "0712-2000000", distanceKm: null })])
+  })
+})
+
+describe("/api/geo", () => {
+  beforeEach(() => {
+    upstreamFetch.mockReset()
+    upstreamFetch.mockRejectedValue(new UpstreamError("circuit open", "circuit-open", "nominatim.openstreetmap.org"))
+  })
+
+  it("asks Nominatim for the district inside a state the boundaries know", async () => {
+    const address = { state: "Maharashtra", state_district: "Nagpur" }
+    upstreamFetch.mockResolvedValueOnce(new Response(JSON.stringify({ address }), { status: 200 }))
+    const res = await geo(request("/api/geo?lat=21.16&lon=79.08"))
+    expect(await res.json()).toMatchObject({ district: "Nagpur", districtCode: "27.nagpur", source: "nominatim" })
+  })
+
+  it("falls back to the bundled state while Nominatim is unavailable", async () => {
+    const res = await geo(request("/api/geo?lat=21.15&lon=79.09"))
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({
+      state: "Maharashtra",
+      stateCode: "27",
+      district: null,
+      source: "boundaries",
+      coverage: "states",
+    })
+    expect(upstreamFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("passes the Nominatim error on for points the boundaries do not cover", async () => {
+    const res = await geo(request("/api/geo?lat=15&lon=70"))
+    expect(res.status).toBe(503)
+    expect((await res.json()).state).toBeNull()
+  })
+})
+
+describe("/api/schemes/[slug]", () => {
+  const get = (slug: string) => detail(request(`/api/schemes/${slug}`), { params: Promise.resolve({ slug }) })
+
+  it.each([
+    ["an upstream 404", new UpstreamError("not found", "http", "www.myscheme.gov.in", 404), 404],
+    ["an upstream 500", new UpstreamError("server error", "http", "www.myscheme.gov.in", 500), 502],
+    ["a timeout", new UpstreamError("timed out", "timeout", "www.myscheme.gov.in"), 504],
+    ["an open circuit", new UpstreamError("circuit open", "circuit-open", "www.myscheme.gov.in"), 503],
+    ["a full queue", new UpstreamError("queue full", "queue-full", "www.myscheme.gov.in"), 503],
+    ["a network error", new UpstreamError("ECONNRESET", "network", "www.myscheme.gov.in"), 502],
+    ["a bug", new TypeError("boom"), 500],
+  ])("answers %s with %i", async (_, error, status) => {
+    fetchSchemeDetail.mockRejectedValueOnce(error)
+    // A slug per case, so no cached or in-flight result is shared between them
+    const res = await get(`case-${status}-${error.message.replace(/\W+/g, "-").toLowerCase()}`)
+    expect(res.status).toBe(status)
+    expect((await res.json()).detail).toBeNull()
+  })
+})
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { STATES } from "@/lib/gazetteer"
+import { LOCALES } from "@/lib/i18n"
+import { catalogFor } from "@/lib/schemes/catalog"
+import { validItems } from "@/lib/schemes/pipeline"
+import { SchemeItemSchema } from "@/lib/schemes/schema"
+
+describe("SchemeItemSchema", () => {
+  it("accepts every curated entry in every language", () => {
+    for (const state of STATES) {
+      for (const lang of LOCALES) {
+        const items = catalogFor(state.name, state.districts[0]?.name ?? "", lang)
+        expect(validItems(items)).toHaveLength(items.length)
+      }
+    }
+  })
+
+  it("rejects items without an ID, source or canonical URL", () => {
+    const item = { title: "Atal Pension Yojana", href: "/schemes/apy" }
+    expect(SchemeItemSchema.safeParse(item).success).toBe(false)
+    expect(
+      SchemeItemSchema.safeParse({
+        ...item,
+        id: "myscheme:apy",
+        source: "myscheme",
+        canonicalUrl: "https://www.myscheme.gov.in/schemes/apy",
+      }).success,
+    ).toBe(true)
+  })
+})
+
+describe("catalogFor", () => {
+  const housing = (state: string, district: string) => catalogFor(state, district).find((i) => i.id === "central.pmay-u")
+
+  it("finds district entries by gazetteer district, whatever name or code the caller used", () => {
+    for (const [state, district] of [["Maharashtra", "Nagpur"], ["MH", "नागपूर"], ["27", "27.nagpur"]]) {
+      expect(housing(state, district)?.level, district).toBe("state")
+    }
+    expect(housing("Maharashtra", "Pune")?.level).toBe("central")
+  })
+})
+
+describe("validItems", () => {
+  afterEach(() => vi.restoreAllMocks())
+
+  it("drops invalid items with a structured warning", () => {
+    const lines: string[] = []
+    vi.spyOn(console, "log").mockImplementation((line) => lines.push(line))
+    const [valid] = catalogFor("Maharashtra", "Nagpur")
+    expect(validItems([valid, { title: "Atal Pension Yojana", href: "/schemes/apy" }, null])).toEqual([valid])
+    const dropped = lines.map((l) => JSON.parse(l))
+    expect(dropped).toHaveLength(2)
+    expect(dropped[0]).toMatchObject({ level: "warn", event: "schema.item_dropped", href: "/schemes/apy" })
+    expect(dropped[0].issue).toEqual(expect.any(String))
+    expect(dropped[1].href).toBeUndefined()
+  })
+})
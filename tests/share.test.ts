@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest"
+import gazetteer from "@/data/regions/india.json"
+import { translate, type MessageKey } from "@/lib/i18n"
+import { catalogFor } from "@/lib/schemes/catalog"
+import {
+  categoryParam,
+  filterByCategory,
+  permalinkPath,
+  publicOrigin,
+  regionFromSlugs,
+  regionSlug,
+  shareSms,
+  SMS_MAX_SCHEMES,
+} from "@/lib/share"
+import { smsEncoding, smsLength } from "@/lib/sms"
+
+const en = (key: MessageKey, vars?: Record<string, string | number>) => translate("en", key, vars)
+const hi = (key: MessageKey, vars?: Record<string, string | number>) => translate("hi", key, vars)
+
+describe("permalinks", () => {
+  it("builds readable paths that resolve back to the region", () => {
+    expect(regionSlug("Jammu and Kashmir")).toBe("jammu-and-kashmir")
+    expect(permalinkPath("Maharashtra", "Nagpur", "health")).toBe("/r/maharashtra/nagpur?cat=health")
+    expect(permalinkPath("Tamil Nadu", null)).toBe("/r/tamil-nadu")
+    expect(regionFromSlugs("maharashtra", "nagpur")).toMatchObject({ state: "Maharashtra", district: "Nagpur" })
+    expect(regionFromSlugs("tamil-nadu")).toMatchObject({ state: "Tamil Nadu", district: null })
+    expect(regionFromSlugs("atlantis")).toBeNull()
+    // Route params arrive decoded; a stray "%" is an unknown name, not an error
+    expect(regionFromSlugs("100%", "50%zz")).toBeNull()
+  })
+
+  it("round-trips every state and district in the gazetteer", () => {
+    const failures: string[] = []
+    for (const state of gazetteer.states) {
+      const [, stateSlug] = permalinkPath(state.name).split("/").slice(1)
+      if (regionFromSlugs(stateSlug)?.state !== state.name) failures.push(state.name)
+      for (const district of state.districts) {
+        const [, s, d] = permalinkPath(state.name, district.name).split("/").slice(1)
+        const match = regionFromSlugs(s, d)
+        if (match?.state !== state.name || match.district !== district.name) failures.push(`${state.name}/${district.name}`)
+      }
+    }
+    expect(failures).toEqual([])
+  })
+
+  it("accepts only known categories", () => {
+    expect(categoryParam("health")).toBe("health")
+    expect(categoryParam("<script>")).toBeNull()
+    expect(categoryParam(null)).toBeNull()
+  })
+
+  it("prefers the configured public origin over request headers", () => {
+    const headers: Record<string, string> = {
+      host: "10.0.0.5:3000",
+      "x-forwarded-host": "schemes.example.org",
+      "x-forwarded-proto": "https",
+    }
+    process.env.PUBLIC_BASE_URL = "https://share.example.org/"
+    try {
+      expect(publicOrigin((h) => headers[h] ?? null)).toBe("https://share.example.org")
+    } finally {
+      delete process.env.PUBLIC_BASE_URL
+    }
+  })
+
+  it("ignores forwarded hosts that are not allowed", () => {
+    const headers: Record<string, string> = {
+      host: "schemes.example.org",
+      "x-forwarded-host": "evil.example.com",
+      "x-forwarded-proto": "https",
+    }
+    expect(publicOrigin((h) => headers[h] ?? null)).toBe("https://schemes.example.org")
+    process.env.TRUSTED_FORWARDED_HOSTS = "schemes.example.org, yojana.example.in"
+    try {
+      expect(publicOrigin((h) => headers[h] ?? null)).toBe("https://schemes.example.org")
+      headers["x-forwarded-host"] = "yojana.example.in"
+      expect(publicOrigin((h) => headers[h] ?? null)).toBe("https://yojana.example.in")
+    } finally {
+      delete process.env.TRUSTED_FORWARDED_HOSTS
+    }
+  })
+})
+
+describe("shareSms", () => {
+  const items = catalogFor("Maharashtra", "Nagpur")
+  const args = {
+    region: "Nagpur, Maharashtra",
+    items,
+    origin: "https://schemes.example.org",
+    permalink: "/r/maharashtra/nagpur",
+  }
+
+  it("lists schemes with short links and ends with the permalink", () => {
+    const text = shareSms({ ...args, t: en }).join("\n")
+    expect(text).toMatch(/^Schemes for Nagpur, Maharashtra:\n1\. /)
+    expect(text).toContain("schemes.example.org/s/")
+    expect(text).not.toContain("https://")
+    expect(text.endsWith("Full list: schemes.example.org/r/maharashtra/nagpur")).toBe(true)
+    if (items.length > SMS_MAX_SCHEMES) expect(text).toContain(`+${items.length - SMS_MAX_SCHEMES} more`)
+  })
+
+  it("keeps every message within one segment without splitting entries", () => {
+    for (const t of [en, hi]) {
+      for (const part of shareSms({ ...args, t })) {
+        expect(smsLength(part)).toBeLessThanOrEqual(smsEncoding(part) === "gsm7" ? 160 : 70)
+        for (const line of part.split("\n").slice(1)) expect(line).toMatch(/^(\d+\. |\+|पूरी सूची|Full list)/)
+      }
+    }
+  })
+
+  it("filters by category", () => {
+    const health = filterByCategory(items, "health")
+    expect(health.length).toBeGreaterThan(0)
+    expect(health.every((i) => i.categories?.includes("health"))).toBe(true)
+    expect(filterByCategory(items, null)).toBe(items)
+  })
+})